@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { findNearestCity, searchGazetteer } from '../gazetteer';
+
+describe('searchGazetteer', () => {
+  it('matches name prefixes, nicknames and accents', () => {
+    expect(searchGazetteer('san', 4).map(city => city.name)).toEqual([
+      'San Francisco', 'San Jose', 'San Diego', 'San Antonio',
+    ]);
+    expect(searchGazetteer('Portland')[0]).toMatchObject({ name: 'Portland', region: 'OR', country: 'United States' });
+    expect(searchGazetteer('NYC')[0].name).toBe('New York');
+    expect(searchGazetteer('la')[0].name).toBe('Los Angeles'); // before Las Vegas and Lagos
+    expect(searchGazetteer('São Paulo')[0].name).toBe('Sao Paulo');
+  });
+
+  it('narrows by region or country after a comma', () => {
+    expect(searchGazetteer('cambridge, ma')).toHaveLength(1);
+    expect(searchGazetteer('vancouver, canada')[0]).toMatchObject({ region: 'BC' });
+    expect(searchGazetteer('paris, tx')).toEqual([]);
+    expect(searchGazetteer(' , ')).toEqual([]);
+  });
+});
+
+describe('findNearestCity', () => {
+  it('names the city within reach, and nothing out in the country', () => {
+    expect(findNearestCity(47.655, -122.308)?.name).toBe('Seattle'); // UW campus
+    expect(findNearestCity(47.617, -122.2)?.name).toBe('Bellevue');
+    expect(findNearestCity(44.5, -110.5)).toBeNull(); // Yellowstone
+  });
+});
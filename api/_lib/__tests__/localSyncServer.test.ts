@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { PassThrough } from 'stream';
+import type { Connect, PreviewServer } from 'vite';
+import { localSyncServer } from '../localSyncServer';
+
+interface SentResponse {
+  status: number;
+  body: string;
+}
+
+// The middleware the plugin mounts on /api/sync
+const getMiddleware = (): Connect.NextHandleFunction => {
+  let middleware: Connect.NextHandleFunction | undefined;
+  const server = {
+    middlewares: { use: (_path: string, handler: Connect.NextHandleFunction) => { middleware = handler; } },
+  } as unknown as PreviewServer;
+  const { configurePreviewServer } = localSyncServer();
+  (configurePreviewServer as (server: PreviewServer) => void)(server);
+  return middleware!;
+};
+
+// POST a raw body through the middleware and collect the response
+const post = (body: string): Promise<SentResponse> =>
+  new Promise((resolve) => {
+    const req = Object.assign(new PassThrough(), {
+      method: 'POST',
+      url: '/',
+      headers: { 'x-sync-space': 'test-space-0123456789' },
+    });
+    const res = {
+      statusCode: 200,
+      setHeader: () => undefined,
+      end(data?: string) { resolve({ status: res.statusCode, body: data ?? '' }); },
+    };
+    getMiddleware()(req as unknown as Connect.IncomingMessage, res as never, () => undefined);
+    req.end(body);
+  });
+
+describe('localSyncServer', () => {
+  it('refuses bodies over the size limit with a 413', async () => {
+    const response = await post(JSON.stringify({ payload: 'x'.repeat(5 * 1024 * 1024) }));
+    expect(response.status).toBe(413);
+    expect(JSON.parse(response.body)).toEqual({ success: false, error: 'Request body too large' });
+  });
+
+  it('refuses bodies that are not JSON with a 400', async () => {
+    const response = await post('{ not json');
+    expect(response.status).toBe(400);
+    expect(JSON.parse(response.body)).toEqual({ success: false, error: 'Invalid JSON' });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { mapOpenMeteoResponse } from '../openMeteoProvider';
+
+// A recorded Open-Meteo response for Seattle on 2026-10-19 (7 days of hourly data)
+const RECORDING = JSON.parse(
+  readFileSync(path.resolve(__dirname, '../fixtures/weather/47.6_-122.3_2026-10-19.json'), 'utf8')
+);
+
+const getForecast = () => mapOpenMeteoResponse(RECORDING).forecast;
+
+describe('mapOpenMeteoResponse', () => {
+  it("keeps only today's hours, in the location's time zone", () => {
+    const { timezone, hourly } = getForecast();
+
+    expect(timezone).toBe('America/Los_Angeles');
+    expect(hourly).toHaveLength(24);
+    expect(hourly[0].time).toBe('2026-10-19T00:00');
+    expect(hourly[23].time).toBe('2026-10-19T23:00');
+  });
+
+  it('maps each hour, rounding temperatures and UV', () => {
+    const { hourly } = getForecast();
+
+    // 14:00 - rain moves in
+    expect(hourly[14]).toEqual({
+      time: '2026-10-19T14:00',
+      temperature: 62,
+      feelsLike: 61,
+      precipitationProbability: 80,
+      precipitation: 0.08,
+      windSpeed: 10,
+      windGusts: 28,
+      uvIndex: 1.2,
+      condition: 'Light Rain',
+    });
+  });
+
+  it('summarizes the next 7 days', () => {
+    const { daily } = getForecast();
+
+    expect(daily.map(day => day.date)).toEqual([
+      '2026-10-19', '2026-10-20', '2026-10-21', '2026-10-22', '2026-10-23', '2026-10-24', '2026-10-25',
+    ]);
+    expect(daily.map(day => [day.high, day.low])).toEqual([[62, 45], [58, 47], [55, 44], [57, 42], [60, 41], [63, 43], [59, 46]]);
+    expect(daily.map(day => day.precipitationProbability)).toEqual([80, 90, 60, 20, 10, 5, 70]);
+    expect(daily.map(day => day.windGusts)).toEqual([28, 28, 28, 20, 20, 20, 28]);
+    expect(daily.every(day => day.uvIndex === 3.2)).toBe(true);
+    expect(daily[1]).toMatchObject({ feelsLikeHigh: 57, feelsLikeLow: 44, precipitation: 1.2, condition: 'Rainy' });
+  });
+});
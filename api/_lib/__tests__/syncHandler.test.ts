@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { handleSyncRequest, type SyncRequest } from '../syncHandler';
+import { FileSyncStore } from '../fileSyncStore';
+import type { SyncChange } from '../../../src/types';
+
+const SPACE = 'test-space-0123456789';
+const PAYLOAD = 'v2.aXY.Y2lwaGVydGV4dA';
+const ENVELOPE = { version: 2, salt: 'c2FsdA', iterations: 600000, wrappedKey: 'a2V5', verifier: 'dmVyaWZpZXI' };
+
+const change = (id: string, data: SyncChange['data'], clock = 1): SyncChange => ({
+  collection: 'wardrobe',
+  id,
+  baseRevision: 0,
+  data,
+  fieldClock: data ? Object.fromEntries(Object.keys(data).map(field => [field, clock])) : {},
+  ...(data === null && { deletedAt: clock }),
+});
+
+describe('handleSyncRequest', () => {
+  let root: string;
+  let store: FileSyncStore;
+
+  const send = (request: Partial<SyncRequest>) =>
+    handleSyncRequest({ method: 'GET', path: '/', space: SPACE, query: {}, body: undefined, ...request }, store);
+
+  const startSpace = () => send({ method: 'PUT', path: '/key', body: { envelope: ENVELOPE } });
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'fitted-sync-test-'));
+    store = new FileSyncStore(root);
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('refuses bad sync codes, and spaces nobody has started', async () => {
+    expect((await send({ space: 'short' })).status).toBe(401);
+    expect((await send({ space: '../../etc/passwd' })).status).toBe(401);
+    expect((await send({})).status).toBe(404);
+    expect((await send({ path: '/key' })).status).toBe(404);
+  });
+
+  it('sets the key once', async () => {
+    expect((await startSpace()).status).toBe(200);
+    expect((await startSpace()).status).toBe(409);
+    expect((await send({ path: '/key' })).body).toMatchObject({ envelope: ENVELOPE });
+  });
+
+  it('only takes encrypted payloads and file-safe ids', async () => {
+    await startSpace();
+
+    const plaintext = await send({ method: 'POST', body: { changes: [change('item-1', { name: 'Blue shirt' })] } });
+    expect(plaintext.status).toBe(400);
+    expect((await send({ method: 'PUT', path: '/images/item-1', body: { payload: 'data:image/png;base64,AAAA' } })).status).toBe(400);
+
+    expect((await send({ method: 'POST', body: { changes: [change('../x', { name: PAYLOAD })] } })).status).toBe(400);
+    expect((await send({ method: 'PUT', path: `/images/${encodeURIComponent('../x')}`, body: { payload: PAYLOAD } })).status).toBe(400);
+  });
+
+  it('numbers every change and returns only those after `since`', async () => {
+    await startSpace();
+
+    const first = await send({ method: 'POST', body: { changes: [change('item-1', { name: PAYLOAD }), change('item-2', { name: PAYLOAD })] } });
+    const second = await send({ method: 'POST', body: { changes: [change('item-3', { name: PAYLOAD })] } });
+    expect(first.body).toMatchObject({ revision: 2 });
+    expect(second.body).toMatchObject({ revision: 3 });
+
+    const all = await send({ query: { since: '0' } });
+    const later = await send({ query: { since: '2' } });
+    expect((all.body?.documents as { id: string }[]).map(document => document.id)).toEqual(['item-1', 'item-2', 'item-3']);
+    expect((later.body?.documents as { id: string }[]).map(document => document.id)).toEqual(['item-3']);
+    expect((await send({ query: { since: '-1' } })).status).toBe(400);
+  });
+
+  it("removes a deleted item's image", async () => {
+    await startSpace();
+    await send({ method: 'POST', body: { changes: [change('item-1', { name: PAYLOAD })] } });
+    await send({ method: 'PUT', path: '/images/item-1', body: { payload: PAYLOAD } });
+    expect((await send({ path: '/images/item-1' })).body).toMatchObject({ payload: PAYLOAD });
+
+    await send({ method: 'POST', body: { changes: [{ ...change('item-1', null, 2), baseRevision: 1 }] } });
+    expect((await send({ path: '/images/item-1' })).status).toBe(404);
+  });
+
+  it("answers 503 without a store, and doesn't pass store errors on", async () => {
+    const result = await handleSyncRequest({ method: 'GET', path: '/', space: SPACE, query: {}, body: undefined }, null);
+    expect(result.status).toBe(503);
+
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(store, 'getKey').mockRejectedValue(new Error(`EACCES: permission denied, open '${root}/key.json'`));
+    expect(await send({})).toEqual({ status: 500, body: { success: false, error: 'Sync failed' } });
+    vi.restoreAllMocks();
+  });
+});
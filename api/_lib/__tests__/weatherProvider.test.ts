@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import path from 'path';
+import { FixtureWeatherProvider } from '../fixtureWeatherProvider';
+import { CachedWeatherProvider } from '../weatherCache';
+import type { WeatherForecast, WeatherProvider } from '../weatherProvider';
+
+const FIXTURE_DIR = path.resolve(__dirname, '../fixtures/weather');
+const SEATTLE = { latitude: 47.6062, longitude: -122.3321 };
+
+describe('FixtureWeatherProvider', () => {
+  it('replays the latest recording for the rounded coordinates', async () => {
+    const { current, forecast } = await new FixtureWeatherProvider(FIXTURE_DIR)
+      .getForecast(SEATTLE.latitude, SEATTLE.longitude);
+
+    expect(current.time).toBe('2026-10-19T09:15');
+    expect(current.condition).toBe('Overcast');
+    expect(forecast.timezone).toBe('America/Los_Angeles');
+    expect(forecast.hourly).toHaveLength(24);
+    expect(forecast.hourly.every(hour => hour.time.startsWith('2026-10-19'))).toBe(true);
+    expect(forecast.daily.map(day => day.date)[6]).toBe('2026-10-25');
+    expect(forecast.daily[0]).toMatchObject({ high: 62, low: 45, precipitationProbability: 80, condition: 'Light Rain' });
+  });
+
+  it('says which recording is missing', async () => {
+    const provider = new FixtureWeatherProvider(FIXTURE_DIR, '2026-01-01');
+    await expect(provider.getForecast(SEATTLE.latitude, SEATTLE.longitude))
+      .rejects.toThrow('No recorded weather for 47.6, -122.3 on 2026-01-01');
+    await expect(new FixtureWeatherProvider(FIXTURE_DIR).getForecast(40.7, -74))
+      .rejects.toThrow('No recorded weather for 40.7, -74');
+  });
+});
+
+describe('CachedWeatherProvider', () => {
+  const forecast = {} as WeatherForecast;
+  const fakeProvider = (result: () => Promise<WeatherForecast> = () => Promise.resolve(forecast)) => {
+    const getForecast = vi.fn(result);
+    return { provider: { name: 'fake', getForecast } as WeatherProvider, getForecast };
+  };
+
+  it('makes one upstream call for nearby coordinates, including concurrent ones', async () => {
+    const { provider, getForecast } = fakeProvider();
+    const cache = new CachedWeatherProvider(provider);
+
+    await Promise.all([
+      cache.getForecast(47.6062, -122.3321),
+      cache.getForecast(47.6249, -122.2982),
+    ]);
+    await cache.getForecast(47.58, -122.31);
+
+    expect(getForecast).toHaveBeenCalledTimes(1);
+    expect(getForecast).toHaveBeenCalledWith(47.6, -122.3);
+  });
+
+  it('calls upstream again once the cached forecast expires', async () => {
+    const { provider, getForecast } = fakeProvider();
+    let now = 0;
+    const cache = new CachedWeatherProvider(provider, 1000, () => now);
+
+    await cache.getForecast(47.6, -122.3);
+    now = 1001;
+    await cache.getForecast(47.6, -122.3);
+
+    expect(getForecast).toHaveBeenCalledTimes(2);
+    expect(cache.size()).toBe(1);
+  });
+
+  it("doesn't keep failures", async () => {
+    const { provider, getForecast } = fakeProvider(() => Promise.reject(new Error('Open-Meteo API error: 503')));
+    const cache = new CachedWeatherProvider(provider);
+
+    await expect(cache.getForecast(47.6, -122.3)).rejects.toThrow('503');
+    expect(cache.size()).toBe(0);
+    await expect(cache.getForecast(47.6, -122.3)).rejects.toThrow('503');
+    expect(getForecast).toHaveBeenCalledTimes(2);
+  });
+});
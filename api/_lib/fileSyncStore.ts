@@ -0,0 +1,145 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { SyncChange, SyncDocument, SyncKeyEnvelope } from '../../src/types';
+import { getDocumentKey, mergeDocument } from '../../src/utils/syncMerge';
+
+interface SpaceData {
+  revision: number;
+  documents: Record<string, SyncDocument>;
+}
+
+/**
+ * File-system sync store
+ *
+ * Each sync space is a directory holding `key.json` (the passphrase-encrypted
+ * sync key), `documents.json` (every document and the space's revision counter)
+ * and an `images/` folder keyed by item id. Everything but document ids, field
+ * names and clocks is encrypted by the client. Writes to a space are
+ * serialized, and files are replaced atomically.
+ */
+export class FileSyncStore {
+  private static instance: FileSyncStore | null = null;
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly root: string) {}
+
+  // Data lives in SYNC_DATA_DIR; without it there is no store, since a serverless
+  // temp dir doesn't outlive the instance and writes to it would be lost
+  static getInstance(): FileSyncStore | null {
+    if (!FileSyncStore.instance && process.env.SYNC_DATA_DIR) {
+      FileSyncStore.instance = new FileSyncStore(process.env.SYNC_DATA_DIR);
+    }
+    return FileSyncStore.instance;
+  }
+
+  /**
+   * Documents changed after `since`, oldest first
+   */
+  async pull(space: string, since: number): Promise<{ revision: number; documents: SyncDocument[] }> {
+    const data = await this.read(space);
+    const documents = Object.values(data.documents)
+      .filter(document => document.revision > since)
+      .sort((a, b) => a.revision - b.revision);
+    return { revision: data.revision, documents };
+  }
+
+  /**
+   * Merge changes in; returns the resulting version of every pushed document
+   */
+  push(space: string, changes: SyncChange[]): Promise<{ revision: number; documents: SyncDocument[] }> {
+    return this.withLock(space, async () => {
+      const data = await this.read(space);
+      const merged: SyncDocument[] = [];
+      const deletedImages: string[] = [];
+
+      changes.forEach(change => {
+        const key = getDocumentKey(change.collection, change.id);
+        const current = data.documents[key];
+        let document = mergeDocument(current, change);
+
+        if (document !== current) {
+          document = { ...document, revision: ++data.revision };
+          data.documents[key] = document;
+          if (document.collection === 'wardrobe' && document.data === null) deletedImages.push(document.id);
+        }
+        merged.push(document);
+      });
+
+      await this.write(space, data);
+      await Promise.all(deletedImages.map(id => fs.rm(this.imagePath(space, id), { force: true })));
+      return { revision: data.revision, documents: merged };
+    });
+  }
+
+  getImage(space: string, id: string): Promise<string | null> {
+    return this.readIfExists(this.imagePath(space, id));
+  }
+
+  putImage(space: string, id: string, payload: string): Promise<void> {
+    return this.withLock(space, () => this.writeAtomically(this.imagePath(space, id), payload));
+  }
+
+  async getKey(space: string): Promise<SyncKeyEnvelope | null> {
+    const contents = await this.readIfExists(this.keyPath(space));
+    return contents ? JSON.parse(contents) : null;
+  }
+
+  /**
+   * Store a new space's key envelope; false if the space already has one
+   * (the key never changes, or devices would lose access to existing data)
+   */
+  putKey(space: string, envelope: SyncKeyEnvelope): Promise<boolean> {
+    return this.withLock(space, async () => {
+      if (await this.readIfExists(this.keyPath(space))) return false;
+      await this.writeAtomically(this.keyPath(space), JSON.stringify(envelope));
+      return true;
+    });
+  }
+
+  private async readIfExists(file: string): Promise<string | null> {
+    try {
+      return await fs.readFile(file, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async read(space: string): Promise<SpaceData> {
+    const contents = await this.readIfExists(this.documentsPath(space));
+    return contents ? JSON.parse(contents) : { revision: 0, documents: {} };
+  }
+
+  private write(space: string, data: SpaceData): Promise<void> {
+    return this.writeAtomically(this.documentsPath(space), JSON.stringify(data));
+  }
+
+  private async writeAtomically(file: string, contents: string): Promise<void> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temp, contents);
+    await fs.rename(temp, file);
+  }
+
+  // Spaces and ids are validated by the handler before they get here
+  private documentsPath(space: string) {
+    return path.join(this.root, space, 'documents.json');
+  }
+
+  private keyPath(space: string) {
+    return path.join(this.root, space, 'key.json');
+  }
+
+  private imagePath(space: string, id: string) {
+    return path.join(this.root, space, 'images', id);
+  }
+
+  private withLock<T>(space: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(space) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.locks.set(space, next);
+    return next.finally(() => {
+      if (this.locks.get(space) === next) this.locks.delete(space);
+    });
+  }
+}
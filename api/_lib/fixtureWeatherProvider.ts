@@ -0,0 +1,45 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getFixtureName, roundCoordinate, type WeatherForecast, type WeatherProvider } from './weatherProvider';
+import { mapOpenMeteoResponse } from './openMeteoProvider';
+
+/**
+ * Replays recorded Open-Meteo responses instead of calling the network
+ *
+ * Recordings are named by rounded coordinates and local date (see getFixtureName)
+ * and can be captured with WEATHER_RECORD_DIR. Without a fixed `date`, the latest
+ * recording for the coordinates is served. Replays go through the same mapping
+ * as live responses, so weather-dependent behavior can be tested offline.
+ */
+export class FixtureWeatherProvider implements WeatherProvider {
+  readonly name = 'fixture';
+
+  constructor(private readonly dir: string, private readonly date?: string) {}
+
+  async getForecast(latitude: number, longitude: number): Promise<WeatherForecast> {
+    const file = this.date
+      ? getFixtureName(latitude, longitude, this.date)
+      : await this.findLatest(latitude, longitude);
+
+    try {
+      return mapOpenMeteoResponse(JSON.parse(await fs.readFile(path.join(this.dir, file), 'utf8')));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') throw this.missing(latitude, longitude);
+      throw error;
+    }
+  }
+
+  private async findLatest(latitude: number, longitude: number): Promise<string> {
+    const prefix = `${roundCoordinate(latitude)}_${roundCoordinate(longitude)}_`;
+    const files = await fs.readdir(this.dir).catch(() => [] as string[]);
+    // Dates are ISO, so the latest sorts last
+    const latest = files.filter(file => file.startsWith(prefix) && file.endsWith('.json')).sort().pop();
+    if (!latest) throw this.missing(latitude, longitude);
+    return latest;
+  }
+
+  private missing(latitude: number, longitude: number): Error {
+    const date = this.date ? ` on ${this.date}` : '';
+    return new Error(`No recorded weather for ${roundCoordinate(latitude)}, ${roundCoordinate(longitude)}${date} in ${this.dir}`);
+  }
+}
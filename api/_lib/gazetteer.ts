@@ -0,0 +1,212 @@
+import type { GeocodeResult } from '../../src/types';
+
+// [name, region, country, latitude, longitude, aliases?]
+// Roughly by how often people will look for them (search results keep this order)
+type GazetteerEntry = [string, string | null, string, number, number, string[]?];
+
+const US = 'United States';
+
+const CITIES: GazetteerEntry[] = [
+  ['Seattle', 'WA', US, 47.6062, -122.3321],
+  ['New York', 'NY', US, 40.7128, -74.006, ['nyc', 'new york city', 'manhattan']],
+  ['San Francisco', 'CA', US, 37.7749, -122.4194, ['sf']],
+  ['Los Angeles', 'CA', US, 34.0522, -118.2437, ['la']],
+  ['Chicago', 'IL', US, 41.8781, -87.6298],
+  ['Washington', 'DC', US, 38.9072, -77.0369, ['dc', 'washington dc']],
+  ['Boston', 'MA', US, 42.3601, -71.0589],
+  ['Austin', 'TX', US, 30.2672, -97.7431],
+  ['Portland', 'OR', US, 45.5152, -122.6784],
+  ['San Jose', 'CA', US, 37.3382, -121.8863],
+  ['San Diego', 'CA', US, 32.7157, -117.1611],
+  ['Denver', 'CO', US, 39.7392, -104.9903],
+  ['Houston', 'TX', US, 29.7604, -95.3698],
+  ['Dallas', 'TX', US, 32.7767, -96.797],
+  ['Atlanta', 'GA', US, 33.749, -84.388],
+  ['Miami', 'FL', US, 25.7617, -80.1918],
+  ['Phoenix', 'AZ', US, 33.4484, -112.074],
+  ['Philadelphia', 'PA', US, 39.9526, -75.1652],
+  ['San Antonio', 'TX', US, 29.4241, -98.4936],
+  ['Jacksonville', 'FL', US, 30.3322, -81.6557],
+  ['Fort Worth', 'TX', US, 32.7555, -97.3308],
+  ['Columbus', 'OH', US, 39.9612, -82.9988],
+  ['Charlotte', 'NC', US, 35.2271, -80.8431],
+  ['Indianapolis', 'IN', US, 39.7684, -86.1581],
+  ['Nashville', 'TN', US, 36.1627, -86.7816],
+  ['Detroit', 'MI', US, 42.3314, -83.0458],
+  ['Las Vegas', 'NV', US, 36.1699, -115.1398],
+  ['Memphis', 'TN', US, 35.1495, -90.049],
+  ['Louisville', 'KY', US, 38.2527, -85.7585],
+  ['Baltimore', 'MD', US, 39.2904, -76.6122],
+  ['Milwaukee', 'WI', US, 43.0389, -87.9065],
+  ['Albuquerque', 'NM', US, 35.0844, -106.6504],
+  ['Tucson', 'AZ', US, 32.2226, -110.9747],
+  ['Fresno', 'CA', US, 36.7378, -119.7871],
+  ['Sacramento', 'CA', US, 38.5816, -121.4944],
+  ['Kansas City', 'MO', US, 39.0997, -94.5786],
+  ['Raleigh', 'NC', US, 35.7796, -78.6382],
+  ['Omaha', 'NE', US, 41.2565, -95.9345],
+  ['Minneapolis', 'MN', US, 44.9778, -93.265],
+  ['Oakland', 'CA', US, 37.8044, -122.2712],
+  ['Tulsa', 'OK', US, 36.154, -95.9928],
+  ['Cleveland', 'OH', US, 41.4993, -81.6944],
+  ['New Orleans', 'LA', US, 29.9511, -90.0715],
+  ['Tampa', 'FL', US, 27.9506, -82.4572],
+  ['Pittsburgh', 'PA', US, 40.4406, -79.9959],
+  ['Cincinnati', 'OH', US, 39.1031, -84.512],
+  ['St. Louis', 'MO', US, 38.627, -90.1994, ['saint louis']],
+  ['Orlando', 'FL', US, 28.5383, -81.3792],
+  ['Salt Lake City', 'UT', US, 40.7608, -111.891, ['slc']],
+  ['Honolulu', 'HI', US, 21.3069, -157.8583],
+  ['Anchorage', 'AK', US, 61.2181, -149.9003],
+  ['Boise', 'ID', US, 43.615, -116.2023],
+  ['Oklahoma City', 'OK', US, 35.4676, -97.5164],
+  ['El Paso', 'TX', US, 31.7619, -106.485],
+  ['Birmingham', 'AL', US, 33.5186, -86.8104],
+  ['Richmond', 'VA', US, 37.5407, -77.436],
+  ['Buffalo', 'NY', US, 42.8864, -78.8784],
+  ['Rochester', 'NY', US, 43.1566, -77.6088],
+  ['Hartford', 'CT', US, 41.7658, -72.6734],
+  ['Providence', 'RI', US, 41.824, -71.4128],
+  ['Charleston', 'SC', US, 32.7765, -79.9311],
+  ['Savannah', 'GA', US, 32.0809, -81.0912],
+  ['Des Moines', 'IA', US, 41.5868, -93.625],
+  ['Reno', 'NV', US, 39.5296, -119.8138],
+  ['Santa Fe', 'NM', US, 35.687, -105.9378],
+  // Around Seattle
+  ['Bellevue', 'WA', US, 47.6101, -122.2015],
+  ['Redmond', 'WA', US, 47.674, -122.1215],
+  ['Kirkland', 'WA', US, 47.6815, -122.2087],
+  ['Tacoma', 'WA', US, 47.2529, -122.4443],
+  ['Everett', 'WA', US, 47.979, -122.2021],
+  ['Olympia', 'WA', US, 47.0379, -122.9007],
+  ['Bellingham', 'WA', US, 48.7519, -122.4787],
+  ['Spokane', 'WA', US, 47.6588, -117.426],
+  ['Eugene', 'OR', US, 44.0521, -123.0868],
+  // Tech and college towns
+  ['Palo Alto', 'CA', US, 37.4419, -122.143],
+  ['Mountain View', 'CA', US, 37.3861, -122.0839],
+  ['Sunnyvale', 'CA', US, 37.3688, -122.0363],
+  ['Cupertino', 'CA', US, 37.323, -122.0322],
+  ['Menlo Park', 'CA', US, 37.453, -122.1817],
+  ['Berkeley', 'CA', US, 37.8715, -122.273],
+  ['Irvine', 'CA', US, 33.6846, -117.8265],
+  ['Santa Monica', 'CA', US, 34.0195, -118.4912],
+  ['Cambridge', 'MA', US, 42.3736, -71.1097],
+  ['Ann Arbor', 'MI', US, 42.2808, -83.743],
+  ['Madison', 'WI', US, 43.0731, -89.4012],
+  ['Boulder', 'CO', US, 40.015, -105.2705],
+  ['New Haven', 'CT', US, 41.3083, -72.9279],
+  ['Arlington', 'VA', US, 38.8816, -77.091],
+  ['Jersey City', 'NJ', US, 40.7178, -74.0431],
+  ['Newark', 'NJ', US, 40.7357, -74.1724],
+  // Canada and Mexico
+  ['Vancouver', 'BC', 'Canada', 49.2827, -123.1207],
+  ['Toronto', 'ON', 'Canada', 43.6532, -79.3832],
+  ['Montreal', 'QC', 'Canada', 45.5017, -73.5673],
+  ['Calgary', 'AB', 'Canada', 51.0447, -114.0719],
+  ['Ottawa', 'ON', 'Canada', 45.4215, -75.6972],
+  ['Mexico City', null, 'Mexico', 19.4326, -99.1332, ['cdmx']],
+  // Rest of the world
+  ['London', 'England', 'United Kingdom', 51.5074, -0.1278],
+  ['Paris', null, 'France', 48.8566, 2.3522],
+  ['Berlin', null, 'Germany', 52.52, 13.405],
+  ['Munich', null, 'Germany', 48.1351, 11.582, ['munchen']],
+  ['Madrid', null, 'Spain', 40.4168, -3.7038],
+  ['Barcelona', null, 'Spain', 41.3874, 2.1686],
+  ['Lisbon', null, 'Portugal', 38.7223, -9.1393],
+  ['Rome', null, 'Italy', 41.9028, 12.4964],
+  ['Milan', null, 'Italy', 45.4642, 9.19],
+  ['Amsterdam', null, 'Netherlands', 52.3676, 4.9041],
+  ['Dublin', null, 'Ireland', 53.3498, -6.2603],
+  ['Zurich', null, 'Switzerland', 47.3769, 8.5417],
+  ['Stockholm', null, 'Sweden', 59.3293, 18.0686],
+  ['Copenhagen', null, 'Denmark', 55.6761, 12.5683],
+  ['Istanbul', null, 'Turkey', 41.0082, 28.9784],
+  ['Tel Aviv', null, 'Israel', 32.0853, 34.7818],
+  ['Dubai', null, 'United Arab Emirates', 25.2048, 55.2708],
+  ['Cairo', null, 'Egypt', 30.0444, 31.2357],
+  ['Lagos', null, 'Nigeria', 6.5244, 3.3792],
+  ['Nairobi', null, 'Kenya', -1.2921, 36.8219],
+  ['Cape Town', null, 'South Africa', -33.9249, 18.4241],
+  ['Mumbai', null, 'India', 19.076, 72.8777, ['bombay']],
+  ['Bengaluru', null, 'India', 12.9716, 77.5946, ['bangalore']],
+  ['New Delhi', null, 'India', 28.6139, 77.209, ['delhi']],
+  ['Singapore', null, 'Singapore', 1.3521, 103.8198],
+  ['Bangkok', null, 'Thailand', 13.7563, 100.5018],
+  ['Ho Chi Minh City', null, 'Vietnam', 10.8231, 106.6297, ['saigon']],
+  ['Jakarta', null, 'Indonesia', -6.2088, 106.8456],
+  ['Manila', null, 'Philippines', 14.5995, 120.9842],
+  ['Hong Kong', null, 'Hong Kong', 22.3193, 114.1694],
+  ['Taipei', null, 'Taiwan', 25.033, 121.5654],
+  ['Shanghai', null, 'China', 31.2304, 121.4737],
+  ['Beijing', null, 'China', 39.9042, 116.4074],
+  ['Seoul', null, 'South Korea', 37.5665, 126.978],
+  ['Tokyo', null, 'Japan', 35.6762, 139.6503],
+  ['Sydney', 'NSW', 'Australia', -33.8688, 151.2093],
+  ['Melbourne', 'VIC', 'Australia', -37.8136, 144.9631],
+  ['Auckland', null, 'New Zealand', -36.8485, 174.7633],
+  ['Sao Paulo', null, 'Brazil', -23.5505, -46.6333],
+  ['Buenos Aires', null, 'Argentina', -34.6037, -58.3816],
+];
+
+// How far a point can be from a city and still be called by its name
+const NEAREST_CITY_KM = 50;
+
+// Lowercase, no accents or punctuation: "São Paulo" -> "sao paulo"
+export const normalizePlaceName = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const toResult = ([name, region, country, latitude, longitude]: GazetteerEntry): GeocodeResult => ({
+  name,
+  ...(region ? { region } : {}),
+  country,
+  latitude,
+  longitude,
+});
+
+/**
+ * Cities whose name (or a nickname like "NYC") matches the query
+ * "Portland, OR" narrows by region or country; exact names come before prefixes
+ */
+export const searchGazetteer = (query: string, limit: number = 5): GeocodeResult[] => {
+  const [place, qualifier] = query.split(',').map(part => normalizePlaceName(part ?? ''));
+  if (!place) return [];
+
+  const matches = CITIES
+    .map(entry => {
+      const [name, region, country, , , aliases = []] = entry;
+      const names = [normalizePlaceName(name), ...aliases];
+      const rank = names.includes(place) ? 0 : names.some(candidate => candidate.startsWith(place)) ? 1 : -1;
+      const qualified = !qualifier ||
+        [region, country].some(part => part && normalizePlaceName(part).startsWith(qualifier));
+      return { entry, rank: qualified ? rank : -1 };
+    })
+    .filter(match => match.rank >= 0);
+
+  // Stable sort keeps the list order within each rank
+  return matches.sort((a, b) => a.rank - b.rank).slice(0, limit).map(match => toResult(match.entry));
+};
+
+const distanceKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * The closest listed city within NEAREST_CITY_KM, or null
+ */
+export const findNearestCity = (latitude: number, longitude: number): GeocodeResult | null => {
+  let nearest: GazetteerEntry | null = null;
+  let nearestKm = NEAREST_CITY_KM;
+  for (const entry of CITIES) {
+    const km = distanceKm(latitude, longitude, entry[3], entry[4]);
+    if (km < nearestKm) {
+      nearest = entry;
+      nearestKm = km;
+    }
+  }
+  return nearest ? toResult(nearest) : null;
+};
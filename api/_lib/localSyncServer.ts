@@ -0,0 +1,97 @@
+import path from 'path';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Connect, Plugin } from 'vite';
+import { handleSyncRequest } from './syncHandler';
+import { FileSyncStore } from './fileSyncStore';
+
+// Same cap as the serverless functions' request body, so both servers accept the same requests
+const MAX_BODY_BYTES = 4.5 * 1024 * 1024;
+
+class BodyTooLargeError extends Error {}
+
+/**
+ * Read and parse a JSON request body (undefined when empty)
+ * Rejects with a BodyTooLargeError past MAX_BODY_BYTES, without buffering the rest
+ */
+const readJsonBody = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let raw = '';
+    let bytes = 0;
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      bytes += Buffer.byteLength(chunk);
+      if (bytes > MAX_BODY_BYTES) {
+        req.removeAllListeners('data');
+        req.resume(); // Drain the rest so the response can still be sent
+        reject(new BodyTooLargeError('Request body too large'));
+        return;
+      }
+      raw += chunk;
+    });
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : undefined);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: Record<string, unknown>) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+const createSyncMiddleware = (store: FileSyncStore): Connect.NextHandleFunction =>
+  async (req: Connect.IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    let body: unknown;
+    try {
+      body = req.method === 'POST' || req.method === 'PUT' ? await readJsonBody(req) : undefined;
+    } catch (error) {
+      if (error instanceof BodyTooLargeError) {
+        sendJson(res, 413, { success: false, error: error.message });
+      } else {
+        sendJson(res, 400, { success: false, error: 'Invalid JSON' });
+      }
+      return;
+    }
+
+    const result = await handleSyncRequest({
+      method: req.method,
+      path: url.pathname,
+      space: req.headers['x-sync-space'],
+      query: Object.fromEntries(url.searchParams),
+      body,
+    }, store);
+
+    if (result.body) {
+      sendJson(res, result.status, result.body);
+    } else {
+      res.statusCode = result.status;
+      res.end();
+    }
+  };
+
+/**
+ * Local stand-in for the /api/sync routes (`npm run dev` and `npm run preview`)
+ *
+ * Serves sync from the file system (SYNC_DATA_DIR, default `.sync-data/`)
+ * instead of proxying to the deployed API, so sync works offline and between
+ * devices on the same network (`npm run dev -- --host`).
+ */
+export const localSyncServer = (): Plugin => {
+  const store = new FileSyncStore(process.env.SYNC_DATA_DIR || path.resolve('.sync-data'));
+
+  return {
+    name: 'fitted-local-sync',
+    configureServer(server) {
+      server.middlewares.use('/api/sync', createSyncMiddleware(store));
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use('/api/sync', createSyncMiddleware(store));
+    },
+  };
+};
@@ -0,0 +1,139 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DailyForecast, HourlyForecast } from '../../src/types';
+import { getFixtureName, type WeatherForecast, type WeatherProvider } from './weatherProvider';
+
+const CURRENT_FIELDS = 'temperature_2m,relative_humidity_2m,apparent_temperature,weathercode,windspeed_10m';
+const HOURLY_FIELDS = 'temperature_2m,apparent_temperature,precipitation_probability,precipitation,weathercode,windspeed_10m,windgusts_10m,uv_index';
+const DAILY_FIELDS = 'weathercode,temperature_2m_max,temperature_2m_min,apparent_temperature_max,apparent_temperature_min,precipitation_sum,precipitation_probability_max,uv_index_max,windgusts_10m_max';
+const FORECAST_DAYS = 7;
+
+// Map weather codes to readable conditions
+// https://open-meteo.com/en/docs
+const weatherCodeMap: Record<number, string> = {
+  0: 'Clear',
+  1: 'Mostly Clear',
+  2: 'Partly Cloudy',
+  3: 'Overcast',
+  45: 'Foggy',
+  48: 'Foggy',
+  51: 'Light Drizzle',
+  53: 'Drizzle',
+  55: 'Heavy Drizzle',
+  56: 'Freezing Drizzle',
+  57: 'Freezing Drizzle',
+  61: 'Light Rain',
+  63: 'Rainy',
+  65: 'Heavy Rain',
+  66: 'Freezing Rain',
+  67: 'Freezing Rain',
+  71: 'Light Snow',
+  73: 'Snowy',
+  75: 'Heavy Snow',
+  77: 'Snow Grains',
+  80: 'Light Rain Showers',
+  81: 'Rain Showers',
+  82: 'Heavy Rain Showers',
+  85: 'Snow Showers',
+  86: 'Heavy Snow Showers',
+  95: 'Thunderstorm',
+  96: 'Thunderstorm with Hail',
+  99: 'Thunderstorm with Hail',
+};
+
+const getCondition = (code: number | null | undefined): string => weatherCodeMap[code ?? 0] || 'Unknown';
+
+// Open-Meteo returns each series as parallel arrays (missing values are null)
+const round = (value: number | null | undefined, digits: number = 0): number => {
+  const factor = 10 ** digits;
+  return Math.round((value ?? 0) * factor) / factor;
+};
+
+/**
+ * Today's hours, midnight to midnight at the location (times are local, e.g. "2026-10-19T14:00")
+ */
+const mapHourlyForecast = (hourly: any, today: string): HourlyForecast[] =>
+  hourly.time
+    .map((time: string, i: number): HourlyForecast => ({
+      time,
+      temperature: round(hourly.temperature_2m[i]),
+      feelsLike: round(hourly.apparent_temperature[i]),
+      precipitationProbability: round(hourly.precipitation_probability[i]),
+      precipitation: round(hourly.precipitation[i], 2),
+      windSpeed: round(hourly.windspeed_10m[i]),
+      windGusts: round(hourly.windgusts_10m[i]),
+      uvIndex: round(hourly.uv_index[i], 1),
+      condition: getCondition(hourly.weathercode[i]),
+    }))
+    .filter((hour: HourlyForecast) => hour.time.startsWith(today));
+
+/**
+ * One summary per day, starting today
+ */
+const mapDailyForecast = (daily: any): DailyForecast[] =>
+  daily.time.map((date: string, i: number): DailyForecast => ({
+    date,
+    high: round(daily.temperature_2m_max[i]),
+    low: round(daily.temperature_2m_min[i]),
+    feelsLikeHigh: round(daily.apparent_temperature_max[i]),
+    feelsLikeLow: round(daily.apparent_temperature_min[i]),
+    precipitationProbability: round(daily.precipitation_probability_max[i]),
+    precipitation: round(daily.precipitation_sum[i], 2),
+    uvIndex: round(daily.uv_index_max[i], 1),
+    windGusts: round(daily.windgusts_10m_max[i]),
+    condition: getCondition(daily.weathercode[i]),
+  }));
+
+/**
+ * Turn an Open-Meteo /v1/forecast response into a WeatherForecast
+ * (also used to replay recorded responses, see fixtureWeatherProvider.ts)
+ */
+export const mapOpenMeteoResponse = (data: any): WeatherForecast => ({
+  current: {
+    time: data.current.time,
+    temperature: Math.round(data.current.temperature_2m),
+    feelsLike: Math.round(data.current.apparent_temperature),
+    humidity: Math.round(data.current.relative_humidity_2m),
+    windSpeed: Math.round(data.current.windspeed_10m),
+    condition: getCondition(data.current.weathercode),
+  },
+  forecast: {
+    timezone: data.timezone,
+    hourly: mapHourlyForecast(data.hourly, data.daily.time[0]),
+    daily: mapDailyForecast(data.daily),
+  },
+});
+
+/**
+ * Open-Meteo (free, no API key required!)
+ *
+ * With `recordDir` set, every raw response is also saved there under its
+ * fixture name, ready to be replayed by the fixture provider.
+ */
+export class OpenMeteoProvider implements WeatherProvider {
+  readonly name = 'open-meteo';
+
+  constructor(private readonly recordDir?: string) {}
+
+  async getForecast(latitude: number, longitude: number): Promise<WeatherForecast> {
+    const url = `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}` +
+      `&current=${CURRENT_FIELDS}&hourly=${HOURLY_FIELDS}&daily=${DAILY_FIELDS}&forecast_days=${FORECAST_DAYS}` +
+      `&temperature_unit=fahrenheit&windspeed_unit=mph&precipitation_unit=inch&timezone=auto`;
+
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      throw new Error(`Open-Meteo API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    if (this.recordDir) {
+      await fs.mkdir(this.recordDir, { recursive: true });
+      const name = getFixtureName(latitude, longitude, data.daily.time[0]);
+      await fs.writeFile(path.join(this.recordDir, name), JSON.stringify(data));
+    }
+
+    return mapOpenMeteoResponse(data);
+  }
+}
@@ -0,0 +1,169 @@
+import type { SyncChange, SyncKeyEnvelope } from '../../src/types';
+import { MERGE_STRATEGIES } from '../../src/utils/syncMerge';
+import type { FileSyncStore } from './fileSyncStore';
+
+// Limits keep a single request well under the 4.5MB serverless body limit
+const MAX_CHANGES_PER_PUSH = 200;
+const MAX_IMAGE_LENGTH = 4 * 1024 * 1024;
+const MAX_KEY_FIELD_LENGTH = 1024;
+
+// Sync codes are random, so they double as the space's secret
+const SPACE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+// Ids become file names: no separators, and no leading dot
+const ID_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9_.-]{0,199}$/;
+// Client-side encrypted payload (see src/utils/syncCrypto.ts) - plaintext is refused
+const PAYLOAD_PATTERN = /^v2\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/;
+
+const isPayload = (value: unknown): value is string => typeof value === 'string' && PAYLOAD_PATTERN.test(value);
+
+export interface SyncRequest {
+  method?: string;
+  path: string; // Path below /api/sync: '/', '/key' or '/images/<id>'
+  space?: string | string[]; // X-Sync-Space header
+  query: Record<string, string | string[] | undefined>;
+  body: any;
+}
+
+export interface SyncResult {
+  status: number;
+  body: Record<string, unknown> | null;
+}
+
+const fail = (status: number, error: string): SyncResult => ({ status, body: { success: false, error } });
+
+const isValidChange = (change: any): change is SyncChange =>
+  !!change &&
+  typeof change === 'object' &&
+  Object.prototype.hasOwnProperty.call(MERGE_STRATEGIES, change.collection) &&
+  typeof change.id === 'string' &&
+  ID_PATTERN.test(change.id) &&
+  typeof change.baseRevision === 'number' &&
+  (change.data === null ||
+    (typeof change.data === 'object' && !Array.isArray(change.data) && Object.values(change.data).every(isPayload))) &&
+  !!change.fieldClock &&
+  typeof change.fieldClock === 'object' &&
+  Object.values(change.fieldClock).every(value => typeof value === 'number');
+
+const isValidEnvelope = (envelope: any): envelope is SyncKeyEnvelope =>
+  !!envelope &&
+  envelope.version === 2 &&
+  typeof envelope.iterations === 'number' &&
+  envelope.iterations > 0 &&
+  ['salt', 'wrappedKey', 'verifier'].every(field =>
+    typeof envelope[field] === 'string' && envelope[field].length <= MAX_KEY_FIELD_LENGTH
+  );
+
+/**
+ * Handle a request to the /api/sync route set
+ *
+ * GET  /api/sync?since=<revision>  documents changed after a revision
+ * POST /api/sync { changes }       merge local edits, returns the merged documents
+ * GET  /api/sync/images/<id>       an item's encrypted image
+ * PUT  /api/sync/images/<id> { payload }
+ * GET  /api/sync/key                the space's key envelope
+ * PUT  /api/sync/key { envelope }   set once, by the device that starts the space
+ *
+ * Document values and images must be encrypted payloads: the server never sees plaintext.
+ * Shared by the serverless functions and the local dev server so both behave the same.
+ * Without a store (no persistent storage configured) every request gets a 503.
+ */
+export async function handleSyncRequest(request: SyncRequest, store: FileSyncStore | null): Promise<SyncResult> {
+  if (request.method === 'OPTIONS') {
+    return { status: 204, body: null };
+  }
+
+  if (!store) {
+    return fail(503, 'Sync is not configured on this server');
+  }
+
+  const space = Array.isArray(request.space) ? request.space[0] : request.space;
+  if (!space || !SPACE_PATTERN.test(space)) {
+    return fail(401, 'Missing or invalid sync code');
+  }
+
+  try {
+    // A space exists once its first device has stored the key envelope
+    if (request.path !== '/key' && !(await store.getKey(space))) {
+      return fail(404, 'No sync space with this code');
+    }
+
+    const imageMatch = request.path.match(/^\/images\/([^/]+)$/);
+
+    if (imageMatch) {
+      const id = decodeURIComponent(imageMatch[1]);
+      if (!ID_PATTERN.test(id)) {
+        return fail(400, 'Invalid image id');
+      }
+
+      if (request.method === 'GET') {
+        const payload = await store.getImage(space, id);
+        return payload ? { status: 200, body: { success: true, payload } } : fail(404, 'Image not found');
+      }
+
+      if (request.method === 'PUT') {
+        const payload = request.body?.payload;
+        if (typeof payload === 'string' && payload.length > MAX_IMAGE_LENGTH) {
+          return fail(413, 'Image is too large');
+        }
+        if (!isPayload(payload)) {
+          return fail(400, 'Image must be encrypted');
+        }
+        await store.putImage(space, id, payload);
+        return { status: 200, body: { success: true } };
+      }
+
+      return fail(405, 'Method not allowed');
+    }
+
+    if (request.path === '/key') {
+      if (request.method === 'GET') {
+        const envelope = await store.getKey(space);
+        return envelope ? { status: 200, body: { success: true, envelope } } : fail(404, 'No sync space with this code');
+      }
+
+      if (request.method === 'PUT') {
+        const envelope = request.body?.envelope;
+        if (!isValidEnvelope(envelope)) {
+          return fail(400, 'Invalid key');
+        }
+        if (!(await store.putKey(space, envelope))) {
+          return fail(409, 'This sync space already has a key');
+        }
+        return { status: 200, body: { success: true } };
+      }
+
+      return fail(405, 'Method not allowed');
+    }
+
+    if (request.path !== '/' && request.path !== '') {
+      return fail(404, 'Not found');
+    }
+
+    if (request.method === 'GET') {
+      const since = parseInt(String(request.query.since ?? '0'), 10);
+      if (isNaN(since) || since < 0) {
+        return fail(400, 'Invalid revision');
+      }
+      const result = await store.pull(space, since);
+      return { status: 200, body: { success: true, ...result } };
+    }
+
+    if (request.method === 'POST') {
+      const changes = request.body?.changes;
+      if (!Array.isArray(changes) || !changes.every(isValidChange)) {
+        return fail(400, 'Invalid changes');
+      }
+      if (changes.length > MAX_CHANGES_PER_PUSH) {
+        return fail(413, `At most ${MAX_CHANGES_PER_PUSH} changes per request`);
+      }
+      const result = await store.push(space, changes);
+      return { status: 200, body: { success: true, ...result } };
+    }
+
+    return fail(405, 'Method not allowed');
+  } catch (error) {
+    // Store errors can name server paths, so they stay in the log
+    console.error('Sync error:', error);
+    return fail(500, 'Sync failed');
+  }
+}
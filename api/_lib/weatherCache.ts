@@ -0,0 +1,93 @@
+import path from 'path';
+import { roundCoordinate, type WeatherForecast, type WeatherProvider } from './weatherProvider';
+import { OpenMeteoProvider } from './openMeteoProvider';
+import { FixtureWeatherProvider } from './fixtureWeatherProvider';
+
+const CACHE_DURATION = 10 * 60 * 1000; // 10 minutes
+const MAX_CACHED_LOCATIONS = 500;
+
+interface CacheEntry {
+  forecast: Promise<WeatherForecast>;
+  expiresAt: number;
+}
+
+/**
+ * Shares forecasts between requests for nearby coordinates
+ *
+ * Coordinates are rounded before they reach the provider, so everyone in a
+ * grid cell gets the same forecast, and requests that arrive while one is in
+ * flight wait for it. Failures aren't cached. The cache lives in memory, so on
+ * serverless hosts each warm instance has its own.
+ */
+export class CachedWeatherProvider implements WeatherProvider {
+  readonly name: string;
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(
+    private readonly provider: WeatherProvider,
+    private readonly duration: number = CACHE_DURATION,
+    private readonly now: () => number = Date.now
+  ) {
+    this.name = provider.name;
+  }
+
+  getForecast(latitude: number, longitude: number): Promise<WeatherForecast> {
+    const lat = roundCoordinate(latitude);
+    const lon = roundCoordinate(longitude);
+    const key = `${lat},${lon}`;
+
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > this.now()) {
+      return cached.forecast;
+    }
+
+    const forecast = this.provider.getForecast(lat, lon);
+    this.entries.delete(key); // Re-inserted last, so the Map stays oldest-first
+    this.entries.set(key, { forecast, expiresAt: this.now() + this.duration });
+    forecast.catch(() => {
+      if (this.entries.get(key)?.forecast === forecast) this.entries.delete(key);
+    });
+
+    if (this.entries.size > MAX_CACHED_LOCATIONS) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    return forecast;
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * The provider picked by WEATHER_PROVIDER
+ *
+ * open-meteo (default) calls Open-Meteo; WEATHER_RECORD_DIR also saves each response as a fixture
+ * fixture replays recorded responses from WEATHER_FIXTURE_DIR (default api/_lib/fixtures/weather),
+ *   for WEATHER_FIXTURE_DATE or else the latest recorded date
+ */
+const createWeatherProvider = (): WeatherProvider => {
+  switch (process.env.WEATHER_PROVIDER || 'open-meteo') {
+    case 'open-meteo':
+      return new OpenMeteoProvider(process.env.WEATHER_RECORD_DIR);
+    case 'fixture':
+      return new FixtureWeatherProvider(
+        process.env.WEATHER_FIXTURE_DIR || path.resolve('api/_lib/fixtures/weather'),
+        process.env.WEATHER_FIXTURE_DATE
+      );
+    default:
+      throw new Error(`Unknown WEATHER_PROVIDER "${process.env.WEATHER_PROVIDER}" (use open-meteo or fixture)`);
+  }
+};
+
+let instance: WeatherProvider | undefined;
+
+/**
+ * The configured provider, behind the shared cache
+ */
+export const getWeatherProvider = (): WeatherProvider => {
+  if (!instance) {
+    instance = new CachedWeatherProvider(createWeatherProvider());
+  }
+  return instance;
+};
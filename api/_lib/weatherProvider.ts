@@ -0,0 +1,38 @@
+import type { ForecastData } from '../../src/types';
+
+// Conditions right now at the location
+export interface CurrentConditions {
+  time: string; // local, e.g. "2026-10-19T14:15"
+  temperature: number; // in Fahrenheit
+  feelsLike: number; // in Fahrenheit
+  humidity: number; // percentage
+  windSpeed: number; // mph
+  condition: string;
+}
+
+export interface WeatherForecast {
+  current: CurrentConditions;
+  forecast: ForecastData;
+}
+
+/**
+ * A source of weather for /api/weather
+ */
+export interface WeatherProvider {
+  readonly name: string;
+  getForecast(latitude: number, longitude: number): Promise<WeatherForecast>;
+}
+
+// 0.1° is about 11 km: close enough to share a forecast, so a city makes one upstream call
+const COORDINATE_DECIMALS = 1;
+
+export const roundCoordinate = (value: number): number => {
+  const factor = 10 ** COORDINATE_DECIMALS;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * File name of a recorded forecast: rounded coordinates and the local date, e.g. "47.6_-122.3_2026-10-19.json"
+ */
+export const getFixtureName = (latitude: number, longitude: number, date: string): string =>
+  `${roundCoordinate(latitude)}_${roundCoordinate(longitude)}_${date}.json`;
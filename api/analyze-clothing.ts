@@ -43,6 +43,8 @@ CRITICAL INSTRUCTIONS - PHASE 11B ENHANCED DETECTION:
 5. Extract colors ONLY from the clothing fabric, NOT from any background elements
 6. Provide confidence scores for your categorization (0.0 to 1.0)
 7. If uncertain, provide an alternate category suggestion
+8. Dresses and jumpsuits use category "top" with subcategory "dress" or "jumpsuit" (they are worn without a bottom)
+9. Sweaters, hoodies, cardigans and vests use category "top" with a matching subcategory (they can be layered over a shirt)
 
 OCCASION SCORING (Occasion-Aware Enhancement):
 Score each item's suitability for 8 different occasions on a scale of 0-10:
@@ -67,6 +69,7 @@ Your response must be valid JSON with this exact structure:
 {
   "description": "A detailed 2-3 sentence description of the clothing item",
   "suggestedCategory": "top|bottom|shoes|accessory|outerwear",
+  "suggestedSubcategory": "tee|shirt|blouse|tank|sweater|hoodie|cardigan|vest|dress|jumpsuit|jeans|trousers|shorts|skirt|sweatpants|leggings|jacket|coat|blazer|rain-jacket|sneakers|boots|dress-shoes|sandals|other",
   "detectedColors": ["array", "of", "color", "names"],
   "suggestedStyles": ["casual|formal|streetwear|athletic|preppy"],
   "season": "spring|summer|fall|winter|all-season",
@@ -0,0 +1,89 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { GeocodeResult } from '../src/types';
+import { findNearestCity, normalizePlaceName, searchGazetteer } from './_lib/gazetteer';
+
+const MAX_RESULTS = 5;
+const UPSTREAM_TIMEOUT = 4000; // ms, then the bundled list answers instead
+
+/**
+ * City search through Open-Meteo's geocoding API
+ *
+ * Open-Meteo only searches by name, so "Portland, OR" sends "Portland" and keeps
+ * the results whose state or country starts with "OR" (when any do).
+ */
+const searchOpenMeteo = async (query: string): Promise<GeocodeResult[]> => {
+  const [place, qualifier] = query.split(',').map(part => part.trim());
+  const url = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(place)}&count=10&language=en&format=json`;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`Open-Meteo geocoding error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const results: GeocodeResult[] = (data.results || []).map((result: any) => ({
+      name: result.name,
+      ...(result.admin1 ? { region: result.admin1 } : {}),
+      country: result.country || result.country_code,
+      latitude: result.latitude,
+      longitude: result.longitude,
+    }));
+
+    const wanted = qualifier ? normalizePlaceName(qualifier) : '';
+    const qualified = results.filter(result =>
+      [result.region, result.country].some(part => part && normalizePlaceName(part).startsWith(wanted))
+    );
+    return (qualified.length > 0 ? qualified : results).slice(0, MAX_RESULTS);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const { q, lat, lon } = req.query;
+
+  // Reverse lookup (?lat=&lon=): name the city the user is in, from the bundled list only
+  if (lat !== undefined || lon !== undefined) {
+    const latitude = parseFloat(lat as string);
+    const longitude = parseFloat(lon as string);
+
+    if (isNaN(latitude) || isNaN(longitude)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid latitude or longitude values'
+      });
+    }
+
+    const city = findNearestCity(latitude, longitude);
+    return res.status(200).json({ success: true, results: city ? [city] : [], source: 'gazetteer' });
+  }
+
+  const query = typeof q === 'string' ? q.trim() : '';
+  if (query.length < 2) {
+    return res.status(400).json({
+      success: false,
+      error: 'Search for at least 2 characters (q)'
+    });
+  }
+
+  try {
+    const results = await searchOpenMeteo(query);
+    return res.status(200).json({ success: true, results, source: 'open-meteo' });
+  } catch (error: any) {
+    // Open-Meteo down or unreachable: major cities still work
+    console.error('Geocoding failed, using the bundled city list:', error.message);
+    return res.status(200).json({
+      success: true,
+      results: searchGazetteer(query, MAX_RESULTS),
+      source: 'gazetteer'
+    });
+  }
+}
@@ -4,10 +4,17 @@ import { OutfitSuggestion } from '../src/types/api';
 import { OpenAIService } from '../src/services/openai';
 import { PromptBuilder } from '../src/services/promptBuilder';
 import { Logger } from '../src/services/logger';
+import { getCoreOutfitKey, getOutfitKey } from '../src/utils/outfitRejections';
+import { detectTemplate } from '../src/utils/outfitTemplates';
 
 // Initialize OpenAI service
 const openaiService = new OpenAIService(process.env.OPENAI_API_KEY || '');
 
+// Rejections arrive as lists of item IDs (string[][])
+const isItemIdLists = (value: unknown): value is string[][] =>
+  Array.isArray(value) &&
+  value.every(itemIds => Array.isArray(itemIds) && itemIds.every(id => typeof id === 'string'));
+
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   const logger = Logger.getInstance();
   
@@ -22,7 +29,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   try {
     const request = req.body as RecommendOutfitsRequest;
-    const { wardrobe, weather, preferences, favoriteColors, count = 7, profile, customPrompt } = request;
+    const { wardrobe, weather, preferences, favoriteColors, count = 7, profile, customPrompt, rejectedOutfits } = request;
 
     // Validate input
     if (!wardrobe || !Array.isArray(wardrobe) || wardrobe.length === 0) {
@@ -39,6 +46,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       } as RecommendOutfitsResponse);
     }
 
+    if (rejectedOutfits !== undefined && !isItemIdLists(rejectedOutfits)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid rejected outfits. Expected an array of item ID arrays.'
+      } as RecommendOutfitsResponse);
+    }
+
     // Build prompt components using PromptBuilder
     const wardrobeDescription = PromptBuilder.buildWardrobeDescription(wardrobe);
     const weatherContext = PromptBuilder.buildWeatherContext(weather);
@@ -202,11 +216,41 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       userPrompt += `\n\n=== SPECIAL REQUEST ===\n${customPrompt}\n\nPlease prioritize this request when generating outfits.`;
     }
 
+    // Tell the AI which outfits the user already rejected
+    const rejectionContext = PromptBuilder.buildRejectionContext(rejectedOutfits);
+    if (rejectionContext) {
+      userPrompt += `\n\n${rejectionContext}`;
+    }
+
     // Generate outfit recommendations using OpenAI with client ID for rate limiting
     const result = await openaiService.generateOutfitRecommendations(systemPrompt, userPrompt, clientId);
 
+    const findItems = (itemIds: string[]) => itemIds.map(id => wardrobe.find(item => item.id === id));
+
+    // Keys of the rejected outfits, both exact and top/bottom/shoes (as the local generator checks them)
+    const rejectedKeys = new Set<string>();
+    (rejectedOutfits ?? []).forEach(itemIds => {
+      rejectedKeys.add(getOutfitKey(itemIds.map(id => ({ id }))));
+      const items = findItems(itemIds);
+      const coreKey = items.every(item => item !== undefined) ? getCoreOutfitKey(items as typeof wardrobe) : '';
+      if (coreKey) rejectedKeys.add(coreKey);
+    });
+
+    // Drop rejected outfits the AI suggested anyway, and outfits that don't form a
+    // valid shape (e.g. dress + jeans, unknown item IDs)
+    const isAllowed = (outfit: OutfitSuggestion) => {
+      const items = findItems(outfit.itemIds);
+      if (!items.every(item => item !== undefined)) return false;
+      const outfitItems = items as typeof wardrobe;
+      return !rejectedKeys.has(getOutfitKey(outfitItems)) &&
+        !rejectedKeys.has(getCoreOutfitKey(outfitItems)) &&
+        detectTemplate(outfitItems) !== null;
+    };
+
+    const allowedOutfits = result.outfits.filter(isAllowed);
+
     // Sort outfits by score (highest first)
-    const sortedOutfits = result.outfits.sort((a: OutfitSuggestion, b: OutfitSuggestion) => b.score - a.score);
+    const sortedOutfits = allowedOutfits.sort((a: OutfitSuggestion, b: OutfitSuggestion) => b.score - a.score);
 
     // Return the recommendations
     return res.status(200).json({
@@ -0,0 +1,19 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { handleSyncRequest } from '../../_lib/syncHandler';
+import { FileSyncStore } from '../../_lib/fileSyncStore';
+
+/**
+ * Device sync: download (GET) or upload (PUT) an item's image
+ * Images travel separately from documents so a push stays small (both are encrypted)
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const result = await handleSyncRequest({
+    method: req.method,
+    path: `/images/${encodeURIComponent(String(req.query.id))}`,
+    space: req.headers['x-sync-space'],
+    query: req.query,
+    body: req.body,
+  }, FileSyncStore.getInstance());
+
+  return result.body ? res.status(result.status).json(result.body) : res.status(result.status).end();
+}
@@ -0,0 +1,19 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { handleSyncRequest } from '../_lib/syncHandler';
+import { FileSyncStore } from '../_lib/fileSyncStore';
+
+/**
+ * Device sync: pull changed documents (GET) or push local edits (POST)
+ * See api/_lib/syncHandler.ts
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const result = await handleSyncRequest({
+    method: req.method,
+    path: '/',
+    space: req.headers['x-sync-space'],
+    query: req.query,
+    body: req.body,
+  }, FileSyncStore.getInstance());
+
+  return result.body ? res.status(result.status).json(result.body) : res.status(result.status).end();
+}
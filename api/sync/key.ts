@@ -0,0 +1,18 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { handleSyncRequest } from '../_lib/syncHandler';
+import { FileSyncStore } from '../_lib/fileSyncStore';
+
+/**
+ * Device sync: get (GET) or set up (PUT) the space's passphrase-encrypted key
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const result = await handleSyncRequest({
+    method: req.method,
+    path: '/key',
+    space: req.headers['x-sync-space'],
+    query: req.query,
+    body: req.body,
+  }, FileSyncStore.getInstance());
+
+  return result.body ? res.status(result.status).json(result.body) : res.status(result.status).end();
+}
@@ -1,4 +1,17 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { ActiveHours, WeatherData } from '../src/types';
+import { getActiveForecastHours, summarizePrecipitation } from '../src/utils/precipitation';
+import { defaultActiveHours } from '../src/utils/profileDefaults';
+import { getWeatherProvider } from './_lib/weatherCache';
+
+/**
+ * Active hours from the `from` / `to` query (local hours), or the default ones
+ */
+const parseActiveHours = (from: unknown, to: unknown): ActiveHours => {
+  const start = parseInt(String(from), 10);
+  const end = parseInt(String(to), 10);
+  return start >= 0 && end <= 24 && start < end ? { start, end } : defaultActiveHours;
+};
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Allow GET requests
@@ -7,7 +20,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const { lat, lon } = req.query;
+    const { lat, lon, from, to } = req.query;
 
     // Validate input
     if (!lat || !lon) {
@@ -35,70 +48,28 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
-    // Call Open-Meteo API (free, no API key required!)
-    const url = `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=temperature_2m,relative_humidity_2m,apparent_temperature,precipitation,weathercode,windspeed_10m&temperature_unit=fahrenheit&windspeed_unit=mph&precipitation_unit=inch&timezone=auto`;
+    // Open-Meteo by default, shared between nearby users (see api/_lib/weatherCache.ts)
+    const { current, forecast } = await getWeatherProvider().getForecast(latitude, longitude);
 
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      throw new Error(`Open-Meteo API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    // Map weather codes to readable conditions
-    // https://open-meteo.com/en/docs
-    const weatherCodeMap: Record<number, string> = {
-      0: 'Clear',
-      1: 'Mostly Clear',
-      2: 'Partly Cloudy',
-      3: 'Overcast',
-      45: 'Foggy',
-      48: 'Foggy',
-      51: 'Light Drizzle',
-      53: 'Drizzle',
-      55: 'Heavy Drizzle',
-      56: 'Freezing Drizzle',
-      57: 'Freezing Drizzle',
-      61: 'Light Rain',
-      63: 'Rainy',
-      65: 'Heavy Rain',
-      66: 'Freezing Rain',
-      67: 'Freezing Rain',
-      71: 'Light Snow',
-      73: 'Snowy',
-      75: 'Heavy Snow',
-      77: 'Snow Grains',
-      80: 'Light Rain Showers',
-      81: 'Rain Showers',
-      82: 'Heavy Rain Showers',
-      85: 'Snow Showers',
-      86: 'Heavy Snow Showers',
-      95: 'Thunderstorm',
-      96: 'Thunderstorm with Hail',
-      99: 'Thunderstorm with Hail',
-    };
-
-    const current = data.current;
-    const weatherCode = current.weathercode || 0;
-
-    // Calculate precipitation probability (Open-Meteo provides precipitation amount, not probability)
-    // We'll estimate: if there's any precipitation, it's happening (100%), otherwise 0%
-    const precipitationProbability = current.precipitation > 0 ? 100 : 0;
+    // Precipitation is judged over the rest of the user's day, not just this moment
+    const currentHour = parseInt(current.time.slice(11, 13), 10);
+    const activeHours = parseActiveHours(from, to);
+    const precipitation = summarizePrecipitation(getActiveForecastHours(forecast.hourly, activeHours, currentHour));
 
     // Build weather response
-    const weather = {
-      temperature: Math.round(current.temperature_2m),
-      condition: weatherCodeMap[weatherCode] || 'Unknown',
-      precipitation: precipitationProbability,
-      windSpeed: Math.round(current.windspeed_10m),
-      humidity: Math.round(current.relative_humidity_2m),
-      feelsLike: Math.round(current.apparent_temperature),
+    const weather: WeatherData = {
+      temperature: current.temperature,
+      condition: current.condition,
+      ...precipitation,
+      windSpeed: current.windSpeed,
+      humidity: current.humidity,
+      feelsLike: current.feelsLike,
     };
 
     return res.status(200).json({
       success: true,
       weather,
+      forecast,
     });
 
   } catch (error: any) {
@@ -54,11 +54,24 @@ function App() {
     }
   }, [theme]);
 
+  // Resume a batch upload interrupted by a reload or crash (queue is kept in IndexedDB)
+  const restoreBatchQueue = useStore((state) => state.restoreBatchQueue);
+  useEffect(() => {
+    void restoreBatchQueue();
+  }, [restoreBatchQueue]);
+
+  // Catch up with edits made on other devices (no-op unless sync is on)
+  const syncNow = useStore((state) => state.syncNow);
+  useEffect(() => {
+    void syncNow();
+  }, [syncNow]);
+
   // Phase 18: Prevent accidental refresh during batch upload
+  // Only preprocessing loses work - analysis and saving resume after a reload
   const batchStatus = useStore((state) => state.batchUploadStatus);
   useEffect(() => {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
-      if (batchStatus === 'preprocessing' || batchStatus === 'uploading') {
+      if (batchStatus === 'preprocessing') {
         e.preventDefault();
         e.returnValue = ''; // Chrome requires this to be set
         return '';
@@ -123,7 +136,7 @@ function App() {
     }
   }
 
-  // Show loading state while generating outfits (only when navigating to swipe view)
+  // Show loading state until the first outfits stream in from the worker (only when navigating to swipe view)
   if (loading && wardrobeStats.canSwipe && currentView === 'swipe') {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
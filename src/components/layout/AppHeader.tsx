@@ -1,8 +1,10 @@
+import { useState } from 'react';
 import { Moon, Sun } from 'lucide-react';
 import { useStore } from '../../store/useStore';
 import { useWeather } from '../../hooks/useWeather';
 import { Header } from './Header';
 import { WeatherWidget } from '../shared/WeatherWidget';
+import { LocationPicker } from '../shared/LocationPicker';
 
 interface AppHeaderProps {
   subtitle: string;
@@ -15,14 +17,15 @@ interface AppHeaderProps {
  * Features:
  * - Consistent "Fitted" branding
  * - Theme toggle (left)
- * - Weather widget (right)
+ * - Weather widget (right), with a location picker
  * - Page-specific subtitle
  * - Optional extra content (e.g., item count on Wardrobe)
  */
 export const AppHeader = ({ subtitle, extraRightContent }: AppHeaderProps) => {
   const theme = useStore((state) => state.theme);
   const toggleTheme = useStore((state) => state.toggleTheme);
-  const { weather, loading: weatherLoading, error: weatherError, fetchWeather } = useWeather();
+  const { weather, loading: weatherLoading, error: weatherError, fetchWeather, locationName } = useWeather();
+  const [showLocationPicker, setShowLocationPicker] = useState(false);
 
   // Theme toggle button
   const themeToggle = (
@@ -41,13 +44,20 @@ export const AppHeader = ({ subtitle, extraRightContent }: AppHeaderProps) => {
 
   // Weather widget
   const weatherWidget = (
-    <div className="flex items-center">
+    <div className="relative flex items-center">
       <WeatherWidget
         weather={weather}
         loading={weatherLoading}
         error={weatherError}
         onRequestWeather={fetchWeather}
+        locationName={locationName}
+        onChooseLocation={() => setShowLocationPicker((open) => !open)}
       />
+      {showLocationPicker && (
+        <div className="absolute right-0 top-full mt-2 z-50">
+          <LocationPicker onClose={() => setShowLocationPicker(false)} />
+        </div>
+      )}
     </div>
   );
 
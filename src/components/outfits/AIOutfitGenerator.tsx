@@ -1,16 +1,18 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Sparkles, X, Search, Calendar, Clock, MapPin, Loader2 } from 'lucide-react';
 import { useStore } from '../../store/useStore';
 import { ClothingItem, Outfit } from '../../types';
-import { getImageURL } from '../../utils/storage';
+import { useImageURL } from '../../hooks/useImageURL';
 import { generateOutfits } from '../../utils/outfitGenerator';
+import { getRejectedOutfitKeys, getRejectionsForAI } from '../../utils/outfitRejections';
+import { detectTemplate, getItemSubcategory } from '../../utils/outfitTemplates';
 import { recommendOutfits } from '../../services/api';
 import { useWeather } from '../../hooks/useWeather';
 
 type GenerationType = 'occasion' | 'item' | 'freeform' | 'time' | 'location';
 
 export function AIOutfitGenerator() {
-  const { wardrobe, profile, addOutfit } = useStore();
+  const { wardrobe, profile, addOutfit, preferenceModel, rejectedOutfits, rejectionDecayDays } = useStore();
   const { weather } = useWeather(); // Get weather data for AI context
   const [generationType, setGenerationType] = useState<GenerationType>('occasion');
   const [selectedItem, setSelectedItem] = useState<ClothingItem | null>(null);
@@ -68,6 +70,7 @@ export function AIOutfitGenerator() {
         const wardrobeData = wardrobe.map(item => ({
           id: item.id,
           category: item.category,
+          subcategory: getItemSubcategory(item),
           colors: item.colors,
           aiAnalysis: item.aiAnalysis,
         }));
@@ -95,20 +98,26 @@ export function AIOutfitGenerator() {
           count: 5,
           profile,
           customPrompt: customPrompt || undefined,
+          rejectedOutfits: getRejectionsForAI(rejectedOutfits, rejectionDecayDays),
         });
 
         if (result.success && result.outfits && result.outfits.length > 0) {
           // Convert AI response to Outfit objects
-          outfits = result.outfits.map(suggestion => ({
-            id: crypto.randomUUID(),
-            items: suggestion.itemIds
+          outfits = result.outfits.map(suggestion => {
+            const items = suggestion.itemIds
               .map(id => wardrobe.find(item => item.id === id))
-              .filter((item): item is ClothingItem => item !== undefined),
-            createdAt: new Date(),
-          }));
+              .filter((item): item is ClothingItem => item !== undefined);
 
-          // Filter out any outfits with missing items
-          outfits = outfits.filter(outfit => outfit.items.length >= 3);
+            return {
+              id: crypto.randomUUID(),
+              items,
+              createdAt: new Date(),
+              template: detectTemplate(items)?.id,
+            };
+          });
+
+          // Filter out any outfits with missing items (no longer a valid outfit shape)
+          outfits = outfits.filter(outfit => outfit.template !== undefined);
 
           if (outfits.length > 0) {
             setGeneratedOutfits(outfits);
@@ -125,10 +134,14 @@ export function AIOutfitGenerator() {
         console.warn('AI generation failed, using local algorithm:', aiError);
 
         // Use local algorithm as fallback
+        const generatorOptions = {
+          preferenceModel,
+          rejectedOutfitKeys: getRejectedOutfitKeys(rejectedOutfits, rejectionDecayDays),
+        };
         if (generationType === 'item' && selectedItem) {
-          outfits = generateOutfits(wardrobe, profile, 5, weather ?? undefined, selectedItem);
+          outfits = generateOutfits(wardrobe, profile, 5, weather ?? undefined, selectedItem, undefined, generatorOptions);
         } else {
-          outfits = generateOutfits(wardrobe, profile, 5, weather ?? undefined);
+          outfits = generateOutfits(wardrobe, profile, 5, weather ?? undefined, undefined, undefined, generatorOptions);
         }
 
         setGeneratedOutfits(outfits);
@@ -474,19 +487,7 @@ export function AIOutfitGenerator() {
 
 // Item Preview Component
 function ItemPreview({ item }: { item: ClothingItem }) {
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
-
-  useEffect(() => {
-    const loadImage = async () => {
-      const url = await getImageURL(item.id);
-      setImageUrl(url);
-    };
-    loadImage();
-
-    return () => {
-      if (imageUrl) URL.revokeObjectURL(imageUrl);
-    };
-  }, [item.id]);
+  const imageUrl = useImageURL(item.id, 'thumbnail');
 
   return (
     <div className="flex items-center gap-4 p-4 bg-gray-50 dark:bg-gray-700 rounded-xl">
@@ -533,19 +534,7 @@ function OutfitPreview({ outfit, index, onSave }: { outfit: Outfit; index: numbe
 
 // Outfit Item Preview Component
 function OutfitItemPreview({ item }: { item: ClothingItem }) {
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
-
-  useEffect(() => {
-    const loadImage = async () => {
-      const url = await getImageURL(item.id);
-      setImageUrl(url);
-    };
-    loadImage();
-
-    return () => {
-      if (imageUrl) URL.revokeObjectURL(imageUrl);
-    };
-  }, [item.id]);
+  const imageUrl = useImageURL(item.id, 'thumbnail');
 
   return (
     <div className="flex-shrink-0">
@@ -599,19 +588,7 @@ function ItemPickerModal({
 
 // Item Picker Card Component
 function ItemPickerCard({ item, onSelect }: { item: ClothingItem; onSelect: () => void }) {
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
-
-  useEffect(() => {
-    const loadImage = async () => {
-      const url = await getImageURL(item.id);
-      setImageUrl(url);
-    };
-    loadImage();
-
-    return () => {
-      if (imageUrl) URL.revokeObjectURL(imageUrl);
-    };
-  }, [item.id]);
+  const imageUrl = useImageURL(item.id, 'thumbnail');
 
   return (
     <button
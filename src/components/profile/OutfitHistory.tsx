@@ -1,31 +1,12 @@
-import { useState, useMemo, useEffect, memo } from 'react';
+import { useState, useMemo, memo } from 'react';
 import { useStore } from '../../store/useStore';
 import { Calendar } from 'lucide-react';
 import type { Outfit } from '../../types';
-import { getImageURL } from '../../utils/storage';
+import { useImageURL } from '../../hooks/useImageURL';
 
 // Image component that loads from IndexedDB
 const HistoryItemImage = memo(({ itemId, category }: { itemId: string; category: string }) => {
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
-
-  useEffect(() => {
-    const loadImage = async () => {
-      try {
-        const url = await getImageURL(itemId);
-        setImageUrl(url);
-      } catch (error) {
-        console.error('Failed to load image:', error);
-      }
-    };
-    loadImage();
-
-    // Cleanup: revoke object URL when component unmounts
-    return () => {
-      if (imageUrl) {
-        URL.revokeObjectURL(imageUrl);
-      }
-    };
-  }, [itemId]);
+  const imageUrl = useImageURL(itemId, 'thumbnail');
 
   return (
     <div className="aspect-square rounded-lg overflow-hidden bg-gray-200 dark:bg-gray-700">
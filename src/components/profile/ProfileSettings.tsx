@@ -1,8 +1,17 @@
 import { useState } from 'react';
 import { useStore } from '../../store/useStore';
-import { Moon, Sun, Palette, TrendingUp, Trash2, AlertCircle, Shirt, Briefcase, Zap, Activity, BookOpen } from 'lucide-react';
+import { Moon, Sun, Palette, TrendingUp, Trash2, AlertCircle, Shirt, Briefcase, Zap, Activity, BookOpen, Brain, RotateCcw, Shuffle, Clock } from 'lucide-react';
 import type { StylePreference } from '../../types';
 import type { LucideIcon } from 'lucide-react';
+import { RejectedOutfits } from './RejectedOutfits';
+import { WardrobeBackup } from './WardrobeBackup';
+import { StorageUsage } from './StorageUsage';
+import { SyncSettings } from './SyncSettings';
+import { defaultLifestyle, defaultActiveHours } from '../../utils/profileDefaults';
+
+// "8 AM", "12 PM", "12 AM" (24 = midnight at the end of the day)
+const formatHour = (hour: number): string => `${hour % 12 || 12} ${hour % 24 < 12 ? 'AM' : 'PM'}`;
+const HOURS = Array.from({ length: 25 }, (_, hour) => hour);
 
 const STYLE_OPTIONS: { key: StylePreference; label: string; icon: LucideIcon }[] = [
   { key: 'casual', label: 'Casual', icon: Shirt },
@@ -28,11 +37,15 @@ const COLOR_OPTIONS = [
 ];
 
 export const ProfileSettings = () => {
-  const { profile, setProfile, theme, toggleTheme, resetApp } = useStore();
+  const { profile, setProfile, theme, toggleTheme, resetApp, preferenceModel, resetPreferenceModel, clearWeatherCache, fetchWeather } = useStore();
   const [showResetConfirm, setShowResetConfirm] = useState(false);
 
   const [stylePreferences, setStylePreferences] = useState(profile.stylePreferences);
   const [favoriteColors, setFavoriteColors] = useState(profile.favoriteColors);
+  // Variety knob = lifestyle.fashionRiskTolerance (drives how varied the swipe deck is)
+  const [variety, setVariety] = useState(profile.lifestyle?.fashionRiskTolerance ?? defaultLifestyle.fashionRiskTolerance);
+  // Hours the user is usually out - rain is judged over these
+  const [activeHours, setActiveHours] = useState(profile.lifestyle?.activeHours ?? defaultActiveHours);
 
   const handleStyleChange = (style: StylePreference, value: number) => {
     setStylePreferences(prev => ({
@@ -56,10 +69,39 @@ export const ProfileSettings = () => {
       ...profile,
       stylePreferences,
       favoriteColors,
+      lifestyle: {
+        ...(profile.lifestyle ?? defaultLifestyle),
+        fashionRiskTolerance: variety,
+        activeHours,
+      },
     });
+    // Cached weather was judged over the old hours
+    const previousHours = profile.lifestyle?.activeHours ?? defaultActiveHours;
+    if (activeHours.start !== previousHours.start || activeHours.end !== previousHours.end) {
+      clearWeatherCache();
+      fetchWeather();
+    }
     alert('Settings saved successfully!');
   };
 
+  const handleResetLearning = () => {
+    if (window.confirm('Forget everything learned from your swipes? Suggestions will go back to your questionnaire preferences.')) {
+      resetPreferenceModel();
+    }
+  };
+
+  const handleResetComfort = () => {
+    if (window.confirm('Forget what your "too cold / too warm" answers taught? Weather suggestions will go back to your sensitivity settings.')) {
+      setProfile({ ...profile, thermalComfort: undefined });
+    }
+  };
+
+  // Learned comfort offset, e.g. "runs 4°F cold"
+  const comfortOffset = Math.round(profile.thermalComfort?.offset ?? 0);
+  const comfortSummary = comfortOffset === 0
+    ? 'dresses about right for the forecast'
+    : `runs ${Math.abs(comfortOffset)}°F ${comfortOffset < 0 ? 'cold' : 'warm'}`;
+
   const handleReset = () => {
     resetApp();
     setShowResetConfirm(false);
@@ -214,6 +256,143 @@ export const ProfileSettings = () => {
           </div>
         </div>
 
+        {/* Variety */}
+        <div className={`rounded-xl p-6 ${
+          theme === 'dark' ? 'bg-gray-800' : 'bg-white'
+        } shadow-md`}>
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <Shuffle className="w-5 h-5 text-purple-500" />
+              <h3 className={`font-semibold ${
+                theme === 'dark' ? 'text-white' : 'text-gray-900'
+              }`}>
+                Variety
+              </h3>
+            </div>
+            <span className={`text-sm font-semibold ${
+              theme === 'dark' ? 'text-purple-400' : 'text-purple-600'
+            }`}>
+              {variety}/10
+            </span>
+          </div>
+          <p className={`text-sm mb-4 ${
+            theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+          }`}>
+            {variety <= 3
+              ? 'Stick to your best outfits, even if pieces repeat'
+              : variety <= 6
+              ? 'A balance of favorites and fresh combinations'
+              : 'Mix it up - fewer repeated pieces and colors'}
+          </p>
+          <input
+            type="range"
+            min="0"
+            max="10"
+            value={variety}
+            onChange={(e) => setVariety(parseInt(e.target.value))}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-purple-600"
+          />
+          <div className="flex justify-between text-xs mt-2 text-gray-500">
+            <span>Safe favorites</span>
+            <span>Experimental</span>
+          </div>
+        </div>
+
+        {/* Active Hours */}
+        <div className={`rounded-xl p-6 ${
+          theme === 'dark' ? 'bg-gray-800' : 'bg-white'
+        } shadow-md`}>
+          <div className="flex items-center gap-2 mb-4">
+            <Clock className="w-5 h-5 text-purple-500" />
+            <h3 className={`font-semibold ${
+              theme === 'dark' ? 'text-white' : 'text-gray-900'
+            }`}>
+              Active Hours
+            </h3>
+          </div>
+          <p className={`text-sm mb-4 ${
+            theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+          }`}>
+            When you're usually out - the chance of rain is judged over these hours
+          </p>
+          <div className="flex items-center gap-3">
+            <select
+              value={activeHours.start}
+              onChange={(e) => {
+                const start = parseInt(e.target.value);
+                setActiveHours(prev => ({ start, end: Math.max(prev.end, start + 1) }));
+              }}
+              className={`flex-1 px-3 py-2 rounded-lg border text-sm ${
+                theme === 'dark' ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+              }`}
+            >
+              {HOURS.slice(0, 24).map(hour => (
+                <option key={hour} value={hour}>{formatHour(hour)}</option>
+              ))}
+            </select>
+            <span className={theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>to</span>
+            <select
+              value={activeHours.end}
+              onChange={(e) => setActiveHours(prev => ({ ...prev, end: parseInt(e.target.value) }))}
+              className={`flex-1 px-3 py-2 rounded-lg border text-sm ${
+                theme === 'dark' ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+              }`}
+            >
+              {HOURS.slice(activeHours.start + 1).map(hour => (
+                <option key={hour} value={hour}>{formatHour(hour)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Learned Preferences */}
+        <div className={`rounded-xl p-6 ${
+          theme === 'dark' ? 'bg-gray-800' : 'bg-white'
+        } shadow-md`}>
+          <div className="flex items-center gap-2 mb-4">
+            <Brain className="w-5 h-5 text-purple-500" />
+            <h3 className={`font-semibold ${
+              theme === 'dark' ? 'text-white' : 'text-gray-900'
+            }`}>
+              Learned Preferences
+            </h3>
+          </div>
+          <p className={`text-sm mb-4 ${
+            theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+          }`}>
+            {preferenceModel.trainingCount === 0
+              ? 'Swipe on outfits and Fitted will learn what you like.'
+              : `Learned from ${preferenceModel.trainingCount} swipes (${preferenceModel.likeCount} likes). Your suggestions are ranked using this.`}
+          </p>
+          <p className={`text-sm mb-4 ${
+            theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+          }`}>
+            {profile.thermalComfort?.feedbackCount
+              ? `Comfort: ${comfortSummary} (from ${profile.thermalComfort.feedbackCount} answers on Today's Pick). `
+              : 'Say how Today\'s Pick felt once worn and weather suggestions will adjust to how warm you run. '}
+            {!!profile.thermalComfort?.feedbackCount && (
+              <button onClick={handleResetComfort} className="underline hover:text-uw-purple">
+                Reset
+              </button>
+            )}
+          </p>
+          <button
+            onClick={handleResetLearning}
+            disabled={preferenceModel.trainingCount === 0}
+            className={`w-full py-3 flex items-center justify-center gap-2 font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              theme === 'dark'
+                ? 'bg-gray-700 text-white hover:bg-gray-600'
+                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reset Learning
+          </button>
+        </div>
+
+        {/* Rejected Outfits */}
+        <RejectedOutfits />
+
         {/* Save Button */}
         <button
           onClick={handleSave}
@@ -222,6 +401,15 @@ export const ProfileSettings = () => {
           Save Changes
         </button>
 
+        {/* Sync */}
+        <SyncSettings />
+
+        {/* Backup */}
+        <WardrobeBackup />
+
+        {/* Storage */}
+        <StorageUsage />
+
         {/* Danger Zone */}
         <div className={`rounded-xl p-4 ${
           theme === 'dark' ? 'bg-red-900/20 border border-red-900/50' : 'bg-red-50 border border-red-200'
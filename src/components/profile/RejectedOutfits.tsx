@@ -0,0 +1,139 @@
+import { useMemo } from 'react';
+import { useStore } from '../../store/useStore';
+import { ThumbsDown, X } from 'lucide-react';
+import { REJECTION_DECAY_OPTIONS } from '../../utils/outfitRejections';
+
+const formatDecay = (days: number) => (days === 0 ? 'Forever' : `${days} days`);
+
+/**
+ * Rejected outfits log (Settings)
+ * Lets the user review left-swiped outfits, un-reject them, and choose how long rejections last
+ */
+export const RejectedOutfits = () => {
+  const {
+    theme,
+    wardrobe,
+    rejectedOutfits,
+    rejectionDecayDays,
+    removeRejectedOutfit,
+    clearRejectedOutfits,
+    setRejectionDecayDays,
+  } = useStore();
+
+  // Most recent first, with items looked up from the wardrobe
+  const entries = useMemo(() => {
+    return [...rejectedOutfits]
+      .sort((a, b) => new Date(b.rejectedAt).getTime() - new Date(a.rejectedAt).getTime())
+      .map(rejection => ({
+        rejection,
+        items: rejection.itemIds
+          .map(id => wardrobe.find(item => item.id === id))
+          .filter((item): item is NonNullable<typeof item> => item !== undefined),
+      }));
+  }, [rejectedOutfits, wardrobe]);
+
+  const handleClearAll = () => {
+    if (window.confirm('Allow all rejected outfits to be suggested again?')) {
+      clearRejectedOutfits();
+    }
+  };
+
+  return (
+    <div className={`rounded-xl p-6 ${
+      theme === 'dark' ? 'bg-gray-800' : 'bg-white'
+    } shadow-md`}>
+      <div className="flex items-center gap-2 mb-4">
+        <ThumbsDown className="w-5 h-5 text-red-500" />
+        <h3 className={`font-semibold ${
+          theme === 'dark' ? 'text-white' : 'text-gray-900'
+        }`}>
+          Rejected Outfits
+        </h3>
+      </div>
+      <p className={`text-sm mb-4 ${
+        theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+      }`}>
+        Outfits you swipe left on won't be suggested again.
+      </p>
+
+      {/* Decay setting */}
+      <label className={`flex items-center justify-between text-sm mb-4 ${
+        theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+      }`}>
+        Forget rejections after
+        <select
+          value={rejectionDecayDays}
+          onChange={(e) => setRejectionDecayDays(Number(e.target.value))}
+          className={`ml-2 px-2 py-1 rounded-lg border ${
+            theme === 'dark' ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+          }`}
+        >
+          {REJECTION_DECAY_OPTIONS.map(days => (
+            <option key={days} value={days}>{formatDecay(days)}</option>
+          ))}
+        </select>
+      </label>
+
+      {entries.length === 0 ? (
+        <p className={`text-sm ${theme === 'dark' ? 'text-gray-500' : 'text-gray-400'}`}>
+          No rejected outfits.
+        </p>
+      ) : (
+        <>
+          <ul className="space-y-2 mb-4 max-h-64 overflow-y-auto">
+            {entries.map(({ rejection, items }) => (
+              <li
+                key={rejection.key}
+                className={`flex items-center justify-between gap-2 p-2 rounded-lg ${
+                  theme === 'dark' ? 'bg-gray-700' : 'bg-gray-50'
+                }`}
+              >
+                <div className="min-w-0">
+                  <div className="flex flex-wrap gap-1">
+                    {items.map(item => (
+                      <span
+                        key={item.id}
+                        className={`inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded-full capitalize ${
+                          theme === 'dark' ? 'bg-gray-600 text-gray-200' : 'bg-white text-gray-700'
+                        }`}
+                      >
+                        <span
+                          className="w-2.5 h-2.5 rounded-full border border-gray-300"
+                          style={{ backgroundColor: (item.colorHexes ?? item.colors)[0] }}
+                        />
+                        {item.category}
+                      </span>
+                    ))}
+                  </div>
+                  <p className={`text-xs mt-1 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {new Date(rejection.rejectedAt).toLocaleDateString()}
+                    {rejection.count > 1 && ` · rejected ${rejection.count}×`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => removeRejectedOutfit(rejection.key)}
+                  className={`p-1 rounded-full flex-shrink-0 ${
+                    theme === 'dark' ? 'hover:bg-gray-600 text-gray-300' : 'hover:bg-gray-200 text-gray-500'
+                  }`}
+                  aria-label="Allow this outfit again"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={handleClearAll}
+            className={`w-full py-3 font-semibold rounded-lg transition-colors ${
+              theme === 'dark'
+                ? 'bg-gray-700 text-white hover:bg-gray-600'
+                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            Clear All
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
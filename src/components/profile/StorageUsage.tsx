@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useStore } from '../../store/useStore';
+import { HardDrive, Trash2, Minimize2 } from 'lucide-react';
+import type { ClothingCategory } from '../../types';
+import {
+  getStorageUsage,
+  collectOrphanedImages,
+  recompressImages,
+  type StorageUsage as StorageUsageData,
+} from '../../utils/storageMaintenance';
+
+const CATEGORY_LABELS: Record<ClothingCategory, string> = {
+  top: 'Tops',
+  bottom: 'Bottoms',
+  shoes: 'Shoes',
+  outerwear: 'Outerwear',
+  accessory: 'Accessories',
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+/**
+ * Storage usage (Settings)
+ * Shows how much space wardrobe images take, and cleans up orphaned images
+ * or re-compresses large ones
+ */
+export const StorageUsage = () => {
+  const { theme, wardrobe } = useStore();
+  const [usage, setUsage] = useState<StorageUsageData | null>(null);
+  const [busyTask, setBusyTask] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setUsage(await getStorageUsage(wardrobe));
+    } catch (error) {
+      console.error('Failed to read storage usage:', error);
+    }
+  }, [wardrobe]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleCleanup = async () => {
+    setBusyTask('Cleaning up...');
+    setMessage(null);
+    try {
+      const removed = await collectOrphanedImages(wardrobe);
+      setMessage(removed.count > 0
+        ? `Removed ${removed.count} unused image${removed.count !== 1 ? 's' : ''} (${formatBytes(removed.bytes)})`
+        : 'Nothing to clean up');
+    } catch (error) {
+      console.error('Failed to clean up images:', error);
+      setMessage('Cleanup failed. Please try again.');
+    } finally {
+      setBusyTask(null);
+      refresh();
+    }
+  };
+
+  const handleRecompress = async () => {
+    setMessage(null);
+    try {
+      const saved = await recompressImages(wardrobe, (done, total) => setBusyTask(`Re-compressing ${done}/${total}...`));
+      setMessage(`Saved ${formatBytes(saved)}`);
+    } catch (error) {
+      console.error('Failed to re-compress images:', error);
+      setMessage('Re-compression failed. Please try again.');
+    } finally {
+      setBusyTask(null);
+      refresh();
+    }
+  };
+
+  const textMuted = theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+  const buttonClass = `flex-1 py-3 flex items-center justify-center gap-2 font-semibold rounded-lg transition-colors disabled:opacity-50 ${
+    theme === 'dark' ? 'bg-gray-700 text-white hover:bg-gray-600' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+  }`;
+
+  return (
+    <div className={`rounded-xl p-6 ${
+      theme === 'dark' ? 'bg-gray-800' : 'bg-white'
+    } shadow-md`}>
+      <div className="flex items-center gap-2 mb-4">
+        <HardDrive className="w-5 h-5 text-purple-500" />
+        <h3 className={`font-semibold ${
+          theme === 'dark' ? 'text-white' : 'text-gray-900'
+        }`}>
+          Storage
+        </h3>
+      </div>
+
+      {!usage ? (
+        <p className={`text-sm ${textMuted}`}>Checking storage...</p>
+      ) : (
+        <>
+          {/* Whole-origin usage (not every browser reports it) */}
+          {usage.usage !== null && usage.quota !== null && usage.quota > 0 && (
+            <div className="mb-4">
+              <div className={`flex justify-between text-sm mb-1 ${textMuted}`}>
+                <span>{formatBytes(usage.usage)} used</span>
+                <span>{formatBytes(usage.quota)} available</span>
+              </div>
+              <div className={`w-full h-2 rounded-full ${theme === 'dark' ? 'bg-gray-700' : 'bg-gray-200'}`}>
+                <div
+                  className="h-2 rounded-full bg-uw-purple"
+                  style={{ width: `${Math.min(100, (usage.usage / usage.quota) * 100)}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Per-category image usage */}
+          <div className={`text-sm space-y-1 mb-4 ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
+            {(Object.keys(CATEGORY_LABELS) as ClothingCategory[]).map(category => (
+              <div key={category} className="flex justify-between">
+                <span>{CATEGORY_LABELS[category]} ({usage.byCategory[category].count})</span>
+                <span>{formatBytes(usage.byCategory[category].bytes)}</span>
+              </div>
+            ))}
+            {usage.orphaned.count > 0 && (
+              <div className="flex justify-between text-amber-600">
+                <span>Unused images ({usage.orphaned.count})</span>
+                <span>{formatBytes(usage.orphaned.bytes)}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-semibold pt-1">
+              <span>All images</span>
+              <span>{formatBytes(usage.imageBytes)}</span>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleCleanup}
+              disabled={busyTask !== null || usage.orphaned.count === 0}
+              className={buttonClass}
+            >
+              <Trash2 className="w-4 h-4" />
+              Clean Up
+            </button>
+            <button
+              onClick={handleRecompress}
+              disabled={busyTask !== null || usage.recompressible.count === 0}
+              className={buttonClass}
+            >
+              <Minimize2 className="w-4 h-4" />
+              Re-compress ({usage.recompressible.count})
+            </button>
+          </div>
+        </>
+      )}
+
+      {(busyTask || message) && (
+        <p className={`text-sm mt-3 ${textMuted}`}>{busyTask ?? message}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,325 @@
+import { useEffect, useState } from 'react';
+import { useStore } from '../../store/useStore';
+import { Cloud, CloudOff, RefreshCw, KeyRound, Download } from 'lucide-react';
+import { checkSyncAvailable, getSyncKeyEnvelope } from '../../services/api';
+import { exportRecoveryKey } from '../../utils/syncCrypto';
+
+type SyncForm = 'start' | 'join' | 'recoveryKey' | null;
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Device sync (Settings)
+ * Opt-in and end-to-end encrypted: starts a sync space protected by a
+ * passphrase (its code and passphrase are entered on the other devices) or
+ * joins one, shows when this device last synced, and exports the recovery key.
+ * Servers without sync storage (a stock Vercel deploy) can't be turned on.
+ */
+export const SyncSettings = () => {
+  const { theme, sync, syncStatus, syncError, enableSync, disableSync, syncNow } = useStore();
+  const [form, setForm] = useState<SyncForm>(null);
+  const [code, setCode] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [useRecoveryKey, setUseRecoveryKey] = useState(false);
+  const [recoveryKey, setRecoveryKey] = useState('');
+  const [exportedKey, setExportedKey] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isAvailable, setIsAvailable] = useState(true);
+
+  // Only matters before sync is on; once on, a 503 shows up as a sync error
+  useEffect(() => {
+    if (sync.space) return;
+
+    let active = true;
+    checkSyncAvailable().then((available) => {
+      if (active) setIsAvailable(available);
+    });
+    return () => {
+      active = false;
+    };
+  }, [sync.space]);
+
+  const isSyncing = syncStatus === 'syncing';
+  const textMuted = theme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+  const inputClass = `w-full px-4 py-3 rounded-lg border text-sm ${
+    theme === 'dark' ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+  const primaryButtonClass = 'flex-1 py-3 bg-uw-purple text-white font-semibold rounded-lg hover:bg-purple-800 transition-colors disabled:opacity-50';
+  const buttonClass = `flex-1 py-3 flex items-center justify-center gap-2 font-semibold rounded-lg transition-colors disabled:opacity-50 ${
+    theme === 'dark' ? 'bg-gray-700 text-white hover:bg-gray-600' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+  }`;
+
+  const closeForm = () => {
+    setForm(null);
+    setCode('');
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setRecoveryKey('');
+    setUseRecoveryKey(false);
+    setExportedKey(null);
+    setFormError(null);
+  };
+
+  // Key derivation takes a moment, so every form shows a busy state
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true);
+    setFormError(null);
+    try {
+      await task();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStart = () => run(async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+    if (passphrase !== confirmPassphrase) {
+      throw new Error('Passphrases do not match');
+    }
+    await enableSync({ passphrase });
+    closeForm();
+  });
+
+  const handleJoin = () => run(async () => {
+    await enableSync({
+      space: code.replace(/\s/g, ''),
+      ...(useRecoveryKey ? { recoveryKey } : { passphrase }),
+    });
+    closeForm();
+  });
+
+  const handleExportKey = () => run(async () => {
+    const response = await getSyncKeyEnvelope(sync.space!);
+    if (!response.success || !response.envelope) {
+      throw new Error(response.error || 'Could not load the sync key');
+    }
+    setExportedKey(await exportRecoveryKey(response.envelope, passphrase));
+    setPassphrase('');
+  });
+
+  const handleDownloadKey = () => {
+    if (!exportedKey) return;
+    const text = `Fitted sync recovery key\n\nSync code: ${sync.space}\nRecovery key: ${exportedKey}\n\nAnyone with both can read your synced wardrobe. Keep this file somewhere safe.\n`;
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'fitted-recovery-key.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDisable = () => {
+    if (window.confirm('Stop syncing this device? Your wardrobe stays on this device and on your other devices.')) {
+      closeForm();
+      disableSync();
+    }
+  };
+
+  return (
+    <div className={`rounded-xl p-6 ${
+      theme === 'dark' ? 'bg-gray-800' : 'bg-white'
+    } shadow-md`}>
+      <div className="flex items-center gap-2 mb-4">
+        <Cloud className="w-5 h-5 text-purple-500" />
+        <h3 className={`font-semibold ${
+          theme === 'dark' ? 'text-white' : 'text-gray-900'
+        }`}>
+          Sync
+        </h3>
+      </div>
+
+      {!sync.space && !isAvailable ? (
+        <p className={`text-sm ${textMuted}`}>
+          Sync isn't available on this server. It needs persistent storage (SYNC_DATA_DIR), which a
+          standard Vercel deployment doesn't have - your wardrobe stays on this device.
+        </p>
+      ) : !sync.space ? (
+        <>
+          <p className={`text-sm mb-4 ${textMuted}`}>
+            Off. Turn on sync to keep your wardrobe, outfit history and profile the same on all your devices.
+            Everything is encrypted with your passphrase before it leaves this device.
+          </p>
+
+          {form === null && (
+            <div className="flex gap-2">
+              <button onClick={() => setForm('start')} className={primaryButtonClass}>
+                Start Syncing
+              </button>
+              <button onClick={() => setForm('join')} className={buttonClass}>
+                Join
+              </button>
+            </div>
+          )}
+
+          {form === 'start' && (
+            <div className="space-y-2">
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Passphrase"
+                autoComplete="new-password"
+                className={inputClass}
+              />
+              <input
+                type="password"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                placeholder="Repeat passphrase"
+                autoComplete="new-password"
+                className={inputClass}
+              />
+              <p className={`text-xs ${theme === 'dark' ? 'text-gray-500' : 'text-gray-400'}`}>
+                Your other devices need this passphrase. It can't be reset - export a recovery key once sync is on.
+              </p>
+              <div className="flex gap-2">
+                <button onClick={handleStart} disabled={isBusy || !passphrase} className={primaryButtonClass}>
+                  {isBusy ? 'Setting up...' : 'Start'}
+                </button>
+                <button onClick={closeForm} disabled={isBusy} className={buttonClass}>
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {form === 'join' && (
+            <div className="space-y-2">
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="Sync code from your other device"
+                className={`${inputClass} font-mono`}
+              />
+              {useRecoveryKey ? (
+                <input
+                  type="text"
+                  value={recoveryKey}
+                  onChange={(e) => setRecoveryKey(e.target.value)}
+                  placeholder="Recovery key"
+                  className={`${inputClass} font-mono`}
+                />
+              ) : (
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder="Passphrase"
+                  autoComplete="current-password"
+                  className={inputClass}
+                />
+              )}
+              <button
+                onClick={() => setUseRecoveryKey(!useRecoveryKey)}
+                className="text-xs text-purple-500 hover:underline"
+              >
+                {useRecoveryKey ? 'Use the passphrase instead' : 'Forgot the passphrase? Use a recovery key'}
+              </button>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleJoin}
+                  disabled={isBusy || !code.trim() || !(useRecoveryKey ? recoveryKey : passphrase)}
+                  className={primaryButtonClass}
+                >
+                  {isBusy ? 'Unlocking...' : 'Join'}
+                </button>
+                <button onClick={closeForm} disabled={isBusy} className={buttonClass}>
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      ) : (
+        <>
+          <p className={`text-sm mb-1 ${textMuted}`}>
+            Enter this code and your passphrase on your other devices:
+          </p>
+          <p className={`font-mono text-sm break-all mb-4 ${
+            theme === 'dark' ? 'text-gray-200' : 'text-gray-800'
+          }`}>
+            {sync.space}
+          </p>
+          <p className={`text-sm mb-4 ${textMuted}`}>
+            {isSyncing
+              ? 'Syncing...'
+              : sync.lastSyncedAt
+                ? `Last synced ${new Date(sync.lastSyncedAt).toLocaleString()}`
+                : 'Not synced yet'}
+          </p>
+          <div className="flex gap-2">
+            <button onClick={() => syncNow()} disabled={isSyncing} className={buttonClass}>
+              <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} />
+              Sync Now
+            </button>
+            <button onClick={handleDisable} disabled={isSyncing} className={buttonClass}>
+              <CloudOff className="w-4 h-4" />
+              Turn Off
+            </button>
+          </div>
+
+          {/* Recovery key export */}
+          {form !== 'recoveryKey' ? (
+            <button onClick={() => setForm('recoveryKey')} className={`${buttonClass} w-full mt-2`}>
+              <KeyRound className="w-4 h-4" />
+              Export Recovery Key
+            </button>
+          ) : exportedKey ? (
+            <div className="space-y-2 mt-4">
+              <p className={`text-sm ${textMuted}`}>
+                Your recovery key unlocks sync if you forget the passphrase. Anyone with it and the sync code can read your synced wardrobe.
+              </p>
+              <p className={`font-mono text-sm break-all ${
+                theme === 'dark' ? 'text-gray-200' : 'text-gray-800'
+              }`}>
+                {exportedKey}
+              </p>
+              <div className="flex gap-2">
+                <button onClick={handleDownloadKey} className={buttonClass}>
+                  <Download className="w-4 h-4" />
+                  Download
+                </button>
+                <button onClick={closeForm} className={buttonClass}>
+                  Done
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2 mt-4">
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Passphrase"
+                autoComplete="current-password"
+                className={inputClass}
+              />
+              <div className="flex gap-2">
+                <button onClick={handleExportKey} disabled={isBusy || !passphrase} className={primaryButtonClass}>
+                  {isBusy ? 'Checking...' : 'Show Recovery Key'}
+                </button>
+                <button onClick={closeForm} disabled={isBusy} className={buttonClass}>
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {formError && (
+        <p className="text-sm mt-3 text-red-500">{formError}</p>
+      )}
+      {syncStatus === 'error' && syncError && (
+        <p className="text-sm mt-3 text-red-500">{syncError}</p>
+      )}
+    </div>
+  );
+};
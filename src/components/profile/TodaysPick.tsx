@@ -2,16 +2,23 @@ import { useState } from 'react';
 import { useStore } from '../../store/useStore';
 import { WardrobeUpload } from '../wardrobe/WardrobeUpload';
 import { meetsMinimumRequirements } from '../../utils/outfitGenerator';
-import { Sparkles, RefreshCw } from 'lucide-react';
+import { Sparkles, RefreshCw, Snowflake, ThumbsUp, Flame } from 'lucide-react';
 import { OutfitDisplayCard } from '../shared/OutfitDisplayCard';
-import { AppView } from '../../types';
+import { AppView, ComfortFeedback } from '../../types';
+
+// "How did it feel?" answers (they calibrate the effective temperature, see utils/thermalComfort.ts)
+const COMFORT_OPTIONS: { value: ComfortFeedback; label: string; icon: typeof Snowflake }[] = [
+  { value: 'too-cold', label: 'Too cold', icon: Snowflake },
+  { value: 'just-right', label: 'Just right', icon: ThumbsUp },
+  { value: 'too-warm', label: 'Too warm', icon: Flame },
+];
 
 interface TodaysPickProps {
   onNavigate?: (view: AppView) => void;
 }
 
 export const TodaysPick = ({ onNavigate }: TodaysPickProps) => {
-  const { todaysPick, setTodaysPick, wardrobe, outfitHistory } = useStore();
+  const { todaysPick, setTodaysPick, wardrobe, outfitHistory, recordComfortFeedback } = useStore();
   const [showUploadModal, setShowUploadModal] = useState(false);
 
   const canSwipe = meetsMinimumRequirements(wardrobe);
@@ -118,6 +125,30 @@ export const TodaysPick = ({ onNavigate }: TodaysPickProps) => {
       <div className="max-w-2xl mx-auto p-6 pt-3">
         <OutfitDisplayCard items={todaysPick.items} />
 
+        {/* Comfort feedback - once it's been worn */}
+        <div className="mt-6 p-4 bg-white dark:bg-gray-800 rounded-xl shadow">
+          <div className="text-sm font-semibold text-gray-900 dark:text-white mb-3">
+            {todaysPick.comfort ? 'Thanks! Future picks will take it into account' : 'Wore it? How did it feel?'}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {COMFORT_OPTIONS.map(({ value, label, icon: Icon }) => (
+              <button
+                key={value}
+                onClick={() => recordComfortFeedback(todaysPick.id, value)}
+                disabled={!!todaysPick.comfort}
+                className={`flex flex-col items-center gap-1 px-3 py-2 rounded-lg text-sm transition-colors ${
+                  todaysPick.comfort === value
+                    ? 'bg-uw-purple text-white'
+                    : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 enabled:hover:bg-gray-200 dark:enabled:hover:bg-gray-600 disabled:opacity-50'
+                }`}
+              >
+                <Icon className="w-5 h-5" />
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
         {/* Action Buttons - Below Card */}
         <div className="mt-6 space-y-3">
           <button
@@ -0,0 +1,154 @@
+import { useRef, useState } from 'react';
+import { useStore } from '../../store/useStore';
+import { Archive, Download, Upload } from 'lucide-react';
+import type { ArchiveImportMode, WardrobeArchive } from '../../types';
+import { createWardrobeArchive, parseWardrobeArchive } from '../../utils/wardrobeArchive';
+import { getImage } from '../../utils/storage';
+
+/**
+ * Wardrobe backup (Settings)
+ * Exports the profile, wardrobe, outfit history and images to one JSON file,
+ * and imports such a file by merging it in or replacing everything
+ */
+export const WardrobeBackup = () => {
+  const { theme, profile, wardrobe, outfitHistory, importWardrobeArchive } = useStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [pendingArchive, setPendingArchive] = useState<WardrobeArchive | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const archive = await createWardrobeArchive({ profile, wardrobe, outfitHistory }, getImage);
+      const url = URL.createObjectURL(new Blob([JSON.stringify(archive)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `fitted-wardrobe-${archive.exportedAt.slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export wardrobe:', error);
+      setMessage({ text: 'Export failed. Please try again.', isError: true });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFileSelect = async (file: File | undefined) => {
+    if (!file) return;
+    setMessage(null);
+    try {
+      const result = parseWardrobeArchive(JSON.parse(await file.text()));
+      if (result.success) {
+        setPendingArchive(result.archive);
+      } else {
+        setMessage({ text: result.error, isError: true });
+      }
+    } catch {
+      setMessage({ text: 'Could not read this file', isError: true });
+    } finally {
+      // Allow picking the same file again
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleImport = async (mode: ArchiveImportMode) => {
+    if (!pendingArchive) return;
+    if (mode === 'replace' && !window.confirm('Replace your profile, wardrobe and outfit history with this backup? This cannot be undone.')) {
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const summary = await importWardrobeArchive(pendingArchive, mode);
+      const parts = [`${summary.added} item${summary.added !== 1 ? 's' : ''} imported`];
+      if (summary.skipped > 0) parts.push(`${summary.skipped} already in your wardrobe`);
+      if (summary.renamed > 0) parts.push(`${summary.renamed} renamed to avoid a clash`);
+      setMessage({ text: `${parts.join(', ')}.`, isError: false });
+      setPendingArchive(null);
+    } catch (error) {
+      console.error('Failed to import wardrobe:', error);
+      setMessage({ text: 'Import failed. Your wardrobe was not changed.', isError: true });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const buttonClass = `flex-1 py-3 flex items-center justify-center gap-2 font-semibold rounded-lg transition-colors disabled:opacity-50 ${
+    theme === 'dark' ? 'bg-gray-700 text-white hover:bg-gray-600' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+  }`;
+
+  return (
+    <div className={`rounded-xl p-6 ${
+      theme === 'dark' ? 'bg-gray-800' : 'bg-white'
+    } shadow-md`}>
+      <div className="flex items-center gap-2 mb-4">
+        <Archive className="w-5 h-5 text-purple-500" />
+        <h3 className={`font-semibold ${
+          theme === 'dark' ? 'text-white' : 'text-gray-900'
+        }`}>
+          Backup
+        </h3>
+      </div>
+      <p className={`text-sm mb-4 ${
+        theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+      }`}>
+        Your wardrobe only lives in this browser. Export a backup to move it to another device or keep it safe.
+      </p>
+
+      {!pendingArchive ? (
+        <div className="flex gap-2">
+          <button onClick={handleExport} disabled={isBusy || wardrobe.length === 0} className={buttonClass}>
+            <Download className="w-5 h-5" />
+            Export
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} disabled={isBusy} className={buttonClass}>
+            <Upload className="w-5 h-5" />
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => handleFileSelect(e.target.files?.[0])}
+            className="hidden"
+          />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <p className={`text-sm font-semibold ${
+            theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+          }`}>
+            Backup from {new Date(pendingArchive.exportedAt).toLocaleDateString()}: {pendingArchive.wardrobe.length} items, {pendingArchive.outfitHistory.length} outfits
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleImport('merge')}
+              disabled={isBusy}
+              className="flex-1 py-3 bg-uw-purple text-white font-semibold rounded-lg hover:bg-purple-800 transition-colors disabled:opacity-50"
+            >
+              Merge
+            </button>
+            <button onClick={() => handleImport('replace')} disabled={isBusy} className={buttonClass}>
+              Replace
+            </button>
+            <button onClick={() => setPendingArchive(null)} disabled={isBusy} className={buttonClass}>
+              Cancel
+            </button>
+          </div>
+          <p className={`text-xs ${theme === 'dark' ? 'text-gray-500' : 'text-gray-400'}`}>
+            Merge adds the backup to your wardrobe. Replace swaps your profile, wardrobe and history for the backup's.
+          </p>
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-sm mt-3 ${message.isError ? 'text-red-500' : 'text-green-600'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import { Check, Navigation, Search, X } from 'lucide-react';
+import { useStore } from '../../store/useStore';
+import { searchLocations } from '../../services/api';
+import { formatPlaceName } from '../../utils/locations';
+import type { GeocodeResponse } from '../../types';
+
+const SEARCH_DELAY = 300; // ms after the last keystroke
+
+interface LocationPickerProps {
+  onClose: () => void;
+}
+
+/**
+ * Pick where the weather is for: the current location or a saved city
+ * Searching adds cities to the saved list (kept in the profile, so it syncs)
+ */
+export function LocationPicker({ onClose }: LocationPickerProps) {
+  const savedLocations = useStore((state) => state.profile.savedLocations);
+  const currentCity = useStore((state) => state.profile.location?.city);
+  const activeLocationId = useStore((state) => state.activeLocationId);
+  const addSavedLocation = useStore((state) => state.addSavedLocation);
+  const removeSavedLocation = useStore((state) => state.removeSavedLocation);
+  const setActiveLocation = useStore((state) => state.setActiveLocation);
+  const refreshCurrentLocation = useStore((state) => state.refreshCurrentLocation);
+
+  const [query, setQuery] = useState('');
+  const [search, setSearch] = useState<GeocodeResponse | null>(null);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < 2) {
+      setSearch(null);
+      setSearching(false);
+      return;
+    }
+
+    // Only the latest query's results are shown
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      const response = await searchLocations(trimmed);
+      if (cancelled) return;
+      setSearch(response);
+      setSearching(false);
+    }, SEARCH_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const choose = (id: string | null) => {
+    void setActiveLocation(id);
+    onClose();
+  };
+
+  const rowClass = (active: boolean) =>
+    `flex-1 flex items-center gap-2 px-3 py-2 rounded-lg text-left text-sm transition-colors ${
+      active
+        ? 'bg-uw-purple/10 text-uw-purple dark:bg-uw-gold/10 dark:text-uw-gold font-medium'
+        : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+    }`;
+
+  return (
+    <div className="w-72 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 p-3">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Weather location</h3>
+        <button
+          onClick={onClose}
+          className="p-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+          aria-label="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Current location and saved cities */}
+      <div className="space-y-1">
+        <button
+          onClick={() => {
+            void refreshCurrentLocation();
+            onClose();
+          }}
+          className={`w-full ${rowClass(activeLocationId === null)}`}
+        >
+          <Navigation className="w-4 h-4 flex-shrink-0" />
+          <span className="truncate">Current location{currentCity ? ` (${currentCity})` : ''}</span>
+        </button>
+
+        {savedLocations?.map((location) => (
+          <div key={location.id} className="flex items-center gap-1">
+            <button onClick={() => choose(location.id)} className={rowClass(activeLocationId === location.id)}>
+              {activeLocationId === location.id ? (
+                <Check className="w-4 h-4 flex-shrink-0" />
+              ) : (
+                <span className="w-4 flex-shrink-0" />
+              )}
+              <span className="truncate">{location.name}</span>
+            </button>
+            <button
+              onClick={() => removeSavedLocation(location.id)}
+              className="p-1.5 rounded text-gray-400 hover:text-red-500"
+              aria-label={`Remove ${location.name}`}
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* City search */}
+      <div className="relative mt-3">
+        <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Add a city, e.g. Portland, OR"
+          className="w-full pl-8 pr-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-uw-purple"
+          autoFocus
+        />
+      </div>
+
+      {searching && (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Searching...</p>
+      )}
+      {!searching && search && !search.success && (
+        <p className="mt-2 text-xs text-red-600 dark:text-red-400">{search.error}</p>
+      )}
+      {!searching && search?.success && (
+        <div className="mt-2 space-y-1">
+          {search.results?.length === 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">No cities found</p>
+          )}
+          {search.results?.map((place) => (
+            <button
+              key={`${place.latitude},${place.longitude}`}
+              onClick={() => {
+                const saved = addSavedLocation({
+                  name: formatPlaceName(place),
+                  latitude: place.latitude,
+                  longitude: place.longitude,
+                });
+                choose(saved.id);
+              }}
+              className="w-full px-3 py-2 rounded-lg text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <div>{formatPlaceName(place)}</div>
+              {place.region && (
+                <div className="text-xs text-gray-500 dark:text-gray-400">{place.country}</div>
+              )}
+            </button>
+          ))}
+          {search.source === 'gazetteer' && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              City search is offline, so only major cities are listed
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
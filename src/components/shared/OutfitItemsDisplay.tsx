@@ -1,6 +1,6 @@
-import { memo, useState, useEffect } from 'react';
+import { memo } from 'react';
 import { ClothingItem } from '../../types';
-import { getImageURL } from '../../utils/storage';
+import { useImageURL } from '../../hooks/useImageURL';
 
 interface OutfitItemsDisplayProps {
   items: ClothingItem[];
@@ -10,26 +10,7 @@ interface OutfitItemsDisplayProps {
 
 // Image component that loads from IndexedDB
 const OutfitItemImage = memo(({ itemId, category }: { itemId: string; category: string }) => {
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
-
-  useEffect(() => {
-    const loadImage = async () => {
-      try {
-        const url = await getImageURL(itemId);
-        setImageUrl(url);
-      } catch (error) {
-        console.error('Failed to load image:', error);
-      }
-    };
-    loadImage();
-
-    // Cleanup: revoke object URL when component unmounts
-    return () => {
-      if (imageUrl) {
-        URL.revokeObjectURL(imageUrl);
-      }
-    };
-  }, [itemId]);
+  const imageUrl = useImageURL(itemId, 'full');
 
   return (
     <div className="aspect-square rounded-lg overflow-hidden bg-gray-100 dark:bg-gray-700">
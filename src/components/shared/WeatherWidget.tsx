@@ -6,6 +6,8 @@ interface WeatherWidgetProps {
   loading?: boolean;
   error?: string | null;
   onRequestWeather?: () => void;
+  locationName?: string; // Where the weather is for
+  onChooseLocation?: () => void; // Opens the location picker
 }
 
 /**
@@ -33,7 +35,17 @@ const getWeatherIcon = (condition: string) => {
 /**
  * Weather widget for displaying current conditions
  */
-export function WeatherWidget({ weather, loading, error, onRequestWeather }: WeatherWidgetProps) {
+export function WeatherWidget({ weather, loading, error, onRequestWeather, locationName, onChooseLocation }: WeatherWidgetProps) {
+  const chooseLocation = onChooseLocation && (
+    <button
+      onClick={onChooseLocation}
+      className="flex items-center gap-1 text-xs text-uw-purple dark:text-uw-gold hover:underline"
+    >
+      <MapPin className="w-3 h-3" />
+      Choose a city
+    </button>
+  );
+
   if (loading) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-lg px-3 py-2 shadow-md border border-gray-200 dark:border-gray-700">
@@ -46,38 +58,40 @@ export function WeatherWidget({ weather, loading, error, onRequestWeather }: Wea
   }
 
   if (error) {
-    // Show error message with retry button
+    // Show error message with retry button (and a way to pick a city instead)
     return (
-      <button
-        onClick={onRequestWeather}
-        className="bg-red-50 dark:bg-red-900/20 rounded-lg px-3 py-2 shadow-md border border-red-200 dark:border-red-800 hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
-      >
-        <div className="flex items-center gap-2">
+      <div className="bg-red-50 dark:bg-red-900/20 rounded-lg px-3 py-2 shadow-md border border-red-200 dark:border-red-800">
+        <button
+          onClick={onRequestWeather}
+          className="flex items-center gap-2 hover:opacity-80 transition-opacity"
+        >
           <Cloud className="w-6 h-6 text-red-500" />
           <div className="text-sm text-left">
             <div className="font-semibold text-red-900 dark:text-red-200">Weather Error</div>
             <div className="text-xs text-red-700 dark:text-red-300">Click to retry</div>
           </div>
-        </div>
-      </button>
+        </button>
+        {chooseLocation && <div className="mt-1 pl-8">{chooseLocation}</div>}
+      </div>
     );
   }
 
   if (!weather) {
-    // Show button to get weather
+    // Show button to get weather (from the current location, or a chosen city)
     return (
-      <button
-        onClick={onRequestWeather}
-        className="bg-white dark:bg-gray-800 rounded-lg px-3 py-2 shadow-md border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
-      >
-        <div className="flex items-center gap-2">
+      <div className="bg-white dark:bg-gray-800 rounded-lg px-3 py-2 shadow-md border border-gray-200 dark:border-gray-700">
+        <button
+          onClick={onRequestWeather}
+          className="flex items-center gap-2 hover:opacity-80 transition-opacity"
+        >
           <MapPin className="w-6 h-6 text-uw-purple" />
           <div className="text-sm text-left">
             <div className="font-semibold text-gray-900 dark:text-white">Get Weather</div>
             <div className="text-xs text-gray-500 dark:text-gray-400">Click to enable</div>
           </div>
-        </div>
-      </button>
+        </button>
+        {chooseLocation && <div className="mt-1 pl-8">{chooseLocation}</div>}
+      </div>
     );
   }
 
@@ -101,8 +115,19 @@ export function WeatherWidget({ weather, loading, error, onRequestWeather }: Wea
 
         {/* Additional Info */}
         <div className="text-right text-xs text-gray-600 dark:text-gray-400">
-          {weather.precipitation > 0 && (
-            <div>💧 {weather.precipitation}%</div>
+          {locationName && (
+            <button
+              onClick={onChooseLocation}
+              disabled={!onChooseLocation}
+              className="flex items-center justify-end gap-1 ml-auto max-w-[9rem] font-medium text-gray-700 dark:text-gray-300 enabled:hover:text-uw-purple dark:enabled:hover:text-uw-gold"
+              title="Change location"
+            >
+              <MapPin className="w-3 h-3 flex-shrink-0" />
+              <span className="truncate">{locationName}</span>
+            </button>
+          )}
+          {weather.precipitationProbability > 0 && (
+            <div>💧 {weather.precipitationProbability}%</div>
           )}
           <div>Feels {Math.round(weather.feelsLike)}°F</div>
         </div>
@@ -19,7 +19,7 @@ export const OutfitCard = memo(({ outfit }: OutfitCardProps) => {
           </div>
           <div className="flex gap-2">
             {outfit.items.slice(0, 3).map((item) =>
-              item.colors.slice(0, 2).map((color, idx) => (
+              (item.colorHexes ?? item.colors).slice(0, 2).map((color, idx) => (
                 <div
                   key={`${item.id}-${idx}`}
                   className="w-6 h-6 rounded-full border-2 border-white dark:border-gray-800 shadow-sm"
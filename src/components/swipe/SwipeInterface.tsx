@@ -1,9 +1,10 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useStore } from '../../store/useStore';
 import { Outfit } from '../../types';
 import { OutfitCard } from './OutfitCard';
 import { SwipeControls } from './SwipeControls';
-import { generateOutfits } from '../../utils/outfitGenerator';
+import { startOutfitGeneration, OutfitGenerationJob } from '../../utils/outfitWorkerClient';
+import { getRejectedOutfitKeys } from '../../utils/outfitRejections';
 
 interface SwipeInterfaceProps {
   onNavigate?: (view: 'wardrobe' | 'swipe' | 'todaysPick' | 'history' | 'settings') => void;
@@ -11,30 +12,73 @@ interface SwipeInterfaceProps {
 
 export function SwipeInterface({ onNavigate }: SwipeInterfaceProps) {
   // Defensive guards: ensure dailySuggestions is never undefined
-  const { dailySuggestions = [], setTodaysPick, addOutfit, setDailySuggestions } = useStore();
+  const { dailySuggestions = [], setTodaysPick, addOutfit, setDailySuggestions, setShownSuggestionCount, recordOutfitFeedback, rejectOutfit } = useStore();
   const wardrobe = useStore((s) => s.wardrobe ?? []);
   const profile = useStore((s) => s.profile);
+  const preferenceModel = useStore((s) => s.preferenceModel);
+  const rejectedOutfits = useStore((s) => s.rejectedOutfits);
+  const rejectionDecayDays = useStore((s) => s.rejectionDecayDays);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isTransitioning, setIsTransitioning] = useState(false);
+  const fallbackJobRef = useRef<OutfitGenerationJob | null>(null);
 
   // Get global weather data from store (Phase 18)
   const weatherData = useStore((s) => s.weatherData);
 
   const currentOutfit = dailySuggestions[currentIndex];
 
-  // Generate fallback outfits if needed
+  // Generate fallback outfits if needed (in the worker - the deck fills as results stream in)
   useEffect(() => {
-    if (dailySuggestions.length === 0 && wardrobe.length > 0) {
-      try {
-        const generated = generateOutfits(wardrobe, profile, 10, weatherData ?? undefined);
-        if (generated && generated.length > 0) {
-          setDailySuggestions(generated as Outfit[]);
+    if (dailySuggestions.length === 0 && wardrobe.length > 0 && !fallbackJobRef.current) {
+      const job = startOutfitGeneration(
+        {
+          wardrobe,
+          profile,
+          count: 10,
+          weather: weatherData ?? undefined,
+          options: {
+            preferenceModel,
+            rejectedOutfitKeys: getRejectedOutfitKeys(rejectedOutfits, rejectionDecayDays),
+          },
+        },
+        (partial) => {
+          if (partial.length > 0) {
+            setDailySuggestions(partial);
+          }
         }
-      } catch (err) {
-        console.error('Fallback outfit generation failed:', err);
-      }
+      );
+      fallbackJobRef.current = job;
+
+      job.promise
+        .then((generated) => {
+          if (generated && generated.length > 0) {
+            setDailySuggestions(generated);
+          }
+        })
+        .catch((err) => {
+          console.error('Fallback outfit generation failed:', err);
+        })
+        .finally(() => {
+          if (fallbackJobRef.current === job) fallbackJobRef.current = null;
+        });
     }
-  }, [dailySuggestions.length, wardrobe, profile, weatherData, setDailySuggestions]);
+  }, [dailySuggestions.length, wardrobe, profile, weatherData, preferenceModel, rejectedOutfits, rejectionDecayDays, setDailySuggestions]);
+
+  // Cards up to the current one have been seen: suggestions that stream in later
+  // (here or from the daily generator) only replace the cards after it
+  useEffect(() => {
+    setShownSuggestionCount(dailySuggestions.length > 0 ? currentIndex + 1 : 0);
+  }, [currentIndex, dailySuggestions.length, setShownSuggestionCount]);
+
+  useEffect(() => () => setShownSuggestionCount(0), [setShownSuggestionCount]);
+
+  // Stop a stale fallback run when the wardrobe changes mid-run or on unmount
+  useEffect(() => {
+    return () => {
+      fallbackJobRef.current?.cancel();
+      fallbackJobRef.current = null;
+    };
+  }, [wardrobe]);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -70,6 +114,9 @@ export function SwipeInterface({ onNavigate }: SwipeInterfaceProps) {
     };
     addOutfit(likedOutfit);
 
+    // Learn from the swipe so future rankings are personalized
+    recordOutfitFeedback(currentOutfit, true);
+
     // Set as today's pick if it's the first like
     setTodaysPick(likedOutfit);
 
@@ -94,6 +141,11 @@ export function SwipeInterface({ onNavigate }: SwipeInterfaceProps) {
     setIsTransitioning(true);
 
     // Don't save disliked outfits - only liked outfits are saved to history
+    // but still learn from the swipe
+    recordOutfitFeedback(currentOutfit, false);
+
+    // Remember the rejection so this outfit is never suggested again
+    rejectOutfit(currentOutfit);
 
     // Check if we're at the last outfit
     if (currentIndex === dailySuggestions.length - 1) {
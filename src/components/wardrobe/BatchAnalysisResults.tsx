@@ -8,17 +8,23 @@ import {
   RotateCcw,
   Check,
   X,
+  Trash2,
 } from 'lucide-react';
-import { ClothingCategory, AIClothingAnalysis } from '../../types';
-import { QueuedFile, AnalysisResult } from '../../hooks/useBatchAnalysis';
-import { useStore } from '../../store/useStore';
+import { ClothingCategory, QueuedFile } from '../../types';
+import { useBatchAnalysis } from '../../hooks/useBatchAnalysis';
+import { LoadingSpinner } from '../shared/LoadingSpinner';
+import {
+  CONFIDENCE_THRESHOLDS,
+  getBatchFileCategory,
+  isAnalysisPending,
+  isReadyToSave,
+  isUnreadable,
+  needsConfirmation,
+} from '../../utils/batchReview';
 
 interface BatchAnalysisResultsProps {
-  results: Map<string, AnalysisResult>;
-  queue: QueuedFile[];
-  onComplete: () => void;
-  onRetry: () => void;
-  onUpdateResult: (fileId: string, updates: Partial<AIClothingAnalysis>) => void;
+  onSave: () => void; // Start saving the reviewed files
+  onBack: () => void; // Return to the upload queue
 }
 
 interface EditState {
@@ -26,7 +32,7 @@ interface EditState {
 }
 
 interface EditValues {
-  [fileId: string]: Partial<AIClothingAnalysis>;
+  [fileId: string]: ClothingCategory | undefined;
 }
 
 const CATEGORY_LABELS: Record<ClothingCategory, string> = {
@@ -37,16 +43,19 @@ const CATEGORY_LABELS: Record<ClothingCategory, string> = {
   outerwear: 'Outerwear',
 };
 
-const CONFIDENCE_THRESHOLDS = {
-  HIGH: 0.8,
-  MEDIUM: 0.5,
-};
-
 /**
  * Get confidence indicator color and icon
  */
-const getConfidenceIndicator = (confidence: number) => {
-  if (confidence >= CONFIDENCE_THRESHOLDS.HIGH) {
+const getConfidenceIndicator = (file: QueuedFile) => {
+  const confidence = file.aiConfidence || 0;
+  if (file.confirmed) {
+    return {
+      color: 'text-green-600 dark:text-green-500',
+      bgColor: 'bg-green-100 dark:bg-green-900/30',
+      icon: CheckCircle,
+      label: 'Confirmed',
+    };
+  } else if (confidence >= CONFIDENCE_THRESHOLDS.HIGH) {
     return {
       color: 'text-green-600 dark:text-green-500',
       bgColor: 'bg-green-100 dark:bg-green-900/30',
@@ -73,64 +82,62 @@ const getConfidenceIndicator = (confidence: number) => {
 /**
  * BatchAnalysisResults Component
  *
- * Displays analysis results with:
+ * Review step of the batch upload. Displays analysis results with:
  * - Confidence indicators (green/yellow/red)
- * - Individual result editing
- * - Bulk actions (Accept All, Save to Wardrobe)
+ * - Individual category editing
+ * - Required confirmation for low-confidence and failed analyses
  * - Retry failed items
  */
 export const BatchAnalysisResults: React.FC<BatchAnalysisResultsProps> = ({
-  results,
-  queue,
-  onComplete,
-  onRetry,
-  onUpdateResult,
+  onSave,
+  onBack,
 }) => {
-  const addClothingItem = useStore((state) => state.addClothingItem);
+  const { queue, status, removeFile, updateQueueFileCategory, confirmFile, retryFailed } = useBatchAnalysis();
   const [editState, setEditState] = useState<EditState>({});
   const [editValues, setEditValues] = useState<EditValues>({});
 
   // Calculate stats
-  const successResults = Array.from(results.values()).filter((r) => r.status === 'success');
-  const errorResults = Array.from(results.values()).filter((r) => r.status === 'error');
-  const highConfidence = successResults.filter((r) => (r.confidence || 0) >= CONFIDENCE_THRESHOLDS.HIGH);
-  const mediumConfidence = successResults.filter(
-    (r) => (r.confidence || 0) >= CONFIDENCE_THRESHOLDS.MEDIUM && (r.confidence || 0) < CONFIDENCE_THRESHOLDS.HIGH
-  );
-  const lowConfidence = successResults.filter((r) => (r.confidence || 0) < CONFIDENCE_THRESHOLDS.MEDIUM);
+  const successResults = queue.filter((q) => q.aiStatus === 'success');
+  const errorResults = queue.filter((q) => q.aiStatus === 'failed');
+  const pendingResults = queue.filter(isAnalysisPending);
+  const readyResults = queue.filter(isReadyToSave);
+  const unreadableResults = queue.filter(isUnreadable);
+  const toConfirm = queue.filter((q) => !isAnalysisPending(q) && !isUnreadable(q) && needsConfirmation(q));
+  const canSave = queue.length > 0 && readyResults.length === queue.length;
+  const isRetrying = status === 'analyzing';
 
   /**
    * Toggle edit mode for a result
    */
-  const toggleEdit = useCallback((fileId: string) => {
+  const toggleEdit = useCallback((file: QueuedFile) => {
     setEditState((prev) => ({
       ...prev,
-      [fileId]: !prev[fileId],
+      [file.id]: !prev[file.id],
     }));
 
     // Initialize edit values if entering edit mode
-    const result = results.get(fileId);
-    if (result && !editState[fileId]) {
+    if (!editState[file.id]) {
       setEditValues((prev) => ({
         ...prev,
-        [fileId]: { ...result.analysis },
+        [file.id]: getBatchFileCategory(file),
       }));
     }
-  }, [editState, results]);
+  }, [editState]);
 
   /**
-   * Save edited result
+   * Save edited category (counts as reviewing the item)
    */
   const saveEdit = useCallback((fileId: string) => {
-    const updates = editValues[fileId];
-    if (updates) {
-      onUpdateResult(fileId, updates);
-    }
+    const category = editValues[fileId];
+    if (!category) return;
+
+    updateQueueFileCategory(fileId, category);
+    confirmFile(fileId);
     setEditState((prev) => ({
       ...prev,
       [fileId]: false,
     }));
-  }, [editValues, onUpdateResult]);
+  }, [editValues, updateQueueFileCategory, confirmFile]);
 
   /**
    * Cancel edit
@@ -150,46 +157,13 @@ export const BatchAnalysisResults: React.FC<BatchAnalysisResultsProps> = ({
   /**
    * Update edit value
    */
-  const updateEditValue = useCallback((fileId: string, field: keyof AIClothingAnalysis, value: any) => {
+  const updateEditValue = useCallback((fileId: string, category: ClothingCategory) => {
     setEditValues((prev) => ({
       ...prev,
-      [fileId]: {
-        ...prev[fileId],
-        [field]: value,
-      },
+      [fileId]: category,
     }));
   }, []);
 
-  /**
-   * Save all successful results to wardrobe
-   */
-  const handleSaveAll = useCallback(async () => {
-    let savedCount = 0;
-
-    for (const queuedFile of queue) {
-      const result = results.get(queuedFile.id);
-
-      if (result && result.status === 'success') {
-        const category = queuedFile.category || result.analysis!.suggestedCategory;
-        const clothingItem = {
-          id: crypto.randomUUID(),
-          image: queuedFile.preview, // Use preview image
-          category: category,
-          colors: result.analysis!.detectedColors,
-          style: result.analysis!.suggestedStyles,
-          uploadedAt: new Date(),
-          aiAnalysis: result.analysis,
-        };
-
-        addClothingItem(clothingItem);
-        savedCount++;
-      }
-    }
-
-    alert(`Successfully saved ${savedCount} items to your wardrobe!`);
-    onComplete();
-  }, [queue, results, addClothingItem, onComplete]);
-
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
       <div className="max-w-6xl mx-auto">
@@ -209,26 +183,26 @@ export const BatchAnalysisResults: React.FC<BatchAnalysisResultsProps> = ({
             <div className="text-2xl font-bold text-gray-900 dark:text-white">
               {successResults.length}
             </div>
-            <div className="text-sm text-gray-600 dark:text-gray-400">Successful</div>
+            <div className="text-sm text-gray-600 dark:text-gray-400">Analyzed</div>
           </div>
 
           <div className="bg-green-50 dark:bg-green-900/20 rounded-lg p-4 border border-green-200 dark:border-green-800">
             <div className="text-2xl font-bold text-green-600 dark:text-green-500">
-              {highConfidence.length}
+              {readyResults.length}
             </div>
             <div className="text-sm text-green-700 dark:text-green-400">Ready</div>
           </div>
 
           <div className="bg-amber-50 dark:bg-amber-900/20 rounded-lg p-4 border border-amber-200 dark:border-amber-800">
             <div className="text-2xl font-bold text-amber-600 dark:text-amber-500">
-              {mediumConfidence.length}
+              {toConfirm.length}
             </div>
-            <div className="text-sm text-amber-700 dark:text-amber-400">Needs Review</div>
+            <div className="text-sm text-amber-700 dark:text-amber-400">Needs Confirmation</div>
           </div>
 
           <div className="bg-red-50 dark:bg-red-900/20 rounded-lg p-4 border border-red-200 dark:border-red-800">
             <div className="text-2xl font-bold text-red-600 dark:text-red-500">
-              {errorResults.length + lowConfidence.length}
+              {errorResults.length}
             </div>
             <div className="text-sm text-red-700 dark:text-red-400">Errors</div>
           </div>
@@ -243,14 +217,15 @@ export const BatchAnalysisResults: React.FC<BatchAnalysisResultsProps> = ({
                   {errorResults.length} item{errorResults.length !== 1 ? 's' : ''} failed to analyze
                 </h3>
                 <p className="text-sm text-red-700 dark:text-red-300">
-                  You can retry the failed items or proceed with the successful ones
+                  Retry the failed items, or pick a category and confirm them yourself
                 </p>
               </div>
               <button
-                onClick={onRetry}
-                className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                onClick={() => void retryFailed()}
+                disabled={isRetrying}
+                className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                <RotateCcw size={16} />
+                <RotateCcw size={16} className={isRetrying ? 'animate-spin' : ''} />
                 Retry Failed
               </button>
             </div>
@@ -260,12 +235,15 @@ export const BatchAnalysisResults: React.FC<BatchAnalysisResultsProps> = ({
         {/* Results Grid */}
         <div className="space-y-4 mb-6">
           {queue.map((queuedFile) => {
-            const result = results.get(queuedFile.id);
-            if (!result) return null;
-
+            const analysis = queuedFile.aiStatus === 'success' ? queuedFile.aiAnalysis : undefined;
+            const pending = isAnalysisPending(queuedFile);
+            const failed = queuedFile.aiStatus === 'failed';
+            const unreadable = isUnreadable(queuedFile);
+            const mustConfirm = !pending && !unreadable && needsConfirmation(queuedFile);
+            const category = getBatchFileCategory(queuedFile);
             const isEditing = editState[queuedFile.id];
-            const editValue = editValues[queuedFile.id] || result.analysis;
-            const indicator = getConfidenceIndicator(result.confidence || 0);
+            const editValue = editValues[queuedFile.id];
+            const indicator = getConfidenceIndicator(queuedFile);
             const IndicatorIcon = indicator.icon;
 
             return (
@@ -274,8 +252,10 @@ export const BatchAnalysisResults: React.FC<BatchAnalysisResultsProps> = ({
                 className={`
                   bg-white dark:bg-gray-800 rounded-lg overflow-hidden
                   border-2 transition-all
-                  ${result.status === 'error'
+                  ${unreadable
                     ? 'border-red-300 dark:border-red-700'
+                    : mustConfirm
+                    ? 'border-amber-300 dark:border-amber-700'
                     : `border-gray-200 dark:border-gray-700 ${isEditing ? 'ring-2 ring-uw-purple' : ''}`
                   }
                 `}
@@ -284,11 +264,15 @@ export const BatchAnalysisResults: React.FC<BatchAnalysisResultsProps> = ({
                   <div className="flex gap-4">
                     {/* Preview Image */}
                     <div className="flex-shrink-0">
-                      <img
-                        src={queuedFile.preview}
-                        alt={queuedFile.originalName}
-                        className="w-24 h-24 object-cover rounded-lg"
-                      />
+                      {queuedFile.preview ? (
+                        <img
+                          src={queuedFile.preview}
+                          alt={queuedFile.originalName}
+                          className="w-24 h-24 object-cover rounded-lg"
+                        />
+                      ) : (
+                        <div className="w-24 h-24 rounded-lg bg-gray-200 dark:bg-gray-700" />
+                      )}
                     </div>
 
                     {/* Details */}
@@ -299,36 +283,65 @@ export const BatchAnalysisResults: React.FC<BatchAnalysisResultsProps> = ({
                           <h3 className="font-medium text-gray-900 dark:text-white truncate">
                             {queuedFile.originalName}
                           </h3>
-                          {result.status === 'success' && (
+                          {pending && (
+                            <div className="flex items-center gap-2 mt-1 text-gray-500 dark:text-gray-400">
+                              <LoadingSpinner size="sm" />
+                              <span className="text-xs">Analyzing...</span>
+                            </div>
+                          )}
+                          {analysis && (
                             <div className={`flex items-center gap-1 mt-1 ${indicator.color}`}>
                               <IndicatorIcon size={14} />
-                              <span className="text-xs">{indicator.label}</span>
+                              <span className="text-xs">
+                                {indicator.label}
+                                {queuedFile.aiConfidence !== undefined && ` (${(queuedFile.aiConfidence * 100).toFixed(0)}% confident)`}
+                              </span>
+                            </div>
+                          )}
+                          {unreadable && (
+                            <div className="flex items-center gap-1 mt-1 text-red-600 dark:text-red-500">
+                              <XCircle size={14} />
+                              <span className="text-xs">{queuedFile.error} - remove it to continue</span>
                             </div>
                           )}
-                          {result.status === 'error' && (
+                          {failed && (
                             <div className="flex items-center gap-1 mt-1 text-red-600 dark:text-red-500">
                               <XCircle size={14} />
-                              <span className="text-xs">{result.error}</span>
+                              <span className="text-xs">
+                                {queuedFile.confirmed ? 'Confirmed manually' : queuedFile.aiError || 'Analysis failed'}
+                              </span>
                             </div>
                           )}
                         </div>
 
                         {/* Edit/Save Buttons */}
-                        {result.status === 'success' && (
+                        {!pending && (
                           <div className="flex gap-2">
                             {!isEditing ? (
-                              <button
-                                onClick={() => toggleEdit(queuedFile.id)}
-                                className="p-2 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
-                                aria-label="Edit"
-                              >
-                                <Edit2 size={16} />
-                              </button>
+                              <>
+                                {!unreadable && (
+                                  <button
+                                    onClick={() => toggleEdit(queuedFile)}
+                                    className="p-2 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                                    aria-label="Edit"
+                                  >
+                                    <Edit2 size={16} />
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => removeFile(queuedFile.id)}
+                                  className="p-2 text-red-600 dark:text-red-500 hover:bg-red-100 dark:hover:bg-red-900/30 rounded-lg transition-colors"
+                                  aria-label="Remove"
+                                >
+                                  <Trash2 size={16} />
+                                </button>
+                              </>
                             ) : (
                               <>
                                 <button
                                   onClick={() => saveEdit(queuedFile.id)}
-                                  className="p-2 text-green-600 dark:text-green-500 hover:bg-green-100 dark:hover:bg-green-900/30 rounded-lg transition-colors"
+                                  disabled={!editValue}
+                                  className="p-2 text-green-600 dark:text-green-500 hover:bg-green-100 dark:hover:bg-green-900/30 rounded-lg transition-colors disabled:opacity-50"
                                   aria-label="Save"
                                 >
                                   <Check size={16} />
@@ -347,7 +360,7 @@ export const BatchAnalysisResults: React.FC<BatchAnalysisResultsProps> = ({
                       </div>
 
                       {/* Analysis Details (Editable) */}
-                      {result.status === 'success' && (
+                      {!pending && !unreadable && (
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                           {/* Category */}
                           <div>
@@ -356,16 +369,16 @@ export const BatchAnalysisResults: React.FC<BatchAnalysisResultsProps> = ({
                             </label>
                             {isEditing ? (
                               <select
-                                value={editValue.suggestedCategory}
+                                value={editValue ?? ''}
                                 onChange={(e) =>
                                   updateEditValue(
                                     queuedFile.id,
-                                    'suggestedCategory',
                                     e.target.value as ClothingCategory
                                   )
                                 }
                                 className="w-full px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
                               >
+                                {!editValue && <option value="">Select category</option>}
                                 {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
                                   <option key={value} value={value}>
                                     {label}
@@ -374,61 +387,82 @@ export const BatchAnalysisResults: React.FC<BatchAnalysisResultsProps> = ({
                               </select>
                             ) : (
                               <div className="text-sm font-medium text-gray-900 dark:text-white">
-                                {result.analysis!.suggestedCategory ? CATEGORY_LABELS[result.analysis!.suggestedCategory as ClothingCategory] : 'Unknown'}
+                                {category ? CATEGORY_LABELS[category] : 'Not selected'}
+                                {analysis?.alternateCategory && analysis.alternateConfidence && analysis.alternateConfidence > 0.3 && (
+                                  <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                                    (could also be {CATEGORY_LABELS[analysis.alternateCategory]})
+                                  </span>
+                                )}
                               </div>
                             )}
                           </div>
 
-                          {/* Colors */}
-                          <div>
-                            <label className="text-xs text-gray-500 dark:text-gray-400 block mb-1">
-                              Colors
-                            </label>
-                            <div className="flex flex-wrap gap-1">
-                              {result.analysis!.detectedColors.slice(0, 4).map((color: string, idx: number) => (
-                                <span
-                                  key={idx}
-                                  className="px-2 py-1 bg-gray-100 dark:bg-gray-700 rounded text-xs text-gray-900 dark:text-white"
-                                >
-                                  {color}
-                                </span>
-                              ))}
-                            </div>
-                          </div>
-
-                          {/* Season */}
-                          <div>
-                            <label className="text-xs text-gray-500 dark:text-gray-400 block mb-1">
-                              Season
-                            </label>
-                            <div className="text-sm text-gray-900 dark:text-white capitalize">
-                              {result.analysis!.season}
-                            </div>
-                          </div>
+                          {analysis && (
+                            <>
+                              {/* Colors */}
+                              <div>
+                                <label className="text-xs text-gray-500 dark:text-gray-400 block mb-1">
+                                  Colors
+                                </label>
+                                <div className="flex flex-wrap gap-1">
+                                  {analysis.detectedColors.slice(0, 4).map((color: string, idx: number) => (
+                                    <span
+                                      key={idx}
+                                      className="px-2 py-1 bg-gray-100 dark:bg-gray-700 rounded text-xs text-gray-900 dark:text-white"
+                                    >
+                                      {color}
+                                    </span>
+                                  ))}
+                                </div>
+                              </div>
 
-                          {/* Formality */}
-                          <div>
-                            <label className="text-xs text-gray-500 dark:text-gray-400 block mb-1">
-                              Formality
-                            </label>
-                            <div className="text-sm text-gray-900 dark:text-white capitalize">
-                              {result.analysis!.formality}
-                            </div>
-                          </div>
+                              {/* Season */}
+                              <div>
+                                <label className="text-xs text-gray-500 dark:text-gray-400 block mb-1">
+                                  Season
+                                </label>
+                                <div className="text-sm text-gray-900 dark:text-white capitalize">
+                                  {analysis.season}
+                                </div>
+                              </div>
 
-                          {/* Description */}
-                          {result.analysis!.description && (
-                            <div className="md:col-span-2">
-                              <label className="text-xs text-gray-500 dark:text-gray-400 block mb-1">
-                                Description
-                              </label>
-                              <div className="text-sm text-gray-700 dark:text-gray-300">
-                                {result.analysis!.description}
+                              {/* Formality */}
+                              <div>
+                                <label className="text-xs text-gray-500 dark:text-gray-400 block mb-1">
+                                  Formality
+                                </label>
+                                <div className="text-sm text-gray-900 dark:text-white capitalize">
+                                  {analysis.formality}
+                                </div>
                               </div>
-                            </div>
+
+                              {/* Description */}
+                              {analysis.description && (
+                                <div className="md:col-span-2">
+                                  <label className="text-xs text-gray-500 dark:text-gray-400 block mb-1">
+                                    Description
+                                  </label>
+                                  <div className="text-sm text-gray-700 dark:text-gray-300">
+                                    {analysis.description}
+                                  </div>
+                                </div>
+                              )}
+                            </>
                           )}
                         </div>
                       )}
+
+                      {/* Confirm low-confidence / failed items */}
+                      {mustConfirm && !isEditing && (
+                        <button
+                          onClick={() => confirmFile(queuedFile.id)}
+                          disabled={!category}
+                          className="mt-3 flex items-center gap-2 px-3 py-1.5 text-sm bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <Check size={14} />
+                          {category ? `Confirm as ${CATEGORY_LABELS[category]}` : 'Edit to pick a category'}
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -437,11 +471,22 @@ export const BatchAnalysisResults: React.FC<BatchAnalysisResultsProps> = ({
           })}
         </div>
 
+        {/* Blocking items */}
+        {!canSave && queue.length > 0 && (
+          <p className="mb-3 text-sm text-amber-700 dark:text-amber-400">
+            {pendingResults.length > 0
+              ? `Waiting for ${pendingResults.length} analysis result${pendingResults.length !== 1 ? 's' : ''}...`
+              : unreadableResults.length > 0 && toConfirm.length === 0
+              ? `Remove ${unreadableResults.length} unreadable item${unreadableResults.length !== 1 ? 's' : ''} before saving`
+              : `Confirm or remove ${toConfirm.length} item${toConfirm.length !== 1 ? 's' : ''} before saving`}
+          </p>
+        )}
+
         {/* Action Buttons */}
         <div className="flex gap-3">
           <button
-            onClick={handleSaveAll}
-            disabled={successResults.length === 0}
+            onClick={onSave}
+            disabled={!canSave}
             className="
               flex-1 bg-uw-purple text-white px-6 py-3 rounded-lg
               font-medium hover:bg-uw-purple/90 transition-colors
@@ -450,11 +495,11 @@ export const BatchAnalysisResults: React.FC<BatchAnalysisResultsProps> = ({
             "
           >
             <Save size={20} />
-            Save {successResults.length} Item{successResults.length !== 1 ? 's' : ''} to Wardrobe
+            Save {readyResults.length} Item{readyResults.length !== 1 ? 's' : ''} to Wardrobe
           </button>
 
           <button
-            onClick={onComplete}
+            onClick={onBack}
             className="
               px-6 py-3 rounded-lg font-medium
               border border-gray-300 dark:border-gray-700
@@ -463,7 +508,7 @@ export const BatchAnalysisResults: React.FC<BatchAnalysisResultsProps> = ({
               transition-colors
             "
           >
-            Cancel
+            Back
           </button>
         </div>
       </div>
@@ -3,6 +3,9 @@ import { Upload, X, Image as ImageIcon, AlertCircle, RefreshCw, CheckCircle } fr
 import { useBatchAnalysis } from '../../hooks/useBatchAnalysis';
 import { Button } from '../shared/Button';
 import { LoadingSpinner } from '../shared/LoadingSpinner';
+import { BatchAnalysisResults } from './BatchAnalysisResults';
+import { isSaveFailed } from '../../utils/batchReview';
+import { formatEta, STAGE_LABELS } from '../../utils/batchProgress';
 
 interface BatchUploadProps {
   onComplete?: () => void;
@@ -19,11 +22,14 @@ const MAX_FILES = 20;
  * - Drag & drop support
  * - Thumbnail grid preview
  * - Queue management
- * - Progress tracking
+ * - AI analysis of every file, reviewed in BatchAnalysisResults before saving
+ * - Per-file stages, progress tracking and a time estimate
+ * - Retry of failed saves only
  */
 export const BatchUpload: React.FC<BatchUploadProps> = ({ onComplete, onCancel }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [isReviewing, setIsReviewing] = useState(false);
 
   const {
     queue,
@@ -33,14 +39,18 @@ export const BatchUpload: React.FC<BatchUploadProps> = ({ onComplete, onCancel }
     processedCount,
     successCount,
     errorCount,
+    etaMs,
     addFiles,
     removeFile,
     startUpload,
     cancelUpload,
     clear,
     updateQueueFileCategory,
+    retryFailedUploads,
   } = useBatchAnalysis();
 
+  const isProcessing = status === 'preprocessing' || status === 'analyzing' || status === 'uploading';
+
   /**
    * Handle file selection from input
    */
@@ -96,23 +106,24 @@ export const BatchUpload: React.FC<BatchUploadProps> = ({ onComplete, onCancel }
   }, [status]);
 
   /**
-   * Handle start analysis
+   * Handle opening the review step
    */
-  const handleStartUpload = useCallback(() => {
+  const handleReview = useCallback(() => {
     if (queue.length === 0) {
       alert('Please add files first');
       return;
     }
 
-    // Check that all files have categories selected
-    const uncategorized = queue.filter(f => !f.category);
-    if (uncategorized.length > 0) {
-      alert('Please select a category for all items before uploading');
-      return;
-    }
+    setIsReviewing(true);
+  }, [queue.length]);
 
+  /**
+   * Handle saving the reviewed files
+   */
+  const handleStartUpload = useCallback(() => {
+    setIsReviewing(false);
     startUpload();
-  }, [queue, startUpload]);
+  }, [startUpload]);
 
   /**
    * Handle complete and close
@@ -124,22 +135,24 @@ export const BatchUpload: React.FC<BatchUploadProps> = ({ onComplete, onCancel }
 
   /**
    * Handle cancel - unified cancel logic
-   * - During processing (preprocessing/uploading): Stop and clear
+   * - During processing (preprocessing/analyzing/uploading): Stop and clear
    * - When idle with queue: Clear queue and close
    * - When idle without queue: Just close
    */
   const handleCancel = useCallback(() => {
-    if (status === 'preprocessing' || status === 'uploading') {
+    if (isProcessing) {
       // Stop processing first
       cancelUpload();
     }
     // Always clear and close (whether we stopped processing or not)
     clear();
     onCancel?.();
-  }, [status, cancelUpload, clear, onCancel]);
+  }, [isProcessing, cancelUpload, clear, onCancel]);
 
   // If upload is completed, show completion message
   if (status === 'completed') {
+    const failedFiles = queue.filter(isSaveFailed);
+
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
         <div className="max-w-6xl mx-auto">
@@ -150,15 +163,45 @@ export const BatchUpload: React.FC<BatchUploadProps> = ({ onComplete, onCancel }
               Successfully added {successCount} items to your wardrobe.
               {errorCount > 0 && ` (${errorCount} failed)`}
             </p>
-            <Button onClick={handleComplete}>
-              Return to Wardrobe
-            </Button>
+            {failedFiles.length > 0 && (
+              <ul className="max-w-md mx-auto mb-6 text-left text-sm space-y-1">
+                {failedFiles.map((queuedFile) => (
+                  <li key={queuedFile.id} className="flex items-start gap-2 text-red-600 dark:text-red-500">
+                    <AlertCircle size={16} className="mt-0.5 shrink-0" />
+                    <span className="truncate">
+                      {queuedFile.originalName}: {queuedFile.error}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex justify-center gap-3">
+              {failedFiles.length > 0 && (
+                <Button variant="outline" onClick={retryFailedUploads}>
+                  <RefreshCw size={16} className="mr-2" />
+                  Retry Failed ({failedFiles.length})
+                </Button>
+              )}
+              <Button onClick={handleComplete}>
+                Return to Wardrobe
+              </Button>
+            </div>
           </div>
         </div>
       </div>
     );
   }
 
+  // Review step (stays open while failed analyses are retried)
+  if (isReviewing && (status === 'idle' || status === 'analyzing')) {
+    return (
+      <BatchAnalysisResults
+        onSave={handleStartUpload}
+        onBack={() => setIsReviewing(false)}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
       <div className="max-w-6xl mx-auto">
@@ -239,11 +282,17 @@ export const BatchUpload: React.FC<BatchUploadProps> = ({ onComplete, onCancel }
                 className="relative group aspect-square bg-gray-200 dark:bg-gray-800 rounded-lg overflow-hidden"
               >
                 {/* Preview Image */}
-                <img
-                  src={queuedFile.preview}
-                  alt={queuedFile.originalName}
-                  className="w-full h-full object-cover"
-                />
+                {queuedFile.preview ? (
+                  <img
+                    src={queuedFile.preview}
+                    alt={queuedFile.originalName}
+                    className="w-full h-full object-cover"
+                  />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center">
+                    <ImageIcon size={32} className="text-gray-400" />
+                  </div>
+                )}
 
                 {/* Category selector for each queued file (pre-analysis) */}
                 {(status === 'idle' || status === 'cancelled') && (
@@ -282,15 +331,39 @@ export const BatchUpload: React.FC<BatchUploadProps> = ({ onComplete, onCancel }
                   </button>
                 )}
 
-                {/* Processing Status */}
-                {(status === 'preprocessing' || status === 'uploading') && (
-                  <div className="absolute inset-0 bg-black/40 dark:bg-black/40 flex items-center justify-center z-40">
-                    <div className="text-center px-4">
-                      <LoadingSpinner size="sm" />
-                      <div className="mt-3 text-white font-semibold">
-                        {status === 'uploading' ? 'Adding to wardrobe...' : 'Preprocessing...'}
+                {/* Per-file stage */}
+                {isProcessing && queuedFile.stage && queuedFile.stage !== 'failed' && (
+                  queuedFile.stage === 'ready' || queuedFile.stage === 'saved' ? (
+                    <div className="absolute top-2 left-2 z-30 flex items-center gap-1 px-2 py-0.5 bg-green-500 text-white text-[10px] font-medium rounded-full">
+                      <CheckCircle size={12} />
+                      {STAGE_LABELS[queuedFile.stage]}
+                    </div>
+                  ) : (
+                    <div className="absolute inset-0 bg-black/40 dark:bg-black/40 flex items-center justify-center z-40">
+                      <div className="text-center px-4">
+                        <LoadingSpinner size="sm" />
+                        <div className="mt-3 text-white font-semibold">
+                          {STAGE_LABELS[queuedFile.stage]}
+                        </div>
                       </div>
                     </div>
+                  )
+                )}
+                {queuedFile.stage === 'failed' ? (
+                  <div
+                    className="absolute top-2 left-2 right-10 z-30 flex items-center gap-1 px-2 py-0.5 bg-red-500 text-white text-[10px] font-medium rounded-full"
+                    title={queuedFile.error}
+                  >
+                    <AlertCircle size={12} className="shrink-0" />
+                    <span className="truncate">{queuedFile.error ?? STAGE_LABELS.failed}</span>
+                  </div>
+                ) : queuedFile.aiStatus === 'failed' && !isProcessing && (
+                  <div
+                    className="absolute top-2 left-2 z-30 flex items-center gap-1 px-2 py-0.5 bg-red-500 text-white text-[10px] font-medium rounded-full"
+                    title={queuedFile.aiError}
+                  >
+                    <AlertCircle size={12} />
+                    Analysis failed
                   </div>
                 )}
 
@@ -304,7 +377,7 @@ export const BatchUpload: React.FC<BatchUploadProps> = ({ onComplete, onCancel }
         )}
 
         {/* Progress Bar */}
-        {(status === 'preprocessing' || status === 'uploading') && (
+        {isProcessing && (
           <div className="mt-6">
             <div className="p-6 bg-gray-50 dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600 flex items-center gap-4">
               <div className="flex-1">
@@ -313,8 +386,15 @@ export const BatchUpload: React.FC<BatchUploadProps> = ({ onComplete, onCancel }
                   <div className="text-sm font-medium text-gray-700 dark:text-gray-300">
                     {status === 'uploading'
                       ? 'Saving to wardrobe...'
+                      : status === 'analyzing'
+                      ? 'Analyzing clothing...'
                       : 'Processing clothing...'} {processedCount} / {totalFiles} ({progress}%)
                   </div>
+                  {etaMs !== null && (
+                    <div className="ml-auto text-sm text-gray-500 dark:text-gray-400">
+                      {formatEta(etaMs)}
+                    </div>
+                  )}
                 </div>
                 <div className="w-full bg-gray-200 dark:bg-gray-800 rounded-full h-3">
                   <div
@@ -345,13 +425,13 @@ export const BatchUpload: React.FC<BatchUploadProps> = ({ onComplete, onCancel }
           {status === 'idle' && queue.length > 0 && (
             <>
               <button
-                onClick={handleStartUpload}
+                onClick={handleReview}
                 className="
                   flex-1 bg-uw-purple text-white px-6 py-3 rounded-lg
                   font-medium hover:bg-uw-purple/90 transition-colors
                 "
               >
-                Upload to Wardrobe
+                Review &amp; Save
               </button>
               <button
                 onClick={handleCancel}
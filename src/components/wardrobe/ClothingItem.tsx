@@ -1,7 +1,7 @@
-import { useState, useEffect, memo } from 'react';
+import { useState, memo } from 'react';
 import { Trash2, Tag } from 'lucide-react';
 import type { ClothingItem as ClothingItemType } from '../../types';
-import { getImageURL } from '../../utils/storage';
+import { useImageURL } from '../../hooks/useImageURL';
 
 interface ClothingItemProps {
   item: ClothingItemType;
@@ -9,27 +9,9 @@ interface ClothingItemProps {
 }
 
 export const ClothingItem = memo(({ item, onDelete }: ClothingItemProps) => {
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const imageUrl = useImageURL(item.id, 'thumbnail');
   const [isDeleting, setIsDeleting] = useState(false);
 
-  useEffect(() => {
-    const loadImage = async () => {
-      try {
-        const url = await getImageURL(item.id);
-        setImageUrl(url);
-      } catch (error) {
-        console.error('Failed to load image:', error);
-      }
-    };
-    loadImage();
-
-    // Cleanup: revoke object URL when component unmounts
-    return () => {
-      if (imageUrl) {
-        URL.revokeObjectURL(imageUrl);
-      }
-    };
-  }, [item.id]);
 
   const handleDelete = () => {
     setIsDeleting(true);
@@ -90,7 +72,7 @@ export const ClothingItem = memo(({ item, onDelete }: ClothingItemProps) => {
           <div className="flex items-center gap-1">
             <Tag className="w-3 h-3 text-gray-400" />
             <div className="flex gap-1">
-              {item.colors.slice(0, 3).map((color, index) => (
+              {(item.colorHexes ?? item.colors).slice(0, 3).map((color, index) => (
                 <div
                   key={index}
                   className="w-4 h-4 rounded-full border border-gray-300 dark:border-gray-600"
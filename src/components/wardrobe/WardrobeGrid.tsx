@@ -3,6 +3,7 @@ import { Filter } from 'lucide-react';
 import { useStore } from '../../store/useStore';
 import { ClothingItem } from './ClothingItem';
 import { deleteImage } from '../../utils/storage';
+import { invalidateImageURL } from '../../utils/imageUrlCache';
 import type { ClothingCategory } from '../../types';
 
 const filters: { value: ClothingCategory | 'all'; label: string }[] = [
@@ -23,6 +24,8 @@ export const WardrobeGrid = () => {
     removeClothingItem(id);
 
     // Delete from IndexedDB asynchronously; do not block the UI.
+    // (If this fails, storage cleanup in Settings picks up the orphaned image.)
+    invalidateImageURL(id);
     deleteImage(id).catch((error) => {
       console.error('Failed to delete image from storage:', error);
     });
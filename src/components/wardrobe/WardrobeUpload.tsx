@@ -309,6 +309,7 @@ export const WardrobeUpload = () => {
         id,
         image: id, // Store ID reference instead of base64
         category: selectedCategory,
+        subcategory: aiAnalysis?.suggestedSubcategory,
         colors,
         uploadedAt: new Date(),
         aiAnalysis: aiAnalysis || undefined, // Include AI analysis if available
@@ -1,6 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useStore } from '../store/useStore';
 import { generateOutfits } from '../utils/outfitGenerator';
+import { getRejectedOutfitKeys, getRejectionsForAI } from '../utils/outfitRejections';
+import { detectTemplate, getItemSubcategory } from '../utils/outfitTemplates';
 import { recommendOutfits } from '../services/api';
 import { useWeather } from './useWeather';
 import type { Outfit, WeatherData, RecommendOutfitsRequest } from '../types';
@@ -84,6 +86,9 @@ export const useAIOutfitRecommendations = (options: UseAIOutfitRecommendationsOp
 
   const wardrobe = useStore((state) => state.wardrobe);
   const profile = useStore((state) => state.profile);
+  const preferenceModel = useStore((state) => state.preferenceModel);
+  const rejectedOutfits = useStore((state) => state.rejectedOutfits);
+  const rejectionDecayDays = useStore((state) => state.rejectionDecayDays);
 
   // Use shared weather hook
   const { weather, fetchWeather } = useWeather();
@@ -106,6 +111,7 @@ export const useAIOutfitRecommendations = (options: UseAIOutfitRecommendationsOp
       const wardrobeData = wardrobe.map(item => ({
         id: item.id,
         category: item.category,
+        subcategory: getItemSubcategory(item),
         colors: item.colors,
         aiAnalysis: item.aiAnalysis,
       }));
@@ -118,6 +124,7 @@ export const useAIOutfitRecommendations = (options: UseAIOutfitRecommendationsOp
         favoriteColors: profile.favoriteColors,
         count,
         profile, // Phase 13: Send full profile with all enhanced personalization data
+        rejectedOutfits: getRejectionsForAI(rejectedOutfits, rejectionDecayDays),
       };
 
       // Call AI API
@@ -137,8 +144,9 @@ export const useAIOutfitRecommendations = (options: UseAIOutfitRecommendationsOp
           id: `ai-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
           items,
           createdAt: new Date(),
+          template: detectTemplate(items)?.id,
         };
-      });
+      }).filter(outfit => outfit.template !== undefined); // Drop invalid shapes (e.g. dress + jeans)
 
       // Cache the AI outfits
       saveCachedAIOutfits(aiOutfits, weather || undefined);
@@ -155,7 +163,10 @@ export const useAIOutfitRecommendations = (options: UseAIOutfitRecommendationsOp
    * Generate outfits using classic algorithm
    */
   const generateClassicOutfits = (): Outfit[] => {
-    return generateOutfits(wardrobe, profile, count, weather ?? undefined);
+    return generateOutfits(wardrobe, profile, count, weather ?? undefined, undefined, undefined, {
+      preferenceModel,
+      rejectedOutfitKeys: getRejectedOutfitKeys(rejectedOutfits, rejectionDecayDays),
+    });
   };
 
   /**
@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
 import { processImageForAI, blobToFile, hasTransparentBackground } from '../utils/backgroundRemoval';
+import { PipelineScheduler } from '../services/pipelineScheduler';
 
 export type ProcessingStatus = 'idle' | 'processing' | 'success' | 'error';
 
@@ -21,6 +22,7 @@ export interface UseBackgroundRemovalReturn extends BackgroundRemovalState {
 /**
  * React hook for automatic background removal
  * Manages loading states, progress tracking, and error handling
+ * (runs through the shared PipelineScheduler, so it waits its turn during a batch upload)
  */
 export function useBackgroundRemoval(): UseBackgroundRemovalReturn {
   const [state, setState] = useState<BackgroundRemovalState>({
@@ -47,15 +49,17 @@ export function useBackgroundRemoval(): UseBackgroundRemovalReturn {
 
     try {
       // Process image with background removal
-      const processedBlob = await processImageForAI(
-        file,
-        (progress, stage) => {
-          setState((prev) => ({
-            ...prev,
-            progress,
-            stage,
-          }));
-        }
+      const processedBlob = await PipelineScheduler.getInstance().run('background-removal', () =>
+        processImageForAI(
+          file,
+          (progress, stage) => {
+            setState((prev) => ({
+              ...prev,
+              progress,
+              stage,
+            }));
+          }
+        )
       );
 
       // Convert blob back to file
@@ -114,7 +118,7 @@ export function useBackgroundRemoval(): UseBackgroundRemovalReturn {
 
 /**
  * Batch background removal hook
- * Process multiple images sequentially with combined progress
+ * Process multiple images (as many at once as the PipelineScheduler allows) with combined progress
  */
 export function useBatchBackgroundRemoval() {
   const [state, setState] = useState<{
@@ -143,27 +147,28 @@ export function useBatchBackgroundRemoval() {
       errors: [],
     });
 
-    const results: File[] = [];
+    const scheduler = PipelineScheduler.getInstance();
     const errors: Array<{ index: number; error: string }> = [];
+    let finished = 0;
 
-    for (let i = 0; i < files.length; i++) {
-      setState((prev) => ({
-        ...prev,
-        currentIndex: i,
-        totalProgress: Math.round((i / files.length) * 100),
-      }));
-
+    const results = await Promise.all(files.map(async (file, i): Promise<File> => {
       try {
-        const processedBlob = await processImageForAI(files[i]);
-        const processedFile = blobToFile(processedBlob, files[i].name);
-        results.push(processedFile);
+        const processedBlob = await scheduler.run('background-removal', () => processImageForAI(file));
+        return blobToFile(processedBlob, file.name);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         errors.push({ index: i, error: errorMessage });
         // Use original file on error
-        results.push(files[i]);
+        return file;
+      } finally {
+        finished++;
+        setState((prev) => ({
+          ...prev,
+          currentIndex: finished,
+          totalProgress: Math.round((finished / files.length) * 100),
+        }));
       }
-    }
+    }));
 
     setState({
       status: errors.length === files.length ? 'error' : 'success',
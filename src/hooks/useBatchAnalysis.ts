@@ -1,27 +1,20 @@
-import { ClothingCategory } from '../types';
+import { ClothingCategory, QueuedFile, BatchStatus } from '../types';
 import { useStore } from '../store/useStore';
+import { estimateRemainingMs } from '../utils/batchProgress';
 
 // Re-export types from types/index.ts for backward compatibility
 export type { QueuedFile, BatchStatus } from '../types';
 
-// Legacy type for BatchAnalysisResults.tsx (not currently used)
-export interface AnalysisResult {
-  id: string;
-  status: 'success' | 'error';
-  analysis?: any;
-  confidence?: number;
-  error?: string;
-}
-
 interface UseBatchAnalysisReturn {
   // State
-  queue: any[];
-  status: any;
+  queue: QueuedFile[];
+  status: BatchStatus;
   progress: number; // 0-100
   totalFiles: number;
   processedCount: number;
   successCount: number;
   errorCount: number;
+  etaMs: number | null; // null until there's enough progress to estimate
 
   // Actions
   addFiles: (files: File[]) => Promise<void>;
@@ -30,6 +23,9 @@ interface UseBatchAnalysisReturn {
   cancelUpload: () => void;
   clear: () => void;
   updateQueueFileCategory: (fileId: string, category: ClothingCategory | null) => void;
+  confirmFile: (fileId: string) => void;
+  retryFailed: () => Promise<void>;
+  retryFailedUploads: () => Promise<void>;
 }
 
 /**
@@ -39,9 +35,10 @@ interface UseBatchAnalysisReturn {
  *
  * Features:
  * - Queue management for multiple files
- * - Parallel processing (5 images at a time)
+ * - Parallel AI analysis (3 images at a time) with a review step before saving
+ * - Retry of failed analyses and failed saves only
  * - Pause/resume/cancel support
- * - Progress tracking
+ * - Per-file stages, progress tracking and a time estimate
  * - Upload continues in background when switching tabs (global store)
  *
  * All logic moved to Zustand store for global persistence
@@ -54,6 +51,9 @@ export const useBatchAnalysis = (): UseBatchAnalysisReturn => {
   const addFiles = useStore((state) => state.addBatchFiles);
   const removeFile = useStore((state) => state.removeBatchFile);
   const updateQueueFileCategory = useStore((state) => state.updateBatchFileCategory);
+  const confirmFile = useStore((state) => state.confirmBatchFile);
+  const retryFailed = useStore((state) => state.retryFailedAnalysis);
+  const retryFailedUploads = useStore((state) => state.retryFailedUploads);
   const startUpload = useStore((state) => state.startBatchUpload);
   const cancelUpload = useStore((state) => state.cancelBatchUpload);
   const clear = useStore((state) => state.clearBatchQueue);
@@ -72,6 +72,7 @@ export const useBatchAnalysis = (): UseBatchAnalysisReturn => {
     processedCount: progressData.processedCount,
     successCount: progressData.successCount,
     errorCount: progressData.errorCount,
+    etaMs: estimateRemainingMs(progressData),
 
     // Actions
     addFiles,
@@ -80,5 +81,8 @@ export const useBatchAnalysis = (): UseBatchAnalysisReturn => {
     cancelUpload,
     clear,
     updateQueueFileCategory,
+    confirmFile,
+    retryFailed,
+    retryFailedUploads,
   };
 };
@@ -1,12 +1,12 @@
 import { useState, useCallback } from 'react';
 import {
   convertImageIfNeeded,
-  convertImagesIfNeeded,
   detectImageFormat,
   needsConversion,
   getFormatName,
   type ConversionProgress,
 } from '../utils/imageFormatConverter';
+import { PipelineScheduler } from '../services/pipelineScheduler';
 
 interface UseImageConverterState {
   isConverting: boolean;
@@ -26,6 +26,7 @@ interface UseImageConverterReturn {
 
 /**
  * React hook for image format conversion
+ * Conversions run through the shared PipelineScheduler
  *
  * Usage:
  * ```tsx
@@ -57,12 +58,14 @@ export const useImageConverter = (): UseImageConverterReturn => {
     });
 
     try {
-      const converted = await convertImageIfNeeded(file, (progress) => {
-        setState((prev) => ({
-          ...prev,
-          progress,
-        }));
-      });
+      const converted = await PipelineScheduler.getInstance().run('convert', () =>
+        convertImageIfNeeded(file, (progress) => {
+          setState((prev) => ({
+            ...prev,
+            progress,
+          }));
+        })
+      );
 
       setState({
         isConverting: false,
@@ -102,18 +105,21 @@ export const useImageConverter = (): UseImageConverterReturn => {
     });
 
     try {
-      const converted = await convertImagesIfNeeded(
-        files,
-        (fileIndex, progress) => {
-          setState((prev) => ({
-            ...prev,
-            progress: {
-              ...progress,
-              message: `[${fileIndex + 1}/${files.length}] ${progress.message}`,
-            },
-          }));
-        }
-      );
+      // As many at once as the scheduler allows (results keep the input order)
+      const scheduler = PipelineScheduler.getInstance();
+      const converted = await Promise.all(files.map((file, fileIndex) =>
+        scheduler.run('convert', () =>
+          convertImageIfNeeded(file, (progress) => {
+            setState((prev) => ({
+              ...prev,
+              progress: {
+                ...progress,
+                message: `[${fileIndex + 1}/${files.length}] ${progress.message}`,
+              },
+            }));
+          })
+        )
+      ));
 
       setState({
         isConverting: false,
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { acquireImageURL } from '../utils/imageUrlCache';
+import type { ImageVariant } from '../utils/storage';
+
+/**
+ * React hook for displaying a stored image
+ * URLs are shared through the image URL cache and released on unmount
+ * (or when the id changes), so they're never revoked while still on screen
+ *
+ * Usage:
+ * ```tsx
+ * const imageUrl = useImageURL(item.imageId, 'thumbnail');
+ * return imageUrl ? <img src={imageUrl} /> : <Placeholder />;
+ * ```
+ */
+export const useImageURL = (id: string | undefined, variant: ImageVariant = 'full'): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    if (!id) return;
+
+    let active = true;
+    const handle = acquireImageURL(id, variant);
+    handle.url.then((loaded) => {
+      if (active) setUrl(loaded);
+    });
+
+    return () => {
+      active = false;
+      handle.release();
+    };
+  }, [id, variant]);
+
+  return url;
+};
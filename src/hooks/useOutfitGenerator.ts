@@ -1,12 +1,17 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useStore } from '../store/useStore';
-import { generateOutfits } from '../utils/outfitGenerator';
+import { createDailySeed } from '../utils/outfitGenerator';
+import { createGenerationSnapshot, getSnapshotOptions, type OutfitGenerationSnapshot } from '../utils/outfitSnapshot';
+import { startOutfitGeneration, OutfitGenerationJob } from '../utils/outfitWorkerClient';
+import { getRejectedOutfitKeys } from '../utils/outfitRejections';
+import { createRandomSeed } from '../utils/random';
 import { useWeather } from './useWeather';
 import type { Outfit } from '../types';
 
 interface CachedOutfits {
   outfits: Outfit[];
   generatedAt: string; // ISO date string
+  snapshot?: OutfitGenerationSnapshot; // Seed and inputs that regenerate this exact set (missing in older caches)
 }
 
 const CACHE_KEY = 'fitted-daily-outfits';
@@ -55,11 +60,12 @@ const loadCachedOutfits = (): CachedOutfits | null => {
 /**
  * Save outfits to localStorage cache
  */
-const saveCachedOutfits = (outfits: Outfit[]): void => {
+const saveCachedOutfits = (outfits: Outfit[], snapshot: OutfitGenerationSnapshot): void => {
   try {
     const cache: CachedOutfits = {
       outfits,
-      generatedAt: new Date().toISOString(),
+      generatedAt: snapshot.generatedAt,
+      snapshot,
     };
     localStorage.setItem(CACHE_KEY, JSON.stringify(cache));
   } catch (error) {
@@ -74,26 +80,103 @@ const saveCachedOutfits = (outfits: Outfit[]): void => {
 export const useOutfitGenerator = (count: number = 10) => {
   const wardrobe = useStore((state) => state.wardrobe);
   const profile = useStore((state) => state.profile);
+  const preferenceModel = useStore((state) => state.preferenceModel);
+  const rejectedOutfits = useStore((state) => state.rejectedOutfits);
+  const rejectionDecayDays = useStore((state) => state.rejectionDecayDays);
   const { weather } = useWeather(); // Get weather for outfit generation
   const [outfits, setOutfits] = useState<Outfit[]>([]);
-  const [loading, setLoading] = useState(false);
+  const [loading, setLoading] = useState(false); // True until the first outfits arrive
+  const [refining, setRefining] = useState(false); // True while the worker is still scoring
   const [lastGeneratedDate, setLastGeneratedDate] = useState<string | null>(null);
+  const [seed, setSeed] = useState<number | null>(null);
+  const jobRef = useRef<OutfitGenerationJob | null>(null);
 
-  const generate = useCallback(() => {
-    setLoading(true);
-    // Add slight delay for UX (feels more intentional)
-    setTimeout(() => {
-      const generated = generateOutfits(wardrobe, profile, count, weather ?? undefined);
-      setOutfits(generated);
-      const now = new Date().toISOString();
-      setLastGeneratedDate(now);
+  /**
+   * Generate outfits in the worker (the same seed and inputs reproduce the same set)
+   * Partial results stream into `outfits` while later templates are still being scored
+   */
+  const generate = useCallback((generationSeed: number) => {
+    // A newer run supersedes any run still in flight
+    jobRef.current?.cancel();
 
-      // Cache the generated outfits
-      saveCachedOutfits(generated);
+    setLoading(true);
+    setRefining(true);
+
+    const snapshot = createGenerationSnapshot(
+      generationSeed,
+      wardrobe,
+      profile,
+      count,
+      weather ?? undefined,
+      preferenceModel,
+      getRejectedOutfitKeys(rejectedOutfits, rejectionDecayDays)
+    );
+    const job = startOutfitGeneration(
+      {
+        wardrobe,
+        profile,
+        count: snapshot.count,
+        weather: snapshot.weather,
+        options: getSnapshotOptions(snapshot),
+      },
+      (partial) => {
+        if (partial.length === 0) return;
+        setOutfits(partial);
+        setLoading(false);
+      }
+    );
+    jobRef.current = job;
+
+    job.promise
+      .then((generated) => {
+        if (generated === null) return; // Cancelled
+
+        setOutfits(generated);
+        setSeed(generationSeed);
+        setLastGeneratedDate(snapshot.generatedAt);
+
+        // Cache the generated outfits (with the snapshot so they can be reproduced)
+        saveCachedOutfits(generated, snapshot);
+      })
+      .catch((error) => {
+        console.error('Outfit generation failed:', error);
+      })
+      .finally(() => {
+        if (jobRef.current !== job) return; // Superseded by a newer run
+        jobRef.current = null;
+        setLoading(false);
+        setRefining(false);
+      });
+  }, [wardrobe, profile, count, weather, preferenceModel, rejectedOutfits, rejectionDecayDays]);
+
+  // Automatic runs use today's seed, so the day's suggestions stay the same
+  const generateDaily = useCallback(() => {
+    generate(createDailySeed(new Date(), wardrobe, weather ?? undefined));
+  }, [generate, wardrobe, weather]);
+
+  // Asking for new outfits gets a fresh set
+  const regenerate = useCallback(() => {
+    generate(createRandomSeed());
+  }, [generate]);
+
+  // A run still in flight when the wardrobe changes is stale: cancel it and start
+  // over with the new wardrobe (the checks below skip that when today's outfits are
+  // cached). On unmount it's only cancelled.
+  const restartRef = useRef(false);
+  useEffect(() => {
+    if (restartRef.current) {
+      restartRef.current = false;
+      generateDaily();
+    }
 
+    return () => {
+      restartRef.current = jobRef.current !== null;
+      jobRef.current?.cancel();
+      jobRef.current = null;
       setLoading(false);
-    }, 500);
-  }, [wardrobe, profile, count, weather]);
+      setRefining(false);
+    };
+  }, [wardrobe]); // generateDaily changes along with the wardrobe
 
   // Load cached outfits on mount
   useEffect(() => {
@@ -103,9 +186,10 @@ export const useOutfitGenerator = (count: number = 10) => {
       // Use cached outfits from today
       setOutfits(cached.outfits);
       setLastGeneratedDate(cached.generatedAt);
+      setSeed(cached.snapshot?.seed ?? null);
     } else if (wardrobe.length > 0 && profile.hasCompletedOnboarding) {
       // Generate new outfits if cache is stale or doesn't exist
-      generate();
+      generateDaily();
     }
   }, []); // Only run on mount
 
@@ -117,16 +201,18 @@ export const useOutfitGenerator = (count: number = 10) => {
 
       // If no cache or cache is from a different day, regenerate
       if (!cached || shouldRegenerateOutfits(cached.generatedAt)) {
-        generate();
+        generateDaily();
       }
     }
-  }, [wardrobe.length, profile.hasCompletedOnboarding, generate]);
+  }, [wardrobe.length, profile.hasCompletedOnboarding, generateDaily]);
 
   return {
     outfits,
     loading,
-    regenerate: generate,
+    refining,
+    regenerate,
     lastGeneratedDate,
+    seed,
     hasOutfits: outfits.length > 0,
   };
 };
@@ -1,5 +1,6 @@
 import { useStore } from '../store/useStore';
 import type { WeatherData } from '../types';
+import { getActiveLocation, getLocationLabel } from '../utils/locations';
 
 /**
  * Hook return type
@@ -10,6 +11,7 @@ export interface UseWeatherReturn {
   error: string | null;
   fetchWeather: () => Promise<void>;
   hasLocation: boolean;
+  locationName: string; // The saved location's name, else the current city
   clearCache: () => void;
 }
 
@@ -20,7 +22,7 @@ export interface UseWeatherReturn {
  *
  * Features:
  * - Automatic 30-minute caching in localStorage (handled by store)
- * - Falls back to geolocation API if profile location not set
+ * - Weather for the active saved location, else the browser's location
  * - Graceful error handling (returns null, doesn't crash)
  * - Weather state persists across component unmounts (global store)
  *
@@ -42,13 +44,15 @@ export function useWeather(): UseWeatherReturn {
   const fetchWeather = useStore((state) => state.fetchWeather);
   const clearCache = useStore((state) => state.clearWeatherCache);
   const profile = useStore((state) => state.profile);
+  const activeLocationId = useStore((state) => state.activeLocationId);
 
   return {
     weather,
     loading,
     error,
     fetchWeather,
-    hasLocation: !!profile.location || !!weather,
+    hasLocation: !!getActiveLocation(profile, activeLocationId) || !!profile.location || !!weather,
+    locationName: getLocationLabel(profile, activeLocationId),
     clearCache,
   };
 }
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { PipelineScheduler, isResourceError } from '../pipelineScheduler';
+
+const createScheduler = (memory: { value: number | null } = { value: null }) => {
+  let clock = 0;
+  const scheduler = new PipelineScheduler({
+    initialLimit: 2,
+    minLimit: 1,
+    maxLimit: 4,
+    readMemoryPressure: () => memory.value,
+    now: () => clock,
+  });
+  const advance = (ms: number) => {
+    clock += ms;
+  };
+  return { scheduler, advance };
+};
+
+// A task that "takes" `ms` on the fake clock
+const timedTask = (advance: (ms: number) => void, ms: number) => async () => {
+  advance(ms);
+  return ms;
+};
+
+describe('PipelineScheduler', () => {
+  it('never runs more tasks than the current limit', async () => {
+    const { scheduler } = createScheduler();
+    let running = 0;
+    let peak = 0;
+
+    await Promise.all(Array.from({ length: 6 }, () =>
+      scheduler.run('convert', async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise(resolve => setTimeout(resolve, 1));
+        running--;
+      })
+    ));
+
+    expect(peak).toBeLessThanOrEqual(4);
+    expect(peak).toBeGreaterThanOrEqual(2);
+  });
+
+  it('adds slots after healthy tasks, up to the max', async () => {
+    const { scheduler, advance } = createScheduler();
+
+    for (let i = 0; i < 20; i++) {
+      await scheduler.run('convert', timedTask(advance, 100));
+    }
+
+    expect(scheduler.concurrency).toBe(4);
+  });
+
+  it('halves the limit under memory pressure', async () => {
+    const memory = { value: null as number | null };
+    const { scheduler, advance } = createScheduler(memory);
+    for (let i = 0; i < 20; i++) {
+      await scheduler.run('convert', timedTask(advance, 100));
+    }
+
+    memory.value = 0.9;
+    advance(1);
+    await scheduler.run('convert', timedTask(advance, 100));
+
+    expect(scheduler.concurrency).toBe(2);
+  });
+
+  it('backs off when a stage is much slower than usual', async () => {
+    const { scheduler, advance } = createScheduler();
+    for (let i = 0; i < 20; i++) {
+      await scheduler.run('background-removal', timedTask(advance, 100));
+    }
+
+    advance(1);
+    await scheduler.run('background-removal', timedTask(advance, 1000));
+
+    expect(scheduler.concurrency).toBe(2);
+  });
+
+  it('keeps its limit when a single file fails', async () => {
+    const { scheduler, advance } = createScheduler();
+    for (let i = 0; i < 20; i++) {
+      await scheduler.run('convert', timedTask(advance, 100));
+    }
+
+    await expect(
+      scheduler.run('convert', async () => {
+        throw new Error('Unsupported HEIC variant');
+      })
+    ).rejects.toThrow('Unsupported HEIC variant');
+
+    expect(scheduler.concurrency).toBe(4);
+  });
+
+  it('backs off on out-of-memory failures', async () => {
+    const { scheduler, advance } = createScheduler();
+    for (let i = 0; i < 20; i++) {
+      await scheduler.run('convert', timedTask(advance, 100));
+    }
+
+    advance(1);
+    await expect(
+      scheduler.run('convert', async () => {
+        throw new RangeError('Array buffer allocation failed');
+      })
+    ).rejects.toThrow(RangeError);
+
+    expect(scheduler.concurrency).toBe(2);
+  });
+
+  it('never drops below the minimum', async () => {
+    const memory = { value: 0.95 };
+    const { scheduler, advance } = createScheduler(memory);
+
+    for (let i = 0; i < 5; i++) {
+      advance(1);
+      await scheduler.run('save', timedTask(advance, 100));
+    }
+
+    expect(scheduler.concurrency).toBe(1);
+  });
+});
+
+describe('isResourceError', () => {
+  it('tells resource exhaustion apart from a bad file', () => {
+    expect(isResourceError(new RangeError('Invalid array length'))).toBe(true);
+    expect(isResourceError(new Error('WebAssembly: out of memory'))).toBe(true);
+    expect(isResourceError(new Error('Failed to decode image'))).toBe(false);
+  });
+});
@@ -4,6 +4,13 @@ import type {
   RecommendOutfitsRequest,
   RecommendOutfitsResponse,
   WeatherResponse,
+  ActiveHours,
+  GeocodeResponse,
+  SyncChange,
+  SyncResponse,
+  SyncImageResponse,
+  SyncKeyEnvelope,
+  SyncKeyResponse,
 } from '../types';
 
 // API base URL - will be relative in production, can be overridden for local testing
@@ -88,14 +95,17 @@ export async function recommendOutfits(
 
 /**
  * Get current weather data using Open-Meteo API (free, no API key needed)
+ * Precipitation covers what's left of the active hours today (server default if omitted)
  */
 export async function getWeather(
   latitude: number,
-  longitude: number
+  longitude: number,
+  activeHours?: ActiveHours
 ): Promise<WeatherResponse> {
   try {
+    const hours = activeHours ? `&from=${activeHours.start}&to=${activeHours.end}` : '';
     const response = await fetch(
-      `${API_BASE_URL}/api/weather?lat=${latitude}&lon=${longitude}`
+      `${API_BASE_URL}/api/weather?lat=${latitude}&lon=${longitude}${hours}`
     );
 
     if (!response.ok) {
@@ -114,6 +124,141 @@ export async function getWeather(
   }
 }
 
+/**
+ * Send a request to /api/geocode
+ */
+async function geocodeRequest(params: string): Promise<GeocodeResponse> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/geocode?${params}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error: any) {
+    console.error('Error geocoding:', error);
+    return {
+      success: false,
+      error: error.message || 'Location search failed',
+    };
+  }
+}
+
+/**
+ * Search cities by name, e.g. "Portland" or "Portland, OR"
+ */
+export function searchLocations(query: string): Promise<GeocodeResponse> {
+  return geocodeRequest(`q=${encodeURIComponent(query)}`);
+}
+
+/**
+ * Name the major city near some coordinates (no result if none is close)
+ */
+export function reverseGeocode(latitude: number, longitude: number): Promise<GeocodeResponse> {
+  return geocodeRequest(`lat=${latitude}&lon=${longitude}`);
+}
+
+/**
+ * Send a request to the /api/sync routes
+ * The sync code identifies the user's devices (and is the only credential)
+ */
+async function syncRequest<T extends { success: boolean; error?: string }>(
+  space: string,
+  path: string,
+  init: RequestInit = {}
+): Promise<T> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/sync${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Sync-Space': space,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error: any) {
+    console.error(`Error syncing (${path}):`, error);
+    return {
+      success: false,
+      error: error.message || 'Sync failed',
+    } as T;
+  }
+}
+
+/**
+ * Whether this server can sync at all
+ * /api/sync answers 503 until it has persistent storage (SYNC_DATA_DIR), as on a
+ * stock Vercel deploy. Network errors count as available - syncing reports those itself.
+ */
+export async function checkSyncAvailable(): Promise<boolean> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/sync`);
+    return response.status !== 503;
+  } catch (error) {
+    console.error('Error checking sync availability:', error);
+    return true;
+  }
+}
+
+/**
+ * Get documents changed on other devices since a revision
+ */
+export function pullSyncChanges(space: string, since: number): Promise<SyncResponse> {
+  return syncRequest<SyncResponse>(space, `?since=${since}`);
+}
+
+/**
+ * Push local edits; the response has the merged version of each document
+ */
+export function pushSyncChanges(space: string, changes: SyncChange[]): Promise<SyncResponse> {
+  return syncRequest<SyncResponse>(space, '', {
+    method: 'POST',
+    body: JSON.stringify({ changes }),
+  });
+}
+
+/**
+ * Upload a wardrobe item's image (encrypted)
+ */
+export function uploadSyncImage(space: string, id: string, payload: string): Promise<SyncImageResponse> {
+  return syncRequest<SyncImageResponse>(space, `/images/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    body: JSON.stringify({ payload }),
+  });
+}
+
+/**
+ * Download a wardrobe item's image (encrypted)
+ */
+export function downloadSyncImage(space: string, id: string): Promise<SyncImageResponse> {
+  return syncRequest<SyncImageResponse>(space, `/images/${encodeURIComponent(id)}`);
+}
+
+/**
+ * Get a sync space's key envelope (the passphrase-encrypted sync key)
+ */
+export function getSyncKeyEnvelope(space: string): Promise<SyncKeyResponse> {
+  return syncRequest<SyncKeyResponse>(space, '/key');
+}
+
+/**
+ * Store the key envelope of a new sync space (fails if the space already has one)
+ */
+export function putSyncKeyEnvelope(space: string, envelope: SyncKeyEnvelope): Promise<SyncKeyResponse> {
+  return syncRequest<SyncKeyResponse>(space, '/key', {
+    method: 'PUT',
+    body: JSON.stringify({ envelope }),
+  });
+}
+
 /**
  * Get user's geolocation
  */
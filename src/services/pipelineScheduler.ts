@@ -0,0 +1,176 @@
+/**
+ * Adaptive concurrency for the image pipeline (conversion, background removal, saving)
+ *
+ * One shared limit for every caller, adjusted AIMD-style:
+ * - Additive increase: +1 slot after about `limit` healthy tasks
+ * - Multiplicative decrease: halve on memory pressure, a latency spike,
+ *   or an out-of-memory style failure
+ *
+ * A task that simply fails (corrupt HEIC, network error) is the caller's problem -
+ * it doesn't change the limit.
+ */
+
+export type PipelineStage = 'convert' | 'background-removal' | 'save';
+
+export interface PipelineSchedulerOptions {
+  initialLimit: number;
+  minLimit: number;
+  maxLimit: number;
+  latencySpikeFactor: number;      // Latency this many times the stage's average counts as congestion
+  memoryPressureThreshold: number; // Heap usage (0-1) above which we back off
+  readMemoryPressure: () => number | null; // null when the browser can't tell
+  now: () => number;
+}
+
+interface LatencyStats {
+  average: number;
+  samples: number;
+}
+
+// Average from a few tasks before latency spikes count
+const MIN_LATENCY_SAMPLES = 3;
+// Weight of the newest sample in the moving average
+const LATENCY_SMOOTHING = 0.3;
+
+/**
+ * Heap usage from Chrome's non-standard performance.memory
+ */
+const readHeapUsage = (): number | null => {
+  const memory = (performance as Performance & {
+    memory?: { usedJSHeapSize: number; jsHeapSizeLimit: number };
+  }).memory;
+  if (!memory || !memory.jsHeapSizeLimit) return null;
+  return memory.usedJSHeapSize / memory.jsHeapSizeLimit;
+};
+
+/**
+ * Low-memory devices (navigator.deviceMemory, in GB) get fewer slots
+ */
+const getDefaultMaxLimit = (): number => {
+  const deviceMemory = typeof navigator !== 'undefined'
+    ? (navigator as Navigator & { deviceMemory?: number }).deviceMemory
+    : undefined;
+  return deviceMemory !== undefined && deviceMemory <= 2 ? 2 : 4;
+};
+
+/**
+ * Failures caused by the device running out of resources (vs. a bad file)
+ */
+export const isResourceError = (error: unknown): boolean => {
+  if (error instanceof RangeError) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /out of memory|allocation failed|memory limit|oom/i.test(message);
+};
+
+export class PipelineScheduler {
+  private static instance: PipelineScheduler;
+  private options: PipelineSchedulerOptions;
+  private limit: number;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private latency = new Map<PipelineStage, LatencyStats>();
+  private lastDecreaseAt = -Infinity;
+
+  constructor(options: Partial<PipelineSchedulerOptions> = {}) {
+    this.options = {
+      initialLimit: 2,
+      minLimit: 1,
+      maxLimit: getDefaultMaxLimit(),
+      latencySpikeFactor: 2,
+      memoryPressureThreshold: 0.75,
+      readMemoryPressure: readHeapUsage,
+      now: () => performance.now(),
+      ...options,
+    };
+    this.limit = Math.min(this.options.maxLimit, Math.max(this.options.minLimit, this.options.initialLimit));
+  }
+
+  /**
+   * Shared by the batch upload and the single-image hooks
+   */
+  static getInstance(): PipelineScheduler {
+    if (!PipelineScheduler.instance) {
+      PipelineScheduler.instance = new PipelineScheduler();
+    }
+    return PipelineScheduler.instance;
+  }
+
+  /**
+   * Current number of slots
+   */
+  get concurrency(): number {
+    return Math.floor(this.limit);
+  }
+
+  /**
+   * Run `task` once a slot is free; resolves/rejects with the task's result
+   */
+  async run<T>(stage: PipelineStage, task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    const startedAt = this.options.now();
+
+    try {
+      const result = await task();
+      this.recordSuccess(stage, this.options.now() - startedAt, startedAt);
+      return result;
+    } catch (error) {
+      if (isResourceError(error)) {
+        this.decrease(startedAt);
+      }
+      throw error;
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  private release() {
+    this.active--;
+    this.drain();
+  }
+
+  private drain() {
+    while (this.active < this.concurrency && this.waiting.length > 0) {
+      this.active++;
+      this.waiting.shift()!();
+    }
+  }
+
+  private recordSuccess(stage: PipelineStage, elapsed: number, startedAt: number) {
+    const stats = this.latency.get(stage) ?? { average: elapsed, samples: 0 };
+    const isSpike = stats.samples >= MIN_LATENCY_SAMPLES && elapsed > stats.average * this.options.latencySpikeFactor;
+
+    stats.average = stats.samples === 0 ? elapsed : stats.average + (elapsed - stats.average) * LATENCY_SMOOTHING;
+    stats.samples++;
+    this.latency.set(stage, stats);
+
+    const memory = this.options.readMemoryPressure();
+    if (isSpike || (memory !== null && memory > this.options.memoryPressureThreshold)) {
+      this.decrease(startedAt);
+    } else {
+      this.increase();
+    }
+  }
+
+  private increase() {
+    this.limit = Math.min(this.options.maxLimit, this.limit + 1 / this.concurrency);
+    this.drain();
+  }
+
+  /**
+   * Halve the limit - once per round: tasks started before the last decrease
+   * ran under the old limit, so their signals are already accounted for
+   */
+  private decrease(startedAt: number) {
+    if (startedAt < this.lastDecreaseAt) return;
+    this.lastDecreaseAt = this.options.now();
+    this.limit = Math.max(this.options.minLimit, Math.floor(this.limit / 2));
+  }
+}
@@ -1,11 +1,14 @@
 import { RecommendOutfitsRequest } from '../types';
+import { OUTFIT_TEMPLATES, getItemSubcategory } from '../utils/outfitTemplates';
+import { describePrecipitationIntensity } from '../utils/precipitation';
 
 export class PromptBuilder {
   static buildWardrobeDescription(wardrobe: RecommendOutfitsRequest['wardrobe']): string {
     return wardrobe.map(item => {
       const desc = item.aiAnalysis?.description || 'No description available';
+      const subcategory = getItemSubcategory(item);
       return `ID: ${item.id}
-Category: ${item.category}
+Category: ${item.category}${subcategory ? ` (${subcategory})` : ''}
 Colors: ${item.colors.join(', ')}
 Description: ${desc}
 ${item.aiAnalysis?.suggestedStyles ? `Styles: ${item.aiAnalysis.suggestedStyles.join(', ')}` : ''}
@@ -14,23 +17,44 @@ ${item.aiAnalysis?.formality ? `Formality: ${item.aiAnalysis.formality}` : ''}`;
     }).join('\n\n---\n\n');
   }
 
+  static buildPrecipitationContext(weather: NonNullable<RecommendOutfitsRequest['weather']>): string {
+    if (weather.precipitationProbability === 0) return 'None expected while they\'re out';
+    const intensity = describePrecipitationIntensity(weather.precipitationIntensity);
+    return `${weather.precipitationProbability}% chance while they're out, ${intensity} at worst (${weather.precipitationIntensity} in/hr)`;
+  }
+
   static buildWeatherContext(weather: RecommendOutfitsRequest['weather']): string {
     return weather
       ? `Today's Weather:
 - Temperature: ${weather.temperature}°F (feels like ${weather.feelsLike}°F)
 - Condition: ${weather.condition}
-- Precipitation: ${weather.precipitation}%
+- Precipitation: ${PromptBuilder.buildPrecipitationContext(weather)}
 - Humidity: ${weather.humidity}%
 - Wind: ${weather.windSpeed} mph`
       : 'Weather data not available.';
   }
 
+  static buildRejectionContext(rejectedOutfits: RecommendOutfitsRequest['rejectedOutfits']): string {
+    if (!rejectedOutfits || rejectedOutfits.length === 0) return '';
+
+    return `=== REJECTED OUTFITS ===
+The user already rejected these combinations (item IDs). Do NOT suggest any of them again, or the same top/bottom/shoes with a different jacket or accessory:
+${rejectedOutfits.map(itemIds => `- ${itemIds.join(', ')}`).join('\n')}`;
+  }
+
+  static buildTemplateRules(): string {
+    return OUTFIT_TEMPLATES
+      .map(template => `   - ${template.label}: ${template.description}`)
+      .join('\n');
+  }
+
   static buildSystemPrompt(count: number): string {
     return `You are an expert fashion stylist AI. Your job is to create ${count} outfit combinations from the user's wardrobe based on their detailed personality profile.
 
 Rules:
-1. Each outfit must include at least: 1 top, 1 bottom, and 1 pair of shoes
-2. You can include outerwear and accessories as optional additions
+1. Each outfit must follow exactly ONE of these shapes:
+${PromptBuilder.buildTemplateRules()}
+2. Dresses and jumpsuits are full outfits - never pair them with another top or bottom
 3. Consider weather appropriateness
 4. Match the user's style preferences AND personality profile (occasions, fit, lifestyle, goals)
 5. Create color-coordinated outfits that respect their color preferences
@@ -0,0 +1,208 @@
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+import type { AIClothingAnalysis, QueuedFile } from '../../types';
+import type { StoredQueuedFile } from '../../utils/storage';
+
+// IndexedDB, image processing and the AI API are all out of reach here
+vi.mock('../../utils/storage', () => ({
+  saveImage: vi.fn(async () => undefined),
+  getImageVariant: vi.fn(async () => undefined),
+  saveQueuedFile: vi.fn(async () => undefined),
+  updateQueuedFile: vi.fn(async () => undefined),
+  deleteQueuedFile: vi.fn(async () => undefined),
+  clearQueuedFiles: vi.fn(async () => undefined),
+  getQueuedFiles: vi.fn(async () => []),
+}));
+vi.mock('../../utils/imageCompression', () => ({
+  compressImage: vi.fn(async (file: Blob) => file),
+  compressForAI: vi.fn(async () => 'base64'),
+  extractColors: vi.fn(async () => ['#000080']),
+}));
+vi.mock('../../utils/backgroundRemoval', () => ({ processImageForAI: vi.fn() }));
+vi.mock('../../utils/imageFormatConverter', () => ({ convertImageIfNeeded: vi.fn() }));
+vi.mock('../../services/api', () => ({
+  analyzeClothing: vi.fn(async () => ({ success: false, error: 'offline' })),
+  getWeather: vi.fn(),
+  getUserLocation: vi.fn(),
+}));
+
+// In-memory localStorage for the persist middleware
+const persisted = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => persisted.get(key) ?? null,
+  setItem: (key: string, value: string) => persisted.set(key, value),
+  removeItem: (key: string) => persisted.delete(key),
+});
+
+const { useStore } = await import('../useStore');
+const storage = await import('../../utils/storage');
+const api = await import('../../services/api');
+const { convertImageIfNeeded } = await import('../../utils/imageFormatConverter');
+const { processImageForAI } = await import('../../utils/backgroundRemoval');
+
+const queuedFile = (id: string, overrides: Partial<QueuedFile> = {}): QueuedFile => ({
+  id,
+  file: new File(['raw'], `${id}.jpg`, { type: 'image/jpeg' }),
+  processedBlob: new Blob(['processed'], { type: 'image/png' }),
+  preview: '',
+  originalName: `${id}.jpg`,
+  aiStatus: 'success',
+  aiConfidence: 0.9,
+  aiAnalysis: { suggestedCategory: 'top', detectedColors: ['navy'] } as AIClothingAnalysis,
+  ...overrides,
+});
+
+const stored = (file: QueuedFile, order: number, resumeUpload: boolean): StoredQueuedFile => ({
+  id: file.id,
+  queuedFile: file,
+  order,
+  resumeUpload,
+});
+
+// Every stage a file passes through, in order (starting after its current one)
+const recordStages = (fileId: string) => {
+  const stageOf = (queue: QueuedFile[]) => queue.find((q) => q.id === fileId)?.stage;
+  const stages: string[] = [];
+  let current = stageOf(useStore.getState().batchUploadQueue);
+  const unsubscribe = useStore.subscribe((state) => {
+    const stage = stageOf(state.batchUploadQueue);
+    if (stage && stage !== current) stages.push(stage);
+    current = stage;
+  });
+  return { stages, unsubscribe };
+};
+
+describe('restoreBatchQueue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useStore.setState({ wardrobe: [], batchUploadQueue: [], batchUploadStatus: 'idle' });
+  });
+
+  it('resumes an interrupted upload from the first file that was not saved yet', async () => {
+    // shirt-1 was saved (and dropped from IndexedDB) before the reload
+    vi.mocked(storage.getQueuedFiles).mockResolvedValue([
+      stored(queuedFile('shirt-2'), 1, true),
+      stored(queuedFile('shirt-3'), 2, true),
+    ]);
+
+    await useStore.getState().restoreBatchQueue();
+
+    const savedIds = vi.mocked(storage.saveImage).mock.calls.map(([imageId]) => imageId.replace(/^\d+-/, ''));
+    expect(savedIds).toEqual(['shirt-2', 'shirt-3']);
+    expect(vi.mocked(storage.deleteQueuedFile).mock.calls.map(([id]) => id)).toEqual(['shirt-2', 'shirt-3']);
+    expect(useStore.getState().wardrobe.map(item => item.colors)).toEqual([['navy'], ['navy']]);
+  });
+
+  it('saves files marked for upload again instead of analyzing them again', async () => {
+    vi.mocked(storage.getQueuedFiles).mockResolvedValue([stored(queuedFile('shirt-2'), 1, true)]);
+
+    await useStore.getState().restoreBatchQueue();
+
+    expect(api.analyzeClothing).not.toHaveBeenCalled();
+    expect(storage.saveImage).toHaveBeenCalledTimes(1);
+  });
+
+  it('analyzes files again when their analysis was cut off, without saving them', async () => {
+    vi.mocked(storage.getQueuedFiles).mockResolvedValue([
+      stored(queuedFile('shirt-2', { aiStatus: 'analyzing', aiAnalysis: undefined }), 1, false),
+    ]);
+
+    await useStore.getState().restoreBatchQueue();
+
+    expect(api.analyzeClothing).toHaveBeenCalledTimes(1);
+    expect(storage.saveImage).not.toHaveBeenCalled();
+    expect(useStore.getState().batchUploadQueue).toMatchObject([{ id: 'shirt-2', aiStatus: 'failed' }]);
+  });
+});
+
+describe('startBatchUpload', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useStore.setState({ wardrobe: [], batchUploadQueue: [], batchUploadStatus: 'idle' });
+  });
+
+  it('moves each file through its stages as it is saved', async () => {
+    vi.mocked(convertImageIfNeeded).mockImplementation(async (file) => file);
+    vi.mocked(processImageForAI).mockResolvedValue(new Blob(['cutout'], { type: 'image/png' }));
+    useStore.setState({
+      batchUploadQueue: [
+        queuedFile('preprocessed', { stage: 'ready' }),
+        queuedFile('raw', { stage: 'ready', processedBlob: undefined }),
+      ],
+    });
+    const preprocessed = recordStages('preprocessed');
+    const raw = recordStages('raw');
+
+    await useStore.getState().startBatchUpload();
+    preprocessed.unsubscribe();
+    raw.unsubscribe();
+
+    expect(preprocessed.stages).toEqual(['saving', 'saved']);
+    // Preprocessing was skipped when it was queued, so it happens now
+    expect(raw.stages).toEqual(['saving', 'converting', 'removing-background', 'saving', 'saved']);
+    expect(useStore.getState().batchUploadStatus).toBe('completed');
+  });
+
+  it('marks a file failed, with the reason, when saving it fails', async () => {
+    vi.mocked(storage.saveImage).mockRejectedValueOnce(new Error('Disk on fire'));
+    useStore.setState({ batchUploadQueue: [queuedFile('shirt-1', { stage: 'ready' })] });
+    const shirt = recordStages('shirt-1');
+
+    await useStore.getState().startBatchUpload();
+    shirt.unsubscribe();
+
+    expect(shirt.stages).toEqual(['saving', 'failed']);
+    expect(useStore.getState().batchUploadQueue).toMatchObject([{ id: 'shirt-1', error: 'Disk on fire' }]);
+    expect(useStore.getState().batchUploadProgress).toMatchObject({ processedCount: 1, errorCount: 1 });
+  });
+
+  it("doesn't count files that finish after the upload was cancelled", async () => {
+    let finishSaving = () => {};
+    vi.mocked(storage.saveImage).mockImplementationOnce(
+      () => new Promise<void>((resolve) => { finishSaving = resolve; })
+    );
+    useStore.setState({ batchUploadQueue: [queuedFile('shirt-1', { stage: 'ready' })] });
+
+    const upload = useStore.getState().startBatchUpload();
+    await vi.waitFor(() => expect(storage.saveImage).toHaveBeenCalled());
+    useStore.getState().cancelBatchUpload();
+    finishSaving();
+    await upload;
+
+    expect(useStore.getState().batchUploadStatus).toBe('cancelled');
+    expect(useStore.getState().batchUploadProgress.processedCount).toBe(0);
+  });
+});
+
+describe('retryFailedUploads', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useStore.setState({ wardrobe: [], batchUploadQueue: [], batchUploadStatus: 'idle' });
+  });
+
+  it('saves only the files that failed to save', async () => {
+    useStore.setState({
+      batchUploadQueue: [
+        queuedFile('failed', { stage: 'failed', error: 'Storage is full - free up space and retry' }),
+        queuedFile('waiting', { stage: 'ready' }),
+        queuedFile('saved', { stage: 'saved' }),
+        // Unreadable files can only be removed
+        queuedFile('unreadable', { stage: 'failed', aiStatus: undefined, category: 'top' }),
+      ],
+    });
+
+    await useStore.getState().retryFailedUploads();
+
+    const savedIds = vi.mocked(storage.saveImage).mock.calls.map(([imageId]) => imageId.replace(/^\d+-/, ''));
+    expect(savedIds).toEqual(['failed']);
+    expect(useStore.getState().batchUploadQueue.map((q) => q.stage)).toEqual(['saved', 'ready', 'saved', 'failed']);
+  });
+
+  it('does nothing when no save failed', async () => {
+    useStore.setState({ batchUploadQueue: [queuedFile('waiting', { stage: 'ready' })] });
+
+    await useStore.getState().retryFailedUploads();
+
+    expect(storage.saveImage).not.toHaveBeenCalled();
+    expect(useStore.getState().batchUploadStatus).toBe('idle');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { createJSONStorage, type StateStorage } from 'zustand/middleware';
+import { PERSIST_VERSION, migratePersistedState, reviveDates } from '../persistMigrations';
+import type { ClothingItem, Outfit, UserProfile } from '../../types';
+import prePhase13 from './fixtures/persisted/v0-pre-phase13.json';
+import phase18 from './fixtures/persisted/v0-phase18.json';
+import namedColors from './fixtures/persisted/v0-named-colors.json';
+import precipitationGuess from './fixtures/persisted/v1-precipitation-guess.json';
+
+// Every shape `fitted-storage` has had in the wild
+const FIXTURES = {
+  'v0: before Phase 13 profiles': prePhase13,
+  'v0: Phase 18 (hex colors, no subcategories)': phase18,
+  'v0: named colors, preference model and rejections': namedColors,
+  'v1: weather with the 0/100 precipitation guess': precipitationGuess,
+};
+
+interface MigratedState {
+  profile: UserProfile;
+  wardrobe: ClothingItem[];
+  outfitHistory: Outfit[];
+  dailySuggestions: Outfit[];
+  todaysPick: Outfit | null;
+  [key: string]: unknown;
+}
+
+/**
+ * Load a fixture the way the store does: JSON from localStorage, revived, then migrated
+ */
+const load = (fixture: unknown): MigratedState => {
+  const memory: StateStorage = {
+    getItem: () => JSON.stringify(fixture),
+    setItem: () => {},
+    removeItem: () => {},
+  };
+  const storage = createJSONStorage<unknown>(() => memory, { reviver: reviveDates })!;
+  const stored = storage.getItem('fitted-storage') as { state: unknown; version: number };
+  return migratePersistedState<MigratedState>(stored.state, stored.version);
+};
+
+const allItems = (state: MigratedState): ClothingItem[] => [
+  ...state.wardrobe,
+  ...state.outfitHistory.flatMap(outfit => outfit.items),
+  ...state.dailySuggestions.flatMap(outfit => outfit.items),
+  ...(state.todaysPick?.items ?? []),
+];
+
+describe('persisted store migrations', () => {
+  Object.entries(FIXTURES).forEach(([name, fixture]) => {
+    describe(name, () => {
+      it('revives dates', () => {
+        const state = load(fixture);
+        allItems(state).forEach(item => expect(item.uploadedAt).toBeInstanceOf(Date));
+        [...state.outfitHistory, ...state.dailySuggestions].forEach(outfit =>
+          expect(outfit.createdAt).toBeInstanceOf(Date)
+        );
+        expect(state.profile.completedAt).toBeInstanceOf(Date);
+      });
+
+      it('fills in every Phase 13 profile section', () => {
+        const { profile } = load(fixture);
+        expect(profile.occasions).toBeDefined();
+        expect(profile.fitPreferences).toBeDefined();
+        expect(profile.weatherPreferences).toBeDefined();
+        expect(profile.lifestyle).toBeDefined();
+        expect(profile.colorPreferences).toBeDefined();
+      });
+
+      it('gives every item named colors and hex swatches', () => {
+        allItems(load(fixture)).forEach(item => {
+          expect(item.colorHexes).toHaveLength(item.colors.length);
+          item.colors.forEach(color => expect(color).not.toMatch(/^#/));
+        });
+      });
+
+      it('keeps the data it already had', () => {
+        const original = fixture.state;
+        const state = load(fixture);
+        expect(state.wardrobe.map(item => item.id)).toEqual(original.wardrobe.map(item => item.id));
+        expect(state.theme).toBe(original.theme);
+      });
+    });
+  });
+
+  it('keeps answers from a partial Phase 13 profile', () => {
+    const { profile } = load(phase18);
+    expect(profile.lifestyle?.fashionRiskTolerance).toBe(8);
+    expect(profile.occasions?.class).toBe(8);
+  });
+
+  it('backfills subcategories from the AI description', () => {
+    const { wardrobe } = load(phase18);
+    expect(wardrobe.map(item => item.subcategory)).toEqual(['sweater', 'dress']);
+  });
+
+  it('leaves unrelated state alone', () => {
+    const state = load(namedColors);
+    expect(state.rejectedOutfits).toEqual(namedColors.state.rejectedOutfits);
+    expect(state.preferenceModel).toEqual(namedColors.state.preferenceModel);
+    expect(state.dailySuggestions[0].template).toBe('classic');
+  });
+
+  it('drops weather saved with the old precipitation guess', () => {
+    expect(load(precipitationGuess).weatherData).toBeNull();
+  });
+
+  it('does nothing to state that is already current', () => {
+    const current = load(namedColors);
+    expect(migratePersistedState(current, PERSIST_VERSION)).toEqual(current);
+  });
+});
+
+describe('reviveDates', () => {
+  it('only revives known date fields', () => {
+    expect(reviveDates('uploadedAt', '2024-01-01T00:00:00.000Z')).toBeInstanceOf(Date);
+    expect(reviveDates('rejectedAt', '2024-01-01T00:00:00.000Z')).toBe('2024-01-01T00:00:00.000Z');
+    expect(reviveDates('createdAt', 'not a date')).toBe('not a date');
+  });
+});
@@ -0,0 +1,94 @@
+import type { ClothingItem, Outfit, UserProfile } from '../types';
+import { applyPhase13Defaults } from '../utils/profileDefaults';
+import { withResolvedColors } from '../utils/colorNames';
+import { getItemSubcategory } from '../utils/outfitTemplates';
+
+/**
+ * Versioned migrations for the persisted store (`fitted-storage` in localStorage)
+ *
+ * Adding a field that older data won't have:
+ * 1. Bump PERSIST_VERSION
+ * 2. Add MIGRATIONS[newVersion] that fills it in from the previous shape
+ * 3. Add a fixture of the previous shape under __tests__/fixtures/persisted
+ */
+
+// Persisted shapes differ by version, so migrations work on loosely typed data
+export type PersistedState = Record<string, unknown>;
+
+export const PERSIST_VERSION = 2;
+
+// ==========================================
+// DATE REVIVAL
+// ==========================================
+
+// Date fields come back from JSON as strings
+// (rejectedAt / updatedAt / exportedAt are ISO strings by design and stay that way)
+const DATE_KEYS = new Set(['uploadedAt', 'createdAt', 'completedAt']);
+
+/**
+ * JSON.parse reviver for the persisted store
+ */
+export const reviveDates = (key: string, value: unknown): unknown => {
+  if (DATE_KEYS.has(key) && typeof value === 'string') {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date;
+  }
+  return value;
+};
+
+// ==========================================
+// MIGRATIONS
+// ==========================================
+
+const mapItems = (state: PersistedState, transform: (item: ClothingItem) => ClothingItem): PersistedState => {
+  const mapOutfit = (outfit: Outfit): Outfit => ({ ...outfit, items: outfit.items.map(transform) });
+  const next = { ...state };
+
+  if (Array.isArray(state.wardrobe)) next.wardrobe = (state.wardrobe as ClothingItem[]).map(transform);
+  if (Array.isArray(state.outfitHistory)) next.outfitHistory = (state.outfitHistory as Outfit[]).map(mapOutfit);
+  if (Array.isArray(state.dailySuggestions)) next.dailySuggestions = (state.dailySuggestions as Outfit[]).map(mapOutfit);
+  if (state.todaysPick) next.todaysPick = mapOutfit(state.todaysPick as Outfit);
+
+  return next;
+};
+
+/**
+ * MIGRATIONS[n] turns a version n-1 state into a version n state
+ */
+const MIGRATIONS: Record<number, (state: PersistedState) => PersistedState> = {
+  /**
+   * v0 -> v1: everything stored before versioning
+   * - Profiles from before Phase 13 get the enhanced personalization defaults
+   * - Items saved with raw hex colors get named colors + swatches
+   * - Items saved before subcategories get one (AI suggestion or inferred from the description)
+   */
+  1: (state) => {
+    const next = mapItems(state, (item) => {
+      const resolved = withResolvedColors(item);
+      const subcategory = getItemSubcategory(resolved);
+      return subcategory && !resolved.subcategory ? { ...resolved, subcategory } : resolved;
+    });
+    if (state.profile) {
+      next.profile = applyPhase13Defaults(state.profile as UserProfile);
+    }
+    return next;
+  },
+
+  /**
+   * v1 -> v2: precipitation became a probability and an intensity over the active hours
+   * - Weather saved with the old 0/100 guess is dropped (it's fetched again on start)
+   */
+  2: (state) => ({ ...state, weatherData: null }),
+};
+
+/**
+ * Bring persisted state from `fromVersion` up to PERSIST_VERSION, one version at a time
+ * (T is the current persisted shape - the caller vouches for the migrations producing it)
+ */
+export const migratePersistedState = <T = PersistedState>(persistedState: unknown, fromVersion: number): T => {
+  let state = { ...(persistedState as PersistedState) };
+  for (let version = fromVersion + 1; version <= PERSIST_VERSION; version++) {
+    state = MIGRATIONS[version](state);
+  }
+  return state as T;
+};
@@ -1,13 +1,27 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
-import type { AppState, ClothingItem, Outfit, UserProfile, StylePreference, WeatherData, ClothingCategory, QueuedFile } from '../types';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { AppState, ClothingItem, ComfortFeedback, Outfit, UserProfile, SavedLocation, StylePreference, WeatherData, ForecastData, ClothingCategory, QueuedFile, WardrobeArchive, ArchiveImportMode, SyncDocument, SyncSetup } from '../types';
 import { applyPhase13Defaults } from '../utils/profileDefaults';
-import { getWeather, getUserLocation } from '../services/api';
+import { getWeather, getUserLocation, reverseGeocode, pullSyncChanges, pushSyncChanges, uploadSyncImage, downloadSyncImage, getSyncKeyEnvelope, putSyncKeyEnvelope } from '../services/api';
 import { convertImageIfNeeded } from '../utils/imageFormatConverter';
 import { processImageForAI } from '../utils/backgroundRemoval';
 import { compressImage, extractColors, compressForAI } from '../utils/imageCompression';
-import { saveImage } from '../utils/storage';
+import { invalidateImageURL } from '../utils/imageUrlCache';
+import { saveImage, getImage, getImageRecords, deleteImage, clearImages, saveSyncKey, getSyncKey, clearSyncKeys, saveQueuedFile, updateQueuedFile, deleteQueuedFile, clearQueuedFiles, getQueuedFiles, type StoredQueuedFile } from '../utils/storage';
+import { withResolvedColors } from '../utils/colorNames';
+import { extractOutfitFeatures } from '../utils/outfitGenerator';
+import { createPreferenceModel, trainPreferenceModel } from '../utils/preferenceModel';
+import { calibrateThermalComfort } from '../utils/thermalComfort';
+import { createRejection, getOutfitKey, pruneRejections, DEFAULT_REJECTION_DECAY_DAYS } from '../utils/outfitRejections';
 import { analyzeClothing } from '../services/api';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { PipelineScheduler } from '../services/pipelineScheduler';
+import { planArchiveImport, dataUrlToBlob } from '../utils/wardrobeArchive';
+import { INITIAL_SYNC_STATE, createInitialSyncState, createSyncChange, getDocumentKey, trackLocalChanges } from '../utils/syncMerge';
+import { createSyncKey, unlockSyncKey, importRecoveryKey, encryptSyncData, decryptSyncData, encryptBlob, decryptBlob } from '../utils/syncCrypto';
+import { PERSIST_VERSION, migratePersistedState, reviveDates } from './persistMigrations';
+import { getBatchFileCategory, isAnalysisPending, isReadyToSave, isSaveFailed } from '../utils/batchReview';
+import { formatPlaceName, getActiveLocation, isSameLocation } from '../utils/locations';
 
 const initialProfile: UserProfile = {
   hasCompletedOnboarding: false,
@@ -22,58 +36,112 @@ const initialProfile: UserProfile = {
 };
 
 // Phase 18: Weather cache constants
+// One entry per location: a saved location's id, or CURRENT_LOCATION_KEY
 const WEATHER_CACHE_KEY = 'fitted_weather_cache';
 const WEATHER_CACHE_DURATION = 30 * 60 * 1000; // 30 minutes
+const CURRENT_LOCATION_KEY = 'current';
 
 interface CachedWeather {
   weather: WeatherData;
+  forecast?: ForecastData; // Missing from caches written before forecasts
   cachedAt: string;
 }
 
 /**
- * Load cached weather from localStorage
+ * Read the still-valid cache entries
  */
-const loadCachedWeather = (): CachedWeather | null => {
+const loadWeatherCaches = (): Record<string, CachedWeather> => {
   try {
     const cached = localStorage.getItem(WEATHER_CACHE_KEY);
-    if (!cached) return null;
+    if (!cached) return {};
 
-    const data: CachedWeather = JSON.parse(cached);
+    const caches: Record<string, CachedWeather> = {};
+    for (const [key, data] of Object.entries<CachedWeather>(JSON.parse(cached))) {
+      // Skips entries written before precipitation had a probability and an intensity
+      // (and the single cache from before locations, which has no per-location keys)
+      if (typeof data?.weather?.precipitationProbability !== 'number') continue;
 
-    // Check if cache is still valid (within 30 minutes)
-    const cachedTime = new Date(data.cachedAt).getTime();
-    const now = Date.now();
+      // Check if cache is still valid (within 30 minutes)
+      if (Date.now() - new Date(data.cachedAt).getTime() > WEATHER_CACHE_DURATION) continue;
 
-    if (now - cachedTime > WEATHER_CACHE_DURATION) {
-      // Cache expired, remove it
-      localStorage.removeItem(WEATHER_CACHE_KEY);
-      return null;
+      caches[key] = data;
     }
-
-    return data;
+    return caches;
   } catch (error) {
     console.error('Failed to load cached weather:', error);
-    return null;
+    return {};
   }
 };
 
 /**
- * Save weather to localStorage cache
+ * Load cached weather for a location from localStorage
  */
-const saveCachedWeather = (weather: WeatherData): void => {
+const loadCachedWeather = (locationKey: string): CachedWeather | null =>
+  loadWeatherCaches()[locationKey] ?? null;
+
+/**
+ * Save a location's weather to the localStorage cache (dropping expired entries)
+ */
+const saveCachedWeather = (locationKey: string, weather: WeatherData, forecast?: ForecastData): void => {
   try {
-    const cache: CachedWeather = {
+    const caches = loadWeatherCaches();
+    caches[locationKey] = {
       weather,
+      forecast,
       cachedAt: new Date().toISOString(),
     };
-    localStorage.setItem(WEATHER_CACHE_KEY, JSON.stringify(cache));
+    localStorage.setItem(WEATHER_CACHE_KEY, JSON.stringify(caches));
   } catch (error) {
     console.error('Failed to save cached weather:', error);
   }
 };
 
+/**
+ * Forget a location's cached weather
+ */
+const removeCachedWeather = (locationKey: string): void => {
+  const { [locationKey]: removed, ...caches } = loadWeatherCaches();
+  if (removed) localStorage.setItem(WEATHER_CACHE_KEY, JSON.stringify(caches));
+};
+
+/**
+ * Ask the browser where the user is, and name the city if it's a major one
+ * The previous city is kept while the user hasn't moved
+ */
+const locateUser = async (previous?: UserProfile['location']): Promise<NonNullable<UserProfile['location']>> => {
+  const coords = await getUserLocation();
+  if (previous?.city && isSameLocation(previous, coords)) {
+    return { ...coords, city: previous.city };
+  }
+
+  const nearest = await reverseGeocode(coords.latitude, coords.longitude);
+  const city = nearest.results?.[0];
+  return city ? { ...coords, city: formatPlaceName(city) } : coords;
+};
+
+/**
+ * New suggestions for the swipe deck: cards the user has already seen stay where
+ * they are, and only the cards after them are replaced (skipping repeats of seen ones)
+ */
+const keepShownSuggestions = (current: Outfit[], incoming: Outfit[], shownCount: number): Outfit[] => {
+  const shown = current.slice(0, shownCount);
+  const shownKeys = new Set(shown.map((outfit) => getOutfitKey(outfit.items)));
+  return [...shown, ...incoming.filter((outfit) => !shownKeys.has(getOutfitKey(outfit.items)))];
+};
+
 // Phase 18: Batch upload constants
 const MAX_BATCH_SIZE = 20;
+const ANALYSIS_CONCURRENCY = 3; // Parallel AI analysis requests
+
+/**
+ * Run id for preprocessing or analysis: files added while a batch is still being
+ * preprocessed or analyzed join that run; otherwise (idle, after a cancel or an
+ * upload) a new run starts
+ */
+const getBatchRunIdToJoin = (state: AppState): number =>
+  state.batchUploadStatus === 'preprocessing' || state.batchUploadStatus === 'analyzing'
+    ? state.batchRunId
+    : state.batchRunId + 1;
 
 /**
  * Generate unique ID for file
@@ -94,6 +162,171 @@ const createPreview = (file: File): Promise<string> => {
   });
 };
 
+/**
+ * Apply updates to one queued file (no-op if it was removed meanwhile)
+ */
+const patchQueuedFile = (queue: QueuedFile[], fileId: string, updates: Partial<QueuedFile>): QueuedFile[] => {
+  return queue.map((q) => (q.id === fileId ? { ...q, ...updates } : q));
+};
+
+/**
+ * User-facing reason a file couldn't be saved
+ */
+const getSaveErrorMessage = (error: unknown): string => {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return 'Storage is full - free up space and retry';
+  }
+  if (error instanceof Error && error.message) return error.message;
+  return 'Could not save this item';
+};
+
+/**
+ * Mirror a queued file's changes to IndexedDB so the batch survives a reload
+ * (fire-and-forget - the in-memory queue stays the source of truth)
+ */
+const persistQueuedFile = (queuedFile: QueuedFile | undefined, resumeUpload?: boolean) => {
+  if (!queuedFile) return;
+  updateQueuedFile(queuedFile, resumeUpload).catch((err) =>
+    console.error(`Failed to persist queued file ${queuedFile.originalName}:`, err)
+  );
+};
+
+/**
+ * Run AI analysis for one queued file
+ */
+const analyzeQueuedFile = async (
+  queuedFile: QueuedFile,
+  userPreferences: UserProfile['stylePreferences']
+): Promise<Partial<QueuedFile>> => {
+  try {
+    // Analyze the background-removed image when we have it
+    const source = queuedFile.processedBlob ?? queuedFile.file;
+    const sourceFile = new File([source], queuedFile.originalName, {
+      type: source.type || 'image/jpeg',
+    });
+
+    // Compress image for AI
+    const compressedBase64 = await compressForAI(sourceFile);
+
+    const aiResult = await analyzeClothing({
+      image: compressedBase64,
+      userPreferences,
+    });
+
+    if (aiResult.success && aiResult.analysis) {
+      console.log(`AI analysis success for ${queuedFile.originalName}: ${aiResult.analysis.suggestedCategory} (${((aiResult.analysis.confidence ?? 0) * 100).toFixed(0)}% confident)`);
+      return {
+        aiAnalysis: aiResult.analysis,
+        aiConfidence: aiResult.analysis.confidence,
+        aiStatus: 'success',
+        aiError: undefined,
+      };
+    }
+
+    console.warn(`AI analysis failed for ${queuedFile.originalName}:`, aiResult.error);
+    return { aiStatus: 'failed', aiError: aiResult.error || 'Analysis failed' };
+  } catch (aiErr) {
+    console.error(`AI analysis error for ${queuedFile.originalName}:`, aiErr);
+    return { aiStatus: 'failed', aiError: aiErr instanceof Error ? aiErr.message : 'Analysis failed' };
+  }
+};
+
+// Sync: local edits are pushed this long after the last one
+const SYNC_DEBOUNCE_MS = 5000;
+const SYNC_PUSH_CHUNK_SIZE = 100; // Changes per push request
+let syncTimer: ReturnType<typeof setTimeout> | undefined;
+// Set while documents from the server are written to the store, so they aren't tracked as local edits
+let applyingSyncDocuments = false;
+
+/**
+ * New random sync code (128 bits; it grants access to the space, the passphrase to its contents)
+ */
+const createSyncCode = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const upsertById = <T extends { id: string }>(list: T[], id: string, value: T | null): T[] => {
+  const index = list.findIndex((entry) => entry.id === id);
+  if (!value) return index === -1 ? list : list.filter((entry) => entry.id !== id);
+  if (index === -1) return [...list, value];
+  return list.map((entry, i) => (i === index ? value : entry));
+};
+
+/**
+ * Store changes for documents from the server
+ * Documents edited again locally since `inFlight` was taken are left alone
+ * (that edit is pushed next and merged on the server). Deleted wardrobe items
+ * are returned so they can be removed with everything that refers to them.
+ */
+const applySyncDocuments = (
+  state: AppState,
+  documents: SyncDocument[],
+  inFlight: Record<string, number> = {}
+): { changes: Partial<AppState>; deletedItems: string[] } => {
+  let { wardrobe, outfitHistory, profile } = state;
+  const records = { ...state.sync.documents };
+  const pending = { ...state.sync.pending };
+  const deletedItems: string[] = [];
+
+  documents.forEach((document) => {
+    const key = getDocumentKey(document.collection, document.id);
+    if (pending[key] !== undefined && pending[key] !== inFlight[key]) return;
+
+    delete pending[key];
+    records[key] = {
+      revision: document.revision,
+      fieldClock: document.fieldClock,
+      ...(document.deletedAt !== undefined && { deletedAt: document.deletedAt }),
+    };
+
+    const value = document.data && JSON.parse(JSON.stringify(document.data), reviveDates);
+    if (document.collection === 'profile') {
+      if (value) profile = applyPhase13Defaults(value);
+    } else if (document.collection === 'wardrobe') {
+      if (value) {
+        wardrobe = upsertById(wardrobe, document.id, value as ClothingItem);
+      } else if (wardrobe.some((item) => item.id === document.id)) {
+        deletedItems.push(document.id);
+      }
+    } else {
+      outfitHistory = upsertById(outfitHistory, document.id, value as Outfit | null);
+    }
+  });
+
+  return {
+    changes: { wardrobe, outfitHistory, profile, sync: { ...state.sync, documents: records, pending } },
+    deletedItems,
+  };
+};
+
+/**
+ * Upload images the server doesn't have yet and download the ones this device is missing
+ * (failures are retried on the next sync)
+ */
+const syncImages = async (space: string, key: CryptoKey, get: () => AppState): Promise<string[]> => {
+  const { wardrobe, sync } = get();
+  const uploaded = new Set(sync.uploadedImages);
+  const stored = new Set((await getImageRecords()).map((record) => record.id));
+
+  await mapWithConcurrency(wardrobe, 3, async (item) => {
+    if (!stored.has(item.id)) {
+      const response = await downloadSyncImage(space, item.id);
+      if (response.success && response.payload) {
+        await saveImage(item.id, await decryptBlob(key, item.id, response.payload));
+        invalidateImageURL(item.id);
+        uploaded.add(item.id);
+      }
+    } else if (!uploaded.has(item.id)) {
+      const blob = await getImage(item.id);
+      if (!blob) return;
+      const response = await uploadSyncImage(space, item.id, await encryptBlob(key, item.id, blob));
+      if (response.success) uploaded.add(item.id);
+    }
+  });
+
+  const wardrobeIds = new Set(get().wardrobe.map((item) => item.id));
+  return [...uploaded].filter((id) => wardrobeIds.has(id));
+};
+
 export const useStore = create<AppState>()(
   persist(
     (set, get) => ({
@@ -102,12 +335,18 @@ export const useStore = create<AppState>()(
       outfitHistory: [],
       todaysPick: null,
       dailySuggestions: [],
+      shownSuggestionCount: 0,
       theme: 'light',
+      preferenceModel: createPreferenceModel(),
+      rejectedOutfits: [],
+      rejectionDecayDays: DEFAULT_REJECTION_DECAY_DAYS,
 
       // Phase 18: Global Weather State
       weatherData: null,
+      forecastData: null,
       weatherLoading: false,
       weatherError: null,
+      activeLocationId: null,
 
       // Phase 18: Global Batch Upload State
       batchUploadQueue: [],
@@ -118,8 +357,14 @@ export const useStore = create<AppState>()(
         successCount: 0,
         errorCount: 0,
       },
-      // Flag to control cancellation during async processing
-      shouldContinueBatchUpload: true,
+      // Id of the current batch run (preprocessing, analysis or upload); cancelling or
+      // starting another run changes it, so tasks from an older run stop touching state
+      batchRunId: 0,
+
+      // Device sync (off until enabled in Settings)
+      sync: INITIAL_SYNC_STATE,
+      syncStatus: 'idle',
+      syncError: null,
 
       setProfile: (profile: UserProfile) => set({ profile }),
 
@@ -147,7 +392,8 @@ export const useStore = create<AppState>()(
 
       addClothingItem: (item: ClothingItem) =>
         set((state) => ({
-          wardrobe: [...state.wardrobe, item],
+          // Resolve hex swatches to named colors so the outfit scorer can use them
+          wardrobe: [...state.wardrobe, withResolvedColors(item)],
         })),
 
       removeClothingItem: (id: string) =>
@@ -170,11 +416,17 @@ export const useStore = create<AppState>()(
             !outfit.items.some(item => item.id === id)
           );
 
+          // Rejections for outfits with this item can never come back
+          const newRejectedOutfits = state.rejectedOutfits.filter(rejection =>
+            !rejection.itemIds.includes(id)
+          );
+
           return {
             wardrobe: newWardrobe,
             outfitHistory: newOutfitHistory,
             todaysPick: newTodaysPick,
             dailySuggestions: newDailySuggestions,
+            rejectedOutfits: newRejectedOutfits,
           } as Partial<typeof state> as any;
         }),
 
@@ -205,14 +457,24 @@ export const useStore = create<AppState>()(
         set({ todaysPick: outfit }),
 
       setDailySuggestions: (suggestions: Outfit[]) =>
-        set({ dailySuggestions: suggestions }),
+        set((state) => ({
+          dailySuggestions: keepShownSuggestions(state.dailySuggestions, suggestions, state.shownSuggestionCount),
+        })),
+
+      setShownSuggestionCount: (count: number) =>
+        set({ shownSuggestionCount: count }),
 
       toggleTheme: () =>
         set((state) => ({
           theme: state.theme === 'light' ? 'dark' : 'light',
         })),
 
-      resetApp: () =>
+      resetApp: () => {
+        // Images and the batch queue live in IndexedDB, outside the persisted store
+        get().cancelBatchUpload();
+        get().clearBatchQueue();
+        clearImages().catch((err) => console.error('Failed to clear stored images:', err));
+        clearSyncKeys().catch((err) => console.error('Failed to clear sync keys:', err));
         set({
           profile: initialProfile,
           wardrobe: [],
@@ -220,7 +482,15 @@ export const useStore = create<AppState>()(
           todaysPick: null,
           dailySuggestions: [],
           theme: 'light',
-        }),
+          preferenceModel: createPreferenceModel(),
+          rejectedOutfits: [],
+          rejectionDecayDays: DEFAULT_REJECTION_DECAY_DAYS,
+          // Leave the sync space rather than push the reset as deletions
+          sync: INITIAL_SYNC_STATE,
+          syncStatus: 'idle',
+          syncError: null,
+        });
+      },
 
       removeDuplicateOutfits: () =>
         set((state) => {
@@ -229,7 +499,7 @@ export const useStore = create<AppState>()(
 
           for (const outfit of state.outfitHistory) {
             // Create a unique key for this outfit based on sorted item IDs
-            const itemIds = outfit.items.map(item => item.id).sort().join(',');
+            const itemIds = getOutfitKey(outfit.items);
 
             if (!seenItemSets.has(itemIds)) {
               seenItemSets.add(itemIds);
@@ -251,58 +521,136 @@ export const useStore = create<AppState>()(
           },
         })),
 
+      /**
+       * Learn from a swipe: train the preference model on the outfit's scoring features
+       */
+      recordOutfitFeedback: (outfit: Outfit, liked: boolean) =>
+        set((state) => {
+          const features = extractOutfitFeatures(outfit.items, state.profile, state.weatherData ?? undefined);
+          return {
+            preferenceModel: trainPreferenceModel(state.preferenceModel, features, liked),
+          };
+        }),
+
+      resetPreferenceModel: () =>
+        set({ preferenceModel: createPreferenceModel() }),
+
+      /**
+       * Record how a worn outfit felt, and calibrate the effective temperature with it
+       * (once per outfit - it only says how that day felt)
+       */
+      recordComfortFeedback: (outfitId: string, feedback: ComfortFeedback) =>
+        set((state) => {
+          const outfit = state.outfitHistory.find((o) => o.id === outfitId) ??
+            (state.todaysPick?.id === outfitId ? state.todaysPick : undefined);
+          if (!outfit || outfit.comfort) return {};
+
+          const withComfort = (o: Outfit): Outfit => (o.id === outfitId ? { ...o, comfort: feedback } : o);
+          return {
+            outfitHistory: state.outfitHistory.map(withComfort),
+            todaysPick: state.todaysPick && withComfort(state.todaysPick),
+            profile: {
+              ...state.profile,
+              thermalComfort: calibrateThermalComfort(state.profile.thermalComfort, feedback),
+            },
+          };
+        }),
+
+      /**
+       * Remember a left-swiped outfit so it isn't suggested again
+       */
+      rejectOutfit: (outfit: Outfit) =>
+        set((state) => {
+          const rejection = createRejection(outfit.items);
+          const existing = state.rejectedOutfits.find(r => r.key === rejection.key);
+          const others = state.rejectedOutfits.filter(r => r.key !== rejection.key);
+
+          return {
+            rejectedOutfits: [
+              ...pruneRejections(others, state.rejectionDecayDays),
+              existing ? { ...rejection, count: existing.count + 1 } : rejection,
+            ],
+          };
+        }),
+
+      removeRejectedOutfit: (key: string) =>
+        set((state) => ({
+          rejectedOutfits: state.rejectedOutfits.filter(r => r.key !== key),
+        })),
+
+      clearRejectedOutfits: () =>
+        set({ rejectedOutfits: [] }),
+
+      setRejectionDecayDays: (days: number) =>
+        set((state) => ({
+          rejectionDecayDays: days,
+          rejectedOutfits: pruneRejections(state.rejectedOutfits, days),
+        })),
+
       // Phase 18: Weather Actions
       setWeather: (weather: WeatherData | null) => set({ weatherData: weather }),
       setWeatherLoading: (loading: boolean) => set({ weatherLoading: loading }),
       setWeatherError: (error: string | null) => set({ weatherError: error }),
 
       /**
-       * Fetch weather data with caching
+       * Fetch weather for the active location, with caching
+       * The current location comes from the browser, falling back to the last known one
        */
       fetchWeather: async () => {
+        const state = get();
+        const saved = getActiveLocation(state.profile, state.activeLocationId);
+        const locationKey = saved?.id ?? CURRENT_LOCATION_KEY;
+
         try {
           set({ weatherLoading: true, weatherError: null });
 
           // Step 1: Check cache first
-          const cached = loadCachedWeather();
+          const cached = loadCachedWeather(locationKey);
           if (cached) {
-            set({ weatherData: cached.weather, weatherLoading: false });
+            set({ weatherData: cached.weather, forecastData: cached.forecast ?? null, weatherLoading: false });
             return;
           }
 
-          // Step 2: Get location from profile or geolocation
-          const state = get();
-          let location = state.profile.location;
+          // Step 2: Get location from the saved location or geolocation
+          let location: { latitude: number; longitude: number } | undefined = saved;
 
           if (!location) {
-            // Try to get location via browser geolocation API
             try {
-              const coords = await getUserLocation();
-              location = {
-                latitude: coords.latitude,
-                longitude: coords.longitude,
-              };
+              const current = await locateUser(state.profile.location);
+              const previous = get().profile.location;
+              if (!previous || !isSameLocation(previous, current) || previous.city !== current.city) {
+                set((state) => ({ profile: { ...state.profile, location: current } }));
+              }
+              location = current;
             } catch (err: any) {
               // User denied location or browser doesn't support it
               console.warn('Could not get user location:', err.message);
-              set({
-                weatherError: 'Location access required for weather data',
-                weatherLoading: false
-              });
-              return;
+              location = state.profile.location;
             }
           }
 
+          if (!location) {
+            set({
+              weatherError: 'Choose a city or allow location access for weather',
+              weatherLoading: false
+            });
+            return;
+          }
+
           // Step 3: Fetch weather from API
-          const response = await getWeather(location.latitude, location.longitude);
+          const response = await getWeather(location.latitude, location.longitude, state.profile.lifestyle?.activeHours);
 
           if (response.success && response.weather) {
             // Step 4: Save to cache
-            saveCachedWeather(response.weather);
+            saveCachedWeather(locationKey, response.weather, response.forecast);
+
+            // The user picked another location while this one loaded
+            if (get().activeLocationId !== state.activeLocationId) return;
 
             // Step 5: Update state
             set({
               weatherData: response.weather,
+              forecastData: response.forecast ?? null,
               weatherError: null,
               weatherLoading: false
             });
@@ -311,25 +659,77 @@ export const useStore = create<AppState>()(
           }
         } catch (err: any) {
           console.error('Failed to fetch weather:', err);
+          if (get().activeLocationId !== state.activeLocationId) return;
           set({
             weatherError: err.message || 'Failed to fetch weather',
             weatherData: null,
+            forecastData: null,
             weatherLoading: false
           });
         }
       },
 
       /**
-       * Clear weather cache
+       * Clear weather cache (every location)
        */
       clearWeatherCache: () => {
         localStorage.removeItem(WEATHER_CACHE_KEY);
-        set({ weatherData: null });
+        set({ weatherData: null, forecastData: null });
+      },
+
+      /**
+       * Save a city for weather (or return the saved one at the same place)
+       */
+      addSavedLocation: (location: Omit<SavedLocation, 'id'>) => {
+        const existing = get().profile.savedLocations?.find((saved) => isSameLocation(saved, location));
+        if (existing) return existing;
+
+        const saved: SavedLocation = { ...location, id: crypto.randomUUID() };
+        set((state) => ({
+          profile: {
+            ...state.profile,
+            savedLocations: [...(state.profile.savedLocations ?? []), saved],
+          },
+        }));
+        return saved;
+      },
+
+      /**
+       * Remove a saved city; weather goes back to the current location if it was active
+       */
+      removeSavedLocation: (id: string) => {
+        set((state) => ({
+          profile: {
+            ...state.profile,
+            savedLocations: state.profile.savedLocations?.filter((location) => location.id !== id),
+          },
+        }));
+        removeCachedWeather(id);
+        if (get().activeLocationId === id) {
+          void get().setActiveLocation(null);
+        }
+      },
+
+      /**
+       * Show weather for a saved location, or null for the current location
+       */
+      setActiveLocation: async (id: string | null) => {
+        set({ activeLocationId: id });
+        await get().fetchWeather();
+      },
+
+      /**
+       * Locate the user again (e.g. after allowing location access) and show weather there
+       */
+      refreshCurrentLocation: async () => {
+        removeCachedWeather(CURRENT_LOCATION_KEY);
+        await get().setActiveLocation(null);
       },
 
       // Phase 18: Batch Upload Actions
       /**
-       * Add files to the batch upload queue with preprocessing and AI analysis
+       * Add files to the batch upload queue with preprocessing, then run AI analysis
+       * Files appear in the queue as soon as they're preprocessed (aiStatus 'pending')
        */
       addBatchFiles: async (files: File[]) => {
         const state = get();
@@ -342,136 +742,209 @@ export const useStore = create<AppState>()(
         }
 
         const filesToProcess = files.slice(0, remaining);
-        const queuedFiles: QueuedFile[] = [];
+
+        // Queue every file up front (original image as preview) so each one shows its stage
+        const newFiles: QueuedFile[] = [];
+        for (let i = 0; i < filesToProcess.length; i++) {
+          const file = filesToProcess[i];
+          const id = generateFileId(file, i + currentQueueLength);
+          try {
+            const preview = await createPreview(file);
+            newFiles.push({ id, file, preview, originalName: file.name, aiStatus: 'pending', stage: 'queued' });
+          } catch (previewErr) {
+            console.error(`Failed to read ${file.name}:`, previewErr);
+            newFiles.push({
+              id,
+              file,
+              preview: '',
+              originalName: file.name,
+              stage: 'failed',
+              error: 'Could not read this image',
+            });
+          }
+        }
+        await Promise.all(newFiles.map((queuedFile, i) =>
+          saveQueuedFile(queuedFile, i + currentQueueLength).catch((err) =>
+            console.error(`Failed to persist queued file ${queuedFile.originalName}:`, err)
+          )
+        ));
+
+        const readable = newFiles.filter((q) => q.stage !== 'failed');
 
         // Set state to preprocessing
-        set({
+        const runId = getBatchRunIdToJoin(get());
+        const isCurrentRun = () => get().batchRunId === runId;
+        set((state) => ({
+          batchRunId: runId,
           batchUploadStatus: 'preprocessing',
+          batchUploadQueue: [...state.batchUploadQueue, ...newFiles],
           batchUploadProgress: {
-            totalFiles: filesToProcess.length,
+            totalFiles: readable.length,
             processedCount: 0,
             successCount: 0,
             errorCount: 0,
+            startedAt: Date.now(),
           },
-        });
+        }));
 
-        // Get user profile for AI analysis
-        const profile = get().profile;
+        const setStage = (fileId: string, updates: Partial<QueuedFile>) => {
+          set((state) => ({
+            batchUploadQueue: patchQueuedFile(state.batchUploadQueue, fileId, updates),
+          }));
+        };
 
-        // Process each file sequentially
-        for (let i = 0; i < filesToProcess.length; i++) {
-          const file = filesToProcess[i];
-          const id = generateFileId(file, i + currentQueueLength);
+        // Preprocess through the shared scheduler (background removal is memory hungry,
+        // so it decides how many run at once)
+        const scheduler = PipelineScheduler.getInstance();
+        const preprocessFile = async ({ id, file }: QueuedFile) => {
+          // Convert format if needed
+          setStage(id, { stage: 'converting' });
+          const converted = await convertImageIfNeeded(file);
+
+          // OPTIMIZATION: Resize image BEFORE background removal to prevent mobile crashes
+          // Resize to max 1024px. This is enough for AI and UI, but much smaller in memory.
+          const resizedBlob = await compressImage(converted, 1, 1024);
+          const resizedFile = new File([resizedBlob], file.name, { type: resizedBlob.type });
+
+          // Run background removal on resized image
+          setStage(id, { stage: 'removing-background' });
+          const processedBlob = await processImageForAI(resizedFile);
+
+          // Create base64 preview from processed blob
+          const reader = new FileReader();
+          const base64 = await new Promise<string>((resolve, reject) => {
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = reject;
+            reader.readAsDataURL(processedBlob);
+          });
+
+          // Cancelled (and cleared) while this file was processing
+          if (!isCurrentRun()) return;
+
+          setStage(id, { preview: base64, processedBlob, processedBase64: base64 });
+        };
 
+        await Promise.all(readable.map(async (queuedFile) => {
+          let succeeded = false;
           try {
-            // Convert format if needed
-            const converted = await convertImageIfNeeded(file);
-
-            // OPTIMIZATION: Resize image BEFORE background removal to prevent mobile crashes
-            // Resize to max 1024px. This is enough for AI and UI, but much smaller in memory.
-            const resizedBlob = await compressImage(converted, 1, 1024);
-            const resizedFile = new File([resizedBlob], file.name, { type: resizedBlob.type });
-
-            // Run background removal on resized image
-            const processedBlob = await processImageForAI(resizedFile);
-
-            // Create base64 preview from processed blob
-            const reader = new FileReader();
-            const base64 = await new Promise<string>((resolve, reject) => {
-              reader.onload = () => resolve(reader.result as string);
-              reader.onerror = reject;
-              reader.readAsDataURL(processedBlob);
+            await scheduler.run('background-removal', async () => {
+              // Cancelled while waiting for a slot
+              if (!isCurrentRun()) return;
+              await preprocessFile(queuedFile);
+              succeeded = true;
             });
+          } catch (err) {
+            // Not fatal - the original image is analyzed and saved instead
+            console.error(`Failed to preprocess ${queuedFile.originalName}:`, err);
+          }
+          if (!isCurrentRun()) return;
+
+          persistQueuedFile(get().batchUploadQueue.find((q) => q.id === queuedFile.id));
+          set((state) => ({
+            batchUploadProgress: {
+              ...state.batchUploadProgress,
+              processedCount: state.batchUploadProgress.processedCount + 1,
+              successCount: state.batchUploadProgress.successCount + (succeeded ? 1 : 0),
+              errorCount: state.batchUploadProgress.errorCount + (succeeded ? 0 : 1),
+            },
+          }));
+        }));
+        if (!isCurrentRun()) return;
 
-            // Run AI analysis
-            let aiAnalysis;
-            let aiConfidence;
-            let aiStatus: 'pending' | 'analyzing' | 'success' | 'failed' = 'pending';
-            let suggestedCategory;
+        await get().analyzeBatchFiles(readable.map((q) => q.id));
+      },
 
-            try {
-              aiStatus = 'analyzing';
-
-              // Convert processed blob to File for compression
-              const processedFile = new File([processedBlob], file.name, {
-                type: processedBlob.type || 'image/jpeg',
-              });
-
-              // Compress image for AI
-              const compressedBase64 = await compressForAI(processedFile);
-
-              const aiResult = await analyzeClothing({
-                image: compressedBase64,
-                userPreferences: profile.stylePreferences,
-              });
-
-              if (aiResult.success && aiResult.analysis) {
-                aiAnalysis = aiResult.analysis;
-                aiConfidence = aiResult.analysis.confidence;
-                suggestedCategory = aiResult.analysis.suggestedCategory;
-                aiStatus = 'success';
-                console.log(`AI analysis success for ${file.name}: ${suggestedCategory} (${(aiConfidence! * 100).toFixed(0)}% confident)`);
-              } else {
-                aiStatus = 'failed';
-                console.warn(`AI analysis failed for ${file.name}:`, aiResult.error);
-              }
-            } catch (aiErr) {
-              aiStatus = 'failed';
-              console.error(`AI analysis error for ${file.name}:`, aiErr);
-            }
+      /**
+       * Run AI analysis for queued files (ANALYSIS_CONCURRENCY at a time)
+       * Results land on each file's ai* fields; the category is pre-filled from the suggestion
+       */
+      analyzeBatchFiles: async (fileIds: string[]) => {
+        const targets = get().batchUploadQueue.filter((q) => fileIds.includes(q.id));
+        if (targets.length === 0) {
+          set((state) => ({
+            batchUploadStatus: state.batchUploadStatus === 'cancelled' ? state.batchUploadStatus : 'idle',
+          }));
+          return;
+        }
 
-            // Add successfully processed file
-            queuedFiles.push({
-              id,
-              file,
-              preview: base64,
-              originalName: file.name,
-              processedBlob,
-              processedBase64: base64,
-              aiAnalysis,
-              aiConfidence,
-              aiStatus,
-              category: suggestedCategory,
-            });
+        const runId = getBatchRunIdToJoin(get());
+        const isCurrentRun = () => get().batchRunId === runId;
+        set((state) => ({
+          batchRunId: runId,
+          batchUploadStatus: 'analyzing',
+          batchUploadQueue: state.batchUploadQueue.map((q) =>
+            fileIds.includes(q.id) ? { ...q, aiStatus: 'pending', aiError: undefined } : q
+          ),
+          batchUploadProgress: {
+            totalFiles: targets.length,
+            processedCount: 0,
+            successCount: 0,
+            errorCount: 0,
+            startedAt: Date.now(),
+          },
+        }));
 
-            // Update progress
-            set((state) => ({
-              batchUploadProgress: {
-                ...state.batchUploadProgress,
-                processedCount: state.batchUploadProgress.processedCount + 1,
-                successCount: state.batchUploadProgress.successCount + 1,
-              },
-            }));
-          } catch (err) {
-            console.error(`Failed to process ${file.name}:`, err);
-            // Try to create fallback preview
-            try {
-              const fallbackPreview = await createPreview(file);
-              queuedFiles.push({
-                id,
-                file,
-                preview: fallbackPreview,
-                originalName: file.name,
-                aiStatus: 'failed',
-              });
-            } catch (previewErr) {
-              console.error(`Failed to create preview for ${file.name}:`, previewErr);
-            }
+        const userPreferences = get().profile.stylePreferences;
+
+        await mapWithConcurrency(
+          targets,
+          ANALYSIS_CONCURRENCY,
+          async (queuedFile) => {
             set((state) => ({
-              batchUploadProgress: {
-                ...state.batchUploadProgress,
-                processedCount: state.batchUploadProgress.processedCount + 1,
-                errorCount: state.batchUploadProgress.errorCount + 1,
-              },
+              batchUploadQueue: patchQueuedFile(state.batchUploadQueue, queuedFile.id, { aiStatus: 'analyzing', stage: 'analyzing' }),
             }));
-          }
-        }
 
-        // Update queue with processed files
+            const updates = await analyzeQueuedFile(queuedFile, userPreferences);
+            const succeeded = updates.aiStatus === 'success';
+            if (!isCurrentRun()) return;
+
+            set((state) => {
+              const current = state.batchUploadQueue.find((q) => q.id === queuedFile.id);
+              return {
+                batchUploadQueue: patchQueuedFile(state.batchUploadQueue, queuedFile.id, {
+                  ...updates,
+                  // Keep a category the user already picked
+                  category: current?.category ?? updates.aiAnalysis?.suggestedCategory,
+                  // A fresh analysis needs a fresh review
+                  confirmed: false,
+                  // Failed analyses aren't fatal - the user picks the category in review
+                  stage: 'ready',
+                }),
+                batchUploadProgress: {
+                  ...state.batchUploadProgress,
+                  processedCount: state.batchUploadProgress.processedCount + 1,
+                  successCount: state.batchUploadProgress.successCount + (succeeded ? 1 : 0),
+                  errorCount: state.batchUploadProgress.errorCount + (succeeded ? 0 : 1),
+                },
+              };
+            });
+            persistQueuedFile(get().batchUploadQueue.find((q) => q.id === queuedFile.id));
+          },
+          isCurrentRun
+        );
+
+        // Back to idle for review (unless cancelled or superseded)
+        if (isCurrentRun()) set({ batchUploadStatus: 'idle' });
+      },
+
+      /**
+       * Re-run AI analysis for files whose analysis failed
+       */
+      retryFailedAnalysis: async () => {
+        const failedIds = get().batchUploadQueue
+          .filter((q) => q.aiStatus === 'failed')
+          .map((q) => q.id);
+        await get().analyzeBatchFiles(failedIds);
+      },
+
+      /**
+       * Mark a queued file as reviewed (required for low-confidence / failed analyses)
+       */
+      confirmBatchFile: (fileId: string) => {
         set((state) => ({
-          batchUploadQueue: [...state.batchUploadQueue, ...queuedFiles],
-          batchUploadStatus: 'idle',
+          batchUploadQueue: patchQueuedFile(state.batchUploadQueue, fileId, { confirmed: true }),
         }));
+        persistQueuedFile(get().batchUploadQueue.find((q) => q.id === fileId));
       },
 
       /**
@@ -481,6 +954,7 @@ export const useStore = create<AppState>()(
         set((state) => ({
           batchUploadQueue: state.batchUploadQueue.filter((f) => f.id !== fileId),
         }));
+        deleteQueuedFile(fileId).catch((err) => console.error('Failed to remove queued file:', err));
       },
 
       /**
@@ -492,178 +966,229 @@ export const useStore = create<AppState>()(
             q.id === fileId ? { ...q, category: category ?? undefined } : q
           ),
         }));
+        persistQueuedFile(get().batchUploadQueue.find((q) => q.id === fileId));
       },
 
       /**
        * Start batch upload process
+       * Saves the given files, or every file that's ready (see utils/batchReview.ts)
        */
-      startBatchUpload: async () => {
+      startBatchUpload: async (fileIds?: string[]) => {
         const state = get();
-        const queueToProcess = state.batchUploadQueue;
+        // Only files that passed review and aren't saved yet
+        const queueToProcess = state.batchUploadQueue.filter((q) =>
+          isReadyToSave(q) && (!fileIds || fileIds.includes(q.id))
+        );
 
         if (queueToProcess.length === 0) {
-          console.warn('No files in queue to process');
+          console.warn('No reviewed files in queue to process');
           return;
         }
 
-        // Reset shouldContinue flag and set initial state
+        // A new run id and initial state
+        // ('uploading' from the start - files were preprocessed when queued, and a reload resumes from here)
+        const runId = get().batchRunId + 1;
+        const isCurrentRun = () => get().batchRunId === runId;
         set({
-          shouldContinueBatchUpload: true,
-          batchUploadStatus: 'preprocessing',
+          batchRunId: runId,
+          batchUploadStatus: 'uploading',
           batchUploadProgress: {
             totalFiles: queueToProcess.length,
             processedCount: 0,
             successCount: 0,
             errorCount: 0,
+            startedAt: Date.now(),
           },
         });
 
+        // Mark the files so a reload resumes the upload (see restoreBatchQueue)
+        queueToProcess.forEach((queuedFile) => persistQueuedFile(queuedFile, true));
+
+        const setStage = (fileId: string, updates: Partial<QueuedFile>) => {
+          set((state) => ({
+            batchUploadQueue: patchQueuedFile(state.batchUploadQueue, fileId, updates),
+          }));
+        };
+
         /**
-         * Process a single file
+         * Record a finished file (per-file progress for the bar and ETA)
+         * Files from a cancelled or superseded run don't count toward the current one
          */
-        const processFile = async (queuedFile: QueuedFile): Promise<{ id: string; status: 'success' | 'error' }> => {
-          try {
-            if (!queuedFile.category) {
-              throw new Error('Category not selected');
-            }
+        const finishFile = (fileId: string, error?: string) => {
+          if (!isCurrentRun()) return;
+          setStage(fileId, error ? { stage: 'failed', error } : { stage: 'saved', error: undefined });
+          set((state) => ({
+            batchUploadProgress: {
+              ...state.batchUploadProgress,
+              processedCount: state.batchUploadProgress.processedCount + 1,
+              successCount: state.batchUploadProgress.successCount + (error ? 0 : 1),
+              errorCount: state.batchUploadProgress.errorCount + (error ? 1 : 0),
+            },
+          }));
+        };
 
-            // Reuse preprocessed blob if available
-            let processedBlob: Blob;
-            if (queuedFile.processedBlob) {
-              processedBlob = queuedFile.processedBlob;
-            } else {
-              // Phase 18: Robust fallback logic & Performance Optimization
-              try {
-                const convertedFile = await convertImageIfNeeded(queuedFile.file);
-                
-                // OPTIMIZATION: Resize image BEFORE background removal
-                // Background removal on 12MP images is extremely slow. Resizing to 1024px first makes it 10x faster.
-                const resizedBlob = await compressImage(convertedFile, 1, 1024);
-                const resizedFile = new File([resizedBlob], queuedFile.originalName, { type: resizedBlob.type });
-
-                // Try background removal on the resized image
-                processedBlob = await processImageForAI(resizedFile);
-              } catch (bgError) {
-                console.warn(`Background removal failed for ${queuedFile.originalName}, using original image`, bgError);
-                // Fallback: Use converted file (or original if conversion failed too, though unlikely here)
-                processedBlob = queuedFile.file;
-              }
-            }
+        /**
+         * Save a single file to the wardrobe (throws on failure)
+         */
+        const saveFile = async (queuedFile: QueuedFile): Promise<void> => {
+          setStage(queuedFile.id, { stage: 'saving', error: undefined });
+          const category = getBatchFileCategory(queuedFile);
+          if (!category) {
+            throw new Error('Category not selected');
+          }
+          const aiAnalysis = queuedFile.aiStatus === 'success' ? queuedFile.aiAnalysis : undefined;
 
-            // Convert to file for processing
-            const processedFile = new File([processedBlob], queuedFile.originalName, {
-              type: processedBlob.type,
-            });
+          // Reuse preprocessed blob if available
+          let processedBlob: Blob;
+          if (queuedFile.processedBlob) {
+            processedBlob = queuedFile.processedBlob;
+          } else {
+            // Phase 18: Robust fallback logic & Performance Optimization
+            try {
+              setStage(queuedFile.id, { stage: 'converting' });
+              const convertedFile = await convertImageIfNeeded(queuedFile.file);
+
+              // OPTIMIZATION: Resize image BEFORE background removal
+              // Background removal on 12MP images is extremely slow. Resizing to 1024px first makes it 10x faster.
+              const resizedBlob = await compressImage(convertedFile, 1, 1024);
+              const resizedFile = new File([resizedBlob], queuedFile.originalName, { type: resizedBlob.type });
+
+              // Try background removal on the resized image
+              setStage(queuedFile.id, { stage: 'removing-background' });
+              processedBlob = await processImageForAI(resizedFile);
+            } catch (bgError) {
+              console.warn(`Background removal failed for ${queuedFile.originalName}, using original image`, bgError);
+              // Fallback: Use converted file (or original if conversion failed too, though unlikely here)
+              processedBlob = queuedFile.file;
+            }
+            setStage(queuedFile.id, { stage: 'saving' });
+          }
 
-            // Extract colors
-            const colors = await extractColors(processedFile);
+          // Convert to file for processing
+          const processedFile = new File([processedBlob], queuedFile.originalName, {
+            type: processedBlob.type,
+          });
 
-            // Compress for storage
-            const compressedBlob = await compressImage(processedFile);
+          // Extract colors (use AI colors if available, otherwise extract)
+          const colors = aiAnalysis?.detectedColors || await extractColors(processedFile);
+
+          // Compress for storage
+          const compressedBlob = await compressImage(processedFile);
+
+          // Save to storage
+          const imageId = `${Date.now()}-${queuedFile.id}`;
+          await saveImage(imageId, compressedBlob);
+
+          // Add to wardrobe
+          get().addClothingItem({
+            id: imageId,
+            image: imageId,
+            category,
+            // The AI's subcategory only applies if the user kept its category
+            subcategory: aiAnalysis?.suggestedCategory === category ? aiAnalysis.suggestedSubcategory : undefined,
+            uploadedAt: new Date(),
+            colors: colors,
+            aiAnalysis,
+          });
 
-            // Save to storage
-            const imageId = `${Date.now()}-${queuedFile.id}`;
-            await saveImage(imageId, compressedBlob);
+          // Saved - a resumed upload must not add it twice
+          await deleteQueuedFile(queuedFile.id).catch((err) =>
+            console.error(`Failed to remove ${queuedFile.originalName} from the persisted queue:`, err)
+          );
+        };
 
-            // Add to wardrobe
-            get().addClothingItem({
-              id: imageId,
-              image: imageId,
-              category: queuedFile.category,
-              uploadedAt: new Date(),
-              colors: colors,
+        // The shared scheduler decides how many files are in flight; a failed file
+        // is recorded on its own and doesn't slow the rest down
+        const scheduler = PipelineScheduler.getInstance();
+        await Promise.all(queueToProcess.map(async (queuedFile) => {
+          try {
+            const saved = await scheduler.run(queuedFile.processedBlob ? 'save' : 'background-removal', async () => {
+              // Cancelled (or another run started) while waiting for a slot
+              if (!isCurrentRun()) return false;
+              await saveFile(queuedFile);
+              return true;
             });
-
-            return {
-              id: queuedFile.id,
-              status: 'success',
-            };
+            if (saved) finishFile(queuedFile.id);
           } catch (error) {
             console.error(`Failed to process ${queuedFile.originalName}:`, error);
-            return {
-              id: queuedFile.id,
-              status: 'error',
-            };
+            finishFile(queuedFile.id, getSaveErrorMessage(error));
           }
-        };
-
-        /**
-         * Process files in parallel batches with sliding window and fallback
-         */
-        const processBatch = async (files: QueuedFile[]): Promise<void> => {
-          const PARALLEL_LIMIT = 3; // Start with 3 concurrent uploads
-          let isSequentialFallback = false; // Switch to true if errors occur
-          let currentIndex = 0;
-
-          while (currentIndex < files.length) {
-            // Check if should continue
-            if (!get().shouldContinueBatchUpload) {
-              break;
-            }
+        }));
 
-            // Determine batch size based on current mode
-            const currentBatchSize = isSequentialFallback ? 1 : PARALLEL_LIMIT;
-            const batch = files.slice(currentIndex, currentIndex + currentBatchSize);
+        // Cancelled or superseded - the newer run owns the status
+        if (!isCurrentRun()) return;
 
-            if (batch.length === 0) break;
+        // Files that failed stay queued, but shouldn't auto-resume on the next load
+        get().batchUploadQueue.forEach((queuedFile) => persistQueuedFile(queuedFile, false));
+        set({ batchUploadStatus: 'completed' });
+      },
 
-            try {
-              if (batch.length === 1) {
-                // Sequential execution
-                await processFile(batch[0]);
-              } else {
-                // Parallel execution
-                const results = await Promise.allSettled(batch.map(file => processFile(file)));
-                
-                // Check for failures to trigger fallback
-                const hasFailures = results.some(r => r.status === 'rejected' || (r.status === 'fulfilled' && r.value.status === 'error'));
-                if (hasFailures) {
-                  console.warn('Parallel batch encountered errors. Switching to sequential mode for stability.');
-                  isSequentialFallback = true;
-                }
-              }
-            } catch (err) {
-              console.error("Batch loop error:", err);
-              isSequentialFallback = true;
-            }
+      /**
+       * Retry only the files that failed to save
+       * (files still waiting for review or an upload stay where they are)
+       */
+      retryFailedUploads: async () => {
+        const failedIds = get().batchUploadQueue
+          .filter(isSaveFailed)
+          .map((q) => q.id);
+        if (failedIds.length === 0) return;
+        await get().startBatchUpload(failedIds);
+      },
 
-            currentIndex += batch.length;
-          }
-        };
+      /**
+       * Restore a batch queue left over from a reload or crash (IndexedDB)
+       * Resumes an interrupted upload from the first unsaved file, or re-runs cut-off analyses
+       */
+      restoreBatchQueue: async () => {
+        const state = get();
+        if (state.batchUploadQueue.length > 0 || state.batchUploadStatus !== 'idle') return;
 
-        // Process all files
+        let records: StoredQueuedFile[];
         try {
-          await processBatch(queueToProcess);
+          records = await getQueuedFiles();
         } catch (err) {
-          console.error('Batch processing error:', err);
+          console.error('Failed to restore batch queue:', err);
+          return;
         }
+        if (records.length === 0) return;
 
-        // Update to uploading status
-        set({ batchUploadStatus: 'uploading' });
+        // Analyses cut off mid-request start over; in-flight stages were interrupted
+        const restoredQueue = records.map(({ queuedFile }): QueuedFile => {
+          if (isAnalysisPending(queuedFile)) {
+            return { ...queuedFile, aiStatus: 'pending', stage: 'queued' };
+          }
+          if (queuedFile.stage === 'failed' || queuedFile.stage === 'saved') return queuedFile;
+          return { ...queuedFile, stage: 'ready' };
+        });
+        set({ batchUploadQueue: restoredQueue });
 
-        // Additional delay
-        await new Promise((resolve) => setTimeout(resolve, 500));
+        if (records.some((record) => record.resumeUpload)) {
+          await get().startBatchUpload();
+          return;
+        }
 
-        // Mark as completed if not cancelled
-        set((state) => ({
-          batchUploadStatus: state.shouldContinueBatchUpload ? 'completed' : state.batchUploadStatus,
-        }));
+        const pendingIds = restoredQueue.filter(isAnalysisPending).map((q) => q.id);
+        if (pendingIds.length > 0) {
+          await get().analyzeBatchFiles(pendingIds);
+        }
       },
 
       /**
        * Cancel batch upload
        */
       cancelBatchUpload: () => {
-        set({
-          shouldContinueBatchUpload: false,
+        // Tasks still in flight see a stale run id and stop
+        set((state) => ({
+          batchRunId: state.batchRunId + 1,
           batchUploadStatus: 'cancelled',
-        });
+        }));
       },
 
       /**
        * Clear batch queue
        */
       clearBatchQueue: () => {
+        clearQueuedFiles().catch((err) => console.error('Failed to clear persisted batch queue:', err));
         set({
           batchUploadQueue: [],
           batchUploadStatus: 'idle',
@@ -675,31 +1200,206 @@ export const useStore = create<AppState>()(
           },
         });
       },
+
+      /**
+       * Import a wardrobe backup (see utils/wardrobeArchive.ts)
+       * Images are written first, so a failed import leaves the wardrobe untouched
+       */
+      importWardrobeArchive: async (archive: WardrobeArchive, mode: ArchiveImportMode) => {
+        const state = get();
+        const plan = planArchiveImport(archive, state, mode);
+
+        for (const { id, dataUrl } of plan.images) {
+          await saveImage(id, dataUrlToBlob(dataUrl));
+          // Replace mode can overwrite an image that's on screen
+          invalidateImageURL(id);
+        }
+
+        const wardrobe = plan.wardrobe.map(withResolvedColors);
+        const wardrobeIds = new Set(wardrobe.map((item) => item.id));
+
+        if (mode === 'replace') {
+          set({
+            profile: applyPhase13Defaults(plan.profile ?? state.profile),
+            wardrobe,
+            outfitHistory: plan.outfitHistory,
+            todaysPick: null,
+            dailySuggestions: [],
+            // Rejections only make sense for items that still exist
+            rejectedOutfits: state.rejectedOutfits.filter((rejection) =>
+              rejection.itemIds.every((id) => wardrobeIds.has(id))
+            ),
+          });
+
+          // Images of the replaced wardrobe are no longer referenced
+          await Promise.all(state.wardrobe
+            .filter((item) => !wardrobeIds.has(item.id))
+            .map((item) => deleteImage(item.id).then(() => invalidateImageURL(item.id)).catch((err) =>
+              console.error(`Failed to delete image ${item.id}:`, err)
+            )));
+        } else {
+          set({ wardrobe, outfitHistory: plan.outfitHistory });
+        }
+
+        return plan.summary;
+      },
+
+      // Sync Actions
+      /**
+       * Turn sync on, starting a new sync space or joining one by its code
+       * A new space gets a new encryption key protected by the passphrase; joining
+       * unlocks the space's key with its passphrase or recovery key (throws if wrong).
+       * Everything on this device is then pushed and merged with what's already there.
+       */
+      enableSync: async ({ space, passphrase, recoveryKey }: SyncSetup) => {
+        const code = space?.trim() || createSyncCode();
+        let key: CryptoKey;
+
+        if (!space) {
+          if (!passphrase) throw new Error('Choose a passphrase');
+          const created = await createSyncKey(passphrase);
+          const response = await putSyncKeyEnvelope(code, created.envelope);
+          if (!response.success) throw new Error(response.error || 'Could not start syncing');
+          key = created.key;
+        } else {
+          const response = await getSyncKeyEnvelope(code);
+          if (!response.success || !response.envelope) throw new Error(response.error || 'No sync space with this code');
+          key = recoveryKey
+            ? await importRecoveryKey(response.envelope, recoveryKey)
+            : await unlockSyncKey(response.envelope, passphrase ?? '');
+        }
+
+        await saveSyncKey(code, key);
+        set((state) => ({ sync: createInitialSyncState(state, code), syncStatus: 'idle', syncError: null }));
+        await get().syncNow();
+      },
+
+      /**
+       * Turn sync off (this device keeps its data, the server keeps its encrypted copy)
+       */
+      disableSync: () => {
+        clearTimeout(syncTimer);
+        clearSyncKeys().catch((err) => console.error('Failed to clear sync keys:', err));
+        set({ sync: INITIAL_SYNC_STATE, syncStatus: 'idle', syncError: null });
+      },
+
+      /**
+       * Push local edits, pull everyone else's, then sync images
+       * Everything is encrypted before it leaves the device and decrypted on arrival
+       */
+      syncNow: async () => {
+        const space = get().sync.space;
+        if (!space || get().syncStatus === 'syncing') return;
+
+        clearTimeout(syncTimer);
+        set({ syncStatus: 'syncing', syncError: null });
+
+        // Decrypt server documents and write them to the store (unless sync was turned off meanwhile)
+        const apply = async (key: CryptoKey, documents: SyncDocument[], inFlight?: Record<string, number>) => {
+          const decrypted = await Promise.all(documents.map(async (document) => ({
+            ...document,
+            data: await decryptSyncData(key, document.collection, document.id, document.data),
+          })));
+          if (get().sync.space !== space) throw new Error('Sync was turned off');
+          const { changes, deletedItems } = applySyncDocuments(get(), decrypted, inFlight);
+          applyingSyncDocuments = true;
+          try {
+            set(changes);
+            deletedItems.forEach((id) => {
+              get().removeClothingItem(id);
+              deleteImage(id).catch((err) => console.error(`Failed to delete image ${id}:`, err));
+              invalidateImageURL(id);
+            });
+          } finally {
+            applyingSyncDocuments = false;
+          }
+        };
+
+        try {
+          const key = await getSyncKey(space);
+          if (!key) {
+            throw new Error('This device has no key for sync - turn sync off and on again');
+          }
+
+          // Step 1: Push local edits (each response has the merged documents)
+          const inFlight = { ...get().sync.pending };
+          const changes = await Promise.all(Object.keys(inFlight).map(async (documentKey) => {
+            const change = createSyncChange(documentKey, get(), get().sync);
+            return { ...change, data: await encryptSyncData(key, change.collection, change.id, change.data) };
+          }));
+          for (let start = 0; start < changes.length; start += SYNC_PUSH_CHUNK_SIZE) {
+            const response = await pushSyncChanges(space, changes.slice(start, start + SYNC_PUSH_CHUNK_SIZE));
+            if (!response.success || !response.documents) {
+              throw new Error(response.error || 'Failed to push changes');
+            }
+            await apply(key, response.documents, inFlight);
+          }
+
+          // Step 2: Pull edits made on other devices
+          const pulled = await pullSyncChanges(space, get().sync.revision);
+          if (!pulled.success || !pulled.documents) {
+            throw new Error(pulled.error || 'Failed to pull changes');
+          }
+          await apply(key, pulled.documents);
+
+          // Step 3: Images travel separately
+          const uploadedImages = await syncImages(space, key, get);
+          if (get().sync.space !== space) return;
+
+          set((state) => ({
+            sync: {
+              ...state.sync,
+              revision: Math.max(state.sync.revision, pulled.revision ?? 0),
+              uploadedImages,
+              lastSyncedAt: Date.now(),
+            },
+            syncStatus: 'idle',
+          }));
+
+          // Edits made while syncing go out with the next round
+          if (Object.keys(get().sync.pending).length > 0) {
+            syncTimer = setTimeout(() => void get().syncNow(), SYNC_DEBOUNCE_MS);
+          }
+        } catch (err: any) {
+          console.error('Sync failed:', err);
+          set({ syncStatus: get().sync.space === space ? 'error' : 'idle', syncError: err.message || 'Sync failed' });
+        }
+      },
     }),
     {
       name: 'fitted-storage', // localStorage key
       // Phase 18: Exclude batch upload state from persistence
+      // (the queue holds File objects - it's mirrored to IndexedDB instead, see restoreBatchQueue)
       partialize: (state) => {
         const { 
           batchUploadQueue, 
           batchUploadStatus, 
           batchUploadProgress, 
-          shouldContinueBatchUpload,
+          batchRunId,
+          shownSuggestionCount,
+          syncStatus,
+          syncError,
+          forecastData, // Restored from the weather cache instead, which drops it once stale
           ...persistedState 
         } = state;
         return persistedState;
       },
-      // Phase 13: Migrate existing profiles to include new fields
+      // Dates are revived on every load; schema changes go through numbered migrations
+      // (see persistMigrations.ts)
+      storage: createJSONStorage(() => localStorage, { reviver: reviveDates }),
+      version: PERSIST_VERSION,
+      migrate: (persistedState, version) => migratePersistedState<AppState>(persistedState, version),
       onRehydrateStorage: () => (state) => {
-        if (state?.profile) {
-          // Apply Phase 13 defaults to existing profiles
-          state.profile = applyPhase13Defaults(state.profile);
+        // Drop rejections that have decayed since the last visit
+        if (state?.rejectedOutfits) {
+          state.rejectedOutfits = pruneRejections(state.rejectedOutfits, state.rejectionDecayDays);
         }
         // Phase 18: Load cached weather on app start
         if (state) {
-          const cached = loadCachedWeather();
+          const cached = loadCachedWeather(getActiveLocation(state.profile, state.activeLocationId)?.id ?? CURRENT_LOCATION_KEY);
           if (cached) {
             state.weatherData = cached.weather;
+            state.forecastData = cached.forecast ?? null;
           }
         }
       },
@@ -707,6 +1407,19 @@ export const useStore = create<AppState>()(
   )
 );
 
+// Sync: stamp local edits to synced data and push them shortly after
+// (rehydration and turning sync on/off change the space, and aren't edits)
+useStore.subscribe((state, previous) => {
+  if (applyingSyncDocuments || !state.sync.space || state.sync.space !== previous.sync.space) return;
+
+  const sync = trackLocalChanges(previous, state, state.sync);
+  if (sync === state.sync) return;
+
+  useStore.setState({ sync });
+  clearTimeout(syncTimer);
+  syncTimer = setTimeout(() => void useStore.getState().syncNow(), SYNC_DEBOUNCE_MS);
+});
+
 // Phase 18: Exclude batch upload state from persistence to prevent hydration errors with File objects
 // This is critical for "bulletproof" behavior - File objects cannot be stringified
 export const useStoreWithPersistence = useStore;
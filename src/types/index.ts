@@ -2,11 +2,25 @@
 
 export type ClothingCategory = 'top' | 'bottom' | 'shoes' | 'accessory' | 'outerwear';
 
+// Finer-grained garment type (drives outfit templates, e.g. a dress is a one-piece)
+export type ClothingSubcategory =
+  | 'tee' | 'shirt' | 'blouse' | 'tank'              // Tops (base layer)
+  | 'sweater' | 'hoodie' | 'cardigan' | 'vest'       // Tops (mid-layer)
+  | 'dress' | 'jumpsuit'                             // One-pieces (category 'top')
+  | 'jeans' | 'trousers' | 'shorts' | 'skirt' | 'sweatpants' | 'leggings'
+  | 'jacket' | 'coat' | 'blazer' | 'rain-jacket'
+  | 'sneakers' | 'boots' | 'dress-shoes' | 'sandals'
+  | 'other';
+
+// Valid outfit shapes (see utils/outfitTemplates.ts)
+export type OutfitTemplateId = 'classic' | 'one-piece' | 'layered';
+
 export type StylePreference = 'casual' | 'formal' | 'streetwear' | 'athletic' | 'preppy';
 
 export interface AIClothingAnalysis {
   description: string;
   suggestedCategory: ClothingCategory;
+  suggestedSubcategory?: ClothingSubcategory;
   detectedColors: string[];
   suggestedStyles: StylePreference[];
   season: 'spring' | 'summer' | 'fall' | 'winter' | 'all-season';
@@ -36,7 +50,9 @@ export interface ClothingItem {
   id: string;
   image: string; // Base64 or IndexedDB reference
   category: ClothingCategory;
-  colors: string[];
+  subcategory?: ClothingSubcategory; // Missing on older items - inferred from AI description
+  colors: string[]; // Named colors (e.g. "navy") used for outfit scoring
+  colorHexes?: string[]; // Hex swatches for display (e.g. "#3c5a78")
   style?: StylePreference[];
   uploadedAt: Date;
   aiAnalysis?: AIClothingAnalysis; // Optional AI-generated metadata
@@ -52,6 +68,7 @@ export interface UserProfile {
     longitude: number;
     city?: string;
   };
+  savedLocations?: SavedLocation[]; // Cities picked in the weather widget
 
   // Phase 13: Enhanced Personalization
 
@@ -80,6 +97,7 @@ export interface UserProfile {
     layeringPreference: boolean;  // Prefer layered outfits?
     rainPreparation: boolean;     // Always prepared for rain?
   };
+  thermalComfort?: ThermalComfortModel; // Learned from how worn outfits felt
 
   // Pattern & texture preferences
   patternPreferences?: {
@@ -113,6 +131,7 @@ export interface UserProfile {
     commute: 'walk' | 'bike' | 'drive' | 'public-transit';
     outdoorTime: number;          // 0-10 hours per week
     fashionRiskTolerance: number; // 0-10 (0 = safe, 10 = experimental)
+    activeHours?: ActiveHours;    // When they're usually out (weather is judged over these hours)
   };
 
   // Goals & aspirations
@@ -125,10 +144,154 @@ export interface Outfit {
   items: ClothingItem[];
   createdAt: Date;
   liked?: boolean;
+  template?: OutfitTemplateId; // Outfit shape it was built from
+  comfort?: ComfortFeedback; // How it felt once worn
+}
+
+export type ComfortFeedback = 'too-cold' | 'just-right' | 'too-warm';
+
+// Personal offset to the effective temperature, calibrated from comfort feedback
+// (see utils/thermalComfort.ts)
+export interface ThermalComfortModel {
+  offset: number; // °F added to the effective temperature (negative = runs cold)
+  feedbackCount: number;
+  updatedAt?: string; // ISO date string
+}
+
+// Left-swiped outfit, remembered so it isn't suggested again
+export interface RejectedOutfit {
+  key: string; // Sorted item IDs (same as the history de-dupe key)
+  coreKey?: string; // Sorted top/bottom/shoes IDs
+  itemIds: string[];
+  rejectedAt: string; // ISO date string (last time it was rejected)
+  count: number; // Times rejected
+}
+
+// Individual scoring signals for an outfit (see extractOutfitFeatures)
+export interface OutfitFeatures {
+  color: number;            // 0-1 color harmony
+  style: number;            // 0-1 match with style preferences
+  styleConsistency: number; // 0-1 (formal + athletic = low)
+  occasion: number | null;  // 0-1, null when AI occasion data is missing
+  favoriteColors: number;   // 0-0.2 favorite color bonus
+  weather: number;          // -0.5 to +0.3 weather modifier
+  clash: number;            // -0.5 to 0 color clash penalty
+  neutral: number;          // 0-0.2 neutral anchor bonus
+  structure: number;        // -0.5 to 0 (invalid outfit shape, e.g. dress + jeans)
+}
+
+export type OutfitFeatureKey = keyof OutfitFeatures;
+
+// Online logistic regression over OutfitFeatures, trained from swipes
+export interface PreferenceModel {
+  weights: Record<OutfitFeatureKey, number>;
+  bias: number;
+  trainingCount: number; // Number of swipes learned from
+  likeCount: number;
+  updatedAt?: string; // ISO date string
 }
 
 // Phase 18: Batch Upload Types
-export type BatchStatus = 'idle' | 'preprocessing' | 'uploading' | 'completed' | 'cancelled';
+export type BatchStatus = 'idle' | 'preprocessing' | 'analyzing' | 'uploading' | 'completed' | 'cancelled';
+
+// Where a single file is in the batch pipeline
+// queued -> converting -> removing-background -> analyzing -> ready (awaiting review) -> saving -> saved | failed
+export type BatchFileStage =
+  | 'queued'
+  | 'converting'
+  | 'removing-background'
+  | 'analyzing'
+  | 'ready'
+  | 'saving'
+  | 'saved'
+  | 'failed';
+
+export interface BatchUploadProgress {
+  totalFiles: number;
+  processedCount: number;
+  successCount: number;
+  errorCount: number;
+  startedAt?: number; // ms timestamp the current phase started (drives the ETA)
+}
+
+// Portable wardrobe backup: one JSON file with the images embedded as data URLs
+// (images are keyed by item id, same as the `fitted-images` IndexedDB)
+export interface WardrobeArchive {
+  format: 'fitted-wardrobe';
+  version: number;
+  exportedAt: string; // ISO date string
+  profile: UserProfile;
+  wardrobe: ClothingItem[];
+  outfitHistory: Outfit[];
+  images: Record<string, string>;
+}
+
+export type ArchiveImportMode = 'merge' | 'replace';
+
+export interface ArchiveImportSummary {
+  added: number;   // Items added to the wardrobe
+  skipped: number; // Items already in the wardrobe (merge only)
+  renamed: number; // Items whose id clashed with a different item and got a new one
+  outfits: number; // Outfits added to the history
+}
+
+// Opt-in sync between devices (see /api/sync)
+// Documents are wardrobe items and outfits (by id) plus the profile (id 'profile')
+export type SyncCollection = 'wardrobe' | 'outfitHistory' | 'profile';
+
+export interface SyncDocument {
+  collection: SyncCollection;
+  id: string;
+  revision: number; // Server revision of the document's last change
+  data: Record<string, unknown> | null; // JSON form of the item, null once deleted
+  fieldClock: Record<string, number>; // When each top-level field was last edited (ms timestamp)
+  deletedAt?: number;
+}
+
+// A local edit sent to the server, merged against whatever changed since baseRevision
+export interface SyncChange {
+  collection: SyncCollection;
+  id: string;
+  baseRevision: number; // Revision the edit was based on (0 = new to the server)
+  data: Record<string, unknown> | null;
+  fieldClock: Record<string, number>;
+  deletedAt?: number;
+}
+
+// What a device remembers about a synced document
+export interface SyncRecord {
+  revision: number;
+  fieldClock: Record<string, number>;
+  deletedAt?: number;
+}
+
+export interface SyncState {
+  space: string | null; // Sync code shared by the user's devices, null = sync off
+  revision: number;     // Latest server revision pulled
+  documents: Record<string, SyncRecord>; // Keyed `${collection}:${id}`
+  pending: Record<string, number>; // Documents edited since the last push (key -> time of edit)
+  uploadedImages: string[]; // Wardrobe images the server already has
+  lastSyncedAt: number | null;
+}
+
+export type SyncStatus = 'idle' | 'syncing' | 'error';
+
+// Sync is end-to-end encrypted: a random key encrypts every field and image,
+// and this envelope (kept on the server) holds that key encrypted with the passphrase
+export interface SyncKeyEnvelope {
+  version: 2;
+  salt: string;       // PBKDF2 salt (base64url)
+  iterations: number; // PBKDF2 iterations
+  wrappedKey: string; // Sync key, AES-GCM encrypted with the passphrase-derived key
+  verifier: string;   // Known text encrypted with the sync key (checks recovery keys)
+}
+
+// Turning sync on: a new space needs a passphrase, joining one needs its passphrase or recovery key
+export interface SyncSetup {
+  space?: string; // Join this sync space (omit to start a new one)
+  passphrase?: string;
+  recoveryKey?: string;
+}
 
 export interface QueuedFile {
   id: string;
@@ -143,6 +306,12 @@ export interface QueuedFile {
   aiAnalysis?: AIClothingAnalysis;
   aiConfidence?: number;
   aiStatus?: 'pending' | 'analyzing' | 'success' | 'failed';
+  aiError?: string;
+  // Pipeline position; 'failed' is fatal (unreadable file or save error) - see error
+  stage?: BatchFileStage;
+  error?: string; // Why the file failed
+  // Set once the user has checked a low-confidence or failed analysis in the review step
+  confirmed?: boolean;
 }
 
 export interface AppState {
@@ -151,23 +320,33 @@ export interface AppState {
   outfitHistory: Outfit[];
   todaysPick: Outfit | null;
   dailySuggestions: Outfit[];
+  shownSuggestionCount: number; // Cards the swipe deck has shown - new suggestions only replace the ones after them
   theme: 'light' | 'dark';
 
+  // Swipe-trained ranking personalization
+  preferenceModel: PreferenceModel;
+
+  // Rejected (left-swiped) outfits
+  rejectedOutfits: RejectedOutfit[];
+  rejectionDecayDays: number; // 0 = never forget
+
   // Phase 18: Global Weather State
   weatherData: WeatherData | null;
+  forecastData: ForecastData | null; // Today by the hour and the week ahead
   weatherLoading: boolean;
   weatherError: string | null;
+  activeLocationId: string | null; // Saved location shown in the weather widget; null = current location (per device)
 
   // Phase 18: Global Batch Upload State
   batchUploadQueue: QueuedFile[];
   batchUploadStatus: BatchStatus;
-  batchUploadProgress: {
-    totalFiles: number;
-    processedCount: number;
-    successCount: number;
-    errorCount: number;
-  };
-  shouldContinueBatchUpload: boolean;
+  batchUploadProgress: BatchUploadProgress;
+  batchRunId: number; // Current batch run; changes on cancel so stale tasks stop
+
+  // Device sync (opt-in)
+  sync: SyncState;
+  syncStatus: SyncStatus;
+  syncError: string | null;
 
   // Actions
   setProfile: (profile: UserProfile) => void;
@@ -178,25 +357,54 @@ export interface AppState {
   addOutfit: (outfit: Outfit) => void;
   setTodaysPick: (outfit: Outfit | null) => void;
   setDailySuggestions: (suggestions: Outfit[]) => void;
+  setShownSuggestionCount: (count: number) => void;
   toggleTheme: () => void;
   resetApp: () => void;
   removeDuplicateOutfits: () => void;
   resetOnboarding: () => void;
 
+  // Preference learning actions
+  recordOutfitFeedback: (outfit: Outfit, liked: boolean) => void;
+  resetPreferenceModel: () => void;
+  recordComfortFeedback: (outfitId: string, feedback: ComfortFeedback) => void;
+
+  // Rejection log actions
+  rejectOutfit: (outfit: Outfit) => void;
+  removeRejectedOutfit: (key: string) => void;
+  clearRejectedOutfits: () => void;
+  setRejectionDecayDays: (days: number) => void;
+
   // Phase 18: Weather Actions
   setWeather: (weather: WeatherData | null) => void;
   setWeatherLoading: (loading: boolean) => void;
   setWeatherError: (error: string | null) => void;
   fetchWeather: () => Promise<void>;
   clearWeatherCache: () => void;
+  addSavedLocation: (location: Omit<SavedLocation, 'id'>) => SavedLocation;
+  removeSavedLocation: (id: string) => void;
+  setActiveLocation: (id: string | null) => Promise<void>;
+  refreshCurrentLocation: () => Promise<void>;
 
   // Phase 18: Batch Upload Actions
   addBatchFiles: (files: File[]) => Promise<void>;
   removeBatchFile: (fileId: string) => void;
   updateBatchFileCategory: (fileId: string, category: ClothingCategory | null) => void;
-  startBatchUpload: () => Promise<void>;
+  confirmBatchFile: (fileId: string) => void;
+  analyzeBatchFiles: (fileIds: string[]) => Promise<void>;
+  retryFailedAnalysis: () => Promise<void>;
+  startBatchUpload: (fileIds?: string[]) => Promise<void>; // Default: every file ready to save
+  retryFailedUploads: () => Promise<void>;
   cancelBatchUpload: () => void;
   clearBatchQueue: () => void;
+  restoreBatchQueue: () => Promise<void>;
+
+  // Backup actions
+  importWardrobeArchive: (archive: WardrobeArchive, mode: ArchiveImportMode) => Promise<ArchiveImportSummary>;
+
+  // Sync actions
+  enableSync: (setup: SyncSetup) => Promise<void>;
+  disableSync: () => void;
+  syncNow: () => Promise<void>;
 }
 
 // Minimum requirements for unlocking swipe mode
@@ -218,12 +426,68 @@ export const MINIMUM_WARDROBE: WardrobeRequirements = {
 export interface WeatherData {
   temperature: number; // in Fahrenheit
   condition: string; // e.g., "Sunny", "Rainy", "Cloudy"
-  precipitation: number; // probability 0-100
+  precipitationProbability: number; // 0-100, highest chance during the active hours left today
+  precipitationIntensity: number; // inches per hour, heaviest expected during the active hours left today
   windSpeed: number; // mph
   humidity: number; // percentage
   feelsLike: number; // in Fahrenheit
 }
 
+// Part of the day the user is out, in local hours (0-24, end exclusive)
+export interface ActiveHours {
+  start: number;
+  end: number;
+}
+
+// Forecast types (times and dates are local to the forecast location)
+export interface HourlyForecast {
+  time: string; // e.g. "2026-10-19T14:00"
+  temperature: number; // in Fahrenheit
+  feelsLike: number; // in Fahrenheit
+  precipitationProbability: number; // 0-100
+  precipitation: number; // inches
+  windSpeed: number; // mph
+  windGusts: number; // mph
+  uvIndex: number;
+  condition: string;
+}
+
+export interface DailyForecast {
+  date: string; // e.g. "2026-10-19"
+  high: number; // in Fahrenheit
+  low: number; // in Fahrenheit
+  feelsLikeHigh: number;
+  feelsLikeLow: number;
+  precipitationProbability: number; // highest of the day, 0-100
+  precipitation: number; // inches, total
+  uvIndex: number; // highest of the day
+  windGusts: number; // mph, strongest of the day
+  condition: string;
+}
+
+export interface ForecastData {
+  timezone: string; // IANA name, e.g. "America/Los_Angeles"
+  hourly: HourlyForecast[]; // today, midnight to midnight
+  daily: DailyForecast[]; // 7 days, starting today
+}
+
+// A city the user saved for weather (home, campus, an internship city...)
+export interface SavedLocation {
+  id: string;
+  name: string; // Display label, e.g. "Portland, OR"
+  latitude: number;
+  longitude: number;
+}
+
+// A place found by /api/geocode
+export interface GeocodeResult {
+  name: string;
+  region?: string; // State or province
+  country: string;
+  latitude: number;
+  longitude: number;
+}
+
 // API Request/Response types
 export interface AnalyzeClothingRequest {
   image: string; // Base64 encoded
@@ -240,6 +504,7 @@ export interface RecommendOutfitsRequest {
   wardrobe: Array<{
     id: string;
     category: ClothingCategory;
+    subcategory?: ClothingSubcategory;
     aiAnalysis?: AIClothingAnalysis;
     colors: string[];
   }>;
@@ -251,6 +516,8 @@ export interface RecommendOutfitsRequest {
   profile?: UserProfile; // Full profile with all Phase 13 fields
   // Phase 17: Context-aware generation
   customPrompt?: string; // Additional context for AI (occasion, time, location, etc.)
+  // Outfits the user rejected (item ID lists) - never suggest these again
+  rejectedOutfits?: string[][];
 }
 
 export interface RecommendOutfitsResponse {
@@ -266,6 +533,33 @@ export interface RecommendOutfitsResponse {
 export interface WeatherResponse {
   success: boolean;
   weather?: WeatherData;
+  forecast?: ForecastData;
+  error?: string;
+}
+
+export interface GeocodeResponse {
+  success: boolean;
+  results?: GeocodeResult[];
+  source?: 'open-meteo' | 'gazetteer'; // gazetteer = the bundled list of major cities
+  error?: string;
+}
+
+export interface SyncResponse {
+  success: boolean;
+  revision?: number; // Latest revision on the server
+  documents?: SyncDocument[];
+  error?: string;
+}
+
+export interface SyncImageResponse {
+  success: boolean;
+  payload?: string; // Encrypted image (see utils/syncCrypto.ts)
+  error?: string;
+}
+
+export interface SyncKeyResponse {
+  success: boolean;
+  envelope?: SyncKeyEnvelope;
   error?: string;
 }
 
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { estimateRemainingMs, formatEta } from '../batchProgress';
+import type { BatchUploadProgress } from '../../types';
+
+const progress = (processedCount: number, totalFiles = 10): BatchUploadProgress => ({
+  totalFiles,
+  processedCount,
+  successCount: processedCount,
+  errorCount: 0,
+  startedAt: 1000,
+});
+
+describe('estimateRemainingMs', () => {
+  it('waits for two finished files before guessing', () => {
+    expect(estimateRemainingMs(progress(0), 6000)).toBeNull();
+    expect(estimateRemainingMs(progress(1), 6000)).toBeNull();
+    expect(estimateRemainingMs(progress(2), 6000)).toBe(20000); // 2.5 s a file, 8 to go
+  });
+
+  it('has nothing to estimate once every file is processed, or before the run starts', () => {
+    expect(estimateRemainingMs(progress(10), 6000)).toBeNull();
+    expect(estimateRemainingMs({ ...progress(4), startedAt: undefined }, 6000)).toBeNull();
+  });
+});
+
+describe('formatEta', () => {
+  it('says less than a minute for anything under 60 s', () => {
+    expect(formatEta(0)).toBe('less than a minute left');
+    expect(formatEta(30000)).toBe('less than a minute left');
+    expect(formatEta(59999)).toBe('less than a minute left');
+  });
+
+  it('rounds longer waits to the nearest minute', () => {
+    expect(formatEta(60000)).toBe('about 1 min left');
+    expect(formatEta(89000)).toBe('about 1 min left');
+    expect(formatEta(90000)).toBe('about 2 min left');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { CONFIDENCE_THRESHOLDS, getBatchFileCategory, isReadyToSave, needsConfirmation } from '../batchReview';
+import type { AIClothingAnalysis, QueuedFile } from '../../types';
+
+const queuedFile = (overrides: Partial<QueuedFile> = {}): QueuedFile => ({
+  id: 'file-1',
+  file: new File([''], 'shirt.jpg', { type: 'image/jpeg' }),
+  preview: '',
+  originalName: 'shirt.jpg',
+  ...overrides,
+});
+
+// A finished analysis that suggests a top
+const analyzed = (aiConfidence: number, overrides: Partial<QueuedFile> = {}): QueuedFile =>
+  queuedFile({
+    aiStatus: 'success',
+    aiConfidence,
+    aiAnalysis: { suggestedCategory: 'top' } as AIClothingAnalysis,
+    ...overrides,
+  });
+
+describe('needsConfirmation', () => {
+  it('asks for confirmation below medium confidence', () => {
+    expect(needsConfirmation(analyzed(CONFIDENCE_THRESHOLDS.MEDIUM - 0.01))).toBe(true);
+    expect(needsConfirmation(analyzed(CONFIDENCE_THRESHOLDS.MEDIUM))).toBe(false);
+    expect(needsConfirmation(analyzed(CONFIDENCE_THRESHOLDS.HIGH))).toBe(false);
+  });
+
+  it('asks for confirmation when the analysis failed or reported no confidence', () => {
+    expect(needsConfirmation(queuedFile({ aiStatus: 'failed', category: 'top' }))).toBe(true);
+    expect(needsConfirmation(analyzed(0, { aiConfidence: undefined }))).toBe(true);
+  });
+
+  it("doesn't ask again once the user has confirmed", () => {
+    expect(needsConfirmation(analyzed(0.2, { confirmed: true }))).toBe(false);
+    expect(needsConfirmation(queuedFile({ aiStatus: 'failed', confirmed: true }))).toBe(false);
+  });
+});
+
+describe('isReadyToSave', () => {
+  it('saves confident analyses with a category', () => {
+    expect(isReadyToSave(analyzed(0.9))).toBe(true);
+  });
+
+  it('refuses files whose analysis is still pending', () => {
+    expect(isReadyToSave(queuedFile({ aiStatus: 'pending', category: 'top', confirmed: true }))).toBe(false);
+    expect(isReadyToSave(queuedFile({ aiStatus: 'analyzing', category: 'top', confirmed: true }))).toBe(false);
+  });
+
+  it('refuses unconfirmed low-confidence or failed analyses until the user confirms them', () => {
+    expect(isReadyToSave(analyzed(0.3))).toBe(false);
+    expect(isReadyToSave(analyzed(0.3, { confirmed: true }))).toBe(true);
+
+    expect(isReadyToSave(queuedFile({ aiStatus: 'failed', category: 'shoes' }))).toBe(false);
+    expect(isReadyToSave(queuedFile({ aiStatus: 'failed', category: 'shoes', confirmed: true }))).toBe(true);
+  });
+
+  it('refuses files without a category', () => {
+    const failed = queuedFile({ aiStatus: 'failed', confirmed: true });
+    expect(getBatchFileCategory(failed)).toBeUndefined();
+    expect(isReadyToSave(failed)).toBe(false);
+  });
+
+  it("prefers the user's category over the AI's", () => {
+    expect(getBatchFileCategory(analyzed(0.9, { category: 'outerwear' }))).toBe('outerwear');
+  });
+});
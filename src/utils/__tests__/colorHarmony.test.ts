@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { detectColorDisharmony, getColorProfile, getHarmonyRelationship, scoreColorPair } from '../colorHarmony';
+import type { ClothingCategory, ClothingItem, WeatherData } from '../../types';
+
+let nextId = 0;
+
+const item = (category: ClothingCategory, color: string): ClothingItem => ({
+  id: `item-${nextId++}`,
+  image: '',
+  category,
+  colors: [color],
+  uploadedAt: new Date('2024-01-01'),
+});
+
+// Any chance of rain is a light, steady rain (0.05 in/hr) unless said otherwise
+const weather = (
+  temperature: number,
+  precipitationProbability = 0,
+  precipitationIntensity = precipitationProbability > 0 ? 0.05 : 0
+): WeatherData => ({
+  temperature,
+  condition: precipitationProbability > 50 ? 'Rainy' : 'Clear',
+  precipitationProbability,
+  precipitationIntensity,
+  windSpeed: 5,
+  humidity: 50,
+  feelsLike: temperature,
+});
+
+const relationship = (a: string, b: string) => getHarmonyRelationship(getColorProfile(a)!, getColorProfile(b)!);
+
+// Top, bottom and shoes all in one color
+const monochrome = (color: string) => [item('top', color), item('bottom', color), item('shoes', color)];
+
+describe('scoreColorPair', () => {
+  it('scores complementary pairs well, unless they vibrate', () => {
+    expect(relationship('blue', 'orange')).toBe('complementary');
+    expect(scoreColorPair('blue', 'orange')).toBeCloseTo(0.8);
+
+    // Saturated and about as light as each other: Christmas red and green
+    expect(relationship('red', 'green')).toBe('complementary');
+    expect(scoreColorPair('red', 'green')).toBeCloseTo(0.5);
+  });
+
+  it('scores analogous pairs above complementary ones', () => {
+    expect(relationship('blue', 'purple')).toBe('analogous');
+    expect(scoreColorPair('blue', 'purple')).toBeCloseTo(0.85);
+    expect(scoreColorPair('red', 'orange')).toBeGreaterThan(scoreColorPair('blue', 'orange'));
+  });
+
+  it('lets neutrals anchor anything, with a bonus for light/dark contrast', () => {
+    expect(relationship('navy', 'red')).toBe('neutral');
+    expect(scoreColorPair('beige', 'olive')).toBeCloseTo(0.9); // Both neutral
+    expect(scoreColorPair('navy', 'red')).toBeCloseTo(0.9); // 0.85 + contrast
+    expect(scoreColorPair('white', 'black')).toBeCloseTo(0.95);
+  });
+
+  it('is 1 for the same color and neutral (0.5) for unknown names', () => {
+    expect(scoreColorPair('navy', '#000080')).toBe(1);
+    expect(scoreColorPair('red', 'multicolor')).toBe(0.5);
+  });
+});
+
+describe('detectColorDisharmony', () => {
+  describe('monochrome outfits', () => {
+    it('accepts all-black and UW colors, and docks safe or loud single colors', () => {
+      expect(detectColorDisharmony(monochrome('black'))).toBe(0);
+      expect(detectColorDisharmony(monochrome('purple'))).toBe(0);
+      expect(detectColorDisharmony(monochrome('navy'))).toBe(-0.1);
+      expect(detectColorDisharmony(monochrome('red'))).toBe(-0.3);
+    });
+
+    it('barely docks all-white on a dry, warm day', () => {
+      expect(detectColorDisharmony(monochrome('white'), weather(75))).toBe(-0.05);
+    });
+
+    it('docks all-white when rain is likely', () => {
+      expect(detectColorDisharmony(monochrome('white'), weather(75, 80))).toBeCloseTo(-0.3);
+      expect(detectColorDisharmony(monochrome('white'), weather(75, 20))).toBe(-0.05); // Unlikely to rain
+      expect(detectColorDisharmony(monochrome('white'), weather(75, 80, 0.005))).toBe(-0.05); // Just drizzle
+    });
+
+    it('docks all-white in the cold', () => {
+      expect(detectColorDisharmony(monochrome('white'), weather(40))).toBeCloseTo(-0.2);
+    });
+
+    it("judges the cold by the user's effective temperature when given one", () => {
+      expect(detectColorDisharmony(monochrome('white'), weather(60), undefined, 45)).toBeCloseTo(-0.2);
+      expect(detectColorDisharmony(monochrome('white'), weather(40), undefined, 60)).toBe(-0.05);
+    });
+
+    it('adds the penalties up', () => {
+      expect(detectColorDisharmony(monochrome('white'), weather(40, 80), 'casual')).toBeCloseTo(-0.7);
+    });
+  });
+
+  it('flags vibrating pairs and unrelated hues across the outfit', () => {
+    const christmas = [item('top', 'red'), item('bottom', 'green')];
+    const navyAndRed = [item('top', 'red'), item('bottom', 'navy')];
+
+    expect(detectColorDisharmony(christmas)).toBe(-0.5);
+    expect(detectColorDisharmony(navyAndRed)).toBe(0);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { deltaE2000, hexToRgb, nearestColorName, resolveColors, withResolvedColors } from '../colorNames';
+import type { ClothingItem } from '../../types';
+
+const shirt = (colors: string[]): ClothingItem => ({
+  id: 'shirt-1',
+  image: '',
+  category: 'top',
+  colors,
+  uploadedAt: new Date('2024-01-01'),
+});
+
+describe('deltaE2000', () => {
+  // Reference pairs from Sharma, Wu & Dalal (2005), "The CIEDE2000 Color-Difference Formula"
+  const REFERENCE_PAIRS: [[number, number, number], [number, number, number], number][] = [
+    [[50, 2.6772, -79.7751], [50, 0, -82.7485], 2.0425],
+    [[50, 3.1571, -77.2803], [50, 0, -82.7485], 2.8615],
+    [[50, 0, 0], [50, -1, 2], 2.3669],
+    [[50, 2.5, 0], [73, 25, -18], 27.1492],
+    [[50, 2.5, 0], [61, -5, 29], 22.8977],
+    [[60.2574, -34.0099, 36.2677], [60.4626, -34.1751, 39.4387], 1.2644],
+    [[22.7233, 20.0904, -46.694], [23.0331, 14.973, -42.5619], 2.0373],
+    [[36.4612, 47.858, 18.3852], [36.2715, 50.5065, 21.2231], 1.4146],
+    [[35.0831, -44.1164, 3.7933], [35.0232, -40.0716, 1.5901], 1.8645],
+  ];
+
+  it('matches the published CIEDE2000 test data, in either order', () => {
+    REFERENCE_PAIRS.forEach(([[l1, a1, b1], [l2, a2, b2], expected]) => {
+      const lab1 = { l: l1, a: a1, b: b1 };
+      const lab2 = { l: l2, a: a2, b: b2 };
+      expect(deltaE2000(lab1, lab2)).toBeCloseTo(expected, 4);
+      expect(deltaE2000(lab2, lab1)).toBeCloseTo(expected, 4);
+    });
+  });
+
+  it('is zero for the same color', () => {
+    expect(deltaE2000({ l: 50, a: 10, b: -10 }, { l: 50, a: 10, b: -10 })).toBe(0);
+  });
+});
+
+describe('nearestColorName', () => {
+  it('reads hex codes with or without # and in 3-digit shorthand', () => {
+    expect(nearestColorName('#000080')).toBe('navy');
+    expect(nearestColorName('000080')).toBe('navy');
+    expect(nearestColorName('#f00')).toBe('red');
+    expect(nearestColorName('FFF')).toBe('white');
+    expect(hexToRgb('#abc')).toEqual([0xaa, 0xbb, 0xcc]);
+  });
+
+  it('names shades by their family', () => {
+    expect(nearestColorName('#36454f')).toBe('gray'); // Charcoal
+    expect(nearestColorName('#4b2e83')).toBe('purple'); // UW purple
+    expect(nearestColorName('#5a7896')).toBe('denim');
+  });
+});
+
+describe('resolveColors', () => {
+  it('names hex codes and keeps a # swatch for each', () => {
+    expect(resolveColors(['1F2A44', '#fff'])).toEqual({
+      colors: ['navy', 'white'],
+      colorHexes: ['#1f2a44', '#fff'],
+    });
+  });
+
+  it('passes color names through (normalized), with their canonical swatch', () => {
+    expect(resolveColors(['Navy', 'grey'])).toEqual({
+      colors: ['navy', 'gray'],
+      colorHexes: ['#000080', '#808080'],
+    });
+  });
+
+  it("keeps names outside the palette, but doesn't make up a swatch for them", () => {
+    expect(resolveColors(['multicolor', 'Tie-Dye', 'navy'])).toEqual({
+      colors: ['multicolor', 'tie-dye', 'navy'],
+      colorHexes: ['#000080'],
+    });
+  });
+
+  it('lists each name once', () => {
+    expect(resolveColors(['#000080', 'navy', '']).colors).toEqual(['navy']);
+  });
+});
+
+describe('withResolvedColors', () => {
+  it('leaves an already-resolved item as it is', () => {
+    const item = { ...shirt(['navy']), colorHexes: ['#000080'] };
+    expect(withResolvedColors(item)).toBe(item);
+  });
+
+  it('resolves items saved with hex colors', () => {
+    const item = shirt(['#000080']);
+    expect(withResolvedColors(item)).toMatchObject({ colors: ['navy'], colorHexes: ['#000080'] });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from '../concurrency';
+
+// Resolves on the next macrotask, so every started task overlaps with the others
+const tick = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+describe('mapWithConcurrency', () => {
+  it('never has more than `limit` tasks in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await tick();
+      inFlight--;
+    });
+
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('keeps results in input order, whichever task finishes first', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (delay, index) => {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return `${index}:${delay}`;
+    });
+
+    expect(results).toEqual(['0:30', '1:10', '2:20']);
+  });
+
+  it('finishes in-flight tasks once cancelled, and never starts the rest', async () => {
+    let cancelled = false;
+    const started: number[] = [];
+
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async (item) => {
+      started.push(item);
+      if (item === 2) cancelled = true;
+      await tick();
+      return item * 10;
+    }, () => !cancelled);
+
+    expect(started).toEqual([1, 2]);
+    expect(results).toEqual([10, 20, undefined, undefined, undefined, undefined]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Fixture wardrobes for outfit generator tests
+ * Items are built from the clean.csv taxonomy (article + season codes) in utils/dataset.ts
+ */
+
+import type { AIClothingAnalysis, ClothingItem, ClothingSubcategory, StylePreference, UserProfile, WeatherData } from '../../../types';
+import { ARTICLE_CODES, ARTICLE_NAMES, SEASON_CODES, articleToCategory, articleToSubcategory, seasonToAIFormat } from '../../dataset';
+
+interface FixtureOptions {
+  season?: number; // SEASON_CODES value
+  style?: StylePreference[];
+  formality?: AIClothingAnalysis['formality'];
+  description?: string; // Defaults to the article name (e.g. "Short", "Jean")
+  subcategory?: ClothingSubcategory; // Defaults to the article's subcategory
+  occasionScores?: AIClothingAnalysis['occasionScores'];
+}
+
+let nextId = 0;
+
+/**
+ * Build a clothing item from a dataset article code
+ */
+export const makeItem = (article: number, colors: string[], options: FixtureOptions = {}): ClothingItem => {
+  const category = articleToCategory(article);
+  const style = options.style ?? ['casual'];
+
+  return {
+    id: `${ARTICLE_NAMES[article].toLowerCase().replace(' ', '-')}-${nextId++}`,
+    image: '',
+    category,
+    subcategory: options.subcategory ?? articleToSubcategory(article),
+    colors,
+    style,
+    uploadedAt: new Date('2024-01-01'),
+    aiAnalysis: {
+      description: options.description ?? ARTICLE_NAMES[article],
+      suggestedCategory: category,
+      detectedColors: colors,
+      suggestedStyles: style,
+      season: seasonToAIFormat(options.season ?? SEASON_CODES.FALL),
+      formality: options.formality ?? 'casual',
+      occasionScores: options.occasionScores,
+    },
+  };
+};
+
+// Rain defaults to a light, steady rain (0.05 in/hr) whenever there's a chance of it
+export const makeWeather = (
+  temperature: number,
+  precipitationProbability: number = 0,
+  precipitationIntensity: number = precipitationProbability > 0 ? 0.05 : 0
+): WeatherData => ({
+  temperature,
+  condition: precipitationProbability > 30 ? 'Rainy' : 'Clear',
+  precipitationProbability,
+  precipitationIntensity,
+  windSpeed: 5,
+  humidity: 50,
+  feelsLike: temperature,
+});
+
+export const baseProfile: UserProfile = {
+  hasCompletedOnboarding: true,
+  stylePreferences: {
+    casual: 7,
+    formal: 5,
+    streetwear: 5,
+    athletic: 5,
+    preppy: 5,
+  },
+  favoriteColors: [],
+};
+
+/**
+ * Profile that dislikes every style
+ * Keeps scores well below the 1.0 clamp so individual modifiers are measurable
+ */
+export const lukewarmProfile: UserProfile = {
+  ...baseProfile,
+  stylePreferences: {
+    casual: 1,
+    formal: 1,
+    streetwear: 1,
+    athletic: 1,
+    preppy: 1,
+  },
+};
+
+/**
+ * A small everyday wardrobe (neutrals plus a few colors)
+ */
+export const basicWardrobe = (): ClothingItem[] => [
+  makeItem(ARTICLE_CODES.TEE, ['white']),
+  makeItem(ARTICLE_CODES.TEE, ['navy']),
+  makeItem(ARTICLE_CODES.SHIRT, ['blue'], { description: 'Long sleeve oxford shirt' }),
+  makeItem(ARTICLE_CODES.JEAN, ['denim']),
+  makeItem(ARTICLE_CODES.TROUSER, ['khaki']),
+  makeItem(ARTICLE_CODES.SHORT, ['navy'], { season: SEASON_CODES.SUMMER }),
+  makeItem(ARTICLE_CODES.SHOE, ['white']),
+  makeItem(ARTICLE_CODES.SHOE, ['black']),
+];
+
+/**
+ * Outerwear for cold-weather layering tests
+ */
+export const outerwearItems = (): ClothingItem[] => [
+  makeItem(ARTICLE_CODES.JACKET, ['black'], { season: SEASON_CODES.WINTER }),
+  makeItem(ARTICLE_CODES.RAIN_JACKET, ['olive'], { season: SEASON_CODES.FALL }),
+];
+
+/**
+ * Dresses and layering pieces for template tests
+ */
+export const dressItems = (): ClothingItem[] => [
+  makeItem(ARTICLE_CODES.DRESS, ['navy'], { season: SEASON_CODES.SUMMER }),
+  makeItem(ARTICLE_CODES.DRESS, ['white'], { season: SEASON_CODES.SPRING }),
+];
+
+export const midLayerItems = (): ClothingItem[] => [
+  makeItem(ARTICLE_CODES.SHIRT, ['gray'], { subcategory: 'sweater', description: 'Crewneck wool sweater' }),
+];
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createImageURLCache } from '../imageUrlCache';
+
+/**
+ * Cache over an in-memory image store, recording URL creation and revocation
+ */
+const setup = (capacity = 2) => {
+  const images = new Map<string, Blob>([
+    ['a', new Blob(['a'])],
+    ['b', new Blob(['b'])],
+    ['c', new Blob(['c'])],
+  ]);
+  const load = vi.fn(async (id: string) => images.get(id));
+  const revoked: string[] = [];
+  let created = 0;
+  const cache = createImageURLCache({
+    load,
+    capacity,
+    createURL: () => `blob:${++created}`,
+    revokeURL: (url) => revoked.push(url),
+  });
+  return { cache, load, revoked, images };
+};
+
+describe('createImageURLCache', () => {
+  it('shares one URL between everyone showing the same image', async () => {
+    const { cache, load } = setup();
+    const first = cache.acquire('a', 'thumbnail');
+    const second = cache.acquire('a', 'thumbnail');
+
+    expect(await first.url).toBe('blob:1');
+    expect(await second.url).toBe('blob:1');
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps thumbnails and full-size images apart', async () => {
+    const { cache, load } = setup();
+    expect(await cache.acquire('a', 'thumbnail').url).toBe('blob:1');
+    expect(await cache.acquire('a', 'full').url).toBe('blob:2');
+    expect(load).toHaveBeenCalledWith('a', 'full');
+  });
+
+  it('never revokes a URL that is still held', async () => {
+    const { cache, revoked } = setup(0);
+    const first = cache.acquire('a', 'full');
+    const second = cache.acquire('a', 'full');
+    await first.url;
+
+    first.release();
+    first.release(); // Releasing twice doesn't steal the other reference
+    expect(revoked).toEqual([]);
+
+    second.release();
+    expect(revoked).toEqual(['blob:1']);
+  });
+
+  it('revokes the least recently used idle URL past capacity', async () => {
+    const { cache, revoked } = setup(1);
+    const a = cache.acquire('a', 'full');
+    const b = cache.acquire('b', 'full');
+    await Promise.all([a.url, b.url]);
+
+    a.release();
+    expect(revoked).toEqual([]);
+    b.release();
+    expect(revoked).toEqual(['blob:1']);
+  });
+
+  it('reuses an idle URL instead of loading again', async () => {
+    const { cache, load, revoked } = setup();
+    const first = cache.acquire('a', 'full');
+    await first.url;
+    first.release();
+
+    expect(await cache.acquire('a', 'full').url).toBe('blob:1');
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(revoked).toEqual([]);
+  });
+
+  it('revokes an invalidated URL once its last holder lets go', async () => {
+    const { cache, load, revoked, images } = setup();
+    const held = cache.acquire('a', 'full');
+    await held.url;
+
+    images.set('a', new Blob(['a, re-compressed']));
+    cache.invalidate('a');
+    expect(revoked).toEqual([]);
+
+    // New viewers get the new image
+    const fresh = cache.acquire('a', 'full');
+    expect(await fresh.url).toBe('blob:2');
+    expect(load).toHaveBeenCalledTimes(2);
+
+    held.release();
+    expect(revoked).toEqual(['blob:1']);
+    fresh.release();
+    expect(revoked).toEqual(['blob:1']);
+  });
+
+  it('revokes idle URLs straight away when invalidated', async () => {
+    const { cache, revoked } = setup();
+    const handle = cache.acquire('a', 'thumbnail');
+    await handle.url;
+    handle.release();
+
+    cache.invalidate('a');
+    expect(revoked).toEqual(['blob:1']);
+    expect(cache.size()).toBe(0);
+  });
+
+  it('looks again for images that were missing', async () => {
+    const { cache, load, images } = setup();
+    expect(await cache.acquire('d', 'full').url).toBeNull();
+
+    images.set('d', new Blob(['d']));
+    expect(await cache.acquire('d', 'full').url).toBe('blob:1');
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,538 @@
+import { describe, it, expect, vi } from 'vitest';
+import { generateOutfits, generateOutfitsProgressively, scoreOutfit } from '../outfitGenerator';
+import { beamSearchOutfits, type BeamScorer, type SearchBudget } from '../outfitBeamSearch';
+import { createSeededRandom } from '../random';
+import { getRejectedOutfitKeys, createRejection, getOutfitKey } from '../outfitRejections';
+import { ARTICLE_CODES } from '../dataset';
+import type { ClothingItem, Outfit } from '../../types';
+import {
+  makeItem,
+  makeWeather,
+  baseProfile,
+  lukewarmProfile,
+  basicWardrobe,
+  outerwearItems,
+  dressItems,
+  midLayerItems,
+} from './fixtures/wardrobes';
+
+const MINIMUM_SCORE_THRESHOLD = 0.3;
+
+const itemIds = (outfits: Outfit[]) => outfits.map(outfit => outfit.items.map(item => item.id));
+const categories = (outfit: Outfit) => outfit.items.map(item => item.category);
+const allItems = (outfits: Outfit[]) => outfits.flatMap(outfit => outfit.items);
+
+describe('generateOutfits', () => {
+  describe('minimum requirements', () => {
+    it('returns nothing without a top, bottom, and shoes', () => {
+      const noShoes = basicWardrobe().filter(item => item.category !== 'shoes');
+      expect(generateOutfits(noShoes, baseProfile, 5)).toEqual([]);
+    });
+
+    it('builds every outfit from a top, bottom, and shoes', () => {
+      const outfits = generateOutfits(basicWardrobe(), baseProfile, 5, undefined, undefined, undefined, { seed: 1 });
+
+      expect(outfits.length).toBeGreaterThan(0);
+      for (const outfit of outfits) {
+        expect(categories(outfit)).toEqual(expect.arrayContaining(['top', 'bottom', 'shoes']));
+      }
+    });
+  });
+
+  describe('score threshold (0.3)', () => {
+    it('never returns an outfit below the threshold', () => {
+      const weather = makeWeather(60);
+      const outfits = generateOutfits(basicWardrobe(), baseProfile, 10, weather, undefined, undefined, { seed: 7 });
+
+      for (const outfit of outfits) {
+        expect(scoreOutfit(outfit.items, baseProfile, weather)).toBeGreaterThanOrEqual(MINIMUM_SCORE_THRESHOLD);
+      }
+    });
+
+    it('returns nothing when every combination scores below the threshold', () => {
+      // Shorts and tees at 10°F with vibrating red/green colors
+      const wardrobe = [
+        makeItem(ARTICLE_CODES.TEE, ['red']),
+        makeItem(ARTICLE_CODES.SHORT, ['green']),
+        makeItem(ARTICLE_CODES.SHOE, ['red']),
+      ];
+
+      expect(generateOutfits(wardrobe, baseProfile, 5, makeWeather(10))).toEqual([]);
+    });
+  });
+
+  describe('extreme cold (<20°F)', () => {
+    it('always layers outerwear when available', () => {
+      const wardrobe = [...basicWardrobe(), ...outerwearItems()];
+      const outfits = generateOutfits(wardrobe, baseProfile, 5, makeWeather(10), undefined, undefined, { seed: 3 });
+
+      expect(outfits.length).toBeGreaterThan(0);
+      for (const outfit of outfits) {
+        expect(categories(outfit)).toContain('outerwear');
+      }
+    });
+
+    it('scores outerwear over bare layers and penalizes shorts', () => {
+      const weather = makeWeather(10);
+      const top = makeItem(ARTICLE_CODES.TEE, ['white']);
+      const jeans = makeItem(ARTICLE_CODES.JEAN, ['denim']);
+      const shorts = makeItem(ARTICLE_CODES.SHORT, ['denim']);
+      const shoes = makeItem(ARTICLE_CODES.SHOE, ['black']);
+      const jacket = makeItem(ARTICLE_CODES.JACKET, ['black']);
+
+      const layered = scoreOutfit([top, jeans, shoes, jacket], baseProfile, weather);
+      const bare = scoreOutfit([top, jeans, shoes], baseProfile, weather);
+      const inShorts = scoreOutfit([top, shorts, shoes], baseProfile, weather);
+
+      expect(layered).toBeGreaterThan(bare);
+      expect(bare).toBeGreaterThan(inShorts);
+    });
+
+    it('gives long sleeves partial credit when there is no outerwear', () => {
+      const weather = makeWeather(10);
+      const jeans = makeItem(ARTICLE_CODES.JEAN, ['denim']);
+      const shoes = makeItem(ARTICLE_CODES.SHOE, ['black']);
+      const longSleeve = makeItem(ARTICLE_CODES.SHIRT, ['white'], { description: 'Long sleeve shirt' });
+      const tee = makeItem(ARTICLE_CODES.TEE, ['white']);
+
+      expect(scoreOutfit([longSleeve, jeans, shoes], baseProfile, weather))
+        .toBeGreaterThan(scoreOutfit([tee, jeans, shoes], baseProfile, weather));
+    });
+  });
+
+  describe('extreme heat (>85°F)', () => {
+    it('ranks the lightest shoes first', () => {
+      // 25 shoes: only the last one is light
+      const darkShoes = Array.from({ length: 24 }, () => makeItem(ARTICLE_CODES.SHOE, ['brown']));
+      const whiteShoe = makeItem(ARTICLE_CODES.SHOE, ['white']);
+      const wardrobe = [
+        makeItem(ARTICLE_CODES.TEE, ['white']),
+        makeItem(ARTICLE_CODES.SHORT, ['khaki']),
+        ...darkShoes,
+        whiteShoe,
+      ];
+
+      const [best] = generateOutfits(wardrobe, baseProfile, 5, makeWeather(95), undefined, undefined, { seed: 1 });
+
+      expect(best.items.map(item => item.id)).toContain(whiteShoe.id);
+    });
+
+    it('prefers shorts and penalizes outerwear', () => {
+      const weather = makeWeather(95);
+      const tee = makeItem(ARTICLE_CODES.TEE, ['yellow']);
+      const shoes = makeItem(ARTICLE_CODES.SHOE, ['green']);
+      const shorts = makeItem(ARTICLE_CODES.SHORT, ['blue']);
+      const trousers = makeItem(ARTICLE_CODES.TROUSER, ['blue']);
+      const jacket = makeItem(ARTICLE_CODES.JACKET, ['blue']);
+
+      const inShorts = scoreOutfit([tee, shorts, shoes], lukewarmProfile, weather);
+      const inTrousers = scoreOutfit([tee, trousers, shoes], lukewarmProfile, weather);
+
+      expect(inShorts).toBeGreaterThan(inTrousers);
+      expect(scoreOutfit([tee, shorts, shoes, jacket], lukewarmProfile, weather)).toBeLessThan(inShorts);
+    });
+
+    it('penalizes dark colors only in extreme heat', () => {
+      const light = [
+        makeItem(ARTICLE_CODES.TEE, ['yellow']),
+        makeItem(ARTICLE_CODES.SHORT, ['blue']),
+        makeItem(ARTICLE_CODES.SHOE, ['green']),
+      ];
+      const dark = [
+        makeItem(ARTICLE_CODES.TEE, ['yellow']),
+        makeItem(ARTICLE_CODES.SHORT, ['navy']),
+        makeItem(ARTICLE_CODES.SHOE, ['green']),
+      ];
+      const heatShift = (outfit: ClothingItem[]) =>
+        scoreOutfit(outfit, lukewarmProfile, makeWeather(95)) - scoreOutfit(outfit, lukewarmProfile, makeWeather(80));
+
+      expect(heatShift(light)).toBeGreaterThan(0);
+      expect(heatShift(dark)).toBeLessThan(0);
+    });
+  });
+
+  describe('precipitation', () => {
+    it('penalizes white bottoms in the rain', () => {
+      const outfit = [
+        makeItem(ARTICLE_CODES.SHIRT, ['navy']),
+        makeItem(ARTICLE_CODES.JEAN, ['white']),
+        makeItem(ARTICLE_CODES.SHOE, ['black']),
+      ];
+
+      const dry = scoreOutfit(outfit, lukewarmProfile, makeWeather(60, 0));
+      const rainy = scoreOutfit(outfit, lukewarmProfile, makeWeather(60, 80, 0.15));
+
+      expect(rainy).toBeCloseTo(dry - 0.2, 5);
+    });
+
+    it('goes easier on white bottoms in likely drizzle than in likely rain', () => {
+      const outfit = [
+        makeItem(ARTICLE_CODES.SHIRT, ['navy']),
+        makeItem(ARTICLE_CODES.JEAN, ['white']),
+        makeItem(ARTICLE_CODES.SHOE, ['black']),
+      ];
+
+      const dry = scoreOutfit(outfit, lukewarmProfile, makeWeather(60, 0));
+      expect(scoreOutfit(outfit, lukewarmProfile, makeWeather(60, 90, 0.005))).toBeCloseTo(dry, 5);
+      expect(scoreOutfit(outfit, lukewarmProfile, makeWeather(60, 60, 0.05))).toBeLessThan(dry);
+    });
+
+    it('ignores white bottoms at low precipitation', () => {
+      const outfit = [
+        makeItem(ARTICLE_CODES.SHIRT, ['navy']),
+        makeItem(ARTICLE_CODES.JEAN, ['white']),
+        makeItem(ARTICLE_CODES.SHOE, ['black']),
+      ];
+
+      expect(scoreOutfit(outfit, lukewarmProfile, makeWeather(60, 20)))
+        .toBeCloseTo(scoreOutfit(outfit, lukewarmProfile, makeWeather(60, 0)), 5);
+    });
+  });
+
+  describe('personal thermal comfort', () => {
+    const top = makeItem(ARTICLE_CODES.TEE, ['white']);
+    const jeans = makeItem(ARTICLE_CODES.JEAN, ['denim']);
+    const shoes = makeItem(ARTICLE_CODES.SHOE, ['black']);
+    const jacket = makeItem(ARTICLE_CODES.JACKET, ['black']);
+    const jacketGain = (profile: typeof lukewarmProfile, temperature: number) =>
+      scoreOutfit([top, jeans, shoes, jacket], profile, makeWeather(temperature)) -
+      scoreOutfit([top, jeans, shoes], profile, makeWeather(temperature));
+
+    it('dresses a user who runs cold for colder weather than the reading', () => {
+      const runsCold = { ...lukewarmProfile, thermalComfort: { offset: -8, feedbackCount: 5 } };
+
+      expect(jacketGain(runsCold, 55)).toBeGreaterThan(jacketGain(lukewarmProfile, 55));
+    });
+
+    it('judges the weather by cold sensitivity', () => {
+      const sensitive = {
+        ...lukewarmProfile,
+        weatherPreferences: { coldSensitivity: 10, heatSensitivity: 5, layeringPreference: false, rainPreparation: false },
+      };
+
+      expect(jacketGain(sensitive, 55)).toBeGreaterThan(jacketGain(lukewarmProfile, 55));
+    });
+
+    it('requires outerwear once the effective temperature is extreme', () => {
+      const wardrobe = [...basicWardrobe(), ...outerwearItems()];
+      const runsCold = { ...baseProfile, thermalComfort: { offset: -12, feedbackCount: 20 } };
+
+      const outfits = generateOutfits(wardrobe, runsCold, 5, makeWeather(28), undefined, undefined, { seed: 3 });
+
+      expect(outfits.length).toBeGreaterThan(0);
+      outfits.forEach(outfit => expect(categories(outfit)).toContain('outerwear'));
+    });
+  });
+
+  describe('occasion 3-phase fallback', () => {
+    const tops = () => [
+      makeItem(ARTICLE_CODES.SHIRT, ['white'], { style: ['formal'], formality: 'formal' }),
+      makeItem(ARTICLE_CODES.TEE, ['red'], { style: ['athletic'] }),
+    ];
+    const bottoms = () => [
+      makeItem(ARTICLE_CODES.TROUSER, ['black'], { style: ['formal'], formality: 'formal' }),
+      makeItem(ARTICLE_CODES.SWEATPANT, ['gray'], { style: ['athletic'] }),
+    ];
+
+    it('phase 1: uses only items that strictly match the occasion', () => {
+      const formalShoe = makeItem(ARTICLE_CODES.SHOE, ['black'], { style: ['formal'], formality: 'formal' });
+      const wardrobe = [...tops(), ...bottoms(), formalShoe, makeItem(ARTICLE_CODES.SHOE, ['white'], { style: ['athletic'] })];
+
+      const outfits = generateOutfits(wardrobe, baseProfile, 5, undefined, undefined, 'formal', { seed: 1 });
+
+      expect(outfits.length).toBeGreaterThan(0);
+      for (const item of allItems(outfits)) {
+        expect(item.style).toContain('formal');
+      }
+    });
+
+    it('phase 2: falls back to versatile neutral items', () => {
+      const neutralSneaker = makeItem(ARTICLE_CODES.SHOE, ['black'], { style: ['casual'] });
+      const neonTrainer = makeItem(ARTICLE_CODES.SHOE, ['green'], { style: ['athletic'] });
+      const wardrobe = [...tops(), ...bottoms(), neutralSneaker, neonTrainer];
+
+      const outfits = generateOutfits(wardrobe, baseProfile, 5, undefined, undefined, 'formal', { seed: 1 });
+      const shoeIds = allItems(outfits).filter(item => item.category === 'shoes').map(item => item.id);
+
+      expect(shoeIds.length).toBeGreaterThan(0);
+      expect(new Set(shoeIds)).toEqual(new Set([neutralSneaker.id]));
+    });
+
+    it('phase 3: uses whatever is left when nothing fits (scarcity)', () => {
+      const neonTrainer = makeItem(ARTICLE_CODES.SHOE, ['green'], { style: ['athletic'] });
+      const wardrobe = [...tops(), ...bottoms(), neonTrainer];
+
+      const outfits = generateOutfits(wardrobe, baseProfile, 5, undefined, undefined, 'funeral', { seed: 1 });
+
+      expect(outfits.length).toBeGreaterThan(0);
+      for (const outfit of outfits) {
+        expect(outfit.items.map(item => item.id)).toContain(neonTrainer.id);
+      }
+    });
+  });
+
+  describe('style consistency', () => {
+    it('penalizes mixing formal and athletic pieces', () => {
+      const blazerTop = makeItem(ARTICLE_CODES.SHIRT, ['white'], { style: ['formal'] });
+      const trousers = makeItem(ARTICLE_CODES.TROUSER, ['black'], { style: ['formal'] });
+      const sweatpants = makeItem(ARTICLE_CODES.SWEATPANT, ['black'], { style: ['athletic'] });
+      const shoes = makeItem(ARTICLE_CODES.SHOE, ['black'], { style: ['formal'] });
+
+      const profile = { ...baseProfile, stylePreferences: { ...baseProfile.stylePreferences, formal: 5, athletic: 5 } };
+
+      expect(scoreOutfit([blazerTop, trousers, shoes], profile))
+        .toBeGreaterThan(scoreOutfit([blazerTop, sweatpants, shoes], profile));
+    });
+  });
+
+  describe('outfit templates', () => {
+    it('never pairs a dress with a separate top or bottom', () => {
+      const wardrobe = [...basicWardrobe(), ...dressItems()];
+      const outfits = generateOutfits(wardrobe, baseProfile, 20, makeWeather(70), undefined, undefined, { seed: 1 });
+      const onePieces = outfits.filter(outfit => outfit.template === 'one-piece');
+
+      expect(onePieces.length).toBeGreaterThan(0);
+      for (const outfit of onePieces) {
+        expect(categories(outfit)).not.toContain('bottom');
+        expect(categories(outfit).filter(category => category === 'top')).toHaveLength(1);
+      }
+      for (const outfit of outfits.filter(outfit => outfit.template === 'classic')) {
+        expect(outfit.items.map(item => item.subcategory)).not.toContain('dress');
+      }
+    });
+
+    it('builds one-piece outfits without any bottoms in the wardrobe', () => {
+      const wardrobe = [...dressItems(), makeItem(ARTICLE_CODES.SHOE, ['black'])];
+      const outfits = generateOutfits(wardrobe, baseProfile, 5);
+
+      expect(outfits.length).toBeGreaterThan(0);
+      expect(outfits.every(outfit => outfit.template === 'one-piece')).toBe(true);
+    });
+
+    it('offers layered looks only in cool weather', () => {
+      const wardrobe = [...basicWardrobe(), ...outerwearItems(), ...midLayerItems()];
+      const generate = (temperature: number) =>
+        generateOutfits(wardrobe, baseProfile, 50, makeWeather(temperature), undefined, undefined, { seed: 1 });
+
+      const layered = generate(40).filter(outfit => outfit.template === 'layered');
+      expect(layered.length).toBeGreaterThan(0);
+      for (const outfit of layered) {
+        expect(outfit.items.map(item => item.subcategory)).toContain('sweater');
+        expect(categories(outfit)).toContain('outerwear');
+      }
+
+      expect(generate(75).some(outfit => outfit.template === 'layered')).toBe(false);
+    });
+
+    it('penalizes outfits that do not fit any template', () => {
+      const [dress] = dressItems();
+      const jeans = makeItem(ARTICLE_CODES.JEAN, ['denim']);
+      const shoes = makeItem(ARTICLE_CODES.SHOE, ['black']);
+
+      expect(scoreOutfit([dress, jeans, shoes], lukewarmProfile))
+        .toBeLessThan(scoreOutfit([dress, shoes], lukewarmProfile));
+    });
+  });
+
+  describe('beam search', () => {
+    const largeWardrobe = (size: number): ClothingItem[] => {
+      const colors = ['black', 'white', 'navy', 'gray', 'beige', 'olive', 'burgundy', 'blue', 'red', 'green'];
+      const articles = [
+        ARTICLE_CODES.TEE, ARTICLE_CODES.SHIRT, ARTICLE_CODES.TEE,
+        ARTICLE_CODES.JEAN, ARTICLE_CODES.TROUSER, ARTICLE_CODES.SHORT,
+        ARTICLE_CODES.SHOE, ARTICLE_CODES.SHOE,
+        ARTICLE_CODES.JACKET, ARTICLE_CODES.OTHER,
+      ];
+      return Array.from({ length: size }, (_, i) =>
+        makeItem(articles[i % articles.length], [colors[(i * 7) % colors.length]])
+      );
+    };
+
+    it('considers items past the first 20 of each category', () => {
+      // 30 clashing tops, then one that matches everything
+      const clashingTops = Array.from({ length: 30 }, () => makeItem(ARTICLE_CODES.TEE, ['red'], { style: ['athletic'] }));
+      const bestTop = makeItem(ARTICLE_CODES.TEE, ['white']);
+      const wardrobe = [
+        ...clashingTops,
+        bestTop,
+        makeItem(ARTICLE_CODES.JEAN, ['green']),
+        makeItem(ARTICLE_CODES.SHOE, ['white']),
+      ];
+
+      const [best] = generateOutfits(wardrobe, baseProfile, 5, makeWeather(65), undefined, undefined, { seed: 1 });
+
+      expect(best.items.map(item => item.id)).toContain(bestTop.id);
+    });
+
+    it('adds optional layers only when they improve the outfit', () => {
+      const wardrobe = [...basicWardrobe(), ...outerwearItems()];
+      const outfits = generateOutfits(wardrobe, baseProfile, 10, makeWeather(95), undefined, undefined, { seed: 1 });
+
+      // Outerwear is penalized in the heat, so it should never be chosen
+      expect(outfits.length).toBeGreaterThan(0);
+      expect(allItems(outfits).some(item => item.category === 'outerwear')).toBe(false);
+    });
+
+    it('still fills the deck from a 300-item wardrobe once its evaluation budget runs out', () => {
+      const outfits = generateOutfits(largeWardrobe(300), baseProfile, 10, makeWeather(45), undefined, undefined, {
+        seed: 1,
+        evaluationBudget: 0,
+      });
+
+      expect(outfits).toHaveLength(10);
+    });
+
+    it('narrows the search once the evaluation budget is spent', () => {
+      const pools = [
+        Array.from({ length: 40 }, () => makeItem(ARTICLE_CODES.TEE, ['white'])),
+        Array.from({ length: 40 }, () => makeItem(ARTICLE_CODES.JEAN, ['denim'])),
+        Array.from({ length: 20 }, () => makeItem(ARTICLE_CODES.SHOE, ['black'])),
+      ];
+      const search = (remaining: number) => {
+        const scorer: BeamScorer = {
+          scoreItem: () => 0.5,
+          scorePair: () => 0.5,
+          scoreOutfit: vi.fn(() => 0.5),
+          isExcluded: () => false,
+        };
+        const budget: SearchBudget = { remaining };
+        const results = beamSearchOutfits(pools, [], scorer, {
+          beamWidth: 30,
+          budget,
+          random: createSeededRandom(1),
+          minBeamWidth: 10,
+        });
+        return { results, scored: vi.mocked(scorer.scoreOutfit).mock.calls.length, budget };
+      };
+
+      const unlimited = search(Infinity);
+      const spent = search(0);
+
+      expect(unlimited.scored).toBe(30);
+      expect(spent.scored).toBe(10);
+      expect(spent.results).toHaveLength(10); // Never fewer than the outfits requested
+
+      // Every scorer call is charged: a prior per expansion, a pair per item it joins, and the 30 outfit scores
+      const charged = 40 + 40 * 40 * 2 + 30 * 20 * 3 + 30;
+      expect(search(1e6).budget.remaining).toBe(1e6 - charged);
+    });
+
+    it('gives a seeded run the same outfits however slow the machine is', () => {
+      const wardrobe = largeWardrobe(300);
+      const options = { seed: 7, evaluationBudget: 10_000, createdAt: new Date('2026-10-19') };
+      const expected = generateOutfits(wardrobe, baseProfile, 10, makeWeather(45), undefined, undefined, options);
+
+      // Every clock read jumps a second, far past any deadline
+      let time = 0;
+      const clock = vi.spyOn(performance, 'now').mockImplementation(() => (time += 1000));
+      try {
+        const slow = generateOutfits(wardrobe, baseProfile, 10, makeWeather(45), undefined, undefined, options);
+        expect(slow).toEqual(expected);
+      } finally {
+        clock.mockRestore();
+      }
+    });
+  });
+
+  describe('options', () => {
+    it('is reproducible for the same seed', () => {
+      // More pairings than the beam keeps (30), so seeded jitter decides which survive pruning
+      const wardrobe: ClothingItem[] = [
+        ...Array.from({ length: 12 }, (_, i) => makeItem(ARTICLE_CODES.TEE, [i % 2 ? 'white' : 'navy'])),
+        ...Array.from({ length: 10 }, () => makeItem(ARTICLE_CODES.JEAN, ['denim'])),
+        ...Array.from({ length: 6 }, () => makeItem(ARTICLE_CODES.SHOE, ['black'])),
+        ...outerwearItems(),
+      ];
+      const weather = makeWeather(40);
+
+      const first = generateOutfits(wardrobe, baseProfile, 5, weather, undefined, undefined, { seed: 42 });
+      const second = generateOutfits(wardrobe, baseProfile, 5, weather, undefined, undefined, { seed: 42 });
+
+      expect(itemIds(first)).toEqual(itemIds(second));
+    });
+
+    it('never resurfaces a rejected outfit', () => {
+      const wardrobe = basicWardrobe();
+      const [best] = generateOutfits(wardrobe, baseProfile, 1, undefined, undefined, undefined, { seed: 1 });
+      const rejectedOutfitKeys = getRejectedOutfitKeys([createRejection(best.items)], 0);
+
+      const outfits = generateOutfits(wardrobe, baseProfile, 20, undefined, undefined, undefined, { seed: 1, rejectedOutfitKeys });
+      const rejectedIds = [...best.items.map(item => item.id)].sort();
+
+      for (const ids of itemIds(outfits)) {
+        expect([...ids].sort()).not.toEqual(rejectedIds);
+      }
+    });
+  });
+
+  describe('progressive generation', () => {
+    it('streams partial rankings that end with the full result', () => {
+      const wardrobe = [...basicWardrobe(), ...dressItems(), ...midLayerItems(), ...outerwearItems()];
+      const weather = makeWeather(50);
+      const options = { seed: 7 };
+
+      const steps = [...generateOutfitsProgressively(wardrobe, baseProfile, 10, weather, undefined, undefined, options)];
+      const final = generateOutfits(wardrobe, baseProfile, 10, weather, undefined, undefined, options);
+
+      // One step per template (classic, one-piece, layered)
+      expect(steps).toHaveLength(3);
+      expect(steps[0].length).toBeGreaterThan(0);
+      expect(itemIds(steps[steps.length - 1])).toEqual(itemIds(final));
+    });
+
+    it('keeps outfit ids stable between steps', () => {
+      const wardrobe = [...basicWardrobe(), ...dressItems()];
+      const steps = [...generateOutfitsProgressively(wardrobe, baseProfile, 10, undefined, undefined, undefined, { seed: 3 })];
+      const finalIds = new Map(steps[steps.length - 1].map(outfit => [getOutfitKey(outfit.items), outfit.id]));
+
+      const carried = steps[0].filter(outfit => finalIds.has(getOutfitKey(outfit.items)));
+      expect(carried.length).toBeGreaterThan(0);
+      for (const outfit of carried) {
+        expect(finalIds.get(getOutfitKey(outfit.items))).toBe(outfit.id);
+      }
+    });
+  });
+
+  describe('variety', () => {
+    // One standout tee that pairs with everything + plenty of decent alternatives
+    const starWardrobe = () => [
+      makeItem(ARTICLE_CODES.TEE, ['white']),
+      ...Array.from({ length: 6 }, (_, i) => makeItem(ARTICLE_CODES.TEE, [['olive', 'mustard', 'teal'][i % 3]])),
+      ...Array.from({ length: 5 }, (_, i) => makeItem(ARTICLE_CODES.JEAN, [i % 2 ? 'denim' : 'khaki'])),
+      ...Array.from({ length: 4 }, (_, i) => makeItem(ARTICLE_CODES.SHOE, [i % 2 ? 'white' : 'brown'])),
+    ];
+
+    const maxItemRepeats = (outfits: Outfit[]) => {
+      const counts = new Map<string, number>();
+      outfits.forEach(outfit => outfit.items.forEach(item => counts.set(item.id, (counts.get(item.id) ?? 0) + 1)));
+      return Math.max(...counts.values());
+    };
+
+    it('repeats items less as variety goes up', () => {
+      const wardrobe = starWardrobe();
+      const safe = generateOutfits(wardrobe, baseProfile, 10, undefined, undefined, undefined, { seed: 5, variety: 0 });
+      const varied = generateOutfits(wardrobe, baseProfile, 10, undefined, undefined, undefined, { seed: 5, variety: 1 });
+
+      expect(varied).toHaveLength(10);
+      expect(maxItemRepeats(varied)).toBeLessThan(maxItemRepeats(safe));
+    });
+
+    it('still leads with the best outfit', () => {
+      const wardrobe = starWardrobe();
+      const safe = generateOutfits(wardrobe, baseProfile, 10, undefined, undefined, undefined, { seed: 5, variety: 0 });
+      const varied = generateOutfits(wardrobe, baseProfile, 10, undefined, undefined, undefined, { seed: 5, variety: 1 });
+
+      expect(itemIds(varied)[0]).toEqual(itemIds(safe)[0]);
+    });
+
+    it('reads the default from fashion risk tolerance', () => {
+      const wardrobe = starWardrobe();
+      const adventurous = { ...baseProfile, lifestyle: { activity: 'moderate' as const, commute: 'walk' as const, outdoorTime: 3, fashionRiskTolerance: 10 } };
+
+      const fromProfile = generateOutfits(wardrobe, adventurous, 10, undefined, undefined, undefined, { seed: 5 });
+      const explicit = generateOutfits(wardrobe, baseProfile, 10, undefined, undefined, undefined, { seed: 5, variety: 1 });
+
+      expect(itemIds(fromProfile)).toEqual(itemIds(explicit));
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { createGenerationSnapshot, generateFromSnapshot, replayGenerationSnapshot } from '../outfitSnapshot';
+import { createPreferenceModel, trainPreferenceModel } from '../preferenceModel';
+import { createRejection, getRejectedOutfitKeys } from '../outfitRejections';
+import type { ClothingCategory, ClothingItem, UserProfile, WeatherData } from '../../types';
+
+const item = (id: string, category: ClothingCategory, color: string): ClothingItem => ({
+  id,
+  image: '',
+  category,
+  colors: [color],
+  style: ['casual'],
+  uploadedAt: new Date('2024-01-01'),
+});
+
+const COLORS = ['navy', 'white', 'gray', 'black', 'beige', 'olive'];
+
+// More combinations than the generator tries (count * 20), so the seed decides what gets sampled
+const wardrobe: ClothingItem[] = [
+  ...COLORS.map((color, i) => item(`top-${i}`, 'top', color)),
+  ...COLORS.map((color, i) => item(`bottom-${i}`, 'bottom', color)),
+  ...COLORS.map((color, i) => item(`shoes-${i}`, 'shoes', color)),
+  item('coat', 'outerwear', 'black'),
+  item('watch', 'accessory', 'gray'),
+];
+
+const profile: UserProfile = {
+  hasCompletedOnboarding: true,
+  stylePreferences: { casual: 8, formal: 3, streetwear: 5, athletic: 2, preppy: 4 },
+  favoriteColors: ['navy'],
+};
+
+const weather: WeatherData = {
+  temperature: 45,
+  condition: 'Cloudy',
+  precipitationProbability: 10,
+  precipitationIntensity: 0.02,
+  windSpeed: 5,
+  humidity: 60,
+  feelsLike: 42,
+};
+
+const liked = { color: 1, style: 0.5, styleConsistency: 1, occasion: null, favoriteColors: 0.2, weather: 0, clash: 0, neutral: 0.2, structure: 0 };
+
+const snapshotOf = (seed: number) => {
+  const model = trainPreferenceModel(createPreferenceModel(), liked, true);
+  const rejectedKeys = getRejectedOutfitKeys([createRejection([wardrobe[0], wardrobe[6], wardrobe[12]])], 30);
+  return createGenerationSnapshot(seed, wardrobe, profile, 5, weather, model, rejectedKeys);
+};
+
+describe('replayGenerationSnapshot', () => {
+  it('regenerates a cached set exactly, IDs and timestamps included', () => {
+    const snapshot = snapshotOf(42);
+    const generated = generateFromSnapshot(snapshot, wardrobe, profile);
+
+    // As it comes back out of the localStorage cache
+    const cached = JSON.parse(JSON.stringify({ outfits: generated, snapshot }));
+
+    const replayed = replayGenerationSnapshot(cached.snapshot, wardrobe, profile);
+    expect(replayed).toHaveLength(5);
+    expect(JSON.parse(JSON.stringify(replayed))).toEqual(cached.outfits);
+  });
+
+  it('gives other seeds other outfits', () => {
+    const ids = (seed: number) => generateFromSnapshot(snapshotOf(seed), wardrobe, profile).map(outfit => outfit.id);
+    expect(ids(1)).not.toEqual(ids(2));
+  });
+
+  it("won't replay once the wardrobe or profile has changed", () => {
+    const snapshot = snapshotOf(42);
+    const recolored = wardrobe.map(clothing => (clothing.id === 'top-0' ? { ...clothing, colors: ['red'] } : clothing));
+
+    expect(replayGenerationSnapshot(snapshot, recolored, profile)).toBeNull();
+    expect(replayGenerationSnapshot(snapshot, wardrobe, { ...profile, favoriteColors: ['red'] })).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { getActiveForecastHours, summarizePrecipitation, getPrecipitationRisk } from '../precipitation';
+import type { HourlyForecast } from '../../types';
+import { makeWeather } from './fixtures/wardrobes';
+
+// A dry morning and a wet evening
+const hourly: HourlyForecast[] = Array.from({ length: 24 }, (_, hour) => ({
+  time: `2026-10-19T${String(hour).padStart(2, '0')}:00`,
+  temperature: 50,
+  feelsLike: 48,
+  precipitationProbability: hour >= 16 ? 70 : 10,
+  precipitation: hour >= 16 ? 0.08 : 0,
+  windSpeed: 5,
+  windGusts: 10,
+  uvIndex: 1,
+  condition: hour >= 16 ? 'Light Rain' : 'Overcast',
+}));
+
+const activeHours = { start: 8, end: 22 };
+
+describe('precipitation over the active hours', () => {
+  it('looks at the rest of the active hours, not just right now', () => {
+    const hours = getActiveForecastHours(hourly, activeHours, 9);
+    expect(hours.map(hour => hour.time.slice(11, 13))).toEqual(
+      ['09', '10', '11', '12', '13', '14', '15', '16', '17', '18', '19', '20', '21']
+    );
+    expect(summarizePrecipitation(hours)).toEqual({ precipitationProbability: 70, precipitationIntensity: 0.08 });
+  });
+
+  it('starts at the active hours before they begin', () => {
+    expect(getActiveForecastHours(hourly, activeHours, 5)[0].time).toBe('2026-10-19T08:00');
+  });
+
+  it('falls back to the current hour once the active hours are over', () => {
+    expect(getActiveForecastHours(hourly, activeHours, 23).map(hour => hour.time)).toEqual(['2026-10-19T23:00']);
+  });
+
+  it('ignores a wet evening when the user is home by then', () => {
+    const hours = getActiveForecastHours(hourly, { start: 7, end: 15 }, 9);
+    expect(summarizePrecipitation(hours).precipitationProbability).toBe(10);
+  });
+});
+
+describe('getPrecipitationRisk', () => {
+  it('weighs the chance by how hard it rains', () => {
+    expect(getPrecipitationRisk(makeWeather(60, 80, 0.005))).toBeCloseTo(0.2);
+    expect(getPrecipitationRisk(makeWeather(60, 50, 0.4))).toBeCloseTo(0.5);
+    expect(getPrecipitationRisk(makeWeather(60, 0))).toBe(0);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPreferenceModel,
+  getModelBlend,
+  personalizeScore,
+  predictLikeProbability,
+  trainPreferenceModel,
+} from '../preferenceModel';
+import type { OutfitFeatures, PreferenceModel } from '../../types';
+
+const features = (overrides: Partial<OutfitFeatures> = {}): OutfitFeatures => ({
+  color: 0.5,
+  style: 0.5,
+  styleConsistency: 0.5,
+  occasion: null,
+  favoriteColors: 0,
+  weather: 0,
+  clash: 0,
+  neutral: 0,
+  structure: 0,
+  ...overrides,
+});
+
+const train = (model: PreferenceModel, swipes: [OutfitFeatures, boolean][], times = 1): PreferenceModel => {
+  for (let i = 0; i < times; i++) {
+    model = swipes.reduce((current, [outfit, liked]) => trainPreferenceModel(current, outfit, liked), model);
+  }
+  return model;
+};
+
+describe('trainPreferenceModel', () => {
+  it('moves weights toward the features of liked outfits', () => {
+    const stylish = features({ style: 1, color: 0.5 });
+    const colorful = features({ style: 0, color: 1 });
+    const model = train(createPreferenceModel(), [[stylish, true], [colorful, false]], 10);
+
+    expect(model.weights.style).toBeGreaterThan(0);
+    expect(model.weights.style).toBeGreaterThan(model.weights.color);
+    expect(predictLikeProbability(model, stylish)).toBeGreaterThan(0.5);
+    expect(predictLikeProbability(model, colorful)).toBeLessThan(0.5);
+    expect(model).toMatchObject({ trainingCount: 20, likeCount: 10 });
+  });
+
+  it('returns a new model instead of changing the old one', () => {
+    const model = createPreferenceModel();
+    trainPreferenceModel(model, features({ style: 1 }), true);
+    expect(model).toEqual(createPreferenceModel());
+  });
+
+  it('keeps weights bounded, and shrinks the ones later swipes give no evidence for', () => {
+    const allIn = features({ color: 1, style: 1, styleConsistency: 1, occasion: 1, favoriteColors: 1, neutral: 1 });
+    const trained = train(createPreferenceModel(), [[allIn, true]], 2000);
+    Object.values(trained.weights).forEach(weight => {
+      expect(Number.isFinite(weight)).toBe(true);
+      expect(Math.abs(weight)).toBeLessThan(5);
+    });
+
+    // Style stays at 0 from here on: only the L2 penalty moves its weight
+    const styleBefore = trained.weights.style;
+    const afterwards = train(trained, [[features({ style: 0 }), true], [features({ style: 0 }), false]], 200);
+    expect(afterwards.weights.style).toBeGreaterThan(0);
+    expect(afterwards.weights.style).toBeLessThan(styleBefore * 0.9);
+  });
+});
+
+describe('getModelBlend', () => {
+  it("doesn't blend in the model before 5 swipes", () => {
+    const model = train(createPreferenceModel(), [[features({ style: 1 }), true]], 4);
+    expect(getModelBlend(model)).toBe(0);
+    expect(personalizeScore(0.3, features({ style: 1 }), model)).toBe(0.3);
+    expect(getModelBlend({ ...model, trainingCount: 5 })).toBeGreaterThan(0);
+  });
+
+  it('never lets the model control more than half the score', () => {
+    expect(getModelBlend({ ...createPreferenceModel(), trainingCount: 40 })).toBe(0.5);
+    expect(getModelBlend({ ...createPreferenceModel(), trainingCount: 5000 })).toBe(0.5);
+
+    // A model certain the user loves the outfit still can't lift a 0 score past 0.5
+    const certain: PreferenceModel = { ...createPreferenceModel(), bias: 50, trainingCount: 5000 };
+    expect(predictLikeProbability(certain, features())).toBeCloseTo(1);
+    expect(personalizeScore(0, features(), certain)).toBeLessThanOrEqual(0.5);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { findOrphanedImages, summarizeImageUsage, RECOMPRESS_MIN_BYTES } from '../storageMaintenance';
+import { ARTICLE_CODES } from '../dataset';
+import { makeItem } from './fixtures/wardrobes';
+
+const NOW = new Date('2024-06-01T12:00:00Z').getTime();
+const LONG_AGO = new Date('2024-05-01T12:00:00Z');
+
+const top = makeItem(ARTICLE_CODES.SHIRT, ['white']);
+const jeans = makeItem(ARTICLE_CODES.JEAN, ['blue']);
+const wardrobe = [top, jeans];
+
+describe('findOrphanedImages', () => {
+  it('finds images no wardrobe item points to', () => {
+    const records = [
+      { id: top.id, size: 100, imageSize: 80, createdAt: LONG_AGO },
+      { id: 'deleted-item', size: 200, imageSize: 160, createdAt: LONG_AGO },
+    ];
+    expect(findOrphanedImages(records, wardrobe, NOW).map(record => record.id)).toEqual(['deleted-item']);
+  });
+
+  it('leaves recently saved images alone (their item may still be on its way)', () => {
+    const records = [{ id: 'saving-now', size: 200, imageSize: 160, createdAt: new Date(NOW - 60 * 1000) }];
+    expect(findOrphanedImages(records, wardrobe, NOW)).toEqual([]);
+  });
+});
+
+describe('summarizeImageUsage', () => {
+  it('adds up bytes per category, orphans and re-compression candidates', () => {
+    const records = [
+      { id: top.id, size: RECOMPRESS_MIN_BYTES + 1001, imageSize: RECOMPRESS_MIN_BYTES + 1, createdAt: LONG_AGO },
+      { id: jeans.id, size: 1000, imageSize: 800, createdAt: LONG_AGO },
+      { id: 'deleted-item', size: 500, imageSize: 400, createdAt: LONG_AGO },
+    ];
+    const summary = summarizeImageUsage(records, wardrobe, NOW);
+
+    expect(summary.byCategory.top).toEqual({ count: 1, bytes: RECOMPRESS_MIN_BYTES + 1001 });
+    expect(summary.byCategory.bottom).toEqual({ count: 1, bytes: 1000 });
+    expect(summary.byCategory.shoes).toEqual({ count: 0, bytes: 0 });
+    expect(summary.orphaned).toEqual({ count: 1, bytes: 500 });
+    expect(summary.recompressible).toEqual({ count: 1, bytes: RECOMPRESS_MIN_BYTES + 1 });
+    expect(summary.imageBytes).toBe(RECOMPRESS_MIN_BYTES + 1001 + 1000 + 500);
+  });
+
+  it("doesn't count an image at the target as re-compressible because of its thumbnail", () => {
+    const records = [{ id: top.id, size: RECOMPRESS_MIN_BYTES + 20 * 1024, imageSize: RECOMPRESS_MIN_BYTES, createdAt: LONG_AGO }];
+    expect(summarizeImageUsage(records, wardrobe, NOW).recompressible).toEqual({ count: 0, bytes: 0 });
+  });
+});
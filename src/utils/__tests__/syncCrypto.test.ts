@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSyncKey,
+  unlockSyncKey,
+  exportRecoveryKey,
+  importRecoveryKey,
+  encryptSyncData,
+  decryptSyncData,
+  encryptBlob,
+  decryptBlob,
+} from '../syncCrypto';
+import type { SyncKeyEnvelope } from '../../types';
+
+// Full-strength key derivation is deliberately slow; the format is the same
+const ITERATIONS = 1000;
+
+describe('syncCrypto', () => {
+  it('round-trips document fields and keeps field names readable', async () => {
+    const { key } = await createSyncKey('correct horse', ITERATIONS);
+    const data = { category: 'top', colors: ['white', 'navy'], favorite: true };
+
+    const encrypted = await encryptSyncData(key, 'wardrobe', 'item-1', data);
+    expect(Object.keys(encrypted!)).toEqual(['category', 'colors', 'favorite']);
+    expect(JSON.stringify(encrypted)).not.toContain('navy');
+    expect(await decryptSyncData(key, 'wardrobe', 'item-1', encrypted)).toEqual(data);
+  });
+
+  it('round-trips images with their type', async () => {
+    const { key } = await createSyncKey('correct horse', ITERATIONS);
+    const blob = new Blob([new Uint8Array([1, 0, 2, 255])], { type: 'image/jpeg' });
+
+    const decrypted = await decryptBlob(key, 'item-1', await encryptBlob(key, 'item-1', blob));
+    expect(decrypted.type).toBe('image/jpeg');
+    expect(new Uint8Array(await decrypted.arrayBuffer())).toEqual(new Uint8Array([1, 0, 2, 255]));
+  });
+
+  it("won't decrypt a payload moved to another field, document or image", async () => {
+    const { key } = await createSyncKey('correct horse', ITERATIONS);
+    const { category, colors } = (await encryptSyncData(key, 'wardrobe', 'item-1', { category: 'top', colors: ['navy'] }))!;
+
+    await expect(decryptSyncData(key, 'wardrobe', 'item-1', { category: colors })).rejects.toThrow();
+    await expect(decryptSyncData(key, 'wardrobe', 'item-2', { category })).rejects.toThrow();
+    await expect(decryptSyncData(key, 'outfitHistory', 'item-1', { category })).rejects.toThrow();
+
+    const image = await encryptBlob(key, 'item-1', new Blob([new Uint8Array([1])], { type: 'image/jpeg' }));
+    await expect(decryptBlob(key, 'item-2', image)).rejects.toThrow();
+  });
+
+  it('unlocks the same key on another device with the passphrase', async () => {
+    const { key, envelope } = await createSyncKey('correct horse', ITERATIONS);
+    const payload = await encryptSyncData(key, 'profile', 'profile', { name: 'Alex' });
+
+    const unlocked = await unlockSyncKey(envelope, 'correct horse');
+    expect(await decryptSyncData(unlocked, 'profile', 'profile', payload)).toEqual({ name: 'Alex' });
+  });
+
+  it('rejects a wrong passphrase', async () => {
+    const { envelope } = await createSyncKey('correct horse', ITERATIONS);
+    await expect(unlockSyncKey(envelope, 'battery staple')).rejects.toThrow('Wrong passphrase');
+  });
+
+  it('refuses envelopes from before payloads were bound to their place', async () => {
+    const { envelope } = await createSyncKey('correct horse', ITERATIONS);
+    const oldEnvelope = { ...envelope, version: 1 } as unknown as SyncKeyEnvelope;
+    await expect(unlockSyncKey(oldEnvelope, 'correct horse')).rejects.toThrow('old format');
+  });
+
+  it('unlocks with an exported recovery key, and only for its own space', async () => {
+    const { key, envelope } = await createSyncKey('correct horse', ITERATIONS);
+    const { envelope: otherEnvelope } = await createSyncKey('correct horse', ITERATIONS);
+    const payload = await encryptSyncData(key, 'profile', 'profile', { name: 'Alex' });
+
+    const recoveryKey = await exportRecoveryKey(envelope, 'correct horse');
+    expect(recoveryKey).toMatch(/^([0-9A-F]{4}-){15}[0-9A-F]{4}$/);
+
+    const recovered = await importRecoveryKey(envelope, recoveryKey.toLowerCase());
+    expect(await decryptSyncData(recovered, 'profile', 'profile', payload)).toEqual({ name: 'Alex' });
+    await expect(importRecoveryKey(otherEnvelope, recoveryKey)).rejects.toThrow('different sync space');
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createInitialSyncState,
+  createSyncChange,
+  mergeDocument,
+  trackLocalChanges,
+  type SyncedData,
+} from '../syncMerge';
+import type { SyncChange, SyncDocument } from '../../types';
+import { ARTICLE_CODES } from '../dataset';
+import { makeItem, baseProfile } from './fixtures/wardrobes';
+
+const serverDocument = (overrides: Partial<SyncDocument> = {}): SyncDocument => ({
+  collection: 'wardrobe',
+  id: 'item-1',
+  revision: 5,
+  data: { category: 'top', colors: ['white'], style: ['casual'] },
+  fieldClock: { category: 100, colors: 100, style: 100 },
+  ...overrides,
+});
+
+const change = (overrides: Partial<SyncChange> = {}): SyncChange => ({
+  collection: 'wardrobe',
+  id: 'item-1',
+  baseRevision: 3,
+  data: { category: 'top', colors: ['black'], style: ['casual'] },
+  fieldClock: { category: 100, colors: 200, style: 100 },
+  ...overrides,
+});
+
+describe('mergeDocument', () => {
+  it('takes the change as-is when the device had seen the latest version', () => {
+    const merged = mergeDocument(serverDocument(), change({ baseRevision: 5 }));
+    expect(merged.data).toEqual(change().data);
+  });
+
+  it('keeps the latest edit of each field for concurrent wardrobe edits', () => {
+    const current = serverDocument({
+      data: { category: 'outerwear', colors: ['white'], style: ['casual'] },
+      fieldClock: { category: 300, colors: 100, style: 100 },
+    });
+    const merged = mergeDocument(current, change());
+
+    expect(merged.data).toEqual({ category: 'outerwear', colors: ['black'], style: ['casual'] });
+    expect(merged.fieldClock).toEqual({ category: 300, colors: 200, style: 100 });
+  });
+
+  it('returns the server copy itself when the change brings nothing newer', () => {
+    const current = serverDocument({ fieldClock: { category: 300, colors: 300, style: 300 } });
+    expect(mergeDocument(current, change())).toBe(current);
+  });
+
+  it('lets the last writer win for outfits', () => {
+    const current = serverDocument({
+      collection: 'outfitHistory',
+      data: { liked: true, worn: false },
+      fieldClock: { liked: 300, worn: 100 },
+    });
+    const incoming = change({
+      collection: 'outfitHistory',
+      data: { liked: false, worn: true },
+      fieldClock: { liked: 100, worn: 200 },
+    });
+
+    expect(mergeDocument(current, incoming)).toBe(current);
+  });
+
+  it('keeps an edit made after a deletion on another device', () => {
+    const deleted = serverDocument({ data: null, deletedAt: 150 });
+    expect(mergeDocument(deleted, change()).data).toEqual(change().data);
+  });
+
+  it('deletes when the deletion is the latest edit', () => {
+    const merged = mergeDocument(serverDocument(), change({ data: null, deletedAt: 400 }));
+    expect(merged.data).toBeNull();
+    expect(merged.deletedAt).toBe(400);
+  });
+});
+
+describe('change tracking', () => {
+  const shirt = makeItem(ARTICLE_CODES.SHIRT, ['white']);
+  const jeans = makeItem(ARTICLE_CODES.JEAN, ['blue']);
+  const data: SyncedData = { wardrobe: [shirt, jeans], outfitHistory: [], profile: baseProfile };
+
+  it('marks everything pending when sync is turned on', () => {
+    const sync = createInitialSyncState(data, 'space', 1000);
+    expect(Object.keys(sync.pending)).toEqual(['wardrobe:' + shirt.id, 'wardrobe:' + jeans.id, 'profile:profile']);
+    expect(sync.documents['wardrobe:' + shirt.id].fieldClock.colors).toBe(shirt.uploadedAt.getTime());
+  });
+
+  it('stamps only the fields that changed', () => {
+    const sync = { ...createInitialSyncState(data, 'space', 1000), pending: {} };
+    const edited = { ...data, wardrobe: [{ ...shirt, colors: ['black'] }, jeans] };
+    const tracked = trackLocalChanges(data, edited, sync, 5000);
+
+    const clock = tracked.documents['wardrobe:' + shirt.id].fieldClock;
+    expect(clock.colors).toBe(5000);
+    expect(clock.category).toBe(shirt.uploadedAt.getTime());
+    expect(Object.keys(tracked.pending)).toEqual(['wardrobe:' + shirt.id]);
+  });
+
+  it('leaves the state alone when nothing synced changed', () => {
+    const sync = createInitialSyncState(data, 'space', 1000);
+    expect(trackLocalChanges(data, { ...data }, sync)).toBe(sync);
+  });
+
+  it('pushes removed items as deletions', () => {
+    const removed = { ...data, wardrobe: [jeans] };
+    const sync = trackLocalChanges(data, removed, createInitialSyncState(data, 'space', 1000), 5000);
+    const pushed = createSyncChange('wardrobe:' + shirt.id, removed, sync);
+
+    expect(pushed.data).toBeNull();
+    expect(pushed.deletedAt).toBe(5000);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calibrateThermalComfort,
+  createThermalComfortModel,
+  getEffectiveTemperature,
+  getHeatIndex,
+  getWindChill,
+} from '../thermalComfort';
+import type { UserProfile } from '../../types';
+import { defaultLifestyle, defaultWeatherPreferences } from '../profileDefaults';
+import { baseProfile, makeWeather } from './fixtures/wardrobes';
+
+const withPreferences = (
+  weatherPreferences: Partial<NonNullable<UserProfile['weatherPreferences']>>,
+  lifestyle: Partial<NonNullable<UserProfile['lifestyle']>> = {}
+): UserProfile => ({
+  ...baseProfile,
+  weatherPreferences: { ...defaultWeatherPreferences, ...weatherPreferences },
+  lifestyle: { ...defaultLifestyle, ...lifestyle },
+});
+
+describe('getEffectiveTemperature', () => {
+  it('matches the NWS wind chill and heat index tables', () => {
+    expect(getWindChill(30, 15)).toBeCloseTo(19, 0);
+    expect(getWindChill(60, 15)).toBe(60);
+    expect(getHeatIndex(90, 70)).toBeCloseTo(106, 0);
+    expect(getHeatIndex(70, 90)).toBe(70);
+  });
+
+  it('leaves mild, calm weather about as it is for a middle-of-the-road user', () => {
+    expect(getEffectiveTemperature(makeWeather(60), baseProfile)).toBeCloseTo(60, 0);
+  });
+
+  it('feels colder to cold-sensitive users and cyclists, milder to drivers', () => {
+    const weather = makeWeather(40);
+    const neutral = getEffectiveTemperature(weather, withPreferences({}));
+
+    expect(getEffectiveTemperature(weather, withPreferences({ coldSensitivity: 9 }))).toBeLessThan(neutral - 5);
+    expect(getEffectiveTemperature(weather, withPreferences({}, { commute: 'bike' }))).toBeLessThan(neutral);
+    expect(getEffectiveTemperature(weather, withPreferences({}, { commute: 'drive', outdoorTime: 0 }))).toBeGreaterThan(neutral);
+    // Heat sensitivity only matters on the warm side
+    expect(getEffectiveTemperature(weather, withPreferences({ heatSensitivity: 10 }))).toBe(neutral);
+  });
+
+  it('adds the calibrated offset', () => {
+    const weather = makeWeather(60);
+    const profile = { ...baseProfile, thermalComfort: { offset: -6, feedbackCount: 4 } };
+    expect(getEffectiveTemperature(weather, profile)).toBeCloseTo(getEffectiveTemperature(weather, baseProfile) - 6, 5);
+  });
+});
+
+describe('calibrateThermalComfort', () => {
+  it('runs colder after "too cold", in shrinking steps', () => {
+    const once = calibrateThermalComfort(createThermalComfortModel(), 'too-cold');
+    const twice = calibrateThermalComfort(once, 'too-cold');
+
+    expect(once.offset).toBe(-3);
+    expect(twice.offset).toBeLessThan(once.offset);
+    expect(once.offset - twice.offset).toBeLessThan(3);
+    expect(twice.feedbackCount).toBe(2);
+  });
+
+  it('keeps the offset on "just right" and never drifts past 12°F', () => {
+    let model = calibrateThermalComfort(undefined, 'too-warm');
+    expect(calibrateThermalComfort(model, 'just-right').offset).toBe(model.offset);
+
+    for (let i = 0; i < 100; i++) model = calibrateThermalComfort(model, 'too-warm');
+    expect(model.offset).toBe(12);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, dataUrlToBlob, parseWardrobeArchive, planArchiveImport } from '../wardrobeArchive';
+import { ARTICLE_CODES } from '../dataset';
+import type { ClothingItem, Outfit, WardrobeArchive } from '../../types';
+import { makeItem, baseProfile } from './fixtures/wardrobes';
+
+const IMAGE = 'data:image/png;base64,iVBORw0KGgo=';
+
+const makeArchive = (wardrobe: ClothingItem[], outfitHistory: Outfit[] = []): WardrobeArchive => ({
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  exportedAt: '2024-06-01T00:00:00.000Z',
+  profile: baseProfile,
+  wardrobe,
+  outfitHistory,
+  images: Object.fromEntries(wardrobe.map(item => [item.id, IMAGE])),
+});
+
+const makeOutfit = (id: string, items: ClothingItem[]): Outfit => ({ id, items, createdAt: new Date('2024-02-01') });
+
+// What a backup looks like after JSON.stringify / JSON.parse
+const roundTrip = (archive: WardrobeArchive): unknown => JSON.parse(JSON.stringify(archive));
+
+let idCounter = 0;
+const createId = () => `new-${idCounter++}`;
+
+describe('parseWardrobeArchive', () => {
+  it('accepts an exported archive and revives its dates', () => {
+    const top = makeItem(ARTICLE_CODES.SHIRT, ['white']);
+    const result = parseWardrobeArchive(roundTrip(makeArchive([top], [makeOutfit('o1', [top])])));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.archive.wardrobe[0].uploadedAt).toBeInstanceOf(Date);
+    expect(result.archive.outfitHistory[0].createdAt).toBeInstanceOf(Date);
+    expect(result.archive.outfitHistory[0].items[0].uploadedAt).toBeInstanceOf(Date);
+  });
+
+  it('rejects files that are not backups', () => {
+    expect(parseWardrobeArchive({ wardrobe: [] }).success).toBe(false);
+    expect(parseWardrobeArchive('hello').success).toBe(false);
+  });
+
+  it('rejects backups from a newer version', () => {
+    const archive = { ...makeArchive([]), version: ARCHIVE_VERSION + 1 };
+    expect(parseWardrobeArchive(roundTrip(archive)).success).toBe(false);
+  });
+
+  it('rejects items that break the schema', () => {
+    const item = { ...makeItem(ARTICLE_CODES.SHIRT, ['white']), category: 'hat' };
+    const result = parseWardrobeArchive(roundTrip(makeArchive([item as unknown as ClothingItem])));
+
+    expect(result).toEqual({ success: false, error: 'Wardrobe item 1 has an unknown category' });
+  });
+
+  it('rejects images that are not image data URLs', () => {
+    const archive = { ...makeArchive([]), images: { x: 'https://example.com/a.png' } };
+    expect(parseWardrobeArchive(roundTrip(archive)).success).toBe(false);
+  });
+});
+
+describe('planArchiveImport', () => {
+  it('replace takes the archive as-is', () => {
+    const current = makeItem(ARTICLE_CODES.JEAN, ['blue']);
+    const imported = makeItem(ARTICLE_CODES.SHIRT, ['white']);
+    const plan = planArchiveImport(makeArchive([imported]), { wardrobe: [current], outfitHistory: [] }, 'replace', createId);
+
+    expect(plan.profile).toBe(baseProfile);
+    expect(plan.wardrobe).toEqual([imported]);
+    expect(plan.images).toEqual([{ id: imported.id, dataUrl: IMAGE }]);
+  });
+
+  it('merge adds new items and keeps the current profile', () => {
+    const current = makeItem(ARTICLE_CODES.JEAN, ['blue']);
+    const imported = makeItem(ARTICLE_CODES.SHIRT, ['white']);
+    const plan = planArchiveImport(makeArchive([imported]), { wardrobe: [current], outfitHistory: [] }, 'merge', createId);
+
+    expect(plan.profile).toBeNull();
+    expect(plan.wardrobe.map(item => item.id)).toEqual([current.id, imported.id]);
+    expect(plan.summary).toEqual({ added: 1, skipped: 0, renamed: 0, outfits: 0 });
+  });
+
+  it('merge skips items that are already in the wardrobe', () => {
+    const item = makeItem(ARTICLE_CODES.SHIRT, ['white']);
+    const outfit = makeOutfit('o1', [item]);
+    const plan = planArchiveImport(makeArchive([item], [outfit]), { wardrobe: [item], outfitHistory: [outfit] }, 'merge', createId);
+
+    expect(plan.wardrobe).toEqual([item]);
+    expect(plan.outfitHistory).toEqual([outfit]);
+    expect(plan.images).toEqual([]);
+    expect(plan.summary.skipped).toBe(1);
+  });
+
+  it('merge gives clashing items a new id and remaps their outfits and images', () => {
+    const current = makeItem(ARTICLE_CODES.SHIRT, ['white']);
+    const other = { ...makeItem(ARTICLE_CODES.SHIRT, ['black']), id: current.id, uploadedAt: new Date('2023-05-05') };
+    const shoes = makeItem(ARTICLE_CODES.SHOE, ['white']);
+    const plan = planArchiveImport(
+      makeArchive([other, shoes], [makeOutfit('o1', [other, shoes])]),
+      { wardrobe: [current], outfitHistory: [] },
+      'merge',
+      createId
+    );
+
+    const renamed = plan.wardrobe.find(item => item.colors[0] === 'black')!;
+    expect(renamed.id).not.toBe(current.id);
+    expect(renamed.image).toBe(renamed.id);
+    expect(plan.outfitHistory[0].items.map(item => item.id)).toEqual([renamed.id, shoes.id]);
+    expect(plan.images.map(image => image.id)).toEqual([renamed.id, shoes.id]);
+    expect(plan.summary).toEqual({ added: 2, skipped: 0, renamed: 1, outfits: 1 });
+  });
+});
+
+describe('dataUrlToBlob', () => {
+  it('decodes the bytes and keeps the type', async () => {
+    const blob = dataUrlToBlob('data:image/png;base64,AAEC');
+    expect(blob.type).toBe('image/png');
+    expect(Array.from(new Uint8Array(await blob.arrayBuffer()))).toEqual([0, 1, 2]);
+  });
+});
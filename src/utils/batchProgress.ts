@@ -0,0 +1,40 @@
+import type { BatchFileStage, BatchUploadProgress } from '../types';
+
+// Don't guess from a single file - the first one includes model warm-up
+const MIN_FILES_FOR_ETA = 2;
+
+/**
+ * Estimated time left (ms) from the average time per finished file
+ * Returns null until there's enough to go on
+ */
+export const estimateRemainingMs = (progress: BatchUploadProgress, now: number = Date.now()): number | null => {
+  const { startedAt, processedCount, totalFiles } = progress;
+  if (!startedAt || processedCount < MIN_FILES_FOR_ETA || processedCount >= totalFiles) return null;
+
+  const perFile = (now - startedAt) / processedCount;
+  return perFile * (totalFiles - processedCount);
+};
+
+/**
+ * "about 2 min left" / "less than a minute left"
+ * Anything under a minute says so (rounding 30 s up to "about 1 min" overstates it);
+ * longer waits round to the nearest minute
+ */
+export const formatEta = (ms: number): string => {
+  if (ms < 60000) return 'less than a minute left';
+  return `about ${Math.round(ms / 60000)} min left`;
+};
+
+/**
+ * Label shown on a file's thumbnail for its current stage
+ */
+export const STAGE_LABELS: Record<BatchFileStage, string> = {
+  queued: 'Waiting...',
+  converting: 'Converting...',
+  'removing-background': 'Removing background...',
+  analyzing: 'Analyzing...',
+  ready: 'Ready',
+  saving: 'Adding to wardrobe...',
+  saved: 'Saved',
+  failed: 'Failed',
+};
@@ -0,0 +1,56 @@
+import type { ClothingCategory, QueuedFile } from '../types';
+
+/**
+ * Review rules for batch uploads
+ * AI results are checked in BatchAnalysisResults before anything enters the wardrobe
+ */
+
+export const CONFIDENCE_THRESHOLDS = {
+  HIGH: 0.8,   // Ready to save
+  MEDIUM: 0.5, // Review recommended; below this the user must confirm
+};
+
+/**
+ * Category a queued file will be saved with (user choice wins over the AI's suggestion)
+ */
+export const getBatchFileCategory = (file: QueuedFile): ClothingCategory | undefined => {
+  return file.category ?? (file.aiStatus === 'success' ? file.aiAnalysis?.suggestedCategory : undefined);
+};
+
+/**
+ * Analysis still running (can't be reviewed yet)
+ */
+export const isAnalysisPending = (file: QueuedFile): boolean => {
+  return file.aiStatus === 'pending' || file.aiStatus === 'analyzing';
+};
+
+/**
+ * Low-confidence or failed analyses must be confirmed by the user before saving
+ */
+export const needsConfirmation = (file: QueuedFile): boolean => {
+  if (file.confirmed) return false;
+  if (file.aiStatus !== 'success') return true;
+  return (file.aiConfidence ?? 0) < CONFIDENCE_THRESHOLDS.MEDIUM;
+};
+
+/**
+ * File couldn't be read at all (failed before analysis) - it can only be removed
+ */
+export const isUnreadable = (file: QueuedFile): boolean => {
+  return file.stage === 'failed' && file.aiStatus === undefined;
+};
+
+/**
+ * Save to the wardrobe failed (can be retried)
+ */
+export const isSaveFailed = (file: QueuedFile): boolean => {
+  return file.stage === 'failed' && !isUnreadable(file);
+};
+
+/**
+ * Ready to enter the wardrobe: analysis finished, category known, confirmed if needed, not saved yet
+ */
+export const isReadyToSave = (file: QueuedFile): boolean => {
+  if (file.stage === 'saved' || isUnreadable(file)) return false;
+  return !isAnalysisPending(file) && !!getBatchFileCategory(file) && !needsConfirmation(file);
+};
@@ -0,0 +1,385 @@
+import type { ClothingItem, WeatherData } from '../types';
+import { colorNameToHex, hexToLab, hexToRgb, isHexColor, nearestColorName, normalizeColorName } from './colorNames';
+import { getPrecipitationRisk } from './precipitation';
+
+// ==========================================
+// 1. CONSTANTS & CONFIGURATION
+// ==========================================
+
+// Neutral colors that work as anchors (pair with anything)
+export const NEUTRAL_COLORS = ['black', 'white', 'gray', 'grey', 'beige', 'navy', 'tan', 'khaki', 'cream', 'denim'];
+
+// UW Team Colors (school spirit exception for monochrome)
+const UW_TEAM_COLORS = ['purple', 'gold'];
+
+// Wheel relationships, as distance in degrees on the artist's (RYB) color wheel
+const MONOCHROME_MAX_ANGLE = 15;
+const ANALOGOUS_MAX_ANGLE = 60;
+const TRIADIC_MIN_ANGLE = 105; // Triadic + split-complementary band
+const COMPLEMENTARY_MIN_ANGLE = 155;
+
+// Hues closer than this are treated as one "color story" when scoring whole outfits
+const HUE_FAMILY_ANGLE = 30;
+
+// LCH chroma above which a color counts as saturated / loud
+const SATURATED_CHROMA = 50;
+
+// LCH lightness difference that reads as deliberate light/dark contrast
+const CONTRAST_LIGHTNESS = 30;
+
+// Saturated colors this close in lightness "vibrate" against each other
+const VIBRATION_LIGHTNESS = 20;
+
+// Piecewise mapping from HSL hue to RYB (painter's wheel) hue
+// Makes red/green, blue/orange and purple/yellow true complements
+const HSL_TO_RYB_HUE: [number, number][] = [
+  [0, 0],
+  [40, 60],
+  [60, 120],
+  [120, 180],
+  [180, 210],
+  [240, 240],
+  [280, 270],
+  [330, 320],
+  [360, 360],
+];
+
+export type HarmonyRelationship = 'identical' | 'neutral' | 'monochrome' | 'analogous' | 'triadic' | 'complementary' | 'discordant';
+
+export interface ColorProfile {
+  name: string;
+  lightness: number; // LCH L (0-100)
+  chroma: number; // LCH C (0 = gray)
+  wheelHue: number; // RYB hue (0-360)
+  isNeutral: boolean;
+}
+
+// ==========================================
+// 2. COLOR PROFILES
+// ==========================================
+
+/**
+ * Convert RGB channels to HSL hue (0-360)
+ */
+const rgbToHue = (r: number, g: number, b: number): number => {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const delta = max - min;
+
+  if (delta === 0) return 0;
+
+  let hue;
+  if (max === rn) hue = ((gn - bn) / delta) % 6;
+  else if (max === gn) hue = (bn - rn) / delta + 2;
+  else hue = (rn - gn) / delta + 4;
+
+  hue *= 60;
+  return hue < 0 ? hue + 360 : hue;
+};
+
+/**
+ * Map an HSL hue onto the RYB wheel
+ */
+const toWheelHue = (hslHue: number): number => {
+  for (let i = 1; i < HSL_TO_RYB_HUE.length; i++) {
+    const [fromHsl, fromRyb] = HSL_TO_RYB_HUE[i - 1];
+    const [toHsl, toRyb] = HSL_TO_RYB_HUE[i];
+    if (hslHue <= toHsl) {
+      const t = (hslHue - fromHsl) / (toHsl - fromHsl);
+      return fromRyb + t * (toRyb - fromRyb);
+    }
+  }
+  return hslHue;
+};
+
+/**
+ * Angular distance between two wheel hues (0-180)
+ */
+const hueDistance = (hue1: number, hue2: number): number => {
+  const diff = Math.abs(hue1 - hue2) % 360;
+  return diff > 180 ? 360 - diff : diff;
+};
+
+const profileCache = new Map<string, ColorProfile | null>();
+
+/**
+ * Build a perceptual profile for a named color or hex code
+ * Returns null for names outside the palette (e.g. "multicolor")
+ */
+export const getColorProfile = (color: string): ColorProfile | null => {
+  const key = color.trim().toLowerCase();
+  if (profileCache.has(key)) return profileCache.get(key) ?? null;
+
+  let profile: ColorProfile | null = null;
+  const hex = isHexColor(key) ? key : colorNameToHex(key);
+
+  if (hex) {
+    const name = isHexColor(key) ? nearestColorName(key) : normalizeColorName(key);
+    const lab = hexToLab(hex);
+    const chroma = Math.sqrt(lab.a * lab.a + lab.b * lab.b);
+    const [r, g, b] = hexToRgb(hex);
+
+    profile = {
+      name,
+      lightness: lab.l,
+      chroma,
+      wheelHue: toWheelHue(rgbToHue(r, g, b)),
+      isNeutral: NEUTRAL_COLORS.includes(name) || chroma < 12,
+    };
+  }
+
+  profileCache.set(key, profile);
+  return profile;
+};
+
+// ==========================================
+// 3. PAIR HARMONY
+// ==========================================
+
+/**
+ * Classify how two colors relate on the color wheel
+ */
+export const getHarmonyRelationship = (color1: ColorProfile, color2: ColorProfile): HarmonyRelationship => {
+  if (color1.name === color2.name) return 'identical';
+  if (color1.isNeutral || color2.isNeutral) return 'neutral';
+
+  const angle = hueDistance(color1.wheelHue, color2.wheelHue);
+  if (angle <= MONOCHROME_MAX_ANGLE) return 'monochrome';
+  if (angle <= ANALOGOUS_MAX_ANGLE) return 'analogous';
+  if (angle >= COMPLEMENTARY_MIN_ANGLE) return 'complementary';
+  if (angle >= TRIADIC_MIN_ANGLE) return 'triadic';
+  return 'discordant';
+};
+
+/**
+ * Check if two saturated colors of similar lightness fight each other
+ * (e.g. Christmas red + green)
+ */
+const isVibratingPair = (color1: ColorProfile, color2: ColorProfile): boolean => {
+  const relationship = getHarmonyRelationship(color1, color2);
+  if (relationship !== 'complementary' && relationship !== 'discordant') return false;
+
+  return color1.chroma >= SATURATED_CHROMA &&
+    color2.chroma >= SATURATED_CHROMA &&
+    Math.abs(color1.lightness - color2.lightness) < VIBRATION_LIGHTNESS;
+};
+
+/**
+ * Score how well two colors go together
+ * Returns a score from 0-1 (1 being most harmonious)
+ */
+export const scoreColorPair = (colorA: string, colorB: string): number => {
+  const color1 = getColorProfile(colorA);
+  const color2 = getColorProfile(colorB);
+
+  // Unknown color names: stay neutral
+  if (!color1 || !color2) return 0.5;
+
+  const relationship = getHarmonyRelationship(color1, color2);
+  const lightnessContrast = Math.abs(color1.lightness - color2.lightness);
+
+  let score: number;
+  switch (relationship) {
+    case 'identical':
+      return 1;
+    case 'neutral':
+      score = color1.isNeutral && color2.isNeutral ? 0.9 : 0.85;
+      break;
+    case 'monochrome':
+      // Tonal outfits need light/dark contrast to read as intentional
+      score = lightnessContrast >= VIBRATION_LIGHTNESS ? 0.95 : 0.85;
+      break;
+    case 'analogous':
+      score = 0.85;
+      break;
+    case 'complementary':
+      score = 0.8;
+      break;
+    case 'triadic':
+      score = 0.7;
+      break;
+    default:
+      score = 0.45;
+  }
+
+  if (relationship !== 'monochrome' && lightnessContrast >= CONTRAST_LIGHTNESS) {
+    score += 0.05; // Light + dark pairing adds structure
+  }
+
+  if (isVibratingPair(color1, color2)) {
+    score -= 0.3; // Loud colors of equal weight compete
+  }
+
+  return Math.max(0, Math.min(1, score));
+};
+
+/**
+ * Calculate color harmony score between two clothing items
+ * Returns a score from 0-1 (1 being most compatible)
+ */
+export const calculateColorHarmony = (item1: ClothingItem, item2: ClothingItem): number => {
+  if (!item1.colors.length || !item2.colors.length) return 0.5;
+
+  let total = 0;
+  let comparisons = 0;
+
+  for (const color1 of item1.colors) {
+    for (const color2 of item2.colors) {
+      total += scoreColorPair(color1, color2);
+      comparisons++;
+    }
+  }
+
+  return comparisons > 0 ? total / comparisons : 0.5;
+};
+
+// ==========================================
+// 4. OUTFIT HARMONY
+// ==========================================
+
+/**
+ * Average pairwise harmony across every item pair in the outfit
+ * Returns a score from 0-1
+ */
+export const scoreOutfitHarmony = (outfit: ClothingItem[]): number => {
+  let total = 0;
+  let pairs = 0;
+
+  for (let i = 0; i < outfit.length; i++) {
+    for (let j = i + 1; j < outfit.length; j++) {
+      total += calculateColorHarmony(outfit[i], outfit[j]);
+      pairs++;
+    }
+  }
+
+  return pairs > 0 ? total / pairs : 0.5;
+};
+
+/**
+ * Group the outfit's chromatic colors into hue families ("color stories")
+ * Each family keeps its most saturated member as representative
+ */
+const getHueFamilies = (profiles: ColorProfile[]): ColorProfile[] => {
+  const families: ColorProfile[] = [];
+
+  const chromatic = profiles
+    .filter(p => !p.isNeutral)
+    .sort((a, b) => b.chroma - a.chroma);
+
+  for (const profile of chromatic) {
+    const family = families.find(f => hueDistance(f.wheelHue, profile.wheelHue) <= HUE_FAMILY_ANGLE);
+    if (!family) families.push(profile);
+  }
+
+  return families;
+};
+
+/**
+ * Penalty for monochrome outfits (all items one color)
+ * EDGE CASE: Context-aware all-white penalties (rain, casual, winter)
+ */
+const getMonochromePenalty = (singleColor: string, weather?: WeatherData, occasion?: string, temperature?: number): number => {
+  // All-black: Always acceptable (universally stylish)
+  if (singleColor === 'black') {
+    return 0;
+  }
+
+  // All-white: Context-dependent
+  if (singleColor === 'white') {
+    let whitePenalty = 0;
+
+    // Penalty for rainy weather (mud/stains)
+    if (weather && getPrecipitationRisk(weather) > 0.25) {
+      whitePenalty -= 0.3; // Major penalty
+    }
+
+    // Penalty for casual/everyday occasions (impractical)
+    const casualOccasions = ['casual', 'class', 'work'];
+    if (occasion && casualOccasions.includes(occasion.toLowerCase())) {
+      whitePenalty -= 0.2;
+    }
+
+    // Penalty for cold weather (out of season)
+    if (temperature !== undefined && temperature < 50) {
+      whitePenalty -= 0.2;
+    }
+
+    // If no penalties, all-white is fine (summer party, formal, etc.)
+    // But give tiny penalty to encourage color mixing
+    if (whitePenalty === 0) {
+      whitePenalty = -0.05;
+    }
+
+    return whitePenalty;
+  }
+
+  // All-navy or all-gray: Boring but safe
+  if (['navy', 'gray', 'grey'].includes(singleColor)) {
+    return -0.1; // Small penalty for lack of visual interest
+  }
+
+  // UW Team Colors: School spirit exception (all-purple or all-gold)
+  if (UW_TEAM_COLORS.includes(singleColor)) {
+    return 0; // No penalty for Husky pride! Go Dawgs!
+  }
+
+  // All other colors: "Blue Man Group" look
+  return -0.3;
+};
+
+/**
+ * Detect disharmonious color stories across the whole outfit
+ * `temperature` is the user's effective one (defaults to the raw reading)
+ * Returns penalty score (0 = harmonious, -0.5 = major clash)
+ */
+export const detectColorDisharmony = (
+  outfit: ClothingItem[],
+  weather?: WeatherData,
+  occasion?: string,
+  temperature: number | undefined = weather?.temperature
+): number => {
+  const outfitColors = outfit.flatMap(item =>
+    item.colors.map(c => normalizeColorName(c))
+  );
+
+  // Monochrome outfits (all same color)
+  const uniqueColors = new Set(outfitColors);
+  if (uniqueColors.size === 1) {
+    return getMonochromePenalty(Array.from(uniqueColors)[0], weather, occasion, temperature);
+  }
+
+  const profiles = Array.from(uniqueColors)
+    .map(color => getColorProfile(color))
+    .filter((p): p is ColorProfile => p !== null);
+  const families = getHueFamilies(profiles);
+
+  // Saturated colors of equal weight fighting each other
+  for (let i = 0; i < families.length; i++) {
+    for (let j = i + 1; j < families.length; j++) {
+      if (isVibratingPair(families[i], families[j])) {
+        return -0.5; // Major penalty
+      }
+    }
+  }
+
+  // Three or more loud color stories only work as a balanced triad
+  const loudFamilies = families.filter(f => f.chroma >= SATURATED_CHROMA);
+  if (loudFamilies.length >= 3) {
+    const isTriad = loudFamilies.every((f, i) =>
+      loudFamilies.slice(i + 1).every(other => hueDistance(f.wheelHue, other.wheelHue) >= TRIADIC_MIN_ANGLE)
+    );
+    if (!isTriad) {
+      return -0.5; // Color overload
+    }
+  }
+
+  // Two unrelated hues with no wheel relationship
+  if (families.length === 2 && getHarmonyRelationship(families[0], families[1]) === 'discordant') {
+    return -0.15;
+  }
+
+  return 0;
+};
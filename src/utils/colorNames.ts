@@ -0,0 +1,322 @@
+import type { ClothingItem } from '../types';
+
+// ==========================================
+// 1. NAMED COLOR PALETTE
+// ==========================================
+
+/**
+ * Reference swatches for every color name the outfit scorer understands.
+ * Names can appear more than once so that light/dark variants of the same
+ * family (e.g. sky blue and royal blue) resolve to the same name.
+ * The FIRST entry for each name is its canonical swatch.
+ */
+const NAMED_COLOR_SWATCHES: { name: string; hex: string }[] = [
+  // Neutrals
+  { name: 'black', hex: '#000000' },
+  { name: 'black', hex: '#1c1c1c' },
+  { name: 'white', hex: '#ffffff' },
+  { name: 'white', hex: '#f2f2f2' },
+  { name: 'gray', hex: '#808080' },
+  { name: 'gray', hex: '#a9a9a9' },
+  { name: 'gray', hex: '#505050' },
+  { name: 'gray', hex: '#36454f' }, // Charcoal
+  { name: 'beige', hex: '#f5f5dc' },
+  { name: 'beige', hex: '#e8dcc4' },
+  { name: 'cream', hex: '#fffdd0' },
+  { name: 'cream', hex: '#f3e5ab' },
+  { name: 'tan', hex: '#d2b48c' },
+  { name: 'khaki', hex: '#c3b091' },
+  { name: 'khaki', hex: '#bdb76b' },
+  { name: 'brown', hex: '#8b4513' },
+  { name: 'brown', hex: '#a0522d' },
+  { name: 'brown', hex: '#654321' },
+  { name: 'navy', hex: '#000080' },
+  { name: 'navy', hex: '#1f2a44' },
+  { name: 'navy', hex: '#1e3a5f' },
+
+  // Primaries
+  { name: 'red', hex: '#ff0000' },
+  { name: 'red', hex: '#dc143c' },
+  { name: 'red', hex: '#b22222' },
+  { name: 'blue', hex: '#4169e1' },
+  { name: 'blue', hex: '#0000ff' },
+  { name: 'blue', hex: '#1e90ff' },
+  { name: 'blue', hex: '#4682b4' },
+  { name: 'blue', hex: '#87ceeb' }, // Light blue
+  { name: 'denim', hex: '#4a6a8a' },
+  { name: 'denim', hex: '#5b7a99' },
+  { name: 'yellow', hex: '#ffff00' },
+  { name: 'yellow', hex: '#ffeb3b' },
+  { name: 'gold', hex: '#d4af37' }, // Metallic gold (UW team color)
+  { name: 'gold', hex: '#ffd700' },
+  { name: 'gold', hex: '#b8860b' },
+
+  // Secondaries
+  { name: 'green', hex: '#008000' },
+  { name: 'green', hex: '#228b22' },
+  { name: 'green', hex: '#2e8b57' },
+  { name: 'green', hex: '#90ee90' },
+  { name: 'purple', hex: '#800080' },
+  { name: 'purple', hex: '#4b2e83' }, // UW purple
+  { name: 'purple', hex: '#9370db' }, // Lavender
+  { name: 'orange', hex: '#ffa500' },
+  { name: 'orange', hex: '#ff8c00' },
+  { name: 'pink', hex: '#ffc0cb' },
+  { name: 'pink', hex: '#ff69b4' },
+  { name: 'pink', hex: '#e75480' },
+
+  // Earth tones
+  { name: 'olive', hex: '#808000' },
+  { name: 'olive', hex: '#556b2f' },
+  { name: 'burgundy', hex: '#800020' },
+  { name: 'maroon', hex: '#800000' },
+];
+
+// Alternate spellings that should collapse onto a palette name
+const COLOR_NAME_ALIASES: Record<string, string> = {
+  grey: 'gray',
+  charcoal: 'gray',
+};
+
+const HEX_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// ==========================================
+// 2. COLOR SPACE CONVERSION
+// ==========================================
+
+export interface LabColor {
+  l: number;
+  a: number;
+  b: number;
+}
+
+/**
+ * Check if a string is a hex color code (#rgb or #rrggbb)
+ */
+export const isHexColor = (value: string): boolean => {
+  return HEX_PATTERN.test(value.trim());
+};
+
+/**
+ * Parse a hex color code into 0-255 RGB channels
+ */
+export const hexToRgb = (hex: string): [number, number, number] => {
+  let digits = hex.trim().replace('#', '');
+  if (digits.length === 3) {
+    digits = digits.split('').map(d => d + d).join('');
+  }
+
+  const value = parseInt(digits, 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+/**
+ * Convert sRGB channels to CIELAB (D65 white point)
+ */
+export const rgbToLab = (r: number, g: number, b: number): LabColor => {
+  // sRGB -> linear RGB
+  const linearize = (channel: number) => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  const lr = linearize(r);
+  const lg = linearize(g);
+  const lb = linearize(b);
+
+  // Linear RGB -> XYZ, normalized by the D65 reference white
+  const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) / 0.95047;
+  const y = (lr * 0.2126729 + lg * 0.7151522 + lb * 0.072175) / 1.0;
+  const z = (lr * 0.0193339 + lg * 0.119192 + lb * 0.9503041) / 1.08883;
+
+  // XYZ -> Lab
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (t * 24389 / 27 + 16) / 116);
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+
+  return {
+    l: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz),
+  };
+};
+
+/**
+ * Convert a hex color code to CIELAB
+ */
+export const hexToLab = (hex: string): LabColor => {
+  const [r, g, b] = hexToRgb(hex);
+  return rgbToLab(r, g, b);
+};
+
+// ==========================================
+// 3. PERCEPTUAL DISTANCE
+// ==========================================
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * CIEDE2000 color difference (ΔE00)
+ * ~1 is barely perceptible, ~10+ reads as a different color
+ */
+export const deltaE2000 = (lab1: LabColor, lab2: LabColor): number => {
+  const { l: l1, a: a1, b: b1 } = lab1;
+  const { l: l2, a: a2, b: b2 } = lab2;
+
+  const c1 = Math.sqrt(a1 * a1 + b1 * b1);
+  const c2 = Math.sqrt(a2 * a2 + b2 * b2);
+  const cBar = (c1 + c2) / 2;
+  const cBar7 = Math.pow(cBar, 7);
+  const g = 0.5 * (1 - Math.sqrt(cBar7 / (cBar7 + Math.pow(25, 7))));
+
+  const a1p = (1 + g) * a1;
+  const a2p = (1 + g) * a2;
+  const c1p = Math.sqrt(a1p * a1p + b1 * b1);
+  const c2p = Math.sqrt(a2p * a2p + b2 * b2);
+
+  const hueAngle = (b: number, ap: number) => {
+    if (b === 0 && ap === 0) return 0;
+    const h = toDegrees(Math.atan2(b, ap));
+    return h >= 0 ? h : h + 360;
+  };
+  const h1p = hueAngle(b1, a1p);
+  const h2p = hueAngle(b2, a2p);
+
+  const deltaLp = l2 - l1;
+  const deltaCp = c2p - c1p;
+
+  let deltahp = 0;
+  if (c1p * c2p !== 0) {
+    deltahp = h2p - h1p;
+    if (deltahp > 180) deltahp -= 360;
+    else if (deltahp < -180) deltahp += 360;
+  }
+  const deltaHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(toRadians(deltahp / 2));
+
+  const lBarp = (l1 + l2) / 2;
+  const cBarp = (c1p + c2p) / 2;
+
+  let hBarp = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) {
+      hBarp = (h1p + h2p) / 2;
+    } else if (h1p + h2p < 360) {
+      hBarp = (h1p + h2p + 360) / 2;
+    } else {
+      hBarp = (h1p + h2p - 360) / 2;
+    }
+  }
+
+  const t = 1
+    - 0.17 * Math.cos(toRadians(hBarp - 30))
+    + 0.24 * Math.cos(toRadians(2 * hBarp))
+    + 0.32 * Math.cos(toRadians(3 * hBarp + 6))
+    - 0.2 * Math.cos(toRadians(4 * hBarp - 63));
+
+  const deltaTheta = 30 * Math.exp(-Math.pow((hBarp - 275) / 25, 2));
+  const cBarp7 = Math.pow(cBarp, 7);
+  const rc = 2 * Math.sqrt(cBarp7 / (cBarp7 + Math.pow(25, 7)));
+  const sl = 1 + (0.015 * Math.pow(lBarp - 50, 2)) / Math.sqrt(20 + Math.pow(lBarp - 50, 2));
+  const sc = 1 + 0.045 * cBarp;
+  const sh = 1 + 0.015 * cBarp * t;
+  const rt = -Math.sin(toRadians(2 * deltaTheta)) * rc;
+
+  const lTerm = deltaLp / sl;
+  const cTerm = deltaCp / sc;
+  const hTerm = deltaHp / sh;
+
+  return Math.sqrt(lTerm * lTerm + cTerm * cTerm + hTerm * hTerm + rt * cTerm * hTerm);
+};
+
+// ==========================================
+// 4. NAME RESOLUTION
+// ==========================================
+
+// Pre-computed Lab values for the palette (computed once at module load)
+const PALETTE_LAB = NAMED_COLOR_SWATCHES.map(swatch => ({
+  ...swatch,
+  lab: hexToLab(swatch.hex),
+}));
+
+/**
+ * Find the closest named color to a hex code using ΔE00
+ */
+export const nearestColorName = (hex: string): string => {
+  const lab = hexToLab(hex);
+
+  let bestName = PALETTE_LAB[0].name;
+  let bestDistance = Infinity;
+
+  for (const swatch of PALETTE_LAB) {
+    const distance = deltaE2000(lab, swatch.lab);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestName = swatch.name;
+    }
+  }
+
+  return bestName;
+};
+
+/**
+ * Normalize a color name (lowercase, aliases collapsed)
+ */
+export const normalizeColorName = (name: string): string => {
+  const normalized = name.trim().toLowerCase();
+  return COLOR_NAME_ALIASES[normalized] ?? normalized;
+};
+
+/**
+ * Get the canonical swatch for a color name
+ * Returns null for names outside the palette
+ */
+export const colorNameToHex = (name: string): string | null => {
+  const normalized = normalizeColorName(name);
+  return NAMED_COLOR_SWATCHES.find(swatch => swatch.name === normalized)?.hex ?? null;
+};
+
+/**
+ * Resolve a mixed list of hex codes and color names into both forms
+ * - colors: de-duplicated named colors (what the outfit scorer reads)
+ * - colorHexes: one swatch per input the palette knows (what the UI renders)
+ */
+export const resolveColors = (values: string[]): { colors: string[]; colorHexes: string[] } => {
+  const colors: string[] = [];
+  const colorHexes: string[] = [];
+
+  for (const value of values) {
+    if (!value) continue;
+
+    if (isHexColor(value)) {
+      const hex = value.trim().toLowerCase();
+      colorHexes.push(hex.startsWith('#') ? hex : `#${hex}`);
+      const name = nearestColorName(hex);
+      if (!colors.includes(name)) colors.push(name);
+    } else {
+      const name = normalizeColorName(value);
+      const hex = colorNameToHex(name);
+      // "multicolor" or "tie-dye" still count as colors, but have no swatch to show
+      if (hex) colorHexes.push(hex);
+      if (!colors.includes(name)) colors.push(name);
+    }
+  }
+
+  return { colors, colorHexes };
+};
+
+/**
+ * Ensure a clothing item carries both named colors and hex swatches
+ * Used for new items and for migrating wardrobes persisted before color naming
+ */
+export const withResolvedColors = (item: ClothingItem): ClothingItem => {
+  // Already resolved
+  if (item.colorHexes && !item.colors.some(isHexColor)) {
+    return item;
+  }
+
+  return {
+    ...item,
+    ...resolveColors(item.colors ?? []),
+  };
+};
@@ -0,0 +1,28 @@
+/**
+ * Run `task` for every item with at most `limit` tasks in flight at once
+ *
+ * Results keep the input order. `shouldContinue` is checked before each task
+ * starts, so a cancelled run finishes the in-flight tasks and stops
+ * (items that never started are left undefined).
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+  shouldContinue: () => boolean = () => true
+): Promise<(R | undefined)[]> => {
+  const results: (R | undefined)[] = new Array(items.length).fill(undefined);
+  let nextIndex = 0;
+
+  const runWorker = async () => {
+    while (nextIndex < items.length && shouldContinue()) {
+      const index = nextIndex++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, runWorker);
+  await Promise.all(workers);
+
+  return results;
+};
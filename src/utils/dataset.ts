@@ -3,7 +3,7 @@
  * Ensures consistent data cleaning and type mappings
  */
 
-import { ClothingCategory } from '../types';
+import { ClothingCategory, ClothingSubcategory } from '../types';
 
 // ===== ARTICLE MAPPINGS (0-13) =====
 // These mappings MUST match the clean.csv encoding
@@ -68,7 +68,7 @@ export const ARTICLE_TO_CATEGORY: Record<number, ClothingCategory> = {
   5: 'accessory',  // Other
   6: 'outerwear',  // Jacket
   7: 'bottom',     // Short
-  8: 'top',        // Dress (can be worn as top or full outfit)
+  8: 'top',        // Dress (one-piece via ARTICLE_TO_SUBCATEGORY)
   9: 'outerwear',  // Rain Jacket
   10: 'bottom',    // Skirt
   11: 'outerwear', // Blazer
@@ -76,6 +76,25 @@ export const ARTICLE_TO_CATEGORY: Record<number, ClothingCategory> = {
   13: 'bottom',    // Legging
 };
 
+// ===== SUBCATEGORY MAPPING =====
+// Maps article types to ClothingSubcategory (drives outfit templates)
+export const ARTICLE_TO_SUBCATEGORY: Record<number, ClothingSubcategory> = {
+  0: 'shirt',
+  1: 'jeans',
+  2: 'sweatpants',
+  3: 'tee',
+  4: 'other',        // Shoe (type unknown)
+  5: 'other',
+  6: 'jacket',
+  7: 'shorts',
+  8: 'dress',        // One-piece - worn without a separate bottom
+  9: 'rain-jacket',
+  10: 'skirt',
+  11: 'blazer',
+  12: 'trousers',
+  13: 'leggings',
+};
+
 // ===== DATASET ROW TYPE =====
 export interface DatasetRow {
   id: number;
@@ -132,6 +151,17 @@ export function articleToCategory(code: number): ClothingCategory {
   return ARTICLE_TO_CATEGORY[code];
 }
 
+/**
+ * Maps article code to our app's ClothingSubcategory
+ */
+export function articleToSubcategory(code: number): ClothingSubcategory {
+  if (code < 0 || code > 13) {
+    console.warn(`Invalid article code: ${code}. Defaulting to "other"`);
+    return 'other';
+  }
+  return ARTICLE_TO_SUBCATEGORY[code];
+}
+
 /**
  * Maps season code to lowercase season string for AI types
  */
@@ -327,9 +357,11 @@ export default {
   SEASON_CODES,
   SEASON_NAMES,
   ARTICLE_TO_CATEGORY,
+  ARTICLE_TO_SUBCATEGORY,
   decodeArticle,
   decodeSeason,
   articleToCategory,
+  articleToSubcategory,
   seasonToAIFormat,
   decodeRow,
   parseCSV,
@@ -0,0 +1,170 @@
+import { getImageVariant, type ImageVariant } from './storage';
+
+// ==========================================
+// 1. CONSTANTS & CONFIGURATION
+// ==========================================
+
+// Unused object URLs kept around for quick re-display (scrolling back, switching tabs)
+const DEFAULT_CAPACITY = 60;
+
+// ==========================================
+// 2. TYPES
+// ==========================================
+
+export interface ImageURLCacheOptions {
+  load: (id: string, variant: ImageVariant) => Promise<Blob | undefined>;
+  capacity?: number; // Max unreferenced URLs kept before the least recently used is revoked
+  createURL?: (blob: Blob) => string;
+  revokeURL?: (url: string) => void;
+}
+
+interface CacheEntry {
+  id: string;
+  refs: number;
+  url: string | null; // null while loading (or if the image doesn't exist)
+  promise: Promise<string | null>;
+}
+
+export interface ImageURLHandle {
+  url: Promise<string | null>;
+  release: () => void; // Safe to call more than once
+}
+
+export interface ImageURLCache {
+  acquire: (id: string, variant: ImageVariant) => ImageURLHandle;
+  invalidate: (id: string) => void;
+  size: () => number;
+}
+
+// ==========================================
+// 3. CACHE
+// ==========================================
+
+/**
+ * Shared object URLs for stored images
+ *
+ * Every component showing the same image gets the same URL. Each `acquire`
+ * returns a handle to release (one per mount), and a URL is only revoked once
+ * nobody holds it: unreferenced URLs stay in an LRU list and are revoked when it
+ * grows past `capacity`, or straight away when the image is invalidated.
+ */
+export const createImageURLCache = ({
+  load,
+  capacity = DEFAULT_CAPACITY,
+  createURL = (blob) => URL.createObjectURL(blob),
+  revokeURL = (url) => URL.revokeObjectURL(url),
+}: ImageURLCacheOptions): ImageURLCache => {
+  const entries = new Map<string, CacheEntry>();
+  // Unreferenced entry keys, least recently used first (Map keeps insertion order)
+  const idle = new Map<string, true>();
+
+  const keyOf = (id: string, variant: ImageVariant) => `${variant}:${id}`;
+
+  const revoke = (entry: CacheEntry) => {
+    if (entry.url) revokeURL(entry.url);
+    entry.url = null;
+  };
+
+  const drop = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    entries.delete(key);
+    idle.delete(key);
+    revoke(entry);
+  };
+
+  const evict = () => {
+    while (idle.size > capacity) {
+      const oldest = idle.keys().next().value as string;
+      drop(oldest);
+    }
+  };
+
+  const handleFor = (key: string, entry: CacheEntry): ImageURLHandle => {
+    let released = false;
+    return {
+      url: entry.promise,
+      release: () => {
+        if (released) return;
+        released = true;
+        entry.refs--;
+        if (entry.refs > 0) return;
+
+        if (entries.get(key) !== entry) {
+          // Invalidated (or never loaded) while held
+          revoke(entry);
+        } else {
+          idle.set(key, true);
+          evict();
+        }
+      },
+    };
+  };
+
+  const acquire = (id: string, variant: ImageVariant): ImageURLHandle => {
+    const key = keyOf(id, variant);
+    const existing = entries.get(key);
+    if (existing) {
+      existing.refs++;
+      idle.delete(key);
+      return handleFor(key, existing);
+    }
+
+    const entry: CacheEntry = { id, refs: 1, url: null, promise: Promise.resolve(null) };
+    entry.promise = load(id, variant).then(
+      (blob) => {
+        if (!blob) {
+          // Not saved (yet) - let the next acquire look again
+          if (entries.get(key) === entry) entries.delete(key);
+          return null;
+        }
+        const url = createURL(blob);
+        // The image changed while it was loading
+        if (entries.get(key) !== entry) {
+          revokeURL(url);
+          return null;
+        }
+        entry.url = url;
+        return url;
+      },
+      (error) => {
+        console.error(`Failed to load image ${id}:`, error);
+        if (entries.get(key) === entry) entries.delete(key);
+        return null;
+      }
+    );
+    entries.set(key, entry);
+    return handleFor(key, entry);
+  };
+
+  const invalidate = (id: string) => {
+    entries.forEach((entry, key) => {
+      if (entry.id !== id) return;
+      if (entry.refs === 0) {
+        drop(key);
+      } else {
+        // Still on screen: the next acquire loads afresh, the last release revokes this one
+        entries.delete(key);
+      }
+    });
+  };
+
+  return { acquire, invalidate, size: () => entries.size };
+};
+
+// ==========================================
+// 4. SHARED INSTANCE
+// ==========================================
+
+const imageURLCache = createImageURLCache({ load: getImageVariant });
+
+/**
+ * Get an object URL for a stored image. Release the handle when done with it.
+ */
+export const acquireImageURL = (id: string, variant: ImageVariant = 'full') =>
+  imageURLCache.acquire(id, variant);
+
+/**
+ * Forget an image's URLs after it's been replaced or deleted
+ */
+export const invalidateImageURL = (id: string) => imageURLCache.invalidate(id);
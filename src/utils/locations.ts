@@ -0,0 +1,32 @@
+import type { GeocodeResult, SavedLocation, UserProfile } from '../types';
+
+// About a kilometer: closer than this is the same place for weather
+const SAME_PLACE_DEGREES = 0.01;
+
+/**
+ * Display label for a search result: "Portland, OR" or "Paris, France"
+ */
+export const formatPlaceName = (place: GeocodeResult): string =>
+  `${place.name}, ${place.region ?? place.country}`;
+
+export const isSameLocation = (
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number }
+): boolean =>
+  Math.abs(a.latitude - b.latitude) < SAME_PLACE_DEGREES && Math.abs(a.longitude - b.longitude) < SAME_PLACE_DEGREES;
+
+/**
+ * The saved location picked for weather, or undefined for the current location
+ * (also when the pick was removed on another device)
+ */
+export const getActiveLocation = (
+  profile: UserProfile,
+  activeLocationId: string | null
+): SavedLocation | undefined =>
+  activeLocationId ? profile.savedLocations?.find((location) => location.id === activeLocationId) : undefined;
+
+/**
+ * What the weather is for: the saved location's name, else the current city
+ */
+export const getLocationLabel = (profile: UserProfile, activeLocationId: string | null): string =>
+  getActiveLocation(profile, activeLocationId)?.name ?? profile.location?.city ?? 'Current location';
@@ -0,0 +1,196 @@
+import type { ClothingItem } from '../types';
+import type { RandomSource } from './random';
+
+// ==========================================
+// 1. CONSTANTS & CONFIGURATION
+// ==========================================
+
+// Weight of pairwise compatibility vs per-item priors while building the core
+const PAIR_WEIGHT = 0.6;
+const PRIOR_WEIGHT = 0.4;
+
+// Small seeded noise so equally good outfits rotate day to day
+const JITTER = 0.03;
+
+// Optional-slot items fully scored per outfit (best by pairwise score)
+const OPTIONAL_CANDIDATES = 4;
+
+// Beam width once the evaluation budget is spent (raised to minBeamWidth when given)
+const MIN_BEAM_WIDTH = 5;
+
+// ==========================================
+// 2. TYPES
+// ==========================================
+
+/**
+ * Scoring callbacks (supplied by the outfit generator)
+ */
+export interface BeamScorer {
+  scoreItem: (item: ClothingItem) => number; // Per-item prior (style, weather, occasion)
+  scorePair: (a: ClothingItem, b: ClothingItem) => number; // 0-1 pairwise compatibility
+  scoreOutfit: (items: ClothingItem[]) => number; // Full outfit score (0-1)
+  isExcluded: (items: ClothingItem[]) => boolean; // e.g. rejected outfits
+}
+
+/**
+ * Work allowance, counted in scorer calls
+ * Pass the same object to several searches to share one budget between them
+ */
+export interface SearchBudget {
+  remaining: number; // Search narrows once this reaches 0
+}
+
+export interface BeamSearchOptions {
+  beamWidth: number;
+  budget: SearchBudget;
+  random: RandomSource;
+  requiredOptionalSlots?: boolean[]; // Per optional slot: must be filled when possible
+  minBeamWidth?: number; // Floor once the budget is spent (keep >= outfits requested)
+}
+
+export interface BeamResult {
+  items: ClothingItem[];
+  score: number;
+}
+
+interface PartialOutfit {
+  items: ClothingItem[];
+  pairTotal: number;
+  pairCount: number;
+  priorTotal: number;
+  rank: number; // Heuristic used for pruning
+}
+
+// ==========================================
+// 3. HELPERS
+// ==========================================
+
+/**
+ * Wrap a scorer so every call is charged to the budget
+ */
+const chargeTo = (scorer: BeamScorer, budget: SearchBudget): BeamScorer => ({
+  scoreItem: (item) => {
+    budget.remaining--;
+    return scorer.scoreItem(item);
+  },
+  scorePair: (a, b) => {
+    budget.remaining--;
+    return scorer.scorePair(a, b);
+  },
+  scoreOutfit: (items) => {
+    budget.remaining--;
+    return scorer.scoreOutfit(items);
+  },
+  isExcluded: scorer.isExcluded,
+});
+
+/**
+ * Keep the best `width` entries (descending by key)
+ */
+const topK = <T>(entries: T[], width: number, key: (entry: T) => number): T[] => {
+  return entries.sort((a, b) => key(b) - key(a)).slice(0, width);
+};
+
+/**
+ * Average pairwise compatibility of a candidate with an outfit so far
+ */
+const pairwiseFit = (items: ClothingItem[], candidate: ClothingItem, scorer: BeamScorer): number => {
+  if (items.length === 0) return 0.5;
+  let total = 0;
+  for (const item of items) {
+    total += scorer.scorePair(item, candidate);
+  }
+  return total / items.length;
+};
+
+// ==========================================
+// 4. BEAM SEARCH
+// ==========================================
+
+/**
+ * Assemble outfits slot by slot, keeping only the most promising partial outfits
+ *
+ * 1. Required slots: every item of the first slot seeds the beam; each later slot
+ *    extends every partial outfit with every fitting item, ranked by pairwise
+ *    compatibility + per-item priors, and the beam is pruned to `beamWidth`
+ * 2. Completed cores get the full outfit score
+ * 3. Optional slots: each outfit is compared against itself plus the best few
+ *    candidates (by pairwise score) for that slot, using the full score
+ */
+export const beamSearchOutfits = (
+  requiredPools: ClothingItem[][],
+  optionalPools: ClothingItem[][],
+  scorer: BeamScorer,
+  options: BeamSearchOptions
+): BeamResult[] => {
+  const { beamWidth, budget, random, requiredOptionalSlots = [] } = options;
+  const charged = chargeTo(scorer, budget);
+  const narrowWidth = Math.min(beamWidth, Math.max(MIN_BEAM_WIDTH, options.minBeamWidth ?? 0));
+  const overBudget = () => budget.remaining <= 0;
+
+  // 1. Required slots
+  let beam: PartialOutfit[] = [{ items: [], pairTotal: 0, pairCount: 0, priorTotal: 0, rank: 0 }];
+
+  requiredPools.forEach((pool, slotIndex) => {
+    const expansions: PartialOutfit[] = [];
+
+    for (const partial of beam) {
+      for (const item of pool) {
+        if (partial.items.includes(item)) continue;
+
+        let pairTotal = partial.pairTotal;
+        for (const existing of partial.items) {
+          pairTotal += charged.scorePair(existing, item);
+        }
+        const pairCount = partial.pairCount + partial.items.length;
+        const priorTotal = partial.priorTotal + charged.scoreItem(item);
+        const items = [...partial.items, item];
+
+        const pairAverage = pairCount > 0 ? pairTotal / pairCount : 0.5;
+        const rank = pairAverage * PAIR_WEIGHT + (priorTotal / items.length) * PRIOR_WEIGHT + random() * JITTER;
+
+        expansions.push({ items, pairTotal, pairCount, priorTotal, rank });
+      }
+    }
+
+    // The first slot seeds the beam with every item; later slots are pruned
+    const width = overBudget() ? narrowWidth : beamWidth;
+    beam = slotIndex === 0 ? expansions : topK(expansions, width, partial => partial.rank);
+  });
+
+  // 2. Score completed cores
+  let outfits: BeamResult[] = beam
+    .filter(partial => !charged.isExcluded(partial.items))
+    .map(partial => ({ items: partial.items, score: charged.scoreOutfit(partial.items) }));
+  outfits = topK(outfits, beamWidth, outfit => outfit.score);
+
+  // 3. Optional slots
+  optionalPools.forEach((pool, slotIndex) => {
+    if (pool.length === 0) return;
+    const mustFill = requiredOptionalSlots[slotIndex] ?? false;
+    const expansions: BeamResult[] = [];
+
+    for (const outfit of outfits) {
+      // Best candidates for this slot by pairwise score
+      const candidates = topK(
+        pool.filter(item => !outfit.items.includes(item)),
+        overBudget() ? 1 : OPTIONAL_CANDIDATES,
+        item => pairwiseFit(outfit.items, item, charged)
+      );
+
+      if (!mustFill || candidates.length === 0) {
+        expansions.push(outfit); // Leave the slot empty
+      }
+
+      for (const candidate of candidates) {
+        const items = [...outfit.items, candidate];
+        if (charged.isExcluded(items)) continue;
+        expansions.push({ items, score: charged.scoreOutfit(items) });
+      }
+    }
+
+    outfits = topK(expansions, overBudget() ? narrowWidth : beamWidth, outfit => outfit.score);
+  });
+
+  return outfits;
+};
@@ -0,0 +1,115 @@
+import type { ClothingItem, UserProfile } from '../types';
+
+// ==========================================
+// 1. CONSTANTS & CONFIGURATION
+// ==========================================
+
+// How outfit similarity is split between shared items and shared colors
+const ITEM_OVERLAP_WEIGHT = 0.7;
+const COLOR_OVERLAP_WEIGHT = 0.3;
+
+// MMR relevance weight at variety 0 and variety 1
+// (even "safe" users get a little diversity so the deck isn't one shirt ten times)
+const MAX_RELEVANCE_WEIGHT = 0.9;
+const MIN_RELEVANCE_WEIGHT = 0.4;
+
+// Used when the profile has no lifestyle answers (matches defaultLifestyle)
+const DEFAULT_RISK_TOLERANCE = 5;
+
+// ==========================================
+// 2. TYPES
+// ==========================================
+
+export interface RankedOutfit {
+  items: ClothingItem[];
+  score: number;
+}
+
+// ==========================================
+// 3. SIMILARITY
+// ==========================================
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(value => {
+    if (b.has(value)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+const itemIdSet = (items: ClothingItem[]) => new Set(items.map(item => item.id));
+
+// Color story: every color worn in the outfit (case-insensitive)
+const colorSet = (items: ClothingItem[]) =>
+  new Set(items.flatMap(item => item.colors.map(color => color.toLowerCase())));
+
+/**
+ * Similarity of two outfits (0 = nothing in common, 1 = same items and colors)
+ */
+export const outfitSimilarity = (a: ClothingItem[], b: ClothingItem[]): number => {
+  return (
+    jaccard(itemIdSet(a), itemIdSet(b)) * ITEM_OVERLAP_WEIGHT +
+    jaccard(colorSet(a), colorSet(b)) * COLOR_OVERLAP_WEIGHT
+  );
+};
+
+// ==========================================
+// 4. VARIETY KNOB
+// ==========================================
+
+/**
+ * Variety (0-1) from the profile's fashion risk tolerance (0-10)
+ * Adventurous users get a more varied deck
+ */
+export const getProfileVariety = (profile: UserProfile): number => {
+  const tolerance = profile.lifestyle?.fashionRiskTolerance ?? DEFAULT_RISK_TOLERANCE;
+  return Math.min(1, Math.max(0, tolerance / 10));
+};
+
+// ==========================================
+// 5. MAXIMAL MARGINAL RELEVANCE
+// ==========================================
+
+/**
+ * Pick `count` outfits that are good AND different from each other
+ *
+ * Greedy MMR: each pick maximizes
+ *   relevanceWeight * score - (1 - relevanceWeight) * (similarity to the closest outfit already picked)
+ * The first pick is always the best-scoring outfit.
+ */
+export const rerankForDiversity = <T extends RankedOutfit>(
+  candidates: T[],
+  count: number,
+  variety: number
+): T[] => {
+  const relevanceWeight = MAX_RELEVANCE_WEIGHT - (MAX_RELEVANCE_WEIGHT - MIN_RELEVANCE_WEIGHT) * variety;
+  const remaining = [...candidates].sort((a, b) => b.score - a.score);
+  const selected: T[] = [];
+
+  // Closest similarity of each remaining candidate to the selected set
+  const maxSimilarity = new Array<number>(remaining.length).fill(0);
+
+  while (selected.length < count && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+
+    remaining.forEach((candidate, index) => {
+      const value = relevanceWeight * candidate.score - (1 - relevanceWeight) * maxSimilarity[index];
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = index;
+      }
+    });
+
+    const [picked] = remaining.splice(bestIndex, 1);
+    maxSimilarity.splice(bestIndex, 1);
+    selected.push(picked);
+
+    remaining.forEach((candidate, index) => {
+      maxSimilarity[index] = Math.max(maxSimilarity[index], outfitSimilarity(candidate.items, picked.items));
+    });
+  }
+
+  return selected;
+};
@@ -1,71 +1,22 @@
-import type { ClothingItem, Outfit, UserProfile, StylePreference, WeatherData, ClothingCategory } from '../types';
+import type { ClothingItem, Outfit, UserProfile, StylePreference, WeatherData, ClothingCategory, OutfitFeatures, PreferenceModel, OutfitTemplateId } from '../types';
+import { NEUTRAL_COLORS, calculateColorHarmony, scoreOutfitHarmony, detectColorDisharmony } from './colorHarmony';
+import { personalizeScore } from './preferenceModel';
+import { isOutfitRejected, getOutfitKey } from './outfitRejections';
+import { createSeededRandom, hashString, type RandomSource } from './random';
+import { OUTFIT_TEMPLATES, SLOT_CATEGORY, detectTemplate, isMidLayer, isTemplateSuitable, itemFitsSlot, type OutfitSlot } from './outfitTemplates';
+import { beamSearchOutfits, type BeamScorer, type SearchBudget } from './outfitBeamSearch';
+import { getProfileVariety, rerankForDiversity } from './outfitDiversity';
+import { getPrecipitationRisk } from './precipitation';
+import { getEffectiveTemperature } from './thermalComfort';
 
 // ==========================================
 // 1. CONSTANTS & CONFIGURATION
 // ==========================================
 
-// Color compatibility matrix based on color theory
-const COLOR_COMPATIBILITY: Record<string, string[]> = {
-  // Neutrals go with everything
-  black: ['black', 'white', 'gray', 'grey', 'beige', 'brown', 'navy', 'red', 'blue', 'green', 'purple', 'pink', 'yellow', 'orange', 'tan', 'khaki', 'cream', 'olive', 'maroon', 'burgundy'],
-  white: ['black', 'white', 'gray', 'grey', 'beige', 'brown', 'navy', 'red', 'blue', 'green', 'purple', 'pink', 'yellow', 'orange', 'tan', 'khaki', 'cream', 'olive', 'maroon', 'burgundy'],
-  gray: ['black', 'white', 'gray', 'grey', 'beige', 'brown', 'navy', 'red', 'blue', 'green', 'purple', 'pink', 'yellow', 'orange', 'tan', 'khaki', 'cream', 'olive', 'maroon', 'burgundy'],
-  grey: ['black', 'white', 'gray', 'grey', 'beige', 'brown', 'navy', 'red', 'blue', 'green', 'purple', 'pink', 'yellow', 'orange', 'tan', 'khaki', 'cream', 'olive', 'maroon', 'burgundy'],
-  beige: ['black', 'white', 'gray', 'grey', 'beige', 'brown', 'navy', 'blue', 'green', 'pink', 'red', 'tan', 'khaki', 'cream', 'olive'],
-  brown: ['black', 'white', 'gray', 'grey', 'beige', 'brown', 'navy', 'green', 'orange', 'yellow', 'red', 'tan', 'khaki', 'cream', 'olive'],
-  tan: ['black', 'white', 'gray', 'grey', 'beige', 'brown', 'navy', 'blue', 'green', 'red', 'tan', 'khaki', 'cream', 'olive'],
-  khaki: ['black', 'white', 'gray', 'grey', 'beige', 'brown', 'navy', 'blue', 'green', 'red', 'tan', 'khaki', 'cream', 'olive'],
-  cream: ['black', 'white', 'gray', 'grey', 'beige', 'brown', 'navy', 'blue', 'green', 'pink', 'red', 'tan', 'khaki', 'cream'],
-
-  // Navy is versatile (acts like a neutral)
-  navy: ['black', 'white', 'gray', 'grey', 'beige', 'brown', 'navy', 'red', 'pink', 'yellow', 'orange', 'green', 'tan', 'khaki', 'cream', 'burgundy'],
-
-  // Primary colors (limited pairings to avoid clashing)
-  red: ['black', 'white', 'gray', 'grey', 'navy', 'beige', 'blue', 'pink', 'tan', 'khaki', 'cream'],
-  blue: ['black', 'white', 'gray', 'grey', 'beige', 'brown', 'navy', 'red', 'pink', 'green', 'tan', 'khaki', 'cream'],
-  yellow: ['black', 'white', 'gray', 'grey', 'navy', 'brown', 'blue', 'purple', 'tan', 'khaki'],
-
-  // Secondary colors
-  green: ['black', 'white', 'gray', 'grey', 'beige', 'brown', 'navy', 'blue', 'tan', 'khaki', 'cream', 'olive'],
-  purple: ['black', 'white', 'gray', 'grey', 'pink', 'navy', 'cream'],
-  orange: ['black', 'white', 'gray', 'grey', 'navy', 'brown', 'blue', 'tan', 'khaki', 'cream'],
-  pink: ['black', 'white', 'gray', 'grey', 'beige', 'navy', 'blue', 'purple', 'red', 'cream'],
-
-  // Earth tones
-  olive: ['black', 'white', 'gray', 'grey', 'beige', 'brown', 'navy', 'tan', 'khaki', 'cream', 'green'],
-  burgundy: ['black', 'white', 'gray', 'grey', 'beige', 'navy', 'tan', 'khaki', 'cream'],
-  maroon: ['black', 'white', 'gray', 'grey', 'beige', 'navy', 'tan', 'khaki', 'cream'],
-};
-
-// Color clash detection: combinations that should be avoided
-const COLOR_CLASHES: string[][] = [
-  // Warm color overload (too loud together)
-  ['red', 'orange', 'yellow'],
-  ['red', 'yellow', 'orange'],
-  ['orange', 'red', 'yellow'],
-  ['orange', 'yellow', 'red'],
-  ['yellow', 'red', 'orange'],
-  ['yellow', 'orange', 'red'],
-
-  // Competing bright colors
-  ['red', 'green'], // Christmas vibes unless intentional
-  ['purple', 'orange'], // Too loud
-  ['pink', 'orange'], // Clashing tones
-  ['yellow', 'pink'], // Too bright
-  ['blue', 'orange'], // High contrast, often clashes
-  ['purple', 'yellow'], // Usually too bold
-];
-
-// Neutral colors that work as anchors
-const NEUTRAL_COLORS = ['black', 'white', 'gray', 'grey', 'beige', 'navy', 'tan', 'khaki', 'cream', 'denim'];
-
 // Light and dark color classifications for smart pairing
 const LIGHT_COLORS = ['white', 'cream', 'beige', 'tan', 'pink', 'yellow', 'light'];
 const DARK_COLORS = ['black', 'navy', 'brown', 'burgundy', 'maroon', 'dark', 'charcoal'];
 
-// UW Team Colors (school spirit exception for monochrome)
-const UW_TEAM_COLORS = ['purple', 'gold'];
-
 // Occasion rules for filtering and fallback
 interface OccasionRule {
   allowedStyles?: StylePreference[];
@@ -113,6 +64,11 @@ const OCCASION_RULES: Record<string, OccasionRule> = {
 // Minimum score threshold (user chose fixed low = 0.3)
 const MINIMUM_SCORE_THRESHOLD = 0.3;
 
+// Beam search sizing: partial outfits kept per slot, and scorer calls before the search
+// narrows. Counting work instead of time keeps seeded runs identical on any machine.
+const MIN_BEAM_WIDTH = 30;
+const DEFAULT_EVALUATION_BUDGET = 60_000;
+
 // ==========================================
 // 2. HELPER FUNCTIONS - COLOR & STYLE
 // ==========================================
@@ -156,6 +112,13 @@ const hasOuterwear = (outfit: ClothingItem[]): boolean => {
   return outfit.some(item => item.category === 'outerwear');
 };
 
+/**
+ * Check if outfit has a mid-layer (sweater, hoodie, cardigan, vest)
+ */
+const hasMidLayer = (outfit: ClothingItem[]): boolean => {
+  return outfit.some(item => isMidLayer(item));
+};
+
 /**
  * Check if outfit has shorts
  */
@@ -195,18 +158,6 @@ const hasDarkColors = (outfit: ClothingItem[]): boolean => {
   );
 };
 
-/**
- * Get lightest color items from array (for extreme heat)
- */
-const getLightestItems = (items: ClothingItem[]): ClothingItem[] => {
-  // Prioritize items with light colors
-  return items.sort((a, b) => {
-    const aLightCount = a.colors.filter(c => isLightColor(c)).length;
-    const bLightCount = b.colors.filter(c => isLightColor(c)).length;
-    return bLightCount - aLightCount; // Descending
-  });
-};
-
 /**
  * Check if an item is appropriate for a given occasion (Strict Check)
  */
@@ -276,83 +227,6 @@ const getValidItemsForCategory = (
 // 3. SCORING FUNCTIONS
 // ==========================================
 
-/**
- * Detect if outfit has clashing color combinations or problematic monochrome
- * Returns penalty score (0 = no clash, -0.5 = major clash)
- * EDGE CASE: Context-aware all-white penalties (rain, casual, winter)
- */
-const detectColorClash = (outfit: ClothingItem[], weather?: WeatherData, occasion?: string): number => {
-  const outfitColors = outfit.flatMap(item =>
-    item.colors.map(c => c.toLowerCase())
-  );
-
-  // Check for known bad combinations
-  for (const clash of COLOR_CLASHES) {
-    const hasAllClashColors = clash.every(clashColor =>
-      outfitColors.some(outfitColor => outfitColor.includes(clashColor))
-    );
-
-    if (hasAllClashColors) {
-      return -0.5; // Major penalty
-    }
-  }
-
-  // Check for monochrome outfits (all same color)
-  const uniqueColors = new Set(outfitColors);
-  if (uniqueColors.size === 1) {
-    const singleColor = Array.from(uniqueColors)[0];
-
-    // All-black: Always acceptable (universally stylish)
-    if (singleColor === 'black') {
-      return 0;
-    }
-
-    // All-white: Context-dependent
-    if (singleColor === 'white') {
-      let whitePenalty = 0;
-
-      // Penalty for rainy weather (mud/stains)
-      if (weather && weather.precipitation > 30) {
-        whitePenalty -= 0.3; // Major penalty
-      }
-
-      // Penalty for casual/everyday occasions (impractical)
-      const casualOccasions = ['casual', 'class', 'work'];
-      if (occasion && casualOccasions.includes(occasion.toLowerCase())) {
-        whitePenalty -= 0.2;
-      }
-
-      // Penalty for cold weather (out of season)
-      if (weather && weather.temperature < 50) {
-        whitePenalty -= 0.2;
-      }
-
-      // If no penalties, all-white is fine (summer party, formal, etc.)
-      // But give tiny penalty to encourage color mixing
-      if (whitePenalty === 0) {
-        whitePenalty = -0.05;
-      }
-
-      return whitePenalty;
-    }
-
-    // All-navy or all-gray: Boring but safe
-    if (['navy', 'gray', 'grey'].includes(singleColor)) {
-      return -0.1; // Small penalty for lack of visual interest
-    }
-
-    // UW Team Colors: School spirit exception (all-purple or all-gold)
-    if (UW_TEAM_COLORS.includes(singleColor)) {
-      return 0; // No penalty for Husky pride! Go Dawgs! 🟣🟡
-    }
-
-    // All other colors: "Blue Man Group" look
-    return -0.3;
-  }
-
-  return 0;
-};
-
 /**
  * Calculate neutral bonus for outfits with neutral shoes or neutral color schemes
  * Returns bonus score (0 to +0.2)
@@ -383,61 +257,6 @@ const calculateNeutralBonus = (outfit: ClothingItem[]): number => {
   return Math.min(bonus, 0.2);
 };
 
-/**
- * Calculate color compatibility score between two clothing items
- * Returns a score from 0-1 (1 being most compatible)
- */
-export const calculateColorCompatibility = (item1: ClothingItem, item2: ClothingItem): number => {
-  if (!item1.colors.length || !item2.colors.length) return 0.5;
-
-  let compatibilityScore = 0;
-  let comparisons = 0;
-
-  for (const color1 of item1.colors) {
-    const normalizedColor1 = color1.toLowerCase();
-    for (const color2 of item2.colors) {
-      const normalizedColor2 = color2.toLowerCase();
-      comparisons++;
-
-      // Same color always matches
-      if (normalizedColor1 === normalizedColor2) {
-        compatibilityScore += 1;
-        continue;
-      }
-
-      // Check compatibility matrix
-      const compatible = COLOR_COMPATIBILITY[normalizedColor1]?.includes(normalizedColor2) ||
-                        COLOR_COMPATIBILITY[normalizedColor2]?.includes(normalizedColor1);
-
-      if (compatible) {
-        compatibilityScore += 0.8;
-      } else {
-        // Smart fallback for unknown combinations
-        const color1IsNeutral = NEUTRAL_COLORS.includes(normalizedColor1);
-        const color2IsNeutral = NEUTRAL_COLORS.includes(normalizedColor2);
-
-        if (color1IsNeutral || color2IsNeutral) {
-          compatibilityScore += 0.6; // Neutrals work with most things
-        } else {
-          // Check light + dark pairing
-          const color1IsLight = isLightColor(normalizedColor1);
-          const color2IsLight = isLightColor(normalizedColor2);
-          const color1IsDark = isDarkColor(normalizedColor1);
-          const color2IsDark = isDarkColor(normalizedColor2);
-
-          if ((color1IsLight && color2IsDark) || (color1IsDark && color2IsLight)) {
-            compatibilityScore += 0.5; // Light + dark often works
-          } else {
-            compatibilityScore += 0.3; // Unknown combination
-          }
-        }
-      }
-    }
-  }
-
-  return comparisons > 0 ? compatibilityScore / comparisons : 0.5;
-};
-
 /**
  * Calculate style consistency score
  * Returns a score from 0-1 based on how well styles mix
@@ -505,20 +324,21 @@ export const calculateFavoriteColorBonus = (
 };
 
 /**
- * Calculate weather appropriateness score
+ * Calculate weather appropriateness score (0 without weather)
+ * Temperature bands are judged on the user's effective temperature (see thermalComfort.ts)
  * EDGE CASE: Multi-layering for extreme cold without outerwear
  */
-const calculateWeatherScore = (outfit: ClothingItem[], weather: WeatherData): number => {
+const calculateWeatherScore = (outfit: ClothingItem[], weather: WeatherData | undefined, temp: number | undefined): number => {
+  if (!weather || temp === undefined) return 0;
   let score = 0;
-  const temp = weather.temperature;
 
   // Extreme cold (<20°F) - multi-layering strategy
   if (temp < 20) {
     if (hasOuterwear(outfit)) {
       score += 0.3; // Great!
     } else {
-      // Multi-layering fallback: check if we have long sleeves (some protection)
-      if (hasLongSleeves(outfit)) {
+      // Multi-layering fallback: check if we have a mid-layer or long sleeves (some protection)
+      if (hasMidLayer(outfit) || hasLongSleeves(outfit)) {
         score += 0.1; // Better than nothing
       } else {
         score -= 0.4; // Major penalty - too cold
@@ -530,6 +350,7 @@ const calculateWeatherScore = (outfit: ClothingItem[], weather: WeatherData): nu
   else if (temp < 50) {
     if (hasOuterwear(outfit)) score += 0.2;
     if (hasLongSleeves(outfit)) score += 0.15;
+    if (hasMidLayer(outfit)) score += 0.1; // Layered look
     if (hasShorts(outfit)) score -= 0.3;
   }
   // Mild weather (50-70°F)
@@ -541,18 +362,21 @@ const calculateWeatherScore = (outfit: ClothingItem[], weather: WeatherData): nu
     if (hasShorts(outfit)) score += 0.15;
     if (!hasLongSleeves(outfit)) score += 0.1;
     if (hasOuterwear(outfit)) score -= 0.15;
+    if (hasMidLayer(outfit)) score -= 0.15;
   }
   // Extreme heat (>85°F) - prioritize light colors
   else {
     if (hasShorts(outfit)) score += 0.2;
     if (!hasLongSleeves(outfit)) score += 0.15;
     if (hasOuterwear(outfit)) score -= 0.3;
+    if (hasMidLayer(outfit)) score -= 0.3;
     if (hasDarkColors(outfit)) score -= 0.15; // Dark absorbs heat
   }
 
-  // Precipitation handling
-  if (weather.precipitation > 30) {
-    if (hasWhiteBottoms(outfit)) score -= 0.2; // Mud stains
+  // Precipitation handling: scaled by how likely a proper soaking is while out
+  const rainRisk = getPrecipitationRisk(weather);
+  if (rainRisk > 0.25) {
+    if (hasWhiteBottoms(outfit)) score -= 0.2 * Math.min(1, rainRisk / 0.5); // Mud stains
   }
 
   return Math.max(-0.5, Math.min(0.3, score));
@@ -589,206 +413,267 @@ const calculateOccasionScore = (outfit: ClothingItem[], occasion: string): numbe
 };
 
 /**
- * Main scoring function
- * USER CHOICE: Colors first, occasion second (appearance > rules)
+ * Check the outfit forms a valid template (see outfitTemplates.ts)
+ * Returns 0 for a valid shape, -0.5 otherwise (e.g. dress + jeans, two pairs of shoes)
  */
-export const scoreOutfit = (
+const calculateStructureScore = (outfit: ClothingItem[]): number => {
+  return detectTemplate(outfit) ? 0 : -0.5;
+};
+
+/**
+ * Extract the individual scoring signals for an outfit
+ * These feed both the fixed-weight score and the learned preference model
+ */
+export const extractOutfitFeatures = (
   outfit: ClothingItem[],
   userProfile: UserProfile,
   weather?: WeatherData,
   occasion?: string
-): number => {
-  if (outfit.length < 2) return 0;
-
-  // Calculate pairwise color compatibility
-  let colorScore = 0;
-  let pairs = 0;
-  for (let i = 0; i < outfit.length; i++) {
-    for (let j = i + 1; j < outfit.length; j++) {
-      colorScore += calculateColorCompatibility(outfit[i], outfit[j]);
-      pairs++;
-    }
-  }
-  const avgColorScore = pairs > 0 ? colorScore / pairs : 0.5;
-
-  // Calculate style score
-  const styleScore = calculateStyleScore(outfit, userProfile);
-  const styleConsistency = scoreStyleConsistency(outfit);
-
-  // Calculate favorite color bonus
-  const favoriteBonus = calculateFavoriteColorBonus(outfit, userProfile.favoriteColors);
-
-  // Calculate weather score
-  const weatherScore = weather ? calculateWeatherScore(outfit, weather) : 0;
-
-  // Detect color clashes (context-aware for all-white)
-  const clashPenalty = detectColorClash(outfit, weather, occasion);
-
-  // Neutral bonus
-  const neutralBonus = calculateNeutralBonus(outfit);
-
+): OutfitFeatures => {
   // Occasion score (if available)
   const occasionScore = occasion ? calculateOccasionScore(outfit, occasion) : null;
+  // Weather rules judge the user's effective temperature, not the raw reading
+  const temperature = weather ? getEffectiveTemperature(weather, userProfile) : undefined;
 
+  return {
+    // Pairwise color harmony (color wheel + lightness/saturation contrast)
+    color: scoreOutfitHarmony(outfit),
+    style: calculateStyleScore(outfit, userProfile),
+    styleConsistency: scoreStyleConsistency(outfit),
+    occasion: occasionScore,
+    favoriteColors: calculateFavoriteColorBonus(outfit, userProfile.favoriteColors),
+    weather: calculateWeatherScore(outfit, weather, temperature),
+    // Color clashes across the whole outfit (context-aware for all-white)
+    clash: detectColorDisharmony(outfit, weather, occasion, temperature),
+    neutral: calculateNeutralBonus(outfit),
+    structure: calculateStructureScore(outfit),
+  };
+};
+
+/**
+ * Combine outfit features with the fixed rule-based weights
+ * USER CHOICE: Colors first, occasion second (appearance > rules)
+ */
+const combineFeatures = (features: OutfitFeatures): number => {
   // USER CHOICE: Colors first (50%), Style (30%), Occasion (10%), Favorites (10%)
   // This prioritizes appearance over strict occasion matching
   let baseScore;
-  if (occasionScore !== null) {
+  if (features.occasion !== null) {
     // AI occasion data available
-    baseScore = (avgColorScore * 0.5) + (styleScore * 0.2) + (styleConsistency * 0.1) + (occasionScore * 0.1) + (favoriteBonus * 0.1);
+    baseScore = (features.color * 0.5) + (features.style * 0.2) + (features.styleConsistency * 0.1) + (features.occasion * 0.1) + (features.favoriteColors * 0.1);
   } else {
     // No occasion data, focus on color + style
-    baseScore = (avgColorScore * 0.5) + (styleScore * 0.3) + (styleConsistency * 0.1) + (favoriteBonus * 0.1);
+    baseScore = (features.color * 0.5) + (features.style * 0.3) + (features.styleConsistency * 0.1) + (features.favoriteColors * 0.1);
   }
 
   // Add modifiers
-  const finalScore = baseScore + weatherScore + clashPenalty + neutralBonus;
+  const finalScore = baseScore + features.weather + features.clash + features.neutral + features.structure;
 
   return Math.max(0, Math.min(1, finalScore));
 };
 
+/**
+ * Main scoring function
+ * USER CHOICE: Colors first, occasion second (appearance > rules)
+ * When a trained preference model is passed, the rule-based score is blended
+ * with the model's predicted like-probability
+ */
+export const scoreOutfit = (
+  outfit: ClothingItem[],
+  userProfile: UserProfile,
+  weather?: WeatherData,
+  occasion?: string,
+  preferenceModel?: PreferenceModel
+): number => {
+  if (outfit.length < 2) return 0;
+
+  const features = extractOutfitFeatures(outfit, userProfile, weather, occasion);
+  const baseScore = combineFeatures(features);
+
+  return preferenceModel ? personalizeScore(baseScore, features, preferenceModel) : baseScore;
+};
+
 // ==========================================
 // 4. MAIN OUTFIT GENERATOR
 // ==========================================
 
+export interface GenerateOutfitsOptions {
+  preferenceModel?: PreferenceModel; // Learned from swipe feedback
+  rejectedOutfitKeys?: Set<string>; // Outfits the user swiped left on (see getRejectedOutfitKeys)
+  seed?: number; // Makes tie-breaking reproducible (see createDailySeed)
+  random?: RandomSource; // Injected PRNG (overrides seed); Math.random when neither is given
+  templates?: OutfitTemplateId[]; // Restrict to these outfit shapes (default: all)
+  evaluationBudget?: number; // Scorer calls before the search narrows (default 60,000)
+  variety?: number; // 0-1 diversity of the returned set (default: from lifestyle.fashionRiskTolerance)
+  createdAt?: Date; // Stamped on every outfit (defaults to now)
+}
+
+interface OutfitCandidate {
+  items: ClothingItem[];
+  score: number;
+  outfit: Outfit;
+}
+
 /**
- * Generate outfit combinations from wardrobe
+ * Outfit ID, derived from the seed and item IDs on seeded runs so a replay yields the same IDs
+ */
+const createOutfitId = (items: ClothingItem[], seed?: number): string =>
+  seed === undefined ? crypto.randomUUID() : `${seed.toString(36)}-${hashString(getOutfitKey(items)).toString(36)}`;
+
+/**
+ * Generate outfit combinations from wardrobe, yielding the best `count` so far
+ * after each template is searched (lets the worker stream results and cancel between steps)
+ * Outfits are assembled slot by slot with beam search (see outfitBeamSearch.ts),
+ * so every item is considered and optional layers are added only when they help
  * EDGE CASES HANDLED:
  * - Scarcity: Returns low-scored outfits if limited wardrobe
  * - Weather: Multi-layering for extreme cold
  * - Occasion: Smart 3-phase fallback
  * - Threshold: Fixed 0.3 minimum
+ * - Templates: Top + bottom, one-piece (dress/jumpsuit) and layered looks
+ * - Personalization: Learned swipe preferences re-weight the ranking
+ * - Rejections: Outfits the user swiped left on are never resurfaced
+ * - Reproducibility: The same seed always yields the same outfits
+ * - Variety: Re-ranked with MMR so one great shirt doesn't fill the whole deck
  */
-export const generateOutfits = (
+export function* generateOutfitsProgressively(
   wardrobe: ClothingItem[],
   profile: UserProfile,
   count: number = 10,
   weather?: WeatherData,
   requiredItem?: ClothingItem,
-  occasion?: string
-): Outfit[] => {
-  // 1. Filter wardrobe using Smart 3-Phase Fallback
-  const tops = getValidItemsForCategory(wardrobe, 'top', occasion);
-  const bottoms = getValidItemsForCategory(wardrobe, 'bottom', occasion);
-  let shoes = getValidItemsForCategory(wardrobe, 'shoes', occasion);
-  const accessories = getValidItemsForCategory(wardrobe, 'accessory', occasion);
-  let outerwear = getValidItemsForCategory(wardrobe, 'outerwear', occasion);
-
-  // EDGE CASE: Extreme heat - prioritize lightest items
-  if (weather && weather.temperature > 85) {
-    // Re-sort to prioritize light colors
-    shoes = getLightestItems(shoes);
-  }
+  occasion?: string,
+  options: GenerateOutfitsOptions = {}
+): Generator<Outfit[], void, undefined> {
+  const { preferenceModel, rejectedOutfitKeys = new Set<string>(), seed, createdAt = new Date() } = options;
+  const random: RandomSource = options.random ?? (seed === undefined ? Math.random : createSeededRandom(seed));
+  // Shared by every template's search
+  const budget: SearchBudget = { remaining: options.evaluationBudget ?? DEFAULT_EVALUATION_BUDGET };
+  const variety = options.variety ?? getProfileVariety(profile);
+  const temperature = weather ? getEffectiveTemperature(weather, profile) : undefined;
 
-  // Need at least one top, bottom, and shoes
-  if (tops.length === 0 || bottoms.length === 0 || shoes.length === 0) {
-    return [];
-  }
+  // 1. Filter wardrobe using Smart 3-Phase Fallback
+  const categoryPools: Record<ClothingCategory, ClothingItem[]> = {
+    top: getValidItemsForCategory(wardrobe, 'top', occasion),
+    bottom: getValidItemsForCategory(wardrobe, 'bottom', occasion),
+    shoes: getValidItemsForCategory(wardrobe, 'shoes', occasion),
+    accessory: getValidItemsForCategory(wardrobe, 'accessory', occasion),
+    outerwear: getValidItemsForCategory(wardrobe, 'outerwear', occasion),
+  };
 
-  // Apply required item filter
-  const filteredTops = requiredItem?.category === 'top' ? [requiredItem] : tops;
-  const filteredBottoms = requiredItem?.category === 'bottom' ? [requiredItem] : bottoms;
-  const filteredShoes = requiredItem?.category === 'shoes' ? [requiredItem] : shoes;
-
-  const outfitCandidates: { items: ClothingItem[]; score: number }[] = [];
-
-  // 2. Generate combinations
-  const maxCombinations = tops.length * bottoms.length * shoes.length;
-  const shouldSampleRandomly = maxCombinations > count * 20;
-
-  if (shouldSampleRandomly) {
-    // Random sampling for large wardrobes
-    const attempts = count * 10;
-    const usedCombinations = new Set<string>();
-
-    for (let i = 0; i < attempts && outfitCandidates.length < count * 2; i++) {
-      const top = filteredTops[Math.floor(Math.random() * filteredTops.length)];
-      const bottom = filteredBottoms[Math.floor(Math.random() * filteredBottoms.length)];
-      const shoe = filteredShoes[Math.floor(Math.random() * filteredShoes.length)];
-
-      const comboKey = `${top.id}-${bottom.id}-${shoe.id}`;
-      if (usedCombinations.has(comboKey)) continue;
-
-      const items: ClothingItem[] = [top, bottom, shoe];
-
-      // EDGE CASE: Multi-layering for extreme cold without outerwear
-      if (weather && weather.temperature < 20 && outerwear.length > 0) {
-        // Always add outerwear in extreme cold
-        const bestOuter = outerwear[0];
-        items.push(bestOuter);
-      } else if (weather && weather.temperature < 50 && outerwear.length > 0) {
-        // Regular cold - 70% chance of outerwear
-        if (Math.random() > 0.3) {
-          items.push(outerwear[Math.floor(Math.random() * outerwear.length)]);
-        }
-      } else if (outerwear.length > 0 && Math.random() > 0.8) {
-        // Fashion layering (small chance)
-        items.push(outerwear[Math.floor(Math.random() * outerwear.length)]);
+  // 2. Scoring callbacks for the beam search
+  const pairCache = new Map<string, number>();
+  const scorer: BeamScorer = {
+    // Per-item prior: style preference, occasion fit, weather fit (e.g. dark colors in heat)
+    scoreItem: (item) => {
+      const occasionFit = occasion ? calculateOccasionScore([item], occasion) ?? 0.5 : 0.5;
+      let weatherFit = calculateWeatherScore([item], weather, temperature);
+
+      // EDGE CASE: Extreme heat - prioritize lightest items
+      if (temperature !== undefined && temperature > 85 && item.colors.some(c => isLightColor(c))) {
+        weatherFit += 0.1;
       }
 
-      // Accessories (30% chance)
-      if (accessories.length > 0 && Math.random() > 0.7) {
-        items.push(accessories[Math.floor(Math.random() * accessories.length)]);
+      return calculateStyleScore([item], profile) * 0.6 + occasionFit * 0.4 + weatherFit;
+    },
+    // Pairwise: color harmony, scaled down for clashing styles (blazer + gym shorts)
+    scorePair: (a, b) => {
+      const key = a.id < b.id ? `${a.id}|${b.id}` : `${b.id}|${a.id}`;
+      let score = pairCache.get(key);
+      if (score === undefined) {
+        score = calculateColorHarmony(a, b) * scoreStyleConsistency([a, b]);
+        pairCache.set(key, score);
       }
+      return score;
+    },
+    scoreOutfit: (items) => scoreOutfit(items, profile, weather, occasion, preferenceModel),
+    // Never resurface a rejected outfit
+    isExcluded: (items) => isOutfitRejected(items, rejectedOutfitKeys),
+  };
+
+  const beamWidth = Math.max(count * 3, MIN_BEAM_WIDTH);
+  const outfitCandidates: OutfitCandidate[] = [];
+
+  // 3. Assemble outfits for every template that fits the wardrobe and weather
+  const templates = OUTFIT_TEMPLATES.filter(template =>
+    (!options.templates || options.templates.includes(template.id)) &&
+    isTemplateSuitable(template, temperature)
+  );
+
+  for (const template of templates) {
+    // Apply required item filter (locked into the first slot it fits)
+    const requiredSlot = requiredItem
+      ? [...template.slots, ...template.optionalSlots].find(slot => itemFitsSlot(requiredItem, slot))
+      : undefined;
+    if (requiredItem && !requiredSlot) continue; // Template can't hold the item
+
+    const getSlotPool = (slot: OutfitSlot) =>
+      slot === requiredSlot
+        ? [requiredItem!]
+        : categoryPools[SLOT_CATEGORY[slot]].filter(item => itemFitsSlot(item, slot));
 
-      usedCombinations.add(comboKey);
-      const score = scoreOutfit(items, profile, weather, occasion);
+    const requiredPools = template.slots.map(getSlotPool);
 
+    // Need an item for every required slot
+    if (requiredPools.some(pool => pool.length === 0)) continue;
+
+    const optionalPools = template.optionalSlots.map(getSlotPool);
+
+    // EDGE CASE: Multi-layering - always add outerwear in extreme cold
+    const requiredOptionalSlots = template.optionalSlots.map(slot =>
+      slot === requiredSlot || (slot === 'outerwear' && temperature !== undefined && temperature < 20)
+    );
+
+    const results = beamSearchOutfits(requiredPools, optionalPools, scorer, {
+      beamWidth,
+      budget,
+      random,
+      requiredOptionalSlots,
+      minBeamWidth: count, // Diversity re-ranking needs `count` candidates, even once the budget is spent
+    });
+
+    for (const { items, score } of results) {
       // USER CHOICE: Fixed 0.3 threshold
       if (score >= MINIMUM_SCORE_THRESHOLD) {
-        outfitCandidates.push({ items, score });
+        outfitCandidates.push({
+          items,
+          score,
+          outfit: {
+            id: createOutfitId(items, seed),
+            items: items.map(item => ({
+              ...item,
+              image: item.image || item.id
+            })),
+            createdAt,
+            liked: undefined,
+            template: template.id,
+          },
+        });
       }
     }
-  } else {
-    // Generate all combinations for smaller wardrobes
-    // Limit to prevent mobile performance issues
-    const limit = 20;
-    const safeTops = filteredTops.slice(0, limit);
-    const safeBottoms = filteredBottoms.slice(0, limit);
-    const safeShoes = filteredShoes.slice(0, limit);
-
-    for (const top of safeTops) {
-      for (const bottom of safeBottoms) {
-        for (const shoe of safeShoes) {
-          const items: ClothingItem[] = [top, bottom, shoe];
-
-          // EDGE CASE: Multi-layering for extreme cold
-          if (weather && weather.temperature < 20 && outerwear.length > 0) {
-            items.push(outerwear[0]);
-          } else if (weather && weather.temperature < 50 && outerwear.length > 0 && Math.random() > 0.3) {
-            items.push(outerwear[Math.floor(Math.random() * outerwear.length)]);
-          } else if (outerwear.length > 0 && Math.random() > 0.8) {
-            items.push(outerwear[Math.floor(Math.random() * outerwear.length)]);
-          }
-
-          // Accessories (30% chance)
-          if (accessories.length > 0 && Math.random() > 0.7) {
-            items.push(accessories[Math.floor(Math.random() * accessories.length)]);
-          }
-
-          const score = scoreOutfit(items, profile, weather, occasion);
-
-          if (score >= MINIMUM_SCORE_THRESHOLD) {
-            outfitCandidates.push({ items, score });
-          }
-        }
-      }
-    }
-  }
 
-  // 3. Sort by score and return top N
-  outfitCandidates.sort((a, b) => b.score - a.score);
-
-  const outfits: Outfit[] = outfitCandidates.slice(0, count).map(candidate => ({
-    id: crypto.randomUUID(),
-    items: candidate.items.map(item => ({
-      ...item,
-      image: item.image || item.id
-    })),
-    createdAt: new Date(),
-    liked: undefined,
-  }));
+    // 4. Re-rank for variety (penalizes repeated items and color stories) and yield top N so far
+    yield rerankForDiversity(outfitCandidates, count, variety).map(candidate => candidate.outfit);
+  }
+}
 
+/**
+ * Generate outfit combinations from wardrobe (runs every template to completion)
+ * See generateOutfitsProgressively for the edge cases handled
+ */
+export const generateOutfits = (
+  wardrobe: ClothingItem[],
+  profile: UserProfile,
+  count: number = 10,
+  weather?: WeatherData,
+  requiredItem?: ClothingItem,
+  occasion?: string,
+  options: GenerateOutfitsOptions = {}
+): Outfit[] => {
+  let outfits: Outfit[] = [];
+  for (const partial of generateOutfitsProgressively(wardrobe, profile, count, weather, requiredItem, occasion, options)) {
+    outfits = partial;
+  }
   return outfits;
 };
 
@@ -796,6 +681,18 @@ export const generateOutfits = (
 // 5. UTILITY FUNCTIONS
 // ==========================================
 
+/**
+ * Seed for a day's suggestions, derived from (date, wardrobe, weather)
+ * Same day + same wardrobe + same weather = same outfits
+ */
+export const createDailySeed = (date: Date, wardrobe: ClothingItem[], weather?: WeatherData): number => {
+  const day = `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+  const wardrobeHash = hashString(getOutfitKey(wardrobe));
+  const weatherKey = weather ? `${Math.round(weather.temperature)}-${weather.condition}` : 'none';
+
+  return hashString(`${day}|${wardrobeHash}|${weatherKey}`);
+};
+
 /**
  * Check if wardrobe meets minimum requirements
  */
@@ -0,0 +1,86 @@
+import type { ClothingItem, RejectedOutfit } from '../types';
+
+// Categories that make up the core of an outfit (outerwear/accessories are optional extras)
+const CORE_CATEGORIES = ['top', 'bottom', 'shoes'];
+
+// Decay options shown in settings (0 = never forget)
+export const REJECTION_DECAY_OPTIONS = [7, 30, 90, 0];
+export const DEFAULT_REJECTION_DECAY_DAYS = 30;
+
+// Cap on how many rejections are sent to the AI prompt
+const MAX_REJECTIONS_FOR_AI = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Create a unique key for an outfit based on sorted item IDs
+ * (same key used to de-duplicate outfit history)
+ */
+export const getOutfitKey = (items: Pick<ClothingItem, 'id'>[]): string => {
+  return items.map(item => item.id).sort().join(',');
+};
+
+/**
+ * Key for just the top/bottom/shoes of an outfit
+ * Lets a rejection also cover the same combo with a different jacket or accessory
+ */
+export const getCoreOutfitKey = (items: Pick<ClothingItem, 'id' | 'category'>[]): string => {
+  return getOutfitKey(items.filter(item => CORE_CATEGORIES.includes(item.category)));
+};
+
+/**
+ * Build a rejection log entry for an outfit
+ */
+export const createRejection = (items: ClothingItem[]): RejectedOutfit => ({
+  key: getOutfitKey(items),
+  coreKey: getCoreOutfitKey(items),
+  itemIds: items.map(item => item.id),
+  rejectedAt: new Date().toISOString(),
+  count: 1,
+});
+
+/**
+ * Check if a rejection is still active under the configured decay
+ */
+export const isRejectionActive = (rejection: RejectedOutfit, decayDays: number, now: number = Date.now()): boolean => {
+  if (decayDays <= 0) return true; // Never forget
+  return now - new Date(rejection.rejectedAt).getTime() < decayDays * DAY_MS;
+};
+
+/**
+ * Drop rejections that have decayed
+ */
+export const pruneRejections = (rejections: RejectedOutfit[], decayDays: number): RejectedOutfit[] => {
+  const now = Date.now();
+  return rejections.filter(rejection => isRejectionActive(rejection, decayDays, now));
+};
+
+/**
+ * Keys (full and core) of every active rejection, for fast lookup in the generator
+ */
+export const getRejectedOutfitKeys = (rejections: RejectedOutfit[], decayDays: number): Set<string> => {
+  const keys = new Set<string>();
+  for (const rejection of pruneRejections(rejections, decayDays)) {
+    keys.add(rejection.key);
+    if (rejection.coreKey) keys.add(rejection.coreKey);
+  }
+  return keys;
+};
+
+/**
+ * Check if a candidate outfit was rejected (exact set or same top/bottom/shoes)
+ */
+export const isOutfitRejected = (items: ClothingItem[], rejectedKeys: Set<string>): boolean => {
+  if (rejectedKeys.size === 0) return false;
+  return rejectedKeys.has(getOutfitKey(items)) || rejectedKeys.has(getCoreOutfitKey(items));
+};
+
+/**
+ * Most recent active rejections as item ID lists (for the AI request)
+ */
+export const getRejectionsForAI = (rejections: RejectedOutfit[], decayDays: number): string[][] => {
+  return pruneRejections(rejections, decayDays)
+    .sort((a, b) => new Date(b.rejectedAt).getTime() - new Date(a.rejectedAt).getTime())
+    .slice(0, MAX_REJECTIONS_FOR_AI)
+    .map(rejection => rejection.itemIds);
+};
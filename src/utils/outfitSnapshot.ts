@@ -0,0 +1,80 @@
+import type { ClothingItem, Outfit, PreferenceModel, UserProfile, WeatherData } from '../types';
+import { generateOutfits, type GenerateOutfitsOptions } from './outfitGenerator';
+import { hashString } from './random';
+
+/**
+ * Everything a generator run read besides the wardrobe and profile, plus its seed
+ * Cached with the day's outfits, so a set can be regenerated exactly (e.g. to look
+ * into "yesterday's suggestion was weird")
+ */
+export interface OutfitGenerationSnapshot {
+  seed: number;
+  generatedAt: string; // ISO date string, stamped on every outfit
+  count: number;
+  weather?: WeatherData;
+  preferenceModel: PreferenceModel; // Weights at the time (they change with every swipe)
+  rejectedOutfitKeys: string[]; // Rejections active at the time (they decay)
+  inputsHash: number; // Wardrobe and profile the run saw (see hashGenerationInputs)
+}
+
+/**
+ * Hash the wardrobe and profile, to tell whether a snapshot can still be replayed
+ */
+export const hashGenerationInputs = (wardrobe: ClothingItem[], profile: UserProfile): number =>
+  hashString(JSON.stringify([wardrobe, profile]));
+
+/**
+ * Snapshot the inputs of a run that's about to start
+ */
+export const createGenerationSnapshot = (
+  seed: number,
+  wardrobe: ClothingItem[],
+  profile: UserProfile,
+  count: number,
+  weather: WeatherData | undefined,
+  preferenceModel: PreferenceModel,
+  rejectedOutfitKeys: Set<string>
+): OutfitGenerationSnapshot => ({
+  seed,
+  generatedAt: new Date().toISOString(),
+  count,
+  weather,
+  preferenceModel,
+  rejectedOutfitKeys: Array.from(rejectedOutfitKeys),
+  inputsHash: hashGenerationInputs(wardrobe, profile),
+});
+
+/**
+ * Generator options that reproduce a snapshot's run
+ */
+export const getSnapshotOptions = (snapshot: OutfitGenerationSnapshot): GenerateOutfitsOptions => ({
+  seed: snapshot.seed,
+  preferenceModel: snapshot.preferenceModel,
+  rejectedOutfitKeys: new Set(snapshot.rejectedOutfitKeys),
+  createdAt: new Date(snapshot.generatedAt),
+});
+
+/**
+ * Run the generator on a snapshot's inputs
+ */
+export const generateFromSnapshot = (
+  snapshot: OutfitGenerationSnapshot,
+  wardrobe: ClothingItem[],
+  profile: UserProfile
+): Outfit[] =>
+  generateOutfits(wardrobe, profile, snapshot.count, snapshot.weather, undefined, undefined, getSnapshotOptions(snapshot));
+
+/**
+ * Regenerate a snapshot's outfits
+ * Returns null once the wardrobe or profile has changed, as the set can't be reproduced then
+ */
+export const replayGenerationSnapshot = (
+  snapshot: OutfitGenerationSnapshot,
+  wardrobe: ClothingItem[],
+  profile: UserProfile
+): Outfit[] | null => {
+  if (hashGenerationInputs(wardrobe, profile) !== snapshot.inputsHash) {
+    return null;
+  }
+  return generateFromSnapshot(snapshot, wardrobe, profile);
+};
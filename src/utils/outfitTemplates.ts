@@ -0,0 +1,175 @@
+import type { ClothingCategory, ClothingItem, ClothingSubcategory, OutfitTemplateId } from '../types';
+
+// ==========================================
+// 1. SLOTS & TEMPLATES
+// ==========================================
+
+/**
+ * A position in an outfit. Most slots map 1:1 to a category; tops are split
+ * by subcategory so a dress can't be paired with jeans and a sweater can be
+ * worn over a tee.
+ */
+export type OutfitSlot =
+  | 'top'        // Any top except one-pieces
+  | 'base-layer' // Top worn under a mid-layer (tee, shirt, ...)
+  | 'mid-layer'  // Sweater, hoodie, cardigan, vest
+  | 'one-piece'  // Dress, jumpsuit
+  | 'bottom'
+  | 'outerwear'
+  | 'shoes'
+  | 'accessory';
+
+export interface OutfitTemplate {
+  id: OutfitTemplateId;
+  label: string;
+  description: string; // Shown to the AI stylist
+  slots: OutfitSlot[]; // Required - exactly one item each
+  optionalSlots: OutfitSlot[]; // At most one item each
+  maxTemperature?: number; // °F - only suggested at or below this temperature
+}
+
+export const OUTFIT_TEMPLATES: OutfitTemplate[] = [
+  {
+    id: 'classic',
+    label: 'Top + Bottom',
+    description: '1 top + 1 bottom + 1 pair of shoes (optional outerwear and accessory)',
+    slots: ['top', 'bottom', 'shoes'],
+    optionalSlots: ['outerwear', 'accessory'],
+  },
+  {
+    id: 'one-piece',
+    label: 'One-Piece',
+    description: '1 dress or jumpsuit + 1 pair of shoes, NO separate top or bottom (optional outerwear and accessory)',
+    slots: ['one-piece', 'shoes'],
+    optionalSlots: ['outerwear', 'accessory'],
+  },
+  {
+    id: 'layered',
+    label: 'Layered',
+    description: '1 base top + 1 mid-layer (sweater, hoodie, cardigan, vest) + 1 bottom + 1 outerwear + 1 pair of shoes (optional accessory) - cool weather only',
+    slots: ['base-layer', 'mid-layer', 'bottom', 'outerwear', 'shoes'],
+    optionalSlots: ['accessory'],
+    maxTemperature: 60,
+  },
+];
+
+// Category every slot draws from
+export const SLOT_CATEGORY: Record<OutfitSlot, ClothingCategory> = {
+  'top': 'top',
+  'base-layer': 'top',
+  'mid-layer': 'top',
+  'one-piece': 'top',
+  'bottom': 'bottom',
+  'outerwear': 'outerwear',
+  'shoes': 'shoes',
+  'accessory': 'accessory',
+};
+
+const ONE_PIECE_SUBCATEGORIES: ClothingSubcategory[] = ['dress', 'jumpsuit'];
+const MID_LAYER_SUBCATEGORIES: ClothingSubcategory[] = ['sweater', 'hoodie', 'cardigan', 'vest'];
+
+// Description keywords for items saved before subcategories existed
+// ("dress shirt" / "dress shoes" are not dresses)
+const ONE_PIECE_PATTERN = /\b(dress(?!\s+(shirt|shoe|pant|trouser|sock))|gown|jumpsuit|romper|overalls)\b/i;
+const MID_LAYER_PATTERN = /\b(sweater|sweatshirt|hoodie|cardigan|pullover|fleece|vest)\b/i;
+
+// Minimal item shape needed to place it in a template (works for AI request metadata too)
+export type TemplateItem = Pick<ClothingItem, 'category' | 'subcategory' | 'aiAnalysis'>;
+
+// ==========================================
+// 2. SLOT MATCHING
+// ==========================================
+
+/**
+ * Get an item's subcategory (explicit, AI-suggested, or inferred from its description)
+ */
+export const getItemSubcategory = (item: TemplateItem): ClothingSubcategory | undefined => {
+  if (item.subcategory) return item.subcategory;
+  if (item.aiAnalysis?.suggestedSubcategory) return item.aiAnalysis.suggestedSubcategory;
+
+  // Legacy items: only tops need inferring (the other categories map 1:1 to slots)
+  const description = item.aiAnalysis?.description;
+  if (item.category !== 'top' || !description) return undefined;
+  if (ONE_PIECE_PATTERN.test(description)) return 'dress';
+  if (MID_LAYER_PATTERN.test(description)) return 'sweater';
+  return undefined;
+};
+
+export const isOnePiece = (item: TemplateItem): boolean => {
+  const subcategory = getItemSubcategory(item);
+  return subcategory !== undefined && ONE_PIECE_SUBCATEGORIES.includes(subcategory);
+};
+
+export const isMidLayer = (item: TemplateItem): boolean => {
+  const subcategory = getItemSubcategory(item);
+  return subcategory !== undefined && MID_LAYER_SUBCATEGORIES.includes(subcategory);
+};
+
+/**
+ * Check if an item can fill a slot
+ */
+export const itemFitsSlot = (item: TemplateItem, slot: OutfitSlot): boolean => {
+  if (item.category !== SLOT_CATEGORY[slot]) return false;
+
+  switch (slot) {
+    case 'top':
+      return !isOnePiece(item);
+    case 'base-layer':
+      return !isOnePiece(item) && !isMidLayer(item);
+    case 'mid-layer':
+      return isMidLayer(item);
+    case 'one-piece':
+      return isOnePiece(item);
+    default:
+      return true;
+  }
+};
+
+// ==========================================
+// 3. TEMPLATE HELPERS
+// ==========================================
+
+export const getOutfitTemplate = (id: OutfitTemplateId): OutfitTemplate => {
+  return OUTFIT_TEMPLATES.find(template => template.id === id) ?? OUTFIT_TEMPLATES[0];
+};
+
+/**
+ * Check if a template suits the (effective) temperature (no weather = every template)
+ */
+export const isTemplateSuitable = (template: OutfitTemplate, temperature?: number): boolean => {
+  if (temperature === undefined || template.maxTemperature === undefined) return true;
+  return temperature <= template.maxTemperature;
+};
+
+/**
+ * Check if a set of items exactly fills a template
+ * (every required slot once, extras only in optional slots)
+ */
+export const matchesTemplate = (items: TemplateItem[], template: OutfitTemplate): boolean => {
+  const slots = [...template.slots, ...template.optionalSlots];
+  if (items.length < template.slots.length || items.length > slots.length) return false;
+
+  // Small backtracking assignment (outfits have at most ~6 items)
+  const used = new Array<boolean>(slots.length).fill(false);
+  const assign = (index: number): boolean => {
+    if (index === items.length) {
+      return template.slots.every((_, slotIndex) => used[slotIndex]);
+    }
+    for (let slotIndex = 0; slotIndex < slots.length; slotIndex++) {
+      if (used[slotIndex] || !itemFitsSlot(items[index], slots[slotIndex])) continue;
+      used[slotIndex] = true;
+      if (assign(index + 1)) return true;
+      used[slotIndex] = false;
+    }
+    return false;
+  };
+
+  return assign(0);
+};
+
+/**
+ * Find the template an outfit was built from (null = not a valid outfit shape, e.g. dress + jeans)
+ */
+export const detectTemplate = (items: TemplateItem[]): OutfitTemplate | null => {
+  return OUTFIT_TEMPLATES.find(template => matchesTemplate(items, template)) ?? null;
+};
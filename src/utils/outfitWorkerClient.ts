@@ -0,0 +1,105 @@
+import { generateOutfits } from './outfitGenerator';
+import type { OutfitGenerationParams, OutfitWorkerRequest, OutfitWorkerResponse } from '../workers/outfitWorkerProtocol';
+import type { Outfit } from '../types';
+
+/**
+ * Main-thread side of the outfit generation worker
+ * One shared worker serves every caller; runs are told apart by requestId
+ */
+
+export interface OutfitGenerationJob {
+  promise: Promise<Outfit[] | null>; // Final outfits, or null if cancelled
+  cancel: () => void;
+}
+
+interface PendingJob {
+  onProgress?: (outfits: Outfit[]) => void;
+  resolve: (outfits: Outfit[] | null) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pendingJobs = new Map<number, PendingJob>();
+
+const handleMessage = (ev: MessageEvent<OutfitWorkerResponse>) => {
+  const message = ev.data;
+  const job = pendingJobs.get(message.requestId);
+  if (!job) return; // Cancelled - ignore late results
+
+  switch (message.type) {
+    case 'progress':
+      job.onProgress?.(message.outfits);
+      break;
+    case 'done':
+      pendingJobs.delete(message.requestId);
+      job.resolve(message.outfits);
+      break;
+    case 'error':
+      pendingJobs.delete(message.requestId);
+      job.reject(new Error(message.error));
+      break;
+  }
+};
+
+/**
+ * Lazily create the shared worker (null when workers aren't available, e.g. tests/SSR)
+ */
+const getWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined') return null;
+  if (!worker) {
+    worker = new Worker(new URL('../workers/outfitGenerator.worker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', (ev) => {
+      console.error('Outfit worker crashed:', ev.message);
+      // Fail every in-flight run and start a fresh worker next time
+      pendingJobs.forEach(job => job.reject(new Error('Outfit worker crashed')));
+      pendingJobs.clear();
+      worker?.terminate();
+      worker = null;
+    });
+  }
+  return worker;
+};
+
+const post = (target: Worker, message: OutfitWorkerRequest) => {
+  target.postMessage(message);
+};
+
+/**
+ * Generate outfits in the worker, streaming the best outfits found so far to onProgress
+ * Falls back to the main thread when workers aren't supported
+ */
+export const startOutfitGeneration = (
+  params: OutfitGenerationParams,
+  onProgress?: (outfits: Outfit[]) => void
+): OutfitGenerationJob => {
+  const target = getWorker();
+
+  if (!target) {
+    let cancelled = false;
+    const promise = Promise.resolve().then(() => {
+      if (cancelled) return null;
+      const { wardrobe, profile, count, weather, requiredItem, occasion, options } = params;
+      const outfits = generateOutfits(wardrobe, profile, count, weather, requiredItem, occasion, options);
+      return cancelled ? null : outfits;
+    });
+    return { promise, cancel: () => { cancelled = true; } };
+  }
+
+  const requestId = nextRequestId++;
+  const promise = new Promise<Outfit[] | null>((resolve, reject) => {
+    pendingJobs.set(requestId, { onProgress, resolve, reject });
+  });
+  post(target, { type: 'generate', requestId, ...params });
+
+  const cancel = () => {
+    const job = pendingJobs.get(requestId);
+    if (!job) return; // Already finished
+    pendingJobs.delete(requestId);
+    post(target, { type: 'cancel', requestId });
+    job.resolve(null);
+  };
+
+  return { promise, cancel };
+};
@@ -0,0 +1,54 @@
+import type { ActiveHours, HourlyForecast, WeatherData } from '../types';
+
+// How hard it rains (inches per hour), and how much that matters for clothes:
+// drizzle barely marks anything, a steady rain soaks and splashes
+const INTENSITY_LEVELS = [
+  { below: 0.01, label: 'drizzle', weight: 0.25 },
+  { below: 0.1, label: 'light', weight: 0.6 },
+  { below: 0.3, label: 'moderate', weight: 1 },
+  { below: Infinity, label: 'heavy', weight: 1 },
+];
+
+// Local hour of a forecast time like "2026-10-19T14:00"
+const getHour = (hour: HourlyForecast): number => parseInt(hour.time.slice(11, 13), 10);
+
+/**
+ * Today's forecast hours that are still ahead and inside the active hours
+ * Once the active hours are over, just the current hour
+ */
+export const getActiveForecastHours = (
+  hourly: HourlyForecast[],
+  activeHours: ActiveHours,
+  currentHour: number
+): HourlyForecast[] => {
+  const from = Math.max(activeHours.start, currentHour);
+  const active = hourly.filter((hour) => getHour(hour) >= from && getHour(hour) < activeHours.end);
+  return active.length > 0 ? active : hourly.filter((hour) => getHour(hour) === currentHour);
+};
+
+/**
+ * Chance and intensity of precipitation over a stretch of hours
+ * Both are the worst hour: a dry morning doesn't make a wet afternoon any drier
+ */
+export const summarizePrecipitation = (
+  hours: HourlyForecast[]
+): Pick<WeatherData, 'precipitationProbability' | 'precipitationIntensity'> => ({
+  precipitationProbability: Math.max(0, ...hours.map((hour) => hour.precipitationProbability)),
+  precipitationIntensity: Math.max(0, ...hours.map((hour) => hour.precipitation)),
+});
+
+const getIntensityLevel = (inchesPerHour: number) =>
+  INTENSITY_LEVELS.find((level) => inchesPerHour < level.below)!;
+
+/**
+ * Drizzle / light / moderate / heavy
+ */
+export const describePrecipitationIntensity = (inchesPerHour: number): string =>
+  getIntensityLevel(inchesPerHour).label;
+
+/**
+ * How likely the user is to get properly wet while out, 0-1
+ * (an 80% chance of drizzle is less of a problem than a 50% chance of a downpour)
+ */
+export const getPrecipitationRisk = (weather: WeatherData): number =>
+  (weather.precipitationProbability / 100) * getIntensityLevel(weather.precipitationIntensity).weight;
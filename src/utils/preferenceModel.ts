@@ -0,0 +1,132 @@
+import type { OutfitFeatures, OutfitFeatureKey, PreferenceModel } from '../types';
+
+// ==========================================
+// 1. CONSTANTS & CONFIGURATION
+// ==========================================
+
+const FEATURE_KEYS: OutfitFeatureKey[] = [
+  'color',
+  'style',
+  'styleConsistency',
+  'occasion',
+  'favoriteColors',
+  'weather',
+  'clash',
+  'neutral',
+  'structure',
+];
+
+// Swipes needed before the model starts influencing ranking
+const MIN_TRAINING_SWIPES = 5;
+
+// Maximum share of the final score the model can control
+const MAX_MODEL_BLEND = 0.5;
+
+// Swipes until the model reaches its maximum blend
+const FULL_BLEND_SWIPES = 40;
+
+// SGD step size (decays as the model sees more swipes)
+const BASE_LEARNING_RATE = 0.5;
+
+// L2 regularization keeps weights small so one odd swipe can't dominate
+const L2_PENALTY = 0.01;
+
+// ==========================================
+// 2. MODEL HELPERS
+// ==========================================
+
+/**
+ * Create an untrained model (predicts 50% for every outfit)
+ */
+export const createPreferenceModel = (): PreferenceModel => ({
+  weights: {
+    color: 0,
+    style: 0,
+    styleConsistency: 0,
+    occasion: 0,
+    favoriteColors: 0,
+    weather: 0,
+    clash: 0,
+    neutral: 0,
+    structure: 0,
+  },
+  bias: 0,
+  trainingCount: 0,
+  likeCount: 0,
+});
+
+/**
+ * Convert outfit features to model inputs
+ * Missing occasion data is treated as a neutral 0.5
+ */
+const toInputs = (features: OutfitFeatures): Record<OutfitFeatureKey, number> => ({
+  ...features,
+  occasion: features.occasion ?? 0.5,
+});
+
+const sigmoid = (z: number): number => 1 / (1 + Math.exp(-z));
+
+/**
+ * Predict the probability (0-1) that the user likes an outfit
+ */
+export const predictLikeProbability = (model: PreferenceModel, features: OutfitFeatures): number => {
+  const inputs = toInputs(features);
+
+  let z = model.bias;
+  for (const key of FEATURE_KEYS) {
+    z += (model.weights[key] ?? 0) * inputs[key];
+  }
+
+  return sigmoid(z);
+};
+
+/**
+ * One step of online logistic regression (SGD with L2 regularization)
+ * Returns a new model - never mutates the input (safe for Zustand state)
+ */
+export const trainPreferenceModel = (
+  model: PreferenceModel,
+  features: OutfitFeatures,
+  liked: boolean
+): PreferenceModel => {
+  const inputs = toInputs(features);
+  const error = (liked ? 1 : 0) - predictLikeProbability(model, features);
+  const learningRate = BASE_LEARNING_RATE / Math.sqrt(1 + model.trainingCount / 20);
+
+  const weights = { ...model.weights };
+  for (const key of FEATURE_KEYS) {
+    const weight = weights[key] ?? 0;
+    weights[key] = weight + learningRate * (error * inputs[key] - L2_PENALTY * weight);
+  }
+
+  return {
+    weights,
+    bias: model.bias + learningRate * error,
+    trainingCount: model.trainingCount + 1,
+    likeCount: model.likeCount + (liked ? 1 : 0),
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * How much of the final score the model controls (0 until enough swipes)
+ */
+export const getModelBlend = (model: PreferenceModel): number => {
+  if (model.trainingCount < MIN_TRAINING_SWIPES) return 0;
+  return Math.min(MAX_MODEL_BLEND, (model.trainingCount / FULL_BLEND_SWIPES) * MAX_MODEL_BLEND);
+};
+
+/**
+ * Blend the rule-based score with the learned like-probability
+ */
+export const personalizeScore = (
+  baseScore: number,
+  features: OutfitFeatures,
+  model: PreferenceModel
+): number => {
+  const blend = getModelBlend(model);
+  if (blend === 0) return baseScore;
+
+  const probability = predictLikeProbability(model, features);
+  return Math.max(0, Math.min(1, (1 - blend) * baseScore + blend * probability));
+};
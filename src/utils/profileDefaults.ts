@@ -60,6 +60,12 @@ export const defaultLifestyle = {
   fashionRiskTolerance: 5,
 };
 
+// Not asked during onboarding (set in Settings)
+export const defaultActiveHours = {
+  start: 8,
+  end: 22,
+};
+
 export const defaultFashionGoals: string[] = [];
 export const defaultInspirations: string[] = [];
 
@@ -0,0 +1,43 @@
+/**
+ * Random number source (same contract as Math.random: float in [0, 1))
+ */
+export type RandomSource = () => number;
+
+/**
+ * Hash a string to an unsigned 32-bit integer (FNV-1a)
+ */
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * A new random seed (unsigned 32-bit integer), for runs that shouldn't repeat
+ */
+export const createRandomSeed = (): number => Math.floor(Math.random() * 0x100000000);
+
+/**
+ * Create a seeded PRNG (mulberry32)
+ * The same seed always produces the same sequence
+ */
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Pick a random element from a non-empty array
+ */
+export const pickRandom = <T>(items: T[], random: RandomSource): T => {
+  return items[Math.floor(random() * items.length)];
+};
@@ -1,13 +1,45 @@
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import type { QueuedFile } from '../types';
+
+// Batch upload queue entry (survives reloads so an interrupted batch can resume)
+export interface StoredQueuedFile {
+  id: string;
+  queuedFile: QueuedFile; // File and processed blobs are stored as-is (structured clone)
+  order: number; // Position in the queue
+  resumeUpload: boolean; // Was being saved to the wardrobe when the page went away
+}
+
+// Stored image variants: full size for detail views, thumbnail for grids
+export type ImageVariant = 'full' | 'thumbnail';
+
+// Longest side of a thumbnail (grids show items at ~200px)
+const THUMBNAIL_MAX_DIMENSION = 256;
+
+interface StoredImage {
+  id: string;
+  blob: Blob;
+  createdAt: Date;
+}
 
 // IndexedDB schema for storing images
 interface FittedDB extends DBSchema {
   images: {
+    key: string;
+    value: StoredImage;
+  };
+  thumbnails: {
+    key: string;
+    value: StoredImage;
+  };
+  batchQueue: {
+    key: string;
+    value: StoredQueuedFile;
+  };
+  syncKeys: {
     key: string;
     value: {
-      id: string;
-      blob: Blob;
-      createdAt: Date;
+      space: string;
+      key: CryptoKey; // Non-extractable: stored as-is, never as raw bytes
     };
   };
 }
@@ -17,18 +49,30 @@ let dbPromise: Promise<IDBPDatabase<FittedDB>> | null = null;
 // Initialize IndexedDB
 export const initDB = async () => {
   if (!dbPromise) {
-    dbPromise = openDB<FittedDB>('fitted-images', 1, {
+    dbPromise = openDB<FittedDB>('fitted-images', 4, {
       upgrade(db) {
         if (!db.objectStoreNames.contains('images')) {
           db.createObjectStore('images', { keyPath: 'id' });
         }
+        // v2: resumable batch upload queue
+        if (!db.objectStoreNames.contains('batchQueue')) {
+          db.createObjectStore('batchQueue', { keyPath: 'id' });
+        }
+        // v3: thumbnails (older images get theirs on first use, see getThumbnail)
+        if (!db.objectStoreNames.contains('thumbnails')) {
+          db.createObjectStore('thumbnails', { keyPath: 'id' });
+        }
+        // v4: sync encryption keys
+        if (!db.objectStoreNames.contains('syncKeys')) {
+          db.createObjectStore('syncKeys', { keyPath: 'space' });
+        }
       },
     });
   }
   return dbPromise;
 };
 
-// Save image to IndexedDB
+// Save image to IndexedDB (with its thumbnail)
 export const saveImage = async (id: string, blob: Blob): Promise<void> => {
   const db = await initDB();
   await db.put('images', {
@@ -36,6 +80,20 @@ export const saveImage = async (id: string, blob: Blob): Promise<void> => {
     blob,
     createdAt: new Date(),
   });
+  await saveThumbnail(id, blob);
+};
+
+// Create and store the thumbnail for an image (not fatal - grids fall back to the full image)
+const saveThumbnail = async (id: string, blob: Blob): Promise<Blob | undefined> => {
+  try {
+    const thumbnail = await createThumbnail(blob);
+    const db = await initDB();
+    await db.put('thumbnails', { id, blob: thumbnail, createdAt: new Date() });
+    return thumbnail;
+  } catch (error) {
+    console.warn(`Failed to create thumbnail for ${id}:`, error);
+    return undefined;
+  }
 };
 
 // Get image from IndexedDB
@@ -45,37 +103,131 @@ export const getImage = async (id: string): Promise<Blob | undefined> => {
   return record?.blob;
 };
 
-// Delete image from IndexedDB
+// Get an image's thumbnail (created from the full image the first time, for images saved before thumbnails)
+export const getThumbnail = async (id: string): Promise<Blob | undefined> => {
+  const db = await initDB();
+  const record = await db.get('thumbnails', id);
+  if (record) return record.blob;
+
+  const full = await getImage(id);
+  if (!full) return undefined;
+  return (await saveThumbnail(id, full)) ?? full;
+};
+
+// Get one variant of an image
+export const getImageVariant = (id: string, variant: ImageVariant): Promise<Blob | undefined> => {
+  return variant === 'thumbnail' ? getThumbnail(id) : getImage(id);
+};
+
+// Delete image (and its thumbnail) from IndexedDB
 export const deleteImage = async (id: string): Promise<void> => {
   const db = await initDB();
   await db.delete('images', id);
+  await db.delete('thumbnails', id);
+};
+
+// Size (including the thumbnail), size of the full image alone and save time of
+// every stored image (blobs aren't read)
+export const getImageRecords = async (): Promise<Array<{ id: string; size: number; imageSize: number; createdAt: Date }>> => {
+  const db = await initDB();
+  const [records, thumbnails] = await Promise.all([db.getAll('images'), db.getAll('thumbnails')]);
+  const thumbnailSizes = new Map(thumbnails.map(({ id, blob }) => [id, blob.size]));
+  return records.map(({ id, blob, createdAt }) => ({
+    id,
+    size: blob.size + (thumbnailSizes.get(id) ?? 0),
+    imageSize: blob.size,
+    createdAt,
+  }));
 };
 
-// URL cache to prevent creating duplicate object URLs
-const urlCache = new Map<string, string>();
+// Delete every stored image
+export const clearImages = async (): Promise<void> => {
+  const db = await initDB();
+  await db.clear('images');
+  await db.clear('thumbnails');
+};
 
-// Get image as object URL
-export const getImageURL = async (id: string): Promise<string | null> => {
-  // Check cache first
-  if (urlCache.has(id)) {
-    return urlCache.get(id) || null;
+// Add a batch queue entry
+export const saveQueuedFile = async (queuedFile: QueuedFile, order: number): Promise<void> => {
+  const db = await initDB();
+  await db.put('batchQueue', {
+    id: queuedFile.id,
+    queuedFile,
+    order,
+    resumeUpload: false,
+  });
+};
+
+// Update a batch queue entry, keeping its position (no-op if it was removed)
+export const updateQueuedFile = async (queuedFile: QueuedFile, resumeUpload?: boolean): Promise<void> => {
+  const db = await initDB();
+  const tx = db.transaction('batchQueue', 'readwrite');
+  const existing = await tx.store.get(queuedFile.id);
+  if (existing) {
+    await tx.store.put({
+      ...existing,
+      queuedFile,
+      resumeUpload: resumeUpload ?? existing.resumeUpload,
+    });
   }
+  await tx.done;
+};
 
-  const blob = await getImage(id);
-  if (!blob) return null;
+// Get every batch queue entry in queue order
+export const getQueuedFiles = async (): Promise<StoredQueuedFile[]> => {
+  const db = await initDB();
+  const records = await db.getAll('batchQueue');
+  return records.sort((a, b) => a.order - b.order);
+};
 
-  const url = URL.createObjectURL(blob);
-  urlCache.set(id, url);
-  return url;
+// Delete a batch queue entry
+export const deleteQueuedFile = async (id: string): Promise<void> => {
+  const db = await initDB();
+  await db.delete('batchQueue', id);
 };
 
-// Clean up cached URLs
-export const cleanupImageURL = (id: string) => {
-  const url = urlCache.get(id);
-  if (url) {
-    URL.revokeObjectURL(url);
-    urlCache.delete(id);
-  }
+// Delete every batch queue entry
+export const clearQueuedFiles = async (): Promise<void> => {
+  const db = await initDB();
+  await db.clear('batchQueue');
+};
+
+// Save the unlocked encryption key of a sync space
+export const saveSyncKey = async (space: string, key: CryptoKey): Promise<void> => {
+  const db = await initDB();
+  await db.put('syncKeys', { space, key });
+};
+
+// Get the encryption key of a sync space
+export const getSyncKey = async (space: string): Promise<CryptoKey | undefined> => {
+  const db = await initDB();
+  const record = await db.get('syncKeys', space);
+  return record?.key;
+};
+
+// Forget every sync key (turning sync off)
+export const clearSyncKeys = async (): Promise<void> => {
+  const db = await initDB();
+  await db.clear('syncKeys');
+};
+
+// Downscale an image for grid display
+export const createThumbnail = async (blob: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, THUMBNAIL_MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (thumbnail) => (thumbnail ? resolve(thumbnail) : reject(new Error('Failed to create thumbnail'))),
+      'image/jpeg',
+      0.8
+    );
+  });
 };
 
 // Convert File to Blob and compress if needed
@@ -0,0 +1,180 @@
+import type { ClothingCategory, ClothingItem } from '../types';
+import { getImageRecords, getImage, saveImage, deleteImage } from './storage';
+import { invalidateImageURL } from './imageUrlCache';
+import { compressImage } from './imageCompression';
+import { PipelineScheduler } from '../services/pipelineScheduler';
+
+// ==========================================
+// 1. CONSTANTS & CONFIGURATION
+// ==========================================
+
+// Images this new may belong to an item that's still being saved (batch upload
+// writes the image before adding the item), so they're never treated as orphans
+const ORPHAN_GRACE_PERIOD_MS = 10 * 60 * 1000;
+
+// Re-compression target; only full images bigger than it are worth re-compressing
+const RECOMPRESS_MAX_MB = 0.15;
+export const RECOMPRESS_MIN_BYTES = RECOMPRESS_MAX_MB * 1024 * 1024;
+const RECOMPRESS_MAX_DIMENSION = 800;
+
+// ==========================================
+// 2. TYPES
+// ==========================================
+
+export interface ImageRecord {
+  id: string;
+  size: number;      // Full image plus its thumbnail
+  imageSize: number; // Full image alone (what re-compression works on)
+  createdAt: Date;
+}
+
+export interface CategoryUsage {
+  count: number;
+  bytes: number;
+}
+
+export interface StorageUsage {
+  usage: number | null; // Bytes used by the whole origin (navigator.storage.estimate)
+  quota: number | null; // Bytes available to the origin
+  imageBytes: number;   // Bytes used by wardrobe images
+  byCategory: Record<ClothingCategory, CategoryUsage>;
+  orphaned: CategoryUsage; // Images no wardrobe item points to
+  recompressible: CategoryUsage; // Wardrobe images whose full image is above RECOMPRESS_MIN_BYTES (bytes of the full images)
+}
+
+// ==========================================
+// 3. RECONCILIATION
+// ==========================================
+
+/**
+ * Stored images that no wardrobe item points to (images are keyed by item id)
+ */
+export const findOrphanedImages = (
+  records: ImageRecord[],
+  wardrobe: ClothingItem[],
+  now: number = Date.now()
+): ImageRecord[] => {
+  const referenced = new Set(wardrobe.map(item => item.id));
+  return records.filter(record =>
+    !referenced.has(record.id) && now - new Date(record.createdAt).getTime() > ORPHAN_GRACE_PERIOD_MS
+  );
+};
+
+/**
+ * Break image storage down by wardrobe category
+ */
+export const summarizeImageUsage = (
+  records: ImageRecord[],
+  wardrobe: ClothingItem[],
+  now: number = Date.now()
+): Omit<StorageUsage, 'usage' | 'quota'> => {
+  const empty = (): CategoryUsage => ({ count: 0, bytes: 0 });
+  const byCategory: Record<ClothingCategory, CategoryUsage> = {
+    top: empty(),
+    bottom: empty(),
+    shoes: empty(),
+    outerwear: empty(),
+    accessory: empty(),
+  };
+  const recompressible = empty();
+  const categoryById = new Map(wardrobe.map(item => [item.id, item.category]));
+
+  records.forEach(record => {
+    const category = categoryById.get(record.id);
+    if (!category) return;
+    byCategory[category].count++;
+    byCategory[category].bytes += record.size;
+    if (record.imageSize > RECOMPRESS_MIN_BYTES) {
+      recompressible.count++;
+      recompressible.bytes += record.imageSize;
+    }
+  });
+
+  const orphaned = findOrphanedImages(records, wardrobe, now).reduce(
+    (total, record) => ({ count: total.count + 1, bytes: total.bytes + record.size }),
+    empty()
+  );
+
+  return {
+    imageBytes: records.reduce((total, record) => total + record.size, 0),
+    byCategory,
+    orphaned,
+    recompressible,
+  };
+};
+
+// ==========================================
+// 4. MAINTENANCE TASKS
+// ==========================================
+
+/**
+ * Image usage plus the browser's estimate for the whole origin
+ */
+export const getStorageUsage = async (wardrobe: ClothingItem[]): Promise<StorageUsage> => {
+  const records = await getImageRecords();
+  const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : undefined;
+
+  return {
+    usage: estimate?.usage ?? null,
+    quota: estimate?.quota ?? null,
+    ...summarizeImageUsage(records, wardrobe),
+  };
+};
+
+/**
+ * Delete images left behind by deleted or failed items
+ */
+export const collectOrphanedImages = async (wardrobe: ClothingItem[]): Promise<CategoryUsage> => {
+  const orphans = findOrphanedImages(await getImageRecords(), wardrobe);
+
+  for (const orphan of orphans) {
+    await deleteImage(orphan.id);
+    invalidateImageURL(orphan.id);
+  }
+
+  return {
+    count: orphans.length,
+    bytes: orphans.reduce((total, orphan) => total + orphan.size, 0),
+  };
+};
+
+/**
+ * Re-compress large wardrobe images (kept only when the result is smaller)
+ * Returns the bytes saved
+ */
+export const recompressImages = async (
+  wardrobe: ClothingItem[],
+  onProgress?: (done: number, total: number) => void
+): Promise<number> => {
+  const wardrobeIds = new Set(wardrobe.map(item => item.id));
+  const targets = (await getImageRecords()).filter(record =>
+    wardrobeIds.has(record.id) && record.imageSize > RECOMPRESS_MIN_BYTES
+  );
+  const scheduler = PipelineScheduler.getInstance();
+  let saved = 0;
+  let done = 0;
+
+  await Promise.all(targets.map(record =>
+    scheduler.run('save', async () => {
+      try {
+        const blob = await getImage(record.id);
+        if (!blob) return;
+
+        const file = new File([blob], `${record.id}.jpg`, { type: blob.type || 'image/jpeg' });
+        const compressed = await compressImage(file, RECOMPRESS_MAX_MB, RECOMPRESS_MAX_DIMENSION);
+        if (compressed.size < blob.size) {
+          await saveImage(record.id, compressed);
+          invalidateImageURL(record.id);
+          saved += blob.size - compressed.size;
+        }
+      } catch (error) {
+        // One bad image shouldn't stop the rest
+        console.error(`Failed to re-compress image ${record.id}:`, error);
+      } finally {
+        onProgress?.(++done, targets.length);
+      }
+    })
+  ));
+
+  return saved;
+};
@@ -0,0 +1,248 @@
+import type { SyncCollection, SyncKeyEnvelope } from '../types';
+
+// ==========================================
+// 1. CONSTANTS & CONFIGURATION
+// ==========================================
+
+// OWASP's recommendation for PBKDF2-HMAC-SHA256
+export const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12; // AES-GCM nonce
+const PAYLOAD_VERSION = 'v2'; // v2: every payload is bound to where it's stored
+
+// Encrypted with the sync key and kept next to it, to check a recovery key
+const VERIFIER_TEXT = 'fitted-sync-key';
+
+// Associated data for the envelope's payloads
+const WRAPPED_KEY_CONTEXT = 'key';
+const VERIFIER_CONTEXT = 'verifier';
+
+// ==========================================
+// 2. ENCODING
+// ==========================================
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked: String.fromCharCode can't take a whole image as arguments
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+// ==========================================
+// 3. KEYS
+// ==========================================
+
+const deriveWrappingKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const importSyncKey = (raw: Uint8Array<ArrayBuffer>, extractable: boolean) =>
+  crypto.subtle.importKey('raw', raw, 'AES-GCM', extractable, ['encrypt', 'decrypt']);
+
+/**
+ * New sync key for a sync space
+ *
+ * The key itself is random; the envelope (stored on the server) holds it
+ * encrypted with a key derived from the passphrase, so another device can
+ * unlock it with the same passphrase. The returned key can't be exported.
+ */
+export const createSyncKey = async (
+  passphrase: string,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<{ key: CryptoKey; envelope: SyncKeyEnvelope }> => {
+  const raw = randomBytes(32);
+  const salt = randomBytes(SALT_BYTES);
+  const key = await importSyncKey(raw, false);
+  const wrappingKey = await deriveWrappingKey(passphrase, salt, iterations);
+
+  return {
+    key,
+    envelope: {
+      version: 2,
+      salt: toBase64(salt),
+      iterations,
+      wrappedKey: await encryptBytes(wrappingKey, raw, WRAPPED_KEY_CONTEXT),
+      verifier: await encryptValue(key, VERIFIER_TEXT, VERIFIER_CONTEXT),
+    },
+  };
+};
+
+const checkVerifier = async (key: CryptoKey, envelope: SyncKeyEnvelope): Promise<boolean> => {
+  try {
+    return (await decryptValue(key, envelope.verifier, VERIFIER_CONTEXT)) === VERIFIER_TEXT;
+  } catch {
+    return false;
+  }
+};
+
+// Spaces started before payloads were bound to their place can't be read any more
+const checkEnvelopeVersion = (envelope: SyncKeyEnvelope) => {
+  if (envelope.version !== 2) {
+    throw new Error('This sync space uses an old format - turn sync off and start a new one');
+  }
+};
+
+/**
+ * Unlock a sync space's key with its passphrase
+ * Throws when the passphrase is wrong
+ */
+export const unlockSyncKey = async (
+  envelope: SyncKeyEnvelope,
+  passphrase: string,
+  extractable: boolean = false
+): Promise<CryptoKey> => {
+  checkEnvelopeVersion(envelope);
+  const wrappingKey = await deriveWrappingKey(passphrase, fromBase64(envelope.salt), envelope.iterations);
+  let raw: Uint8Array<ArrayBuffer>;
+  try {
+    raw = await decryptBytes(wrappingKey, envelope.wrappedKey, WRAPPED_KEY_CONTEXT);
+  } catch {
+    throw new Error('Wrong passphrase');
+  }
+
+  const key = await importSyncKey(raw, extractable);
+  if (!(await checkVerifier(key, envelope))) {
+    throw new Error('Wrong passphrase');
+  }
+  return key;
+};
+
+/**
+ * Recovery key: the sync key itself, for when the passphrase is forgotten
+ * (grouped hex, e.g. "1A2B-3C4D-...")
+ */
+export const exportRecoveryKey = async (envelope: SyncKeyEnvelope, passphrase: string): Promise<string> => {
+  const key = await unlockSyncKey(envelope, passphrase, true);
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', key));
+  const hex = Array.from(raw, (byte) => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+  return hex.match(/.{4}/g)!.join('-');
+};
+
+/**
+ * Unlock a sync space's key with a recovery key
+ * Throws when the recovery key doesn't belong to this sync space
+ */
+export const importRecoveryKey = async (envelope: SyncKeyEnvelope, recoveryKey: string): Promise<CryptoKey> => {
+  checkEnvelopeVersion(envelope);
+  const hex = recoveryKey.replace(/[^0-9a-f]/gi, '');
+  if (hex.length !== 64) {
+    throw new Error('A recovery key has 64 characters (not counting dashes)');
+  }
+
+  const key = await importSyncKey(Uint8Array.from(hex.match(/.{2}/g)!, (pair) => parseInt(pair, 16)), false);
+  if (!(await checkVerifier(key, envelope))) {
+    throw new Error('This recovery key is for a different sync space');
+  }
+  return key;
+};
+
+// ==========================================
+// 4. PAYLOADS
+// ==========================================
+
+/**
+ * Encrypt bytes with AES-GCM (fresh IV each time): "v2.<iv>.<ciphertext>"
+ *
+ * `context` (e.g. "wardrobe:<id>:colors") is authenticated but not stored:
+ * decrypting needs the same context, so the server can't move a payload to
+ * another document, field or image without it failing to decrypt.
+ */
+export const encryptBytes = async (key: CryptoKey, bytes: Uint8Array<ArrayBuffer>, context: string): Promise<string> => {
+  const iv = randomBytes(IV_BYTES);
+  const additionalData = new TextEncoder().encode(context);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData }, key, bytes));
+  return `${PAYLOAD_VERSION}.${toBase64(iv)}.${toBase64(ciphertext)}`;
+};
+
+/**
+ * Decrypt a payload from encryptBytes (throws if it was tampered with, moved, or the key is wrong)
+ */
+export const decryptBytes = async (key: CryptoKey, payload: string, context: string): Promise<Uint8Array<ArrayBuffer>> => {
+  const [version, iv, ciphertext] = payload.split('.');
+  if (version !== PAYLOAD_VERSION || !iv || !ciphertext) {
+    throw new Error('Unrecognized encrypted payload');
+  }
+  const additionalData = new TextEncoder().encode(context);
+  return new Uint8Array(
+    await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv), additionalData }, key, fromBase64(ciphertext))
+  );
+};
+
+export const encryptValue = (key: CryptoKey, value: unknown, context: string): Promise<string> =>
+  encryptBytes(key, new TextEncoder().encode(JSON.stringify(value)), context);
+
+export const decryptValue = async (key: CryptoKey, payload: string, context: string): Promise<unknown> =>
+  JSON.parse(new TextDecoder().decode(await decryptBytes(key, payload, context)));
+
+const getFieldContext = (collection: SyncCollection, id: string, field: string) => `${collection}:${id}:${field}`;
+const getImageContext = (itemId: string) => `image:${itemId}`;
+
+/**
+ * Encrypt a synced document field by field
+ * Field names stay readable so the server can still merge per field; values don't
+ */
+export const encryptSyncData = async (
+  key: CryptoKey,
+  collection: SyncCollection,
+  id: string,
+  data: Record<string, unknown> | null
+): Promise<Record<string, string> | null> => {
+  if (!data) return null;
+  const fields = await Promise.all(
+    Object.entries(data).map(async ([field, value]) =>
+      [field, await encryptValue(key, value, getFieldContext(collection, id, field))] as const
+    )
+  );
+  return Object.fromEntries(fields);
+};
+
+export const decryptSyncData = async (
+  key: CryptoKey,
+  collection: SyncCollection,
+  id: string,
+  data: Record<string, unknown> | null
+): Promise<Record<string, unknown> | null> => {
+  if (!data) return null;
+  const fields = await Promise.all(
+    Object.entries(data).map(async ([field, value]) =>
+      [field, await decryptValue(key, String(value), getFieldContext(collection, id, field))] as const
+    )
+  );
+  return Object.fromEntries(fields);
+};
+
+/**
+ * Encrypt an item's image (its type travels inside the ciphertext)
+ */
+export const encryptBlob = async (key: CryptoKey, itemId: string, blob: Blob): Promise<string> => {
+  const type = new TextEncoder().encode(blob.type || 'application/octet-stream');
+  const bytes = new Uint8Array(type.length + 1 + blob.size);
+  bytes.set(type);
+  bytes.set(new Uint8Array(await blob.arrayBuffer()), type.length + 1);
+  return encryptBytes(key, bytes, getImageContext(itemId));
+};
+
+export const decryptBlob = async (key: CryptoKey, itemId: string, payload: string): Promise<Blob> => {
+  const bytes = await decryptBytes(key, payload, getImageContext(itemId));
+  const separator = bytes.indexOf(0);
+  if (separator === -1) {
+    throw new Error('Unrecognized encrypted image');
+  }
+  return new Blob([bytes.subarray(separator + 1)], { type: new TextDecoder().decode(bytes.subarray(0, separator)) });
+};
@@ -0,0 +1,226 @@
+import type {
+  ClothingItem,
+  Outfit,
+  SyncChange,
+  SyncCollection,
+  SyncDocument,
+  SyncState,
+  UserProfile,
+} from '../types';
+
+// ==========================================
+// 1. CONSTANTS & CONFIGURATION
+// ==========================================
+
+export const PROFILE_DOCUMENT_ID = 'profile';
+
+// How concurrent edits to the same document are resolved:
+// - 'field': every top-level field keeps its latest edit (an item recolored on
+//   the phone and re-categorized on the laptop keeps both edits)
+// - 'document': the most recently edited version wins as a whole (last writer wins)
+export const MERGE_STRATEGIES: Record<SyncCollection, 'field' | 'document'> = {
+  wardrobe: 'field',
+  outfitHistory: 'document',
+  profile: 'field',
+};
+
+export const INITIAL_SYNC_STATE: SyncState = {
+  space: null,
+  revision: 0,
+  documents: {},
+  pending: {},
+  uploadedImages: [],
+  lastSyncedAt: null,
+};
+
+// ==========================================
+// 2. TYPES
+// ==========================================
+
+export type SyncData = Record<string, unknown>;
+
+// The parts of the store that sync
+export interface SyncedData {
+  wardrobe: ClothingItem[];
+  outfitHistory: Outfit[];
+  profile: UserProfile;
+}
+
+interface LocalDocument {
+  collection: SyncCollection;
+  id: string;
+  value: object;
+  editedAt: number; // Best guess at when it was last edited, for documents synced for the first time
+}
+
+// ==========================================
+// 3. CHANGE TRACKING (client)
+// ==========================================
+
+export const getDocumentKey = (collection: SyncCollection, id: string) => `${collection}:${id}`;
+
+export const parseDocumentKey = (key: string): { collection: SyncCollection; id: string } => {
+  const separator = key.indexOf(':');
+  return { collection: key.slice(0, separator) as SyncCollection, id: key.slice(separator + 1) };
+};
+
+/**
+ * JSON form of a document (dates become ISO strings)
+ */
+export const toSyncData = (value: object): SyncData => JSON.parse(JSON.stringify(value));
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Top-level fields that differ between two versions of a document
+ */
+export const getChangedFields = (previous: SyncData | null, next: SyncData | null): string[] => {
+  const fields = new Set([...Object.keys(previous ?? {}), ...Object.keys(next ?? {})]);
+  return [...fields].filter(field => !sameValue(previous?.[field], next?.[field]));
+};
+
+const toDate = (value: Date | string | undefined) => (value ? new Date(value).getTime() || 0 : 0);
+
+const getLocalDocuments = (data: SyncedData, collections: SyncCollection[]): Map<string, LocalDocument> => {
+  const documents = new Map<string, LocalDocument>();
+  const add = (document: LocalDocument) => documents.set(getDocumentKey(document.collection, document.id), document);
+
+  if (collections.includes('wardrobe')) {
+    data.wardrobe.forEach(item => add({ collection: 'wardrobe', id: item.id, value: item, editedAt: toDate(item.uploadedAt) }));
+  }
+  if (collections.includes('outfitHistory')) {
+    data.outfitHistory.forEach(outfit => add({ collection: 'outfitHistory', id: outfit.id, value: outfit, editedAt: toDate(outfit.createdAt) }));
+  }
+  if (collections.includes('profile')) {
+    add({ collection: 'profile', id: PROFILE_DOCUMENT_ID, value: data.profile, editedAt: toDate(data.profile.completedAt) });
+  }
+  return documents;
+};
+
+/**
+ * Sync state for a device that just turned sync on: everything it has is
+ * pending, stamped with when it was created (so onboarding done later on
+ * another device wins over this one, field by field)
+ */
+export const createInitialSyncState = (data: SyncedData, space: string, now: number = Date.now()): SyncState => {
+  const documents: SyncState['documents'] = {};
+  const pending: SyncState['pending'] = {};
+
+  getLocalDocuments(data, ['wardrobe', 'outfitHistory', 'profile']).forEach((document, key) => {
+    const fieldClock = Object.fromEntries(Object.keys(toSyncData(document.value)).map(field => [field, document.editedAt]));
+    documents[key] = { revision: 0, fieldClock };
+    pending[key] = now;
+  });
+
+  return { ...INITIAL_SYNC_STATE, space, documents, pending };
+};
+
+/**
+ * Stamp local edits between two store snapshots and mark them pending
+ * Returns the same state when nothing synced changed
+ */
+export const trackLocalChanges = (
+  previous: SyncedData,
+  next: SyncedData,
+  sync: SyncState,
+  now: number = Date.now()
+): SyncState => {
+  const collections = (['wardrobe', 'outfitHistory', 'profile'] as const).filter(
+    collection => previous[collection] !== next[collection]
+  );
+  if (collections.length === 0) return sync;
+
+  const before = getLocalDocuments(previous, collections);
+  const after = getLocalDocuments(next, collections);
+  const documents = { ...sync.documents };
+  const pending = { ...sync.pending };
+  let changed = false;
+
+  new Set([...before.keys(), ...after.keys()]).forEach(key => {
+    const old = before.get(key);
+    const current = after.get(key);
+    if (old?.value === current?.value) return;
+
+    const fields = getChangedFields(old ? toSyncData(old.value) : null, current ? toSyncData(current.value) : null);
+    if (current && fields.length === 0) return;
+
+    const record = documents[key] ?? { revision: 0, fieldClock: {} };
+    documents[key] = current
+      ? { revision: record.revision, fieldClock: { ...record.fieldClock, ...Object.fromEntries(fields.map(field => [field, now])) } }
+      : { ...record, deletedAt: now };
+    pending[key] = now;
+    changed = true;
+  });
+
+  return changed ? { ...sync, documents, pending } : sync;
+};
+
+/**
+ * The change to push for a pending document (deleted when it's no longer in the store)
+ */
+export const createSyncChange = (key: string, data: SyncedData, sync: SyncState): SyncChange => {
+  const { collection, id } = parseDocumentKey(key);
+  const record = sync.documents[key] ?? { revision: 0, fieldClock: {} };
+  const document = getLocalDocuments(data, [collection]).get(key);
+
+  return {
+    collection,
+    id,
+    baseRevision: record.revision,
+    data: document ? toSyncData(document.value) : null,
+    fieldClock: record.fieldClock,
+    ...(!document && { deletedAt: record.deletedAt ?? Date.now() }),
+  };
+};
+
+// ==========================================
+// 4. MERGING (server)
+// ==========================================
+
+export const getLastEditedAt = (document: Pick<SyncDocument, 'fieldClock' | 'deletedAt'>): number =>
+  Math.max(0, document.deletedAt ?? 0, ...Object.values(document.fieldClock));
+
+/**
+ * Merge a pushed change into the server's copy of a document
+ *
+ * Returns `current` itself when the change loses outright, so callers can
+ * tell whether the document needs a new revision.
+ */
+export const mergeDocument = (current: SyncDocument | undefined, change: SyncChange): SyncDocument => {
+  const incoming: SyncDocument = {
+    collection: change.collection,
+    id: change.id,
+    revision: current?.revision ?? 0,
+    data: change.data,
+    fieldClock: change.fieldClock,
+    ...(change.data === null && { deletedAt: change.deletedAt ?? getLastEditedAt(change) }),
+  };
+
+  // New document, or the device had seen the latest version: nothing to merge
+  if (!current || change.baseRevision >= current.revision) return incoming;
+
+  // A deletion against an edit (or two versions, last writer wins): latest edit wins
+  // (editing an item on one device after deleting it on another brings it back)
+  if (incoming.data === null || current.data === null || MERGE_STRATEGIES[change.collection] === 'document') {
+    return getLastEditedAt(incoming) > getLastEditedAt(current) ? incoming : current;
+  }
+
+  // Field-level merge: each field from whichever side edited it last
+  const data: SyncData = {};
+  const fieldClock: Record<string, number> = {};
+  const fields = new Set([
+    ...Object.keys(current.data),
+    ...Object.keys(incoming.data),
+    ...Object.keys(current.fieldClock),
+    ...Object.keys(incoming.fieldClock),
+  ]);
+
+  fields.forEach(field => {
+    const source = (incoming.fieldClock[field] ?? 0) > (current.fieldClock[field] ?? 0) ? incoming : current;
+    if (source.data && field in source.data) data[field] = source.data[field];
+    if (source.fieldClock[field] !== undefined) fieldClock[field] = source.fieldClock[field];
+  });
+
+  if (sameValue(data, current.data) && sameValue(fieldClock, current.fieldClock)) return current;
+  return { ...current, data, fieldClock };
+};
@@ -0,0 +1,129 @@
+import type { ComfortFeedback, ThermalComfortModel, UserProfile, WeatherData } from '../types';
+import { defaultLifestyle, defaultWeatherPreferences } from './profileDefaults';
+
+// ==========================================
+// 1. CONSTANTS & CONFIGURATION
+// ==========================================
+
+// Where most people are comfortable in everyday clothes (°F)
+const COMFORT_TEMPERATURE = 65;
+
+// How much of the outdoor weather each commute is out in (0-1)
+const COMMUTE_EXPOSURE: Record<NonNullable<UserProfile['lifestyle']>['commute'], number> = {
+  walk: 0.8,
+  bike: 0.9,
+  'public-transit': 0.6,
+  drive: 0.3,
+};
+
+// Riding adds its own headwind to the wind chill
+const BIKE_WIND_MPH = 10;
+
+// Hours outdoors per week at which someone is out in all of it
+const FULL_EXPOSURE_HOURS = 10;
+
+// Even fully sheltered, this share of the distance from comfortable is still felt
+const SHELTERED_SHARE = 0.7;
+
+// °F per sensitivity point away from the middle (5), reached this many °F from comfortable
+const SENSITIVITY_DEGREES = 1.5;
+const SENSITIVITY_RAMP = 10;
+
+// Calibration: the first "too cold" moves 3°F, later ones less; never more than 12°F in total
+const CALIBRATION_STEP = 3;
+const MAX_CALIBRATION = 12;
+
+// ==========================================
+// 2. WEATHER
+// ==========================================
+
+/**
+ * NWS wind chill (only defined at 50°F and below with some wind)
+ */
+export const getWindChill = (temperature: number, windSpeed: number): number => {
+  if (temperature > 50 || windSpeed < 3) return temperature;
+  const wind = windSpeed ** 0.16;
+  return 35.74 + 0.6215 * temperature - 35.75 * wind + 0.4275 * temperature * wind;
+};
+
+/**
+ * NWS heat index (Rothfusz regression, used from 80°F up)
+ */
+export const getHeatIndex = (temperature: number, humidity: number): number => {
+  if (temperature < 80) return temperature;
+  const t = temperature;
+  const rh = humidity;
+  return -42.379 + 2.04901523 * t + 10.14333127 * rh - 0.22475541 * t * rh
+    - 0.00683783 * t * t - 0.05481717 * rh * rh + 0.00122874 * t * t * rh
+    + 0.00085282 * t * rh * rh - 0.00000199 * t * t * rh * rh;
+};
+
+// ==========================================
+// 3. MODEL
+// ==========================================
+
+/**
+ * Calibration for a user without comfort feedback (no adjustment)
+ */
+export const createThermalComfortModel = (): ThermalComfortModel => ({
+  offset: 0,
+  feedbackCount: 0,
+});
+
+/**
+ * How much of the weather the user is out in (0-1), from commute and time outdoors
+ */
+const getExposure = (profile: UserProfile): number => {
+  const lifestyle = profile.lifestyle ?? defaultLifestyle;
+  const commute = COMMUTE_EXPOSURE[lifestyle.commute] ?? COMMUTE_EXPOSURE.walk;
+  return commute + (1 - commute) * Math.min(1, lifestyle.outdoorTime / FULL_EXPOSURE_HOURS);
+};
+
+/**
+ * The temperature (°F) an outfit should be dressed for, for this user
+ *
+ * 1. Wind chill (plus a bike's headwind) or heat index, from the raw reading
+ * 2. Pulled toward comfortable for users who are mostly indoors or in a car
+ * 3. Shifted by cold / heat sensitivity (0-10), more the further it is from comfortable
+ * 4. Shifted by what the user's comfort feedback has taught (profile.thermalComfort)
+ *
+ * Every weather rule in the local generator uses this instead of weather.temperature.
+ */
+export const getEffectiveTemperature = (weather: WeatherData, profile: UserProfile): number => {
+  const commute = profile.lifestyle?.commute ?? defaultLifestyle.commute;
+  const windSpeed = weather.windSpeed + (commute === 'bike' ? BIKE_WIND_MPH : 0);
+  const apparent = weather.temperature <= 50
+    ? getWindChill(weather.temperature, windSpeed)
+    : getHeatIndex(weather.temperature, weather.humidity);
+
+  const exposure = getExposure(profile);
+  let felt = COMFORT_TEMPERATURE + (apparent - COMFORT_TEMPERATURE) * (SHELTERED_SHARE + (1 - SHELTERED_SHARE) * exposure);
+
+  const { coldSensitivity, heatSensitivity } = profile.weatherPreferences ?? defaultWeatherPreferences;
+  const ramp = Math.min(1, Math.abs(felt - COMFORT_TEMPERATURE) / SENSITIVITY_RAMP);
+  felt += felt < COMFORT_TEMPERATURE
+    ? -(coldSensitivity - 5) * SENSITIVITY_DEGREES * ramp
+    : (heatSensitivity - 5) * SENSITIVITY_DEGREES * ramp;
+
+  return felt + (profile.thermalComfort?.offset ?? 0);
+};
+
+/**
+ * Learn from how a worn outfit felt
+ * "Too cold" lowers the effective temperature (warmer outfits next time), "too warm"
+ * raises it; "just right" only adds confidence. Steps shrink as feedback accumulates.
+ */
+export const calibrateThermalComfort = (
+  model: ThermalComfortModel = createThermalComfortModel(),
+  feedback: ComfortFeedback
+): ThermalComfortModel => {
+  const step = CALIBRATION_STEP / Math.sqrt(1 + model.feedbackCount);
+  const direction = feedback === 'too-cold' ? -1 : feedback === 'too-warm' ? 1 : 0;
+  const offset = Math.max(-MAX_CALIBRATION, Math.min(MAX_CALIBRATION, model.offset + direction * step));
+
+  return {
+    offset,
+    feedbackCount: model.feedbackCount + 1,
+    updatedAt: new Date().toISOString(),
+  };
+};
@@ -0,0 +1,228 @@
+import type { ArchiveImportMode, ArchiveImportSummary, ClothingItem, Outfit, UserProfile, WardrobeArchive } from '../types';
+
+// ==========================================
+// 1. CONSTANTS & CONFIGURATION
+// ==========================================
+
+export const ARCHIVE_FORMAT: WardrobeArchive['format'] = 'fitted-wardrobe';
+export const ARCHIVE_VERSION = 1;
+
+// ==========================================
+// 2. TYPES
+// ==========================================
+
+export interface ArchiveImportPlan {
+  profile: UserProfile | null; // null = keep the current profile (merge)
+  wardrobe: ClothingItem[];
+  outfitHistory: Outfit[];
+  images: Array<{ id: string; dataUrl: string }>; // To write to IndexedDB
+  summary: ArchiveImportSummary;
+}
+
+export type ArchiveParseResult =
+  | { success: true; archive: WardrobeArchive }
+  | { success: false; error: string };
+
+// ==========================================
+// 3. EXPORT
+// ==========================================
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',', 2);
+  const type = header.match(/^data:([^;]+)/)?.[1] ?? 'application/octet-stream';
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+};
+
+/**
+ * Bundle the profile, wardrobe, outfit history and their images
+ * Items whose image is missing are exported without one
+ */
+export const createWardrobeArchive = async (
+  data: { profile: UserProfile; wardrobe: ClothingItem[]; outfitHistory: Outfit[] },
+  loadImage: (id: string) => Promise<Blob | undefined>
+): Promise<WardrobeArchive> => {
+  const images: Record<string, string> = {};
+  for (const item of data.wardrobe) {
+    const blob = await loadImage(item.id);
+    if (blob) {
+      images[item.id] = await blobToDataUrl(blob);
+    }
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile: data.profile,
+    wardrobe: data.wardrobe,
+    outfitHistory: data.outfitHistory,
+    images,
+  };
+};
+
+// ==========================================
+// 4. VALIDATION
+// ==========================================
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValidDate = (value: unknown) =>
+  (typeof value === 'string' || value instanceof Date) && !Number.isNaN(new Date(value).getTime());
+
+const CATEGORIES = new Set(['top', 'bottom', 'shoes', 'accessory', 'outerwear']);
+
+const validateItem = (item: unknown, where: string): string | null => {
+  if (!isObject(item)) return `${where} is not an object`;
+  if (typeof item.id !== 'string' || !item.id) return `${where} has no id`;
+  if (typeof item.category !== 'string' || !CATEGORIES.has(item.category)) return `${where} has an unknown category`;
+  if (!Array.isArray(item.colors) || !item.colors.every(color => typeof color === 'string')) return `${where} has invalid colors`;
+  if (!isValidDate(item.uploadedAt)) return `${where} has an invalid upload date`;
+  return null;
+};
+
+// Dates come back from JSON as strings
+const reviveItem = (item: ClothingItem): ClothingItem => ({ ...item, uploadedAt: new Date(item.uploadedAt) });
+
+/**
+ * Check an uploaded file's JSON against the archive schema
+ */
+export const parseWardrobeArchive = (json: unknown): ArchiveParseResult => {
+  if (!isObject(json) || json.format !== ARCHIVE_FORMAT) {
+    return { success: false, error: 'This is not a Fitted wardrobe backup' };
+  }
+  if (typeof json.version !== 'number' || json.version > ARCHIVE_VERSION) {
+    return { success: false, error: 'This backup was made by a newer version of the app' };
+  }
+  if (!isObject(json.profile) || !Array.isArray(json.wardrobe) || !Array.isArray(json.outfitHistory) || !isObject(json.images)) {
+    return { success: false, error: 'The backup is missing required sections' };
+  }
+
+  for (let i = 0; i < json.wardrobe.length; i++) {
+    const error = validateItem(json.wardrobe[i], `Wardrobe item ${i + 1}`);
+    if (error) return { success: false, error };
+  }
+  for (let i = 0; i < json.outfitHistory.length; i++) {
+    const outfit = json.outfitHistory[i];
+    if (!isObject(outfit) || typeof outfit.id !== 'string' || !Array.isArray(outfit.items) || !isValidDate(outfit.createdAt)) {
+      return { success: false, error: `Outfit ${i + 1} is invalid` };
+    }
+    for (let j = 0; j < outfit.items.length; j++) {
+      const error = validateItem(outfit.items[j], `Item ${j + 1} of outfit ${i + 1}`);
+      if (error) return { success: false, error };
+    }
+  }
+  for (const [id, dataUrl] of Object.entries(json.images)) {
+    if (typeof dataUrl !== 'string' || !dataUrl.startsWith('data:image/')) {
+      return { success: false, error: `Image ${id} is not a valid image` };
+    }
+  }
+
+  const archive = json as unknown as WardrobeArchive;
+  return {
+    success: true,
+    archive: {
+      ...archive,
+      wardrobe: archive.wardrobe.map(reviveItem),
+      outfitHistory: archive.outfitHistory.map(outfit => ({
+        ...outfit,
+        createdAt: new Date(outfit.createdAt),
+        items: outfit.items.map(reviveItem),
+      })),
+    },
+  };
+};
+
+// ==========================================
+// 5. IMPORT
+// ==========================================
+
+const sameTime = (a: Date | string, b: Date | string) => new Date(a).getTime() === new Date(b).getTime();
+
+/**
+ * Work out what an import changes, without touching storage
+ *
+ * Replace: the archive's data as-is.
+ * Merge: the archive is added to the current data. An item with the same id and
+ * upload time is the same item and is skipped; any other id clash gets a fresh id
+ * (outfits follow their items' new ids).
+ */
+export const planArchiveImport = (
+  archive: WardrobeArchive,
+  current: { wardrobe: ClothingItem[]; outfitHistory: Outfit[] },
+  mode: ArchiveImportMode,
+  createId: () => string = () => crypto.randomUUID()
+): ArchiveImportPlan => {
+  if (mode === 'replace') {
+    return {
+      profile: archive.profile,
+      wardrobe: archive.wardrobe,
+      outfitHistory: archive.outfitHistory,
+      images: Object.entries(archive.images).map(([id, dataUrl]) => ({ id, dataUrl })),
+      summary: { added: archive.wardrobe.length, skipped: 0, renamed: 0, outfits: archive.outfitHistory.length },
+    };
+  }
+
+  const existingItems = new Map(current.wardrobe.map(item => [item.id, item]));
+  const idMap = new Map<string, string>();
+  const addedItems: ClothingItem[] = [];
+  const images: ArchiveImportPlan['images'] = [];
+  let skipped = 0;
+  let renamed = 0;
+
+  archive.wardrobe.forEach(item => {
+    const existing = existingItems.get(item.id);
+    if (existing && sameTime(existing.uploadedAt, item.uploadedAt)) {
+      idMap.set(item.id, item.id);
+      skipped++;
+      return;
+    }
+
+    const id = existing ? createId() : item.id;
+    if (existing) renamed++;
+    idMap.set(item.id, id);
+    addedItems.push({ ...item, id, image: id });
+    if (archive.images[item.id]) {
+      images.push({ id, dataUrl: archive.images[item.id] });
+    }
+  });
+
+  const remapItem = (item: ClothingItem): ClothingItem => {
+    const id = idMap.get(item.id);
+    return id && id !== item.id ? { ...item, id, image: id } : item;
+  };
+
+  // Outfits already in the history (same id, same items) are skipped
+  const existingOutfits = new Map(current.outfitHistory.map(outfit => [outfit.id, outfit]));
+  const outfitKey = (outfit: Outfit) => outfit.items.map(item => item.id).sort().join(',');
+  const addedOutfits: Outfit[] = [];
+
+  archive.outfitHistory.forEach(outfit => {
+    const remapped = { ...outfit, items: outfit.items.map(remapItem) };
+    const existing = existingOutfits.get(outfit.id);
+    if (existing && outfitKey(existing) === outfitKey(remapped)) return;
+    addedOutfits.push(existing ? { ...remapped, id: createId() } : remapped);
+  });
+
+  return {
+    profile: null,
+    wardrobe: [...current.wardrobe, ...addedItems],
+    outfitHistory: [...current.outfitHistory, ...addedOutfits],
+    images,
+    summary: { added: addedItems.length, skipped, renamed, outfits: addedOutfits.length },
+  };
+};
@@ -0,0 +1,68 @@
+/* eslint-disable no-restricted-globals */
+// Worker for generating outfits off the main thread
+// Receives: { type: 'generate', requestId, wardrobe, profile, count, weather?, requiredItem?, occasion?, options? }
+// Receives: { type: 'cancel', requestId }
+// Posts: { type: 'progress', requestId, outfits } after each template is searched
+// Posts final: { type: 'done', requestId, outfits } or { type: 'error', requestId, error }
+// See outfitWorkerProtocol.ts for the message types
+
+import { generateOutfitsProgressively } from '../utils/outfitGenerator';
+import type { GenerateRequest, OutfitWorkerRequest, OutfitWorkerResponse } from './outfitWorkerProtocol';
+import type { Outfit } from '../types';
+
+// When TypeScript can't find DedicatedWorkerGlobalScope in the DOM lib,
+// fall back to typing `self` as any for the worker file.
+const _self: any = self;
+
+const running = new Set<number>();
+const cancelled = new Set<number>();
+
+const post = (message: OutfitWorkerResponse) => {
+  self.postMessage(message);
+};
+
+// Give queued messages (e.g. a cancel) a chance to run between templates
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const runGeneration = async (request: GenerateRequest) => {
+  const { requestId, wardrobe, profile, count, weather, requiredItem, occasion, options } = request;
+  running.add(requestId);
+
+  try {
+    let outfits: Outfit[] = [];
+    const steps = generateOutfitsProgressively(wardrobe, profile, count, weather, requiredItem, occasion, options);
+
+    for (const partial of steps) {
+      if (cancelled.has(requestId)) return;
+      outfits = partial;
+      post({ type: 'progress', requestId, outfits });
+      await yieldToEventLoop();
+    }
+
+    if (cancelled.has(requestId)) return;
+    post({ type: 'done', requestId, outfits });
+  } catch (error) {
+    post({
+      type: 'error',
+      requestId,
+      error: error instanceof Error ? error.message : 'Outfit generation failed',
+    });
+  } finally {
+    running.delete(requestId);
+    cancelled.delete(requestId);
+  }
+};
+
+_self.addEventListener('message', (ev: MessageEvent<OutfitWorkerRequest>) => {
+  const data = ev.data;
+  if (!data) return;
+
+  if (data.type === 'cancel') {
+    if (running.has(data.requestId)) cancelled.add(data.requestId);
+    return;
+  }
+
+  if (data.type === 'generate') {
+    void runGeneration(data);
+  }
+});
@@ -0,0 +1,57 @@
+import type { ClothingItem, Outfit, UserProfile, WeatherData } from '../types';
+import type { GenerateOutfitsOptions } from '../utils/outfitGenerator';
+
+// Message protocol shared by outfitGenerator.worker.ts and outfitWorkerClient.ts
+// Every message carries the requestId of the generation it belongs to, so
+// results from a cancelled or superseded run can be ignored
+
+// Random sources are functions and can't be cloned - pass a seed instead
+export type WorkerGenerateOptions = Omit<GenerateOutfitsOptions, 'random'>;
+
+export interface OutfitGenerationParams {
+  wardrobe: ClothingItem[];
+  profile: UserProfile;
+  count: number;
+  weather?: WeatherData;
+  requiredItem?: ClothingItem;
+  occasion?: string;
+  options?: WorkerGenerateOptions;
+}
+
+// ===== MAIN THREAD -> WORKER =====
+
+export interface GenerateRequest extends OutfitGenerationParams {
+  type: 'generate';
+  requestId: number;
+}
+
+export interface CancelRequest {
+  type: 'cancel';
+  requestId: number;
+}
+
+export type OutfitWorkerRequest = GenerateRequest | CancelRequest;
+
+// ===== WORKER -> MAIN THREAD =====
+
+// Best outfits found so far (sent after each template is searched)
+export interface ProgressResponse {
+  type: 'progress';
+  requestId: number;
+  outfits: Outfit[];
+}
+
+// Final ranking - the run is finished
+export interface DoneResponse {
+  type: 'done';
+  requestId: number;
+  outfits: Outfit[];
+}
+
+export interface ErrorResponse {
+  type: 'error';
+  requestId: number;
+  error: string;
+}
+
+export type OutfitWorkerResponse = ProgressResponse | DoneResponse | ErrorResponse;
@@ -1,9 +1,11 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { localSyncServer } from './api/_lib/localSyncServer'
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  // /api/sync is served locally; every other /api route is proxied
+  plugins: [react(), localSyncServer()],
   server: {
     headers: {
       'Cross-Origin-Opener-Policy': 'same-origin',